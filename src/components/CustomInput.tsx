@@ -6,13 +6,14 @@ import {moderateScale} from '../utils/responsive';
 interface CustomInputProps extends TextInputProps {
   label: string;
   error?: string;
+  hint?: string; // Shown under the field when there is no error
 }
 
 /**
  * Custom Input Component
  * Reusable input field with label and error handling
  */
-export const CustomInput: React.FC<CustomInputProps> = ({label, error, ...props}) => {
+export const CustomInput: React.FC<CustomInputProps> = ({label, error, hint, ...props}) => {
   return (
     <View style={styles.container}>
       <Text style={styles.label}>{label}</Text>
@@ -22,6 +23,7 @@ export const CustomInput: React.FC<CustomInputProps> = ({label, error, ...props}
         {...props}
       />
       {error && <Text style={styles.errorText}>{error}</Text>}
+      {!error && hint && <Text style={styles.hintText}>{hint}</Text>}
     </View>
   );
 };
@@ -54,4 +56,9 @@ const styles = StyleSheet.create({
     color: Colors.error,
     marginTop: Spacing.xs,
   },
+  hintText: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
 });
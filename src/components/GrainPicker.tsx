@@ -0,0 +1,99 @@
+import React from 'react';
+import {View, Text, TextInput, StyleSheet, TouchableOpacity} from 'react-native';
+import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
+import {Grain} from '../models/Grain';
+import {buildGrainLookup, matchGrains} from '../utils/grainMaster';
+import {grainKey} from '../utils/stockLots';
+
+interface GrainPickerProps {
+  grains: Grain[];
+  value: string;
+  onChangeText: (text: string) => void;
+  onSelect?: (grain: Grain) => void; // e.g. to fill in the grain's bag weight or HSN code
+  placeholder?: string;
+}
+
+// Suggestions shown at most, so a long master does not push the form down
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Grain Picker Component
+ * Grain name input with chips for the active master grains matching the name or an alias typed
+ */
+export const GrainPicker: React.FC<GrainPickerProps> = ({grains, value, onChangeText, onSelect, placeholder}) => {
+  const active = grains.filter(grain => grain.isActive);
+  const masterName = buildGrainLookup(grains)[grainKey(value)];
+  const suggestions = masterName === value.trim() ? [] : matchGrains(active, value).slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder || 'e.g., Wheat, Rice, Maize'}
+        placeholderTextColor={Colors.textSecondary}
+        value={value}
+        onChangeText={onChangeText}
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.row}>
+          {suggestions.map(grain => (
+            <TouchableOpacity
+              key={grain.id}
+              style={styles.chip}
+              onPress={() => {
+                onChangeText(grain.name);
+                if (onSelect) onSelect(grain);
+              }}>
+              <Text style={styles.chipText}>
+                {grain.name}
+                {grain.variety ? ` (${grain.variety})` : ''}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {masterName && masterName !== value.trim() ? (
+        <Text style={styles.hint}>Saved as {masterName}</Text>
+      ) : !masterName && value.trim() ? (
+        <Text style={styles.hint}>Not in the grain master; saved as typed</Text>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    ...Typography.body1,
+    color: Colors.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.background,
+  },
+  chipText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+});
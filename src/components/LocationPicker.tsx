@@ -0,0 +1,71 @@
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
+import {StorageLocation} from '../models/StorageLocation';
+
+interface LocationPickerProps {
+  locations: StorageLocation[];
+  selectedId?: string;
+  onSelect: (locationId: string) => void;
+  excludeId?: string; // e.g. the source location when choosing a transfer destination
+}
+
+/**
+ * Location Picker Component
+ * One chip per active storage location
+ */
+export const LocationPicker: React.FC<LocationPickerProps> = ({locations, selectedId, onSelect, excludeId}) => {
+  const options = locations.filter(location => location.isActive && location.id !== excludeId);
+
+  if (options.length === 0) {
+    return <Text style={styles.empty}>No storage locations. Add one under Stock Locations.</Text>;
+  }
+
+  return (
+    <View style={styles.row}>
+      {options.map(location => {
+        const selected = location.id === selectedId;
+        return (
+          <TouchableOpacity
+            key={location.id}
+            style={[styles.chip, selected && styles.chipActive]}
+            onPress={() => onSelect(location.id)}>
+            <Text style={[styles.chipText, selected && styles.chipTextActive]}>{location.name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: Colors.textLight,
+  },
+  empty: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+});
@@ -2,26 +2,6 @@
 export * from '../utils/responsive';
 export {useResponsive} from '../hooks/useResponsive';
 
-/**
- * Grain Types
- */
-export const GRAIN_TYPES = [
-  'Wheat',
-  'Rice',
-  'Barley',
-  'Corn',
-  'Millet',
-  'Sorghum',
-  'Oats',
-  'Rye',
-  'Bajra',
-  'Jowar',
-  'Maize',
-  'Other',
-] as const;
-
-export type GrainType = typeof GRAIN_TYPES[number];
-
 /**
  * Expense Categories
  */
@@ -55,3 +35,77 @@ export type PaymentMode = typeof PAYMENT_MODES[number];
 export const LEND_TYPES = ['MONEY', 'GRAIN'] as const;
 
 export type LendType = typeof LEND_TYPES[number];
+
+/**
+ * GST rates (%) offered on a tax invoice
+ */
+export const GST_RATES = [0, 5, 12, 18] as const;
+
+/**
+ * GST state codes (first two digits of a GSTIN)
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (Old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction',
+};
+
+/**
+ * Default HSN codes for common grains (chapter 10 cereals, pulses, oilseeds)
+ */
+export const GRAIN_HSN_CODES: Record<string, string> = {
+  wheat: '1001',
+  rye: '1002',
+  barley: '1003',
+  oats: '1004',
+  maize: '1005',
+  corn: '1005',
+  rice: '1006',
+  paddy: '1006',
+  sorghum: '1007',
+  jowar: '1007',
+  millet: '1008',
+  bajra: '1008',
+  gram: '0713',
+  chana: '0713',
+  soybean: '1201',
+  soyabean: '1201',
+  mustard: '1207',
+};
@@ -1,4 +1,5 @@
 import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import DatabaseService from './DatabaseService';
 
 /**
  * Base Repository Interface
@@ -76,6 +77,13 @@ export abstract class BaseRepository<T> implements IRepository<T> {
     }
   }
 
+  /**
+   * Run work as a single unit of work; all writes commit together or roll back together
+   */
+  public async runInTransaction<R>(work: () => Promise<R>): Promise<R> {
+    return DatabaseService.runInTransaction(() => work());
+  }
+
   /**
    * Insert a row with provided columns and params, preserving provided id/timestamps
    */
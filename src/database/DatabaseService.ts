@@ -1,9 +1,5 @@
 import SQLite, {SQLiteDatabase} from 'react-native-sqlite-storage';
-import {TableSchemas} from '../models/Transaction';
-import {FarmerTableSchema} from '../models/Farmer';
-import {PaymentTableSchema} from '../models/Payment';
-import {MerchantTableSchema} from '../models/Merchant';
-import {CustomerTableSchema} from '../models/Customer';
+import {runMigrations as runSchemaMigrations, getSchemaVersion} from './migrations';
 
 /**
  * Database Service implementing Single Responsibility Principle
@@ -13,6 +9,9 @@ export class DatabaseService {
   private static instance: DatabaseService;
   private database: SQLiteDatabase | null = null;
   private readonly dbName = 'mandi_app.db';
+  private transactionQueue: Promise<void> = Promise.resolve();
+  private transactionActive = false;
+  private afterCommitCallbacks: Array<() => void | Promise<void>> = [];
 
   private constructor() {
     SQLite.enablePromise(true);
@@ -48,41 +47,30 @@ export class DatabaseService {
       return this.database;
     } catch (error) {
       console.error('Error opening database:', error);
+      // Do not hand out a connection whose schema failed to migrate
+      if (this.database) {
+        await this.database.close().catch(() => {});
+        this.database = null;
+      }
       throw error;
     }
   }
 
   /**
-   * Create all required tables
+   * Create all required tables by bringing the schema up to the latest version
    */
   private async createTables(): Promise<void> {
     if (!this.database) {
       throw new Error('Database not initialized');
     }
 
-    try {
-      await this.database.executeSql(FarmerTableSchema);
-      await this.database.executeSql(MerchantTableSchema);
-      await this.database.executeSql(CustomerTableSchema);
-      await this.database.executeSql(TableSchemas.BUY_TRANSACTIONS);
-      await this.database.executeSql(TableSchemas.SELL_TRANSACTIONS);
-      await this.database.executeSql(TableSchemas.LEND_TRANSACTIONS);
-      await this.database.executeSql(TableSchemas.EXPENSE_TRANSACTIONS);
-      await this.database.executeSql(TableSchemas.EXPENSES);
-      await this.database.executeSql(PaymentTableSchema);
-      
-      // Run migrations
-      await this.runMigrations();
-      
-      console.log('All tables created successfully');
-    } catch (error) {
-      console.error('Error creating tables:', error);
-      throw error;
-    }
+    await this.runMigrations();
+    console.log('All tables created successfully');
   }
 
   /**
-   * Run database migrations
+   * Run pending versioned migrations (see ./migrations). A failing migration is
+   * rolled back and rethrown so the app does not continue on a partial schema.
    */
   private async runMigrations(): Promise<void> {
     if (!this.database) {
@@ -90,93 +78,26 @@ export class DatabaseService {
     }
 
     try {
-      // Migration: Add labour_charges_settled column to buy_transactions
-      await this.database.executeSql(`
-        ALTER TABLE buy_transactions ADD COLUMN labour_charges_settled INTEGER DEFAULT 0
-      `).catch(() => {
-        // Column already exists, ignore error
-        console.log('labour_charges_settled column already exists');
-      });
-      
-      // Migration: Ensure invoice_number uniqueness for buy_transactions and sell_transactions
-      // Use IF NOT EXISTS so this is safe to run multiple times
-      await this.database.executeSql(`
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_buy_invoice_number ON buy_transactions(invoice_number)
-      `).catch((e) => {
-        console.log('idx_buy_invoice_number already exists or could not be created', e?.message || e);
-      });
-
-      await this.database.executeSql(`
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_sell_invoice_number ON sell_transactions(invoice_number)
-      `).catch((e) => {
-        console.log('idx_sell_invoice_number already exists or could not be created', e?.message || e);
-      });
-      // Migration: Create remote-local mapping table to keep track of cloud <-> local id mappings
-      await this.database.executeSql(`
-        CREATE TABLE IF NOT EXISTS remote_local_mappings (
-          remote_id TEXT PRIMARY KEY,
-          local_id TEXT,
-          entity_type TEXT,
-          created_at TEXT DEFAULT (datetime('now'))
-        )
-      `).catch((e) => {
-        console.log('remote_local_mappings table already exists or could not be created', e?.message || e);
-      });
-      // Migration: Create sync logs table for troubleshooting
-      await this.database.executeSql(`
-        CREATE TABLE IF NOT EXISTS sync_logs (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          level TEXT,
-          message TEXT,
-          meta TEXT,
-          created_at TEXT DEFAULT (datetime('now'))
-        )
-      `).catch((e) => {
-        console.log('sync_logs table already exists or could not be created', e?.message || e);
-      });
-
-      // Migration: Ensure lend_transactions has expected columns (safe to run repeatedly)
-      // Older app installs may have an earlier lend_transactions schema; add missing columns if necessary.
-      const lendAlterStmts = [
-        "ALTER TABLE lend_transactions ADD COLUMN expected_return_date TEXT",
-        "ALTER TABLE lend_transactions ADD COLUMN returned_amount REAL DEFAULT 0",
-        "ALTER TABLE lend_transactions ADD COLUMN returned_quantity REAL DEFAULT 0",
-        "ALTER TABLE lend_transactions ADD COLUMN balance_amount REAL DEFAULT 0",
-        "ALTER TABLE lend_transactions ADD COLUMN balance_quantity REAL DEFAULT 0",
-        "ALTER TABLE lend_transactions ADD COLUMN payment_status TEXT DEFAULT 'PENDING'",
-        "ALTER TABLE lend_transactions ADD COLUMN invoice_number TEXT",
-      ];
-
-      for (const stmt of lendAlterStmts) {
-        // swallow errors when column already exists
-        // sqlite will error if column exists, so we catch and log and continue
-        // keeping migrations idempotent
-        // eslint-disable-next-line no-await-in-loop
-        await this.database.executeSql(stmt).catch((e) => {
-          // detect "duplicate column name" or generic errors and ignore
-          console.log('lend migration (safe add) skipped or failed:', e?.message || e);
-        });
-      }
-      // Migration: Add interest/principal columns to payments table if missing
-      const paymentAlterStmts = [
-        "ALTER TABLE payments ADD COLUMN principal_amount REAL DEFAULT 0",
-        "ALTER TABLE payments ADD COLUMN interest_amount REAL DEFAULT 0",
-      ];
-      for (const stmt of paymentAlterStmts) {
-        // swallow errors when column already exists
-        // eslint-disable-next-line no-await-in-loop
-        await this.database.executeSql(stmt).catch((e) => {
-          console.log('payments migration (safe add) skipped or failed:', e?.message || e);
-        });
-      }
-      
-      console.log('Migrations completed successfully');
+      const applied = await runSchemaMigrations(this.database);
+      console.log(
+        applied.length > 0
+          ? `Migrations completed successfully: ${applied.join(', ')}`
+          : 'Database schema is up to date',
+      );
     } catch (error) {
       console.error('Error running migrations:', error);
-      // Don't throw, migrations might fail if already applied
+      throw error;
     }
   }
 
+  /**
+   * Currently applied schema version
+   */
+  public async getSchemaVersion(): Promise<number> {
+    const db = await this.initDatabase();
+    return getSchemaVersion(db);
+  }
+
   /**
    * Get database instance
    */
@@ -187,6 +108,101 @@ export class DatabaseService {
     return this.database;
   }
 
+  /**
+   * Connection for writers that run alongside units of work, such as cloud sync
+   * bookkeeping. Each statement waits until no unit of work is open or queued.
+   * Do not use it from inside a unit of work: the statement would wait for it.
+   */
+  public getQueuedDatabase(): SQLiteDatabase {
+    return {
+      transaction: (...args) => this.getDatabase().transaction(...args),
+      readTransaction: (...args) => this.getDatabase().readTransaction(...args),
+      executeSql: async (statement, params) => {
+        await this.waitForTransactions();
+        return this.getDatabase().executeSql(statement, params);
+      },
+      close: () => this.getDatabase().close(),
+    };
+  }
+
+  /**
+   * Wait until every unit of work started so far has committed or rolled back
+   */
+  private async waitForTransactions(): Promise<void> {
+    let queue: Promise<void>;
+    do {
+      queue = this.transactionQueue;
+      await queue;
+    } while (queue !== this.transactionQueue);
+  }
+
+  /**
+   * Run a unit of work inside a single SQLite transaction.
+   * Every statement the work executes on this connection commits together, or is
+   * rolled back if the work throws. Units of work are serialized; do not start one
+   * from inside another.
+   * A statement sent on this connection while a unit is open joins that unit, so
+   * writes outside one go through a unit of their own or getQueuedDatabase().
+   */
+  public async runInTransaction<T>(work: (db: SQLiteDatabase) => Promise<T>): Promise<T> {
+    const db = await this.initDatabase();
+
+    // Wait for any unit of work already in progress
+    const previous = this.transactionQueue;
+    let release: () => void = () => {};
+    this.transactionQueue = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    await previous;
+
+    let callbacks: Array<() => void | Promise<void>> = [];
+    try {
+      await db.executeSql('BEGIN TRANSACTION');
+      this.transactionActive = true;
+      try {
+        const result = await work(db);
+        await db.executeSql('COMMIT');
+        callbacks = this.afterCommitCallbacks;
+        return result;
+      } catch (error) {
+        await db.executeSql('ROLLBACK').catch((rollbackError) => {
+          console.error('Error rolling back transaction:', rollbackError);
+        });
+        throw error;
+      }
+    } finally {
+      this.transactionActive = false;
+      this.afterCommitCallbacks = [];
+      release();
+      for (const callback of callbacks) {
+        Promise.resolve()
+          .then(callback)
+          .catch((e) => console.error('Error in after-commit callback:', e));
+      }
+    }
+  }
+
+  /**
+   * Whether a unit of work is currently open
+   */
+  public isInTransaction(): boolean {
+    return this.transactionActive;
+  }
+
+  /**
+   * Run a side effect (cloud push, notifications) once the current unit of work commits.
+   * Runs immediately when no unit of work is open; dropped if the unit of work rolls back.
+   */
+  public runAfterCommit(callback: () => void | Promise<void>): void {
+    if (this.transactionActive) {
+      this.afterCommitCallbacks.push(callback);
+      return;
+    }
+    Promise.resolve()
+      .then(callback)
+      .catch((e) => console.error('Error in after-commit callback:', e));
+  }
+
   /**
    * Close database connection
    */
@@ -211,6 +227,13 @@ export class DatabaseService {
       await this.database.executeSql('DROP TABLE IF EXISTS sell_transactions');
       await this.database.executeSql('DROP TABLE IF EXISTS lend_transactions');
       await this.database.executeSql('DROP TABLE IF EXISTS expense_transactions');
+      await this.database.executeSql('DROP TABLE IF EXISTS transaction_items');
+      await this.database.executeSql('DROP TABLE IF EXISTS stock_transfers');
+      await this.database.executeSql('DROP TABLE IF EXISTS stock_adjustments');
+      await this.database.executeSql('DROP TABLE IF EXISTS grains');
+      await this.database.executeSql('DROP TABLE IF EXISTS storage_locations');
+      // Forget applied versions so the migrations recreate the dropped tables
+      await this.database.executeSql('DROP TABLE IF EXISTS schema_version');
       console.log('All tables dropped successfully');
     } catch (error) {
       console.error('Error dropping tables:', error);
@@ -0,0 +1,131 @@
+/// <reference types="node" />
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, {Database} from 'sql.js';
+import {BackupPayload} from '../../models/Backup';
+import {DEFAULT_GRAINS} from '../../models/Grain';
+import {DEFAULT_LOCATION_ID} from '../../models/StorageLocation';
+import {MIGRATIONS, MigrationExecutor, runMigrations} from '../migrations';
+import {readBackupTables, restoreBackupTables} from '../backupRestore';
+
+// Database of an install from before schema versioning, checked into the repo root
+const SNAPSHOT_PATH = path.join(__dirname, '..', '..', '..', 'mandi_app.db');
+
+// First schema version local backups were made at
+const OLDER_SCHEMA_VERSION = 12;
+
+/**
+ * Adapt sql.js to the executeSql(statement, params) => Promise<[ResultSet]> shape the app uses
+ */
+const createExecutor = (db: Database): MigrationExecutor => ({
+  executeSql: async (statement, params = []) => {
+    const stmt = db.prepare(statement);
+    try {
+      stmt.bind(params);
+      const rows: any[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject());
+      }
+      return [
+        {
+          insertId: 0,
+          rowsAffected: db.getRowsModified(),
+          rows: {length: rows.length, item: (i: number) => rows[i], raw: () => rows},
+        },
+      ];
+    } finally {
+      stmt.free();
+    }
+  },
+});
+
+const queryAll = (db: Database, sql: string): any[] => {
+  const stmt = db.prepare(sql);
+  const rows: any[] = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  stmt.free();
+  return rows;
+};
+
+describe('restoreBackupTables', () => {
+  let SQL: initSqlJs.SqlJsStatic;
+  let source: Database;
+  let device: Database;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    source = new SQL.Database(fs.readFileSync(SNAPSHOT_PATH));
+    device = new SQL.Database(fs.readFileSync(SNAPSHOT_PATH));
+    await runMigrations(createExecutor(device));
+  });
+
+  afterEach(() => {
+    source.close();
+    device.close();
+    jest.restoreAllMocks();
+  });
+
+  // Back up the snapshot as an install at the given schema version would have
+  const backupAt = async (version: number): Promise<BackupPayload> => {
+    const executor = createExecutor(source);
+    await runMigrations(executor, MIGRATIONS.filter(m => m.version <= version));
+    return {
+      schemaVersion: version,
+      createdAt: '2025-12-09T10:00:00.000Z',
+      cashBalance: 0,
+      tables: await readBackupTables(executor),
+    };
+  };
+
+  it('upgrades a backup from an older schema as it restores it', async () => {
+    const payload = await backupAt(OLDER_SCHEMA_VERSION);
+    expect(payload.tables.storage_locations).toBeUndefined();
+    expect(payload.tables.grains).toBeUndefined();
+
+    await restoreBackupTables(createExecutor(device), payload);
+
+    expect(queryAll(device, 'SELECT id, name FROM storage_locations')).toEqual([
+      {id: DEFAULT_LOCATION_ID, name: 'Main Godown'},
+    ]);
+    const unplaced = [
+      ...queryAll(device, 'SELECT id FROM buy_transactions WHERE location_id IS NULL'),
+      ...queryAll(device, 'SELECT id FROM sell_transactions WHERE location_id IS NULL'),
+    ];
+    expect(unplaced).toEqual([]);
+    const grains = queryAll(device, 'SELECT id FROM grains').map(row => row.id);
+    expect(grains).toEqual(expect.arrayContaining(DEFAULT_GRAINS.map(grain => grain.id)));
+  });
+
+  it('restores the backup rows themselves', async () => {
+    const payload = await backupAt(OLDER_SCHEMA_VERSION);
+    device.run('DELETE FROM lend_transactions');
+
+    await restoreBackupTables(createExecutor(device), payload);
+
+    expect(queryAll(device, 'SELECT COUNT(*) as count FROM buy_transactions')[0].count).toBe(
+      payload.tables.buy_transactions.rows.length,
+    );
+    expect(queryAll(device, 'SELECT interest_rate FROM lend_transactions')).toEqual(
+      payload.tables.lend_transactions.rows.map(() => ({interest_rate: 2})),
+    );
+  });
+
+  it('empties the sync state of the replaced data', async () => {
+    device.run(
+      `INSERT INTO sync_outbox (operation, entity_type, entity_id, created_at, updated_at)
+       VALUES ('UPLOAD', 'BUY', 'buy-1', '2025-12-09T10:00:00.000Z', '2025-12-09T10:00:00.000Z')`,
+    );
+
+    await restoreBackupTables(createExecutor(device), await backupAt(OLDER_SCHEMA_VERSION));
+
+    for (const table of ['sync_outbox', 'sync_shadows', 'sync_conflicts']) {
+      expect(queryAll(device, `SELECT COUNT(*) as count FROM ${table}`)[0].count).toBe(0);
+    }
+  });
+});
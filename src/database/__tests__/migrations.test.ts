@@ -0,0 +1,164 @@
+/// <reference types="node" />
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, {Database} from 'sql.js';
+import {LATEST_SCHEMA_VERSION, MigrationExecutor, getSchemaVersion, runMigrations} from '../migrations';
+
+// Database of an install from before schema versioning, checked into the repo root
+const SNAPSHOT_PATH = path.join(__dirname, '..', '..', '..', 'mandi_app.db');
+
+/**
+ * Adapt sql.js to the executeSql(statement, params) => Promise<[ResultSet]> shape the app uses
+ */
+const createExecutor = (db: Database): MigrationExecutor => ({
+  executeSql: async (statement, params = []) => {
+    const stmt = db.prepare(statement);
+    try {
+      stmt.bind(params);
+      const rows: any[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject());
+      }
+      return [
+        {
+          insertId: 0,
+          rowsAffected: db.getRowsModified(),
+          rows: {length: rows.length, item: (i: number) => rows[i], raw: () => rows},
+        },
+      ];
+    } finally {
+      stmt.free();
+    }
+  },
+});
+
+const queryAll = (db: Database, sql: string): any[] => {
+  const stmt = db.prepare(sql);
+  const rows: any[] = [];
+  while (stmt.step()) {
+    rows.push(stmt.getAsObject());
+  }
+  stmt.free();
+  return rows;
+};
+
+/**
+ * Insert a copy of a bill under a new id and creation time, keeping its invoice number
+ */
+const copyBill = (db: Database, table: string, id: string, copy: {id: string; createdAt: string; invoiceNumber?: string}) => {
+  db.run(`CREATE TEMP TABLE bill_copy AS SELECT * FROM ${table} WHERE id = ?`, [id]);
+  db.run('UPDATE bill_copy SET id = ?, created_at = ?', [copy.id, copy.createdAt]);
+  if (copy.invoiceNumber) {
+    db.run('UPDATE bill_copy SET invoice_number = ?', [copy.invoiceNumber]);
+  }
+  db.run(`INSERT INTO ${table} SELECT * FROM bill_copy`);
+  db.run('DROP TABLE bill_copy');
+};
+
+describe('runMigrations', () => {
+  let SQL: initSqlJs.SqlJsStatic;
+  let db: Database;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    db = new SQL.Database(fs.readFileSync(SNAPSHOT_PATH));
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('upgrades the pre-versioning snapshot to the latest schema', async () => {
+    const executor = createExecutor(db);
+    expect(await getSchemaVersion(executor)).toBe(0);
+
+    const applied = await runMigrations(executor);
+    expect(applied).toHaveLength(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(executor)).toBe(LATEST_SCHEMA_VERSION);
+
+    const tables = queryAll(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map(row => row.name);
+    expect(tables).toEqual(
+      expect.arrayContaining(['transaction_items', 'sync_outbox', 'storage_locations', 'stock_adjustments', 'grains']),
+    );
+    // Every legacy bill gets at least one line
+    const [{bills}] = queryAll(db, 'SELECT (SELECT COUNT(*) FROM buy_transactions) + (SELECT COUNT(*) FROM sell_transactions) AS bills');
+    const [{billed}] = queryAll(db, 'SELECT COUNT(DISTINCT transaction_id) AS billed FROM transaction_items');
+    expect(billed).toBe(bills);
+  });
+
+  it('does not re-apply migrations on a second run', async () => {
+    const executor = createExecutor(db);
+    await runMigrations(executor);
+    expect(await runMigrations(executor)).toEqual([]);
+  });
+
+  it('renumbers duplicate invoice numbers before building the unique indexes', async () => {
+    // The snapshot's build already had the indexes; installs from before it could hold duplicates
+    db.run('DROP INDEX idx_buy_invoice_number');
+    db.run('DROP INDEX idx_sell_invoice_number');
+    const buys = queryAll(db, 'SELECT id, invoice_number FROM buy_transactions ORDER BY created_at');
+    const sells = queryAll(db, 'SELECT id, invoice_number FROM sell_transactions ORDER BY created_at');
+    copyBill(db, 'buy_transactions', buys[0].id, {id: 'dup-buy-1', createdAt: '2025-12-10T08:00:00.000Z'});
+    copyBill(db, 'buy_transactions', buys[0].id, {id: 'dup-buy-2', createdAt: '2025-12-11T08:00:00.000Z'});
+    copyBill(db, 'buy_transactions', buys[1].id, {id: 'legacy-1', createdAt: '2025-12-01T08:00:00.000Z', invoiceNumber: 'INV-7'});
+    copyBill(db, 'buy_transactions', buys[1].id, {id: 'legacy-2', createdAt: '2025-12-02T08:00:00.000Z', invoiceNumber: 'INV-7'});
+    copyBill(db, 'sell_transactions', sells[1].id, {id: 'dup-sell-1', createdAt: '2025-12-10T08:00:00.000Z'});
+
+    await runMigrations(createExecutor(db));
+
+    const invoiceOf = (table: string, id: string) =>
+      queryAll(db, `SELECT invoice_number FROM ${table} WHERE id = '${id}'`)[0].invoice_number;
+    // The oldest bill keeps its number; later copies take the next free number of the day
+    expect(invoiceOf('buy_transactions', buys[0].id)).toBe(buys[0].invoice_number);
+    expect(invoiceOf('buy_transactions', 'dup-buy-1')).toBe('20251209B0004');
+    expect(invoiceOf('buy_transactions', 'dup-buy-2')).toBe('20251209B0005');
+    expect(invoiceOf('buy_transactions', 'legacy-1')).toBe('INV-7');
+    expect(invoiceOf('buy_transactions', 'legacy-2')).toBe('INV-7-2');
+    expect(invoiceOf('sell_transactions', sells[1].id)).toBe(sells[1].invoice_number);
+    expect(invoiceOf('sell_transactions', 'dup-sell-1')).toBe('20251209S0004');
+
+    const indexes = queryAll(db, "SELECT name FROM sqlite_master WHERE type = 'index'").map(row => row.name);
+    expect(indexes).toEqual(expect.arrayContaining(['idx_buy_invoice_number', 'idx_sell_invoice_number']));
+    expect(() => copyBill(db, 'buy_transactions', buys[0].id, {id: 'dup-buy-3', createdAt: '2025-12-12T08:00:00.000Z'})).toThrow(
+      /UNIQUE/,
+    );
+  });
+
+  it('moves the interest rate older builds wrote in lend descriptions into the interest columns', async () => {
+    const [legacy] = queryAll(db, "SELECT id FROM lend_transactions WHERE description LIKE '%Interest Rate: 2%%'");
+    copyBill(db, 'lend_transactions', legacy.id, {id: 'lend-decimal', createdAt: '2025-12-10T08:00:00.000Z'});
+    copyBill(db, 'lend_transactions', legacy.id, {id: 'lend-no-rate', createdAt: '2025-12-11T08:00:00.000Z'});
+    db.run('UPDATE lend_transactions SET description = ? WHERE id = ?', ['Loan Amount: ₹10000.00 | Interest Rate: 1.5%', 'lend-decimal']);
+    db.run('UPDATE lend_transactions SET description = ? WHERE id = ?', ['Loan Amount: ₹10000.00', 'lend-no-rate']);
+
+    await runMigrations(createExecutor(db));
+
+    const termsOf = (id: string) =>
+      queryAll(db, `SELECT interest_rate, interest_period, interest_type FROM lend_transactions WHERE id = '${id}'`)[0];
+    expect(termsOf(legacy.id)).toEqual({interest_rate: 2, interest_period: 'MONTHLY', interest_type: 'SIMPLE'});
+    expect(termsOf('lend-decimal')).toEqual({interest_rate: 1.5, interest_period: 'MONTHLY', interest_type: 'SIMPLE'});
+    expect(termsOf('lend-no-rate')).toEqual({interest_rate: 0, interest_period: 'MONTHLY', interest_type: 'SIMPLE'});
+    // Both loans in the snapshot carry a rate
+    expect(queryAll(db, 'SELECT id FROM lend_transactions WHERE interest_rate = 2')).toHaveLength(2);
+  });
+
+  it('rolls back a failing migration and reports it', async () => {
+    const executor = createExecutor(db);
+    const failing = {
+      version: 1,
+      name: 'failing',
+      up: async (target: MigrationExecutor) => {
+        await target.executeSql('CREATE TABLE half_done (id TEXT)');
+        throw new Error('boom');
+      },
+    };
+    await expect(runMigrations(executor, [failing])).rejects.toThrow('Migration 1 (failing) failed: boom');
+    expect(await getSchemaVersion(executor)).toBe(0);
+    expect(queryAll(db, "SELECT name FROM sqlite_master WHERE name = 'half_done'")).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import {BackupPayload, BackupTable} from '../models/Backup';
+import {MigrationExecutor, getColumnNames, replayMigrations} from './migrations';
+
+// Sync bookkeeping of this install. It describes the data being replaced, so a restore empties it.
+export const SYNC_STATE_TABLES = ['sync_outbox', 'sync_shadows', 'sync_conflicts'];
+
+// Tables that belong to this install rather than to the business data
+// (android_metadata holds the database locale on Android)
+export const BACKUP_EXCLUDED_TABLES = ['schema_version', 'sync_logs', 'android_metadata', ...SYNC_STATE_TABLES];
+
+/**
+ * Business data tables of the database, in name order
+ */
+export const listBackupTables = async (db: MigrationExecutor): Promise<string[]> => {
+  const [result] = await db.executeSql(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+  );
+  const tables: string[] = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    const name = result.rows.item(i).name;
+    if (!BACKUP_EXCLUDED_TABLES.includes(name)) tables.push(name);
+  }
+  return tables;
+};
+
+/**
+ * Every business data table with its rows
+ */
+export const readBackupTables = async (db: MigrationExecutor): Promise<Record<string, BackupTable>> => {
+  const tables: Record<string, BackupTable> = {};
+  for (const table of await listBackupTables(db)) {
+    const columns = await getColumnNames(db, table);
+    const [result] = await db.executeSql(`SELECT * FROM ${table}`);
+    const rows: unknown[][] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      const item = result.rows.item(i);
+      rows.push(columns.map(column => item[column] ?? null));
+    }
+    tables[table] = {columns, rows};
+  }
+  return tables;
+};
+
+/**
+ * Replace every business data table with the backup's rows and empty the sync state.
+ * Columns the backup lacks take their defaults; columns this app no longer has are dropped.
+ * A backup from an older schema then goes through the migrations made since, so its rows
+ * are moved and seeded as an upgraded install's would be.
+ * Run it inside a transaction: it leaves the tables half replaced if it fails.
+ */
+export const restoreBackupTables = async (db: MigrationExecutor, payload: BackupPayload): Promise<void> => {
+  for (const table of SYNC_STATE_TABLES) {
+    await db.executeSql(`DELETE FROM ${table}`);
+  }
+
+  for (const table of await listBackupTables(db)) {
+    await db.executeSql(`DELETE FROM ${table}`);
+
+    const backup = payload.tables[table];
+    if (!backup || backup.rows.length === 0) continue;
+
+    const localColumns = new Set(await getColumnNames(db, table));
+    const kept = backup.columns
+      .map((column, idx) => ({column, idx}))
+      .filter(({column}) => localColumns.has(column));
+    if (kept.length === 0) continue;
+
+    const sql = `INSERT INTO ${table} (${kept.map(({column}) => column).join(', ')}) VALUES (${kept
+      .map(() => '?')
+      .join(', ')})`;
+    for (const row of backup.rows) {
+      await db.executeSql(sql, kept.map(({idx}) => row[idx] ?? null));
+    }
+  }
+
+  await replayMigrations(db, payload.schemaVersion);
+};
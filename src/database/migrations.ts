@@ -0,0 +1,581 @@
+import type {ResultSet} from 'react-native-sqlite-storage';
+import {TableSchemas} from '../models/Transaction';
+import {FarmerTableSchema} from '../models/Farmer';
+import {PaymentTableSchema} from '../models/Payment';
+import {MerchantTableSchema} from '../models/Merchant';
+import {CustomerTableSchema} from '../models/Customer';
+import {CashLedgerTableSchema} from '../models/CashLedger';
+import {TransactionItemTableSchema} from '../models/TransactionItem';
+import {SyncConflictTableSchema, SyncShadowTableSchema} from '../models/SyncConflict';
+import {SyncOutboxTableSchema} from '../models/SyncOutbox';
+import {DEFAULT_LOCATION_ID, StockTransferTableSchema, StorageLocationTableSchema} from '../models/StorageLocation';
+import {StockAdjustmentTableSchema} from '../models/StockAdjustment';
+import {DEFAULT_GRAINS, GrainTableSchema} from '../models/Grain';
+import {deriveLegacyItems} from '../utils/transactionItems';
+import {parseLegacyInterestRate} from '../utils/interest';
+import {buildGrainLookup, grainIdFor, resolveGrainList, resolveGrainName} from '../utils/grainMaster';
+import {grainKey} from '../utils/stockLots';
+
+/**
+ * Minimal SQL executor the migrations need. The app passes its SQLiteDatabase;
+ * the migration tests pass a sql.js adapter so old snapshots can be upgraded off-device.
+ */
+export interface MigrationExecutor {
+  executeSql(statement: string, params?: any[]): Promise<[ResultSet]>;
+}
+
+/**
+ * A single schema or data migration. Versions are applied in ascending order
+ * and recorded in `schema_version`; a version is never applied twice.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: MigrationExecutor): Promise<void>;
+}
+
+/**
+ * Read the column names of a table
+ */
+export const getColumnNames = async (db: MigrationExecutor, table: string): Promise<string[]> => {
+  const [result] = await db.executeSql(`PRAGMA table_info(${table})`);
+  const columns: string[] = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    columns.push(result.rows.item(i).name);
+  }
+  return columns;
+};
+
+/**
+ * Add a column only when it is missing. Older installs ran ad-hoc ALTERs, so
+ * some columns already exist on some devices.
+ */
+export const addColumnIfMissing = async (
+  db: MigrationExecutor,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<void> => {
+  const columns = await getColumnNames(db, table);
+  if (!columns.includes(column)) {
+    await db.executeSql(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+/**
+ * Move the line items older builds encoded in buy/sell descriptions into
+ * `transaction_items`. Bills without parsable detail get one line mirroring the
+ * header. Descriptions that only carried item data are cleared; updated_at is left
+ * alone so the change does not look like a local edit to cloud sync.
+ */
+const migrateDescriptionItems = async (
+  db: MigrationExecutor,
+  table: 'buy_transactions' | 'sell_transactions',
+  transactionType: 'BUY' | 'SELL',
+): Promise<void> => {
+  const [result] = await db.executeSql(
+    `SELECT id, grain_type, quantity, rate_per_quintal, total_amount, description, created_at FROM ${table}`,
+  );
+
+  for (let i = 0; i < result.rows.length; i++) {
+    const row = result.rows.item(i);
+    const {items, fromDescription} = deriveLegacyItems(
+      {
+        grainType: row.grain_type,
+        quantity: row.quantity || 0,
+        ratePerQuintal: row.rate_per_quintal || 0,
+        totalAmount: row.total_amount || 0,
+      },
+      row.description,
+    );
+
+    for (let line = 0; line < items.length; line++) {
+      const item = items[line];
+      await db.executeSql(
+        `INSERT INTO transaction_items (
+          id, transaction_id, transaction_type, line_number, grain_type, number_of_bags, weight_per_bag,
+          extra_weight, quantity, rate_per_quintal, amount, arat, tulak, mandi_shulk, arat_percent,
+          mandi_percent, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          `${row.id}-${line + 1}`,
+          row.id,
+          transactionType,
+          line + 1,
+          item.grainType,
+          item.numberOfBags,
+          item.weightPerBag,
+          item.extraWeight,
+          item.quantity,
+          item.ratePerQuintal,
+          item.amount,
+          item.arat || 0,
+          item.tulak || 0,
+          item.mandiShulk || 0,
+          item.aratPercent ?? null,
+          item.mandiPercent ?? null,
+          row.created_at,
+          row.created_at,
+        ],
+      );
+    }
+
+    // Older sell rows left grain_type blank and relied on the description
+    const grainType = (row.grain_type || '').trim() || items[0].grainType;
+    await db.executeSql(`UPDATE ${table} SET grain_type = ?, description = ? WHERE id = ?`, [
+      grainType,
+      fromDescription ? null : row.description,
+      row.id,
+    ]);
+  }
+};
+
+/**
+ * Copy the monthly rate older builds wrote into lend descriptions ("Interest Rate: 2%")
+ * into interest_rate. Descriptions are kept as the user-visible note, and updated_at
+ * is left alone so the change does not look like a local edit to cloud sync.
+ */
+const migrateLendInterestRates = async (db: MigrationExecutor): Promise<void> => {
+  const [result] = await db.executeSql(
+    "SELECT id, description FROM lend_transactions WHERE description LIKE '%Interest Rate:%'",
+  );
+
+  for (let i = 0; i < result.rows.length; i++) {
+    const row = result.rows.item(i);
+    const rate = parseLegacyInterestRate(row.description);
+    if (rate !== null) {
+      await db.executeSql(
+        "UPDATE lend_transactions SET interest_rate = ?, interest_period = 'MONTHLY', interest_type = 'SIMPLE' WHERE id = ?",
+        [rate, row.id],
+      );
+    }
+  }
+};
+
+/**
+ * Give every bill that shares its invoice number with an older bill a number of its
+ * own, so the unique index can be built. The oldest bill keeps the number; the others
+ * take the next free number in its daily sequence (e.g. 20240105B0003), or a "-2",
+ * "-3"... suffix when the number is not in that format. updated_at is bumped so the
+ * new numbers reach the other devices through sync.
+ */
+const renumberDuplicateInvoices = async (
+  db: MigrationExecutor,
+  table: 'buy_transactions' | 'sell_transactions',
+): Promise<void> => {
+  const [all] = await db.executeSql(`SELECT invoice_number FROM ${table} WHERE invoice_number IS NOT NULL`);
+  const taken = new Set<string>();
+  for (let i = 0; i < all.rows.length; i++) {
+    taken.add(all.rows.item(i).invoice_number);
+  }
+
+  const [result] = await db.executeSql(
+    `SELECT id, invoice_number FROM ${table}
+     WHERE invoice_number IN (
+       SELECT invoice_number FROM ${table} WHERE invoice_number IS NOT NULL
+       GROUP BY invoice_number HAVING COUNT(*) > 1
+     )
+     ORDER BY invoice_number, created_at, id`,
+  );
+  const now = new Date().toISOString();
+  let previous: string | null = null;
+  for (let i = 0; i < result.rows.length; i++) {
+    const row = result.rows.item(i);
+    const number: string = row.invoice_number;
+    if (number !== previous) {
+      previous = number; // Oldest bill with this number keeps it
+      continue;
+    }
+
+    const sequence = /^(.*?)(\d{4})$/.exec(number);
+    let renumbered = number;
+    if (sequence) {
+      let next = parseInt(sequence[2], 10);
+      do {
+        next++;
+        renumbered = `${sequence[1]}${next.toString().padStart(4, '0')}`;
+      } while (taken.has(renumbered));
+    } else {
+      let suffix = 1;
+      do {
+        suffix++;
+        renumbered = `${number}-${suffix}`;
+      } while (taken.has(renumbered));
+    }
+    taken.add(renumbered);
+    await db.executeSql(`UPDATE ${table} SET invoice_number = ?, updated_at = ? WHERE id = ?`, [renumbered, now, row.id]);
+  }
+};
+
+/**
+ * Seed the grain master and map the free-text grain names already entered onto it.
+ * Spellings and aliases of a default grain are renamed to its name; any other name on
+ * a bill line, transfer or adjustment gets its own entry, spelled as first entered and
+ * capitalised the way stock lists showed it.
+ * updated_at is left alone so the renames do not look like local edits to cloud sync.
+ */
+const migrateGrainNames = async (db: MigrationExecutor): Promise<void> => {
+  const now = new Date().toISOString();
+  for (const grain of DEFAULT_GRAINS) {
+    await db.executeSql(
+      `INSERT OR IGNORE INTO grains (id, name, aliases, hsn_code, default_unit, is_active, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'QUINTAL', 1, ?, ?)`,
+      [grain.id, grain.name, JSON.stringify(grain.aliases), grain.hsnCode || null, now, now],
+    );
+  }
+  const lookup = buildGrainLookup(DEFAULT_GRAINS);
+
+  const namesIn = async (table: string): Promise<Array<{name: string; firstUsed: string}>> => {
+    const [result] = await db.executeSql(
+      `SELECT grain_type, MIN(created_at) as first_used FROM ${table} WHERE grain_type IS NOT NULL GROUP BY grain_type`,
+    );
+    const names: Array<{name: string; firstUsed: string}> = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      names.push({name: row.grain_type, firstUsed: row.first_used || ''});
+    }
+    return names;
+  };
+
+  // Lines, transfers and adjustments each name one grain
+  const lineTables = ['transaction_items', 'stock_transfers', 'stock_adjustments'];
+  const lineNames = new Map<string, Array<{name: string; firstUsed: string}>>();
+  for (const table of lineTables) {
+    lineNames.set(table, await namesIn(table));
+  }
+  const unmatched = Array.from(lineNames.values())
+    .flat()
+    .filter(entry => grainKey(entry.name) && !lookup[grainKey(entry.name)])
+    .sort((a, b) => a.firstUsed.localeCompare(b.firstUsed));
+  for (const entry of unmatched) {
+    const key = grainKey(entry.name);
+    if (lookup[key]) continue;
+    const name = entry.name.trim().charAt(0).toUpperCase() + entry.name.trim().slice(1);
+    await db.executeSql(
+      `INSERT OR IGNORE INTO grains (id, name, aliases, default_unit, is_active, created_at, updated_at)
+       VALUES (?, ?, '[]', 'QUINTAL', 1, ?, ?)`,
+      [grainIdFor(name), name, now, now],
+    );
+    lookup[key] = name;
+  }
+
+  for (const table of lineTables) {
+    for (const {name} of lineNames.get(table) || []) {
+      const master = resolveGrainName(lookup, name);
+      if (master !== name) {
+        await db.executeSql(`UPDATE ${table} SET grain_type = ? WHERE grain_type = ?`, [master, name]);
+      }
+    }
+  }
+
+  // Bill headers list the grains of their lines, and grain loans name one
+  for (const table of ['buy_transactions', 'sell_transactions', 'lend_transactions']) {
+    for (const {name} of await namesIn(table)) {
+      const master = resolveGrainList(lookup, name);
+      if (master !== name) {
+        await db.executeSql(`UPDATE ${table} SET grain_type = ? WHERE grain_type = ?`, [master, name]);
+      }
+    }
+  }
+};
+
+/**
+ * Ordered list of migrations. Append new migrations with the next version number;
+ * never edit or reorder a migration once it has shipped. `npm test` upgrades the
+ * mandi_app.db snapshot in the repo root with them (__tests__/migrations.test.ts).
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.executeSql(FarmerTableSchema);
+      await db.executeSql(MerchantTableSchema);
+      await db.executeSql(CustomerTableSchema);
+      await db.executeSql(TableSchemas.BUY_TRANSACTIONS);
+      await db.executeSql(TableSchemas.SELL_TRANSACTIONS);
+      await db.executeSql(TableSchemas.LEND_TRANSACTIONS);
+      await db.executeSql(TableSchemas.EXPENSE_TRANSACTIONS);
+      await db.executeSql(TableSchemas.EXPENSES);
+      await db.executeSql(PaymentTableSchema);
+    },
+  },
+  {
+    version: 2,
+    name: 'buy_labour_charges_settled',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'buy_transactions', 'labour_charges_settled', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 3,
+    name: 'unique_invoice_numbers',
+    up: async (db) => {
+      await renumberDuplicateInvoices(db, 'buy_transactions');
+      await renumberDuplicateInvoices(db, 'sell_transactions');
+      await db.executeSql('CREATE UNIQUE INDEX IF NOT EXISTS idx_buy_invoice_number ON buy_transactions(invoice_number)');
+      await db.executeSql('CREATE UNIQUE INDEX IF NOT EXISTS idx_sell_invoice_number ON sell_transactions(invoice_number)');
+    },
+  },
+  {
+    version: 4,
+    name: 'remote_local_mappings',
+    up: async (db) => {
+      await db.executeSql(`
+        CREATE TABLE IF NOT EXISTS remote_local_mappings (
+          remote_id TEXT PRIMARY KEY,
+          local_id TEXT,
+          entity_type TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'sync_logs',
+    up: async (db) => {
+      await db.executeSql(`
+        CREATE TABLE IF NOT EXISTS sync_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          level TEXT,
+          message TEXT,
+          meta TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'lend_transaction_balance_columns',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'lend_transactions', 'expected_return_date', 'TEXT');
+      await addColumnIfMissing(db, 'lend_transactions', 'returned_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'returned_quantity', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'balance_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'balance_quantity', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'payment_status', "TEXT DEFAULT 'PENDING'");
+      await addColumnIfMissing(db, 'lend_transactions', 'invoice_number', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'payment_interest_split',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'payments', 'principal_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'payments', 'interest_amount', 'REAL DEFAULT 0');
+    },
+  },
+  {
+    version: 8,
+    name: 'cash_ledger',
+    up: async (db) => {
+      await db.executeSql(CashLedgerTableSchema);
+      await db.executeSql('CREATE INDEX IF NOT EXISTS idx_cash_ledger_source ON cash_ledger(source_id)');
+    },
+  },
+  {
+    version: 9,
+    name: 'transaction_items',
+    up: async (db) => {
+      await db.executeSql(TransactionItemTableSchema);
+      await db.executeSql('CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction ON transaction_items(transaction_id)');
+      await migrateDescriptionItems(db, 'buy_transactions', 'BUY');
+      await migrateDescriptionItems(db, 'sell_transactions', 'SELL');
+    },
+  },
+  {
+    version: 10,
+    name: 'lend_interest_terms',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'lend_transactions', 'interest_rate', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'interest_period', "TEXT DEFAULT 'MONTHLY'");
+      await addColumnIfMissing(db, 'lend_transactions', 'interest_type', "TEXT DEFAULT 'SIMPLE'");
+      await addColumnIfMissing(db, 'lend_transactions', 'grace_days', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(db, 'lend_transactions', 'penal_rate', 'REAL DEFAULT 0');
+      await migrateLendInterestRates(db);
+    },
+  },
+  {
+    version: 11,
+    name: 'lend_compounding_interval',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'lend_transactions', 'compounding_months', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 12,
+    name: 'sell_tax_invoice',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'sell_transactions', 'bill_type', "TEXT DEFAULT 'NORMAL'");
+      await addColumnIfMissing(db, 'sell_transactions', 'buyer_gstin', 'TEXT');
+      await addColumnIfMissing(db, 'sell_transactions', 'place_of_supply', 'TEXT');
+      await addColumnIfMissing(db, 'sell_transactions', 'tax_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'transaction_items', 'hsn_code', 'TEXT');
+      await addColumnIfMissing(db, 'transaction_items', 'gst_rate', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'transaction_items', 'taxable_value', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'transaction_items', 'cgst_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'transaction_items', 'sgst_amount', 'REAL DEFAULT 0');
+      await addColumnIfMissing(db, 'transaction_items', 'igst_amount', 'REAL DEFAULT 0');
+      // Bill of Supply was only recognisable by its arat/tulak/mandi lines until now
+      await db.executeSql(`
+        UPDATE sell_transactions SET bill_type = 'BILL_OF_SUPPLY'
+        WHERE id IN (
+          SELECT transaction_id FROM transaction_items
+          WHERE transaction_type = 'SELL' AND (arat > 0 OR tulak > 0 OR mandi_shulk > 0)
+        )
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'sync_field_merge',
+    up: async (db) => {
+      await db.executeSql(SyncShadowTableSchema);
+      await db.executeSql(SyncConflictTableSchema);
+      await db.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_conflicts_entity ON sync_conflicts(entity_id, status)');
+    },
+  },
+  {
+    version: 14,
+    name: 'sync_outbox',
+    up: async (db) => {
+      // Queued items still in AsyncStorage are imported by CloudBackupService on first use
+      await db.executeSql(SyncOutboxTableSchema);
+      await db.executeSql('CREATE INDEX IF NOT EXISTS idx_sync_outbox_due ON sync_outbox(status, next_attempt_at)');
+    },
+  },
+  {
+    version: 15,
+    name: 'sell_lot_picks',
+    up: async (db) => {
+      // Lots are the buy lines themselves; only hand-picked allocations need storing
+      await addColumnIfMissing(db, 'transaction_items', 'lot_picks', 'TEXT');
+    },
+  },
+  {
+    version: 16,
+    name: 'storage_locations',
+    up: async (db) => {
+      await db.executeSql(StorageLocationTableSchema);
+      await db.executeSql(StockTransferTableSchema);
+      await addColumnIfMissing(db, 'buy_transactions', 'location_id', 'TEXT');
+      await addColumnIfMissing(db, 'sell_transactions', 'location_id', 'TEXT');
+
+      // All stock so far was one pool; it becomes the main godown's stock
+      const now = new Date().toISOString();
+      await db.executeSql(
+        `INSERT OR IGNORE INTO storage_locations (id, name, location_type, is_active, created_at, updated_at)
+         VALUES (?, 'Main Godown', 'GODOWN', 1, ?, ?)`,
+        [DEFAULT_LOCATION_ID, now, now],
+      );
+      await db.executeSql('UPDATE buy_transactions SET location_id = ? WHERE location_id IS NULL', [DEFAULT_LOCATION_ID]);
+      await db.executeSql('UPDATE sell_transactions SET location_id = ? WHERE location_id IS NULL', [DEFAULT_LOCATION_ID]);
+    },
+  },
+  {
+    version: 17,
+    name: 'stock_adjustments',
+    up: async (db) => {
+      await db.executeSql(StockAdjustmentTableSchema);
+    },
+  },
+  {
+    version: 18,
+    name: 'grain_master',
+    up: async (db) => {
+      await db.executeSql(GrainTableSchema);
+      await migrateGrainNames(db);
+    },
+  },
+];
+
+/**
+ * Highest schema version this build knows about
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read the currently applied schema version (0 for a database that predates versioning)
+ */
+export const getSchemaVersion = async (db: MigrationExecutor): Promise<number> => {
+  await db.executeSql(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const [result] = await db.executeSql('SELECT MAX(version) as version FROM schema_version');
+  return result.rows.length > 0 ? result.rows.item(0).version || 0 : 0;
+};
+
+/**
+ * Apply every pending migration in order, each inside its own transaction.
+ * Stops at the first failure (rolling that migration back) and rethrows, so the
+ * app never runs against a half-migrated schema.
+ * Returns the versions that were applied.
+ */
+export const runMigrations = async (
+  db: MigrationExecutor,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number[]> => {
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Please update the app.`,
+    );
+  }
+
+  const pending = [...migrations]
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const applied: number[] = [];
+  for (const migration of pending) {
+    await db.executeSql('BEGIN TRANSACTION');
+    try {
+      await migration.up(db);
+      await db.executeSql(
+        'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, new Date().toISOString()],
+      );
+      await db.executeSql('COMMIT');
+      applied.push(migration.version);
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    } catch (error: any) {
+      await db.executeSql('ROLLBACK').catch((rollbackError) => {
+        console.error('Error rolling back migration:', rollbackError);
+      });
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error?.message || error}`);
+    }
+  }
+
+  return applied;
+};
+
+/**
+ * Re-run the migrations after `fromVersion` on data loaded from that older version,
+ * such as rows restored from a backup, in the caller's transaction. The schema is
+ * already current and every migration only creates what is missing, so this moves
+ * and seeds data without recording versions again.
+ */
+export const replayMigrations = async (
+  db: MigrationExecutor,
+  fromVersion: number,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number[]> => {
+  const pending = [...migrations]
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await migration.up(db);
+    } catch (error: any) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error?.message || error}`);
+    }
+  }
+  return pending.map(m => m.version);
+};
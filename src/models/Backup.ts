@@ -0,0 +1,52 @@
+/**
+ * Backup Model
+ * Passphrase-encrypted local backup of the whole SQLite dataset
+ */
+
+/**
+ * The backup file: a JSON envelope around the encrypted payload.
+ * Everything except `mac` and `data` is authenticated by the MAC together with the ciphertext.
+ */
+export interface BackupArchive {
+  format: string;
+  version: number; // Archive layout version, not the app or schema version
+  createdAt: string;
+  kdf: {name: 'PBKDF2-SHA256'; iterations: number; salt: string}; // base64 salt
+  cipher: {name: 'AES-256-CTR'; iv: string}; // base64 initial counter block
+  mac: string; // base64 HMAC-SHA256
+  data: string; // base64 ciphertext of the JSON BackupPayload
+}
+
+/**
+ * One table as stored in a backup (column names once, then row values)
+ */
+export interface BackupTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+export interface BackupPayload {
+  schemaVersion: number; // Migration version of the database that was backed up
+  createdAt: string;
+  cashBalance: number; // Cash in hand when the backup was taken
+  tables: Record<string, BackupTable>;
+}
+
+export interface BackupTableSummary {
+  table: string;
+  records: number; // Rows in the backup
+  currentRecords: number; // Rows on this device that a restore replaces
+}
+
+/**
+ * What a backup holds compared with this device; also the dry-run result before a restore
+ */
+export interface BackupSummary {
+  createdAt: string;
+  schemaVersion: number;
+  appSchemaVersion: number;
+  cashBalance: number;
+  currentCashBalance: number;
+  tables: BackupTableSummary[];
+  warnings: string[];
+}
@@ -0,0 +1,48 @@
+/**
+ * Cash Ledger Model
+ * One row per cash movement; the current cash balance is derived from these rows
+ */
+export type CashDirection = 'IN' | 'OUT';
+
+export type CashSourceType = 'BUY' | 'SELL' | 'LEND' | 'PAYMENT' | 'EXPENSE' | 'LABOUR' | 'ADJUSTMENT' | 'OPENING';
+
+export interface CashLedgerEntry {
+  id: string;
+  entryDate: string;
+  direction: CashDirection;
+  amount: number;
+  reason: string;
+  mode?: string;
+  sourceType: CashSourceType;
+  sourceId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Where a cash movement came from (transaction/payment/expense id and payment mode)
+ */
+export interface CashMovementSource {
+  sourceType?: CashSourceType;
+  sourceId?: string;
+  mode?: string;
+  entryDate?: string;
+}
+
+/**
+ * Database Table Schema for Cash Ledger
+ */
+export const CashLedgerTableSchema = `
+  CREATE TABLE IF NOT EXISTS cash_ledger (
+    id TEXT PRIMARY KEY,
+    entry_date TEXT NOT NULL,
+    direction TEXT NOT NULL CHECK(direction IN ('IN', 'OUT')),
+    amount REAL NOT NULL,
+    reason TEXT NOT NULL,
+    mode TEXT,
+    source_type TEXT NOT NULL,
+    source_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
@@ -0,0 +1,54 @@
+/**
+ * Grain Model
+ * Master list of the grains traded. Bills, transfers and adjustments carry the
+ * master name; local names and other spellings are kept as aliases of it.
+ */
+export type GrainUnit = 'QUINTAL' | 'KG' | 'TONNE';
+
+export interface Grain {
+  id: string;
+  name: string;
+  aliases: string[]; // Local-language names and spellings, e.g. Gehun for Wheat
+  variety?: string;
+  hsnCode?: string;
+  defaultBagWeight?: number; // in kg, filled in on new bill lines
+  defaultUnit: GrainUnit; // Unit the grain is usually quoted in; bills are kept in quintals
+  isActive: boolean; // Inactive grains keep their history but are not offered on new entries
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Grains every install starts with. Ids follow grainIdFor so each device's
+ * migration creates the same records.
+ */
+export const DEFAULT_GRAINS: Array<Pick<Grain, 'id' | 'name' | 'aliases' | 'hsnCode'>> = [
+  {id: 'grain-wheat', name: 'Wheat', aliases: ['Gehun', 'Gehu', 'गेहूं'], hsnCode: '1001'},
+  {id: 'grain-rice', name: 'Rice', aliases: ['Chawal', 'चावल'], hsnCode: '1006'},
+  {id: 'grain-paddy', name: 'Paddy', aliases: ['Dhan', 'Dhaan', 'धान'], hsnCode: '1006'},
+  {id: 'grain-barley', name: 'Barley', aliases: ['Jau', 'जौ'], hsnCode: '1003'},
+  {id: 'grain-maize', name: 'Maize', aliases: ['Corn', 'Makka', 'Makki', 'मक्का'], hsnCode: '1005'},
+  {id: 'grain-jowar', name: 'Jowar', aliases: ['Sorghum', 'ज्वार'], hsnCode: '1007'},
+  {id: 'grain-bajra', name: 'Bajra', aliases: ['Pearl Millet', 'बाजरा'], hsnCode: '1008'},
+  {id: 'grain-millet', name: 'Millet', aliases: [], hsnCode: '1008'},
+  {id: 'grain-oats', name: 'Oats', aliases: ['Jai'], hsnCode: '1004'},
+  {id: 'grain-rye', name: 'Rye', aliases: [], hsnCode: '1002'},
+];
+
+/**
+ * Database Table Schema for Grains
+ */
+export const GrainTableSchema = `
+  CREATE TABLE IF NOT EXISTS grains (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    aliases TEXT,
+    variety TEXT,
+    hsn_code TEXT,
+    default_bag_weight REAL,
+    default_unit TEXT DEFAULT 'QUINTAL' CHECK(default_unit IN ('QUINTAL', 'KG', 'TONNE')),
+    is_active INTEGER DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
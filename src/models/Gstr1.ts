@@ -0,0 +1,100 @@
+/**
+ * GSTR-1 Model
+ * Outward supplies return in the JSON layout accepted by the GST portal's offline tool.
+ * Field names follow the portal schema; amounts are rupees rounded to 2 decimals.
+ */
+
+/**
+ * Tax on one rate slab of an invoice or summary row
+ */
+export interface Gstr1TaxDetail {
+  txval: number; // Taxable value
+  rt: number; // GST rate (%)
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number; // Cess (not levied on grain, always 0)
+}
+
+export interface Gstr1B2bInvoice {
+  inum: string;
+  idt: string; // dd-mm-yyyy
+  val: number; // Invoice value including tax
+  pos: string; // Place of supply state code
+  rchrg: 'N' | 'Y'; // Reverse charge
+  inv_typ: 'R'; // Regular
+  itms: {num: number; itm_det: Gstr1TaxDetail}[];
+}
+
+/**
+ * Invoices to one registered buyer
+ */
+export interface Gstr1B2bParty {
+  ctin: string; // Counterparty GSTIN
+  inv: Gstr1B2bInvoice[];
+}
+
+/**
+ * B2C (small) supplies summarised by place of supply and rate
+ */
+export interface Gstr1B2csEntry extends Gstr1TaxDetail {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: 'OE';
+}
+
+/**
+ * Nil rated / exempt supplies by supply type
+ */
+export interface Gstr1NilEntry {
+  sply_ty: 'INTRB2B' | 'INTRAB2B' | 'INTRB2C' | 'INTRAB2C';
+  nil_amt: number;
+  expt_amt: number;
+  ngsup_amt: number;
+}
+
+export interface Gstr1HsnEntry {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string; // Unit quantity code, QTL for grain
+  qty: number;
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1Return {
+  gstin: string; // Supplier GSTIN
+  fp: string; // Filing period, MMYYYY
+  b2b: Gstr1B2bParty[];
+  b2cs: Gstr1B2csEntry[];
+  nil: {inv: Gstr1NilEntry[]};
+  hsn: {data: Gstr1HsnEntry[]};
+}
+
+/**
+ * A bill (or the return itself, when transactionId is absent) that cannot be filed as is
+ */
+export interface Gstr1ValidationError {
+  transactionId?: string;
+  invoiceNumber?: string;
+  buyerName?: string;
+  message: string;
+}
+
+export interface Gstr1Export {
+  period: string; // MMYYYY
+  data: Gstr1Return;
+  errors: Gstr1ValidationError[]; // Bills listed here are left out of `data`
+  summary: {
+    b2bInvoices: number;
+    b2cInvoices: number;
+    exemptInvoices: number;
+    taxableValue: number;
+    totalTax: number;
+  };
+}
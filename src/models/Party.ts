@@ -0,0 +1,12 @@
+import {Farmer} from './Farmer';
+import {Merchant} from './Merchant';
+import {Customer} from './Customer';
+
+/**
+ * Party Types
+ * Farmers sell to us, merchants and customers buy from us.
+ * Each party is identified by phone number across devices.
+ */
+export type PartyType = 'FARMER' | 'MERCHANT' | 'CUSTOMER';
+
+export type Party = Farmer | Merchant | Customer;
@@ -0,0 +1,41 @@
+/**
+ * Party Ledger Model
+ * Statement of account ("lena-dena") for one phone number across buys, sells and loans.
+ * Debits increase what the party owes us; credits increase what we owe the party.
+ */
+export type PartyLedgerSource = 'BUY' | 'SELL' | 'LEND';
+
+export type PartyLedgerEntryKind = 'BILL' | 'PAYMENT' | 'LOAN' | 'REPAYMENT' | 'INTEREST';
+
+export interface PartyLedgerEntry {
+  id: string;
+  date: string;
+  source: PartyLedgerSource;
+  kind: PartyLedgerEntryKind;
+  transactionId: string;
+  description: string;
+  debit: number; // party owes us more (sale, loan given, interest charged, payment we made)
+  credit: number; // party owes us less (purchase, payment received, repayment)
+  mode?: string;
+}
+
+export interface PartyLedgerRow extends PartyLedgerEntry {
+  runningBalance: number;
+}
+
+/**
+ * Statement for a date range. Balances are positive when the party owes us (lena)
+ * and negative when we owe the party (dena).
+ */
+export interface PartyStatement {
+  phone: string;
+  name: string;
+  from: string | null; // null = from the first entry
+  to: string;
+  openingBalance: number;
+  rows: PartyLedgerRow[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  netBySource: Record<PartyLedgerSource, number>; // closing balance split by buy/sell/lend
+}
@@ -0,0 +1,78 @@
+/**
+ * Receipt Model
+ * Printable form of a buy, sell or lend transaction, independent of how it is rendered
+ */
+export type ReceiptKind = 'BUY' | 'SELL' | 'LEND';
+
+/**
+ * Thermal printer roll widths
+ */
+export type PaperWidth = '58mm' | '80mm';
+
+/**
+ * Trader details printed at the top of every receipt (from the signed-in User)
+ */
+export interface ReceiptFirm {
+  firmName: string;
+  gstin?: string;
+  state?: string; // "Maharashtra (27)", decoded from the GSTIN
+  phoneNumber?: string;
+}
+
+export interface ReceiptParty {
+  label: string; // "Farmer", "Buyer", "Borrower"
+  name: string;
+  phone?: string;
+  address?: string;
+}
+
+/**
+ * One row of the item table
+ */
+export interface ReceiptItemRow {
+  description: string;
+  bags?: string; // "N × Wkg + Ekg"
+  quantity?: number; // in quintals
+  rate?: number;
+  amount: number;
+  arat?: number; // Bill of Supply additions on this line
+  tulak?: number;
+  mandiShulk?: number;
+  hsnCode?: string; // Tax invoice lines
+  gstRate?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+/**
+ * Label/value row in the totals section. `total` rows are printed emphasised.
+ */
+export interface ReceiptAmountRow {
+  label: string;
+  amount: number;
+  total?: boolean;
+}
+
+export interface ReceiptPaymentRow {
+  date: string;
+  amount: number;
+  mode: string;
+  notes?: string;
+}
+
+export interface ReceiptDocument {
+  kind: ReceiptKind;
+  title: string;
+  firm: ReceiptFirm;
+  invoiceNumber: string;
+  date: string;
+  party: ReceiptParty;
+  details: {label: string; value: string}[]; // vehicle number, interest terms...
+  items: ReceiptItemRow[];
+  totals: ReceiptAmountRow[];
+  payments: ReceiptPaymentRow[];
+  balanceLabel: string;
+  balanceAmount: number;
+  status: string;
+}
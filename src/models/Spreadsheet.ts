@@ -0,0 +1,16 @@
+/**
+ * Spreadsheet Model
+ * Tabular exports of transaction lists (CSV or Excel workbook)
+ */
+export type SpreadsheetFormat = 'CSV' | 'XLSX';
+
+/**
+ * Dates are written as Excel dates in a workbook and as dd/mm/yyyy in CSV
+ */
+export type SpreadsheetCell = string | number | boolean | Date | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string; // Worksheet tab name (Excel allows up to 31 characters)
+  columns: string[];
+  rows: SpreadsheetCell[][];
+}
@@ -0,0 +1,79 @@
+/**
+ * Stock Adjustment Model
+ * Corrections to book stock for grain that dried, was damaged or went missing,
+ * or to match a physical count. They change stock only: no party, cash or bill is touched.
+ */
+export type StockAdjustmentReason =
+  | 'SHRINKAGE'
+  | 'MOISTURE_LOSS'
+  | 'DAMAGE'
+  | 'PEST_LOSS'
+  | 'PHYSICAL_COUNT'
+  | 'OTHER';
+
+export interface StockAdjustment {
+  id: string;
+  date: string;
+  grainType: string;
+  locationId: string;
+  quantity: number; // in quintals; negative for a loss, positive for a gain
+  ratePerQuintal: number; // Valuation rate, the grain's average purchase rate unless given
+  valuation: number; // quantity * ratePerQuintal, negative for a loss
+  reason: StockAdjustmentReason;
+  physicalCount?: number; // Quantity counted, for adjustments posted from a physical count
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Quantity counted for one grain at one location
+ */
+export interface PhysicalCount {
+  grainType: string;
+  locationId?: string; // Omitted when counting across all locations
+  quantity: number;
+}
+
+/**
+ * Book against physical stock of one grain
+ */
+export interface StockReconciliationLine {
+  grainType: string;
+  billStock: number; // Buys less sells, with transfers
+  adjustments: number; // Adjustments posted so far
+  bookStock: number; // billStock + adjustments
+  physicalCount?: number;
+  difference?: number; // physicalCount - bookStock
+  ratePerQuintal: number;
+  adjustmentValue: number;
+  differenceValue?: number;
+}
+
+export interface StockReconciliation {
+  locationId?: string; // Omitted for all locations
+  lines: StockReconciliationLine[];
+  totalBookStock: number;
+  totalAdjustmentValue: number;
+  totalDifferenceValue: number;
+}
+
+/**
+ * Database Table Schema for Stock Adjustments
+ */
+export const StockAdjustmentTableSchema = `
+  CREATE TABLE IF NOT EXISTS stock_adjustments (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    grain_type TEXT NOT NULL,
+    location_id TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    rate_per_quintal REAL DEFAULT 0,
+    valuation REAL DEFAULT 0,
+    reason TEXT NOT NULL CHECK(reason IN ('SHRINKAGE', 'MOISTURE_LOSS', 'DAMAGE', 'PEST_LOSS', 'PHYSICAL_COUNT', 'OTHER')),
+    physical_count REAL,
+    notes TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
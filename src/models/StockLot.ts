@@ -0,0 +1,72 @@
+/**
+ * Stock Lot Model
+ * Every grain line of a buy bill is a lot; sell lines draw their quantity from lots
+ */
+
+/**
+ * Quantity a sell line takes from a chosen lot instead of the oldest ones
+ */
+export interface LotPick {
+  lotId: string;
+  quantity: number; // in quintals
+}
+
+/**
+ * Quantity of a lot held at one storage location (null for bills entered without one)
+ */
+export interface LotLocation {
+  locationId: string | null;
+  quantity: number; // in quintals
+}
+
+/**
+ * A buy line and what is left of it after allocating sales
+ */
+export interface StockLot {
+  id: string; // `${buyTransactionId}:${lineNumber}`, the same on every device
+  buyTransactionId: string;
+  lineNumber: number;
+  grainType: string;
+  supplierName: string;
+  supplierPhone?: string;
+  invoiceNumber?: string;
+  date: string; // Date of the buy bill
+  locationId: string | null; // Location the grain was bought into
+  quantity: number; // in quintals
+  ratePerQuintal: number;
+  allocatedQuantity: number;
+  remainingQuantity: number;
+  locations: LotLocation[]; // Where the remaining quantity is, after transfers
+  ageDays: number; // Whole days since the buy date
+}
+
+/**
+ * Quantity of one sell line taken from one lot
+ */
+export interface LotAllocation {
+  lotId: string;
+  sellTransactionId: string;
+  sellLineNumber: number;
+  grainType: string;
+  quantity: number;
+  manual: boolean; // Chosen on the sell bill rather than allocated oldest first
+}
+
+/**
+ * Quantity of a sell line that no lot could cover (sold before the purchase was entered)
+ */
+export interface LotShortfall {
+  sellTransactionId: string;
+  sellLineNumber: number;
+  grainType: string;
+  quantity: number;
+}
+
+/**
+ * Result of allocating every sell line to the lots
+ */
+export interface LotAllocationResult {
+  lots: StockLot[];
+  allocations: LotAllocation[];
+  shortfalls: LotShortfall[];
+}
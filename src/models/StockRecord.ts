@@ -0,0 +1,12 @@
+import {StockTransfer, StorageLocation} from './StorageLocation';
+import {StockAdjustment} from './StockAdjustment';
+import {Grain} from './Grain';
+
+/**
+ * Stock Record Types
+ * Stock masters and stock movements that are not bills. Each record keeps the
+ * same id on every device and syncs to its own cloud collection.
+ */
+export type StockRecordType = 'LOCATION' | 'TRANSFER' | 'ADJUSTMENT' | 'GRAIN';
+
+export type StockRecord = StorageLocation | StockTransfer | StockAdjustment | Grain;
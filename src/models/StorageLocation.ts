@@ -0,0 +1,88 @@
+/**
+ * Storage Location Model
+ * Godowns and the mandi yard where grain is kept; buys, sells and transfers
+ * move stock in and out of them
+ */
+export type StorageLocationType = 'GODOWN' | 'MANDI_YARD' | 'OTHER';
+
+export interface StorageLocation {
+  id: string;
+  name: string;
+  locationType: StorageLocationType;
+  address?: string;
+  isActive: boolean; // Inactive locations keep their history but are not offered on new entries
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Grain moved from one location to another. Transport cost, when paid, is also
+ * booked as an expense on the device that entered the transfer.
+ */
+export interface StockTransfer {
+  id: string;
+  fromLocationId: string;
+  toLocationId: string;
+  grainType: string;
+  quantity: number; // in quintals
+  numberOfBags?: number;
+  transportCost: number;
+  vehicleNumber?: string;
+  expenseId?: string; // Expense booked for the transport cost
+  date: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Stock of each grain at one location
+ */
+export interface LocationStock {
+  locationId: string | null; // null for bills entered without a location
+  locationName: string;
+  totalStock: number;
+  grains: Array<{grainType: string; stock: number}>;
+}
+
+/**
+ * Location every bill entered before locations existed is assigned to. The id is
+ * fixed so each device's migration creates the same record.
+ */
+export const DEFAULT_LOCATION_ID = 'location-main';
+
+/**
+ * Database Table Schema for Storage Locations
+ */
+export const StorageLocationTableSchema = `
+  CREATE TABLE IF NOT EXISTS storage_locations (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    location_type TEXT NOT NULL DEFAULT 'GODOWN' CHECK(location_type IN ('GODOWN', 'MANDI_YARD', 'OTHER')),
+    address TEXT,
+    is_active INTEGER DEFAULT 1,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
+
+/**
+ * Database Table Schema for Stock Transfers
+ */
+export const StockTransferTableSchema = `
+  CREATE TABLE IF NOT EXISTS stock_transfers (
+    id TEXT PRIMARY KEY,
+    from_location_id TEXT NOT NULL,
+    to_location_id TEXT NOT NULL,
+    grain_type TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    number_of_bags REAL DEFAULT 0,
+    transport_cost REAL DEFAULT 0,
+    vehicle_number TEXT,
+    expense_id TEXT,
+    date TEXT NOT NULL,
+    notes TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
@@ -0,0 +1,78 @@
+/**
+ * Sync Conflict Model
+ * Field-level merge state for records synced with the cloud
+ */
+export type SyncEntityType = 'TRANSACTION';
+
+export type SyncConflictStatus = 'OPEN' | 'RESOLVED';
+
+/**
+ * Which side won a conflict: this device's value or the cloud's
+ */
+export type SyncConflictResolution = 'LOCAL' | 'REMOTE';
+
+/**
+ * A field both this device and another device changed since the last sync.
+ * Values are kept as parsed JSON so amounts and statuses round-trip unchanged.
+ */
+export interface SyncConflict {
+  id: string;
+  entityType: SyncEntityType;
+  entityId: string;
+  transactionType: string;
+  field: string;
+  baseValue: any; // Value both devices last agreed on
+  localValue: any;
+  remoteValue: any;
+  remoteUpdatedAt?: string;
+  status: SyncConflictStatus;
+  resolution?: SyncConflictResolution;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * Open conflicts of one transaction, as shown on the conflicts screen
+ */
+export interface SyncConflictGroup {
+  entityId: string;
+  transactionType: string;
+  title: string; // Party name and bill number of the local record
+  date?: string;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Database Table Schema for Sync Shadows: the last version of each record
+ * known to match the cloud, used as the base of the three-way merge
+ */
+export const SyncShadowTableSchema = `
+  CREATE TABLE IF NOT EXISTS sync_shadows (
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    snapshot TEXT NOT NULL,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY (entity_type, entity_id)
+  )
+`;
+
+/**
+ * Database Table Schema for Sync Conflicts
+ */
+export const SyncConflictTableSchema = `
+  CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    field TEXT NOT NULL,
+    base_value TEXT,
+    local_value TEXT,
+    remote_value TEXT,
+    remote_updated_at TEXT,
+    status TEXT NOT NULL DEFAULT 'OPEN' CHECK(status IN ('OPEN', 'RESOLVED')),
+    resolution TEXT CHECK(resolution IN ('LOCAL', 'REMOTE')),
+    created_at TEXT NOT NULL,
+    resolved_at TEXT
+  )
+`;
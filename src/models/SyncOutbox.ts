@@ -0,0 +1,57 @@
+import {PartyType} from './Party';
+import {StockRecordType} from './StockRecord';
+
+/**
+ * Sync Outbox Model
+ * Cloud writes waiting to be sent, processed oldest first
+ */
+export type OutboxOperation = 'UPLOAD' | 'DELETE' | 'META';
+
+export type OutboxEntityType = 'TRANSACTION' | 'PAYMENT' | 'META' | PartyType | StockRecordType;
+
+/**
+ * PENDING items are retried with backoff; FAILED items gave up after too many
+ * attempts and wait for the user to retry or discard them
+ */
+export type OutboxStatus = 'PENDING' | 'FAILED';
+
+export interface SyncOutboxItem {
+  id: number; // Autoincrement, so ids give the processing order
+  operation: OutboxOperation;
+  entityType: OutboxEntityType;
+  entityId: string; // Local id, party phone number, stock record id, or the remote id for deletes
+  collection?: string; // Firestore collection for deletes
+  userId?: string; // Account a delete belongs to
+  payload?: any; // Only META carries its data; uploads read the current record when sent
+  payloadHash?: string; // Hash of the record when it was queued
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  status: OutboxStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Database Table Schema for Sync Outbox. One row per operation and entity:
+ * queuing the same change twice updates the row instead of adding another.
+ */
+export const SyncOutboxTableSchema = `
+  CREATE TABLE IF NOT EXISTS sync_outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    operation TEXT NOT NULL CHECK(operation IN ('UPLOAD', 'DELETE', 'META')),
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    collection TEXT,
+    user_id TEXT,
+    payload TEXT,
+    payload_hash TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_error TEXT,
+    status TEXT NOT NULL DEFAULT 'PENDING' CHECK(status IN ('PENDING', 'FAILED')),
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (operation, entity_type, entity_id)
+  )
+`;
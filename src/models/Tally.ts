@@ -0,0 +1,40 @@
+/**
+ * Tally Model
+ * Ledgers and vouchers for the Tally import XML
+ */
+export type TallyVoucherType = 'Purchase' | 'Sales' | 'Payment' | 'Receipt' | 'Journal';
+
+/**
+ * Ledger master created ahead of the vouchers; `parent` is a Tally group name
+ */
+export interface TallyLedger {
+  name: string;
+  parent: string;
+}
+
+/**
+ * One line of a voucher. Positive amounts are debits, negative amounts credits.
+ */
+export interface TallyLedgerEntry {
+  ledgerName: string;
+  amount: number;
+  isParty?: boolean;
+}
+
+export interface TallyVoucher {
+  type: TallyVoucherType;
+  date: string; // ISO date of the underlying record
+  number?: string; // Left empty for Tally to number (payments, expenses)
+  partyLedger?: string;
+  narration: string;
+  entries: TallyLedgerEntry[];
+}
+
+export interface TallyExport {
+  from: string;
+  to: string;
+  xml: string;
+  ledgers: TallyLedger[];
+  vouchers: TallyVoucher[];
+  skipped: string[]; // Records in the range that have no accounting entry (grain loans...)
+}
@@ -0,0 +1,54 @@
+/**
+ * Trading Margin Model
+ * Cost of the grain sold against what the buyer paid for it
+ */
+
+/**
+ * How the cost of sold grain is worked out:
+ * LOT uses the purchase rate of the lots each sale was allocated to,
+ * AVERAGE the weighted-average purchase rate of the grain
+ */
+export type CostingMethod = 'LOT' | 'AVERAGE';
+
+/**
+ * Margin on one sell transaction. Revenue is the grain value of its lines,
+ * without commission, labour, Bill of Supply additions or GST, and leaves out
+ * the uncosted quantity.
+ */
+export interface SellMargin {
+  sellTransactionId: string;
+  buyerName: string;
+  invoiceNumber?: string;
+  date: string;
+  grainType: string;
+  quantity: number; // in quintals
+  revenue: number;
+  costOfGoods: number;
+  margin: number;
+  uncostedQuantity: number; // Sold with no purchase of the grain to take a cost from
+}
+
+/**
+ * Margin on one grain over the period
+ */
+export interface GrainMargin {
+  grainType: string;
+  quantity: number;
+  revenue: number;
+  costOfGoods: number;
+  margin: number;
+  averageCost: number; // Weighted-average purchase rate per quintal (all purchases)
+}
+
+export interface TradingMarginReport {
+  method: CostingMethod;
+  startDate: string;
+  endDate: string;
+  revenue: number;
+  costOfGoods: number;
+  margin: number;
+  marginPercent: number; // Margin as a percentage of revenue
+  uncostedQuantity: number;
+  byGrain: GrainMargin[];
+  sales: SellMargin[];
+}
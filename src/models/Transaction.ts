@@ -1,3 +1,5 @@
+import {TransactionItem} from './TransactionItem';
+
 /**
  * Transaction Types Enum
  */
@@ -17,6 +19,22 @@ export enum PaymentStatus {
   COMPLETED = 'COMPLETED',
 }
 
+/**
+ * Unit a lend interest rate is quoted in
+ */
+export type InterestPeriod = 'MONTHLY' | 'YEARLY';
+
+/**
+ * How lend interest accrues: on the principal only, or on principal plus earlier interest
+ */
+export type InterestType = 'SIMPLE' | 'COMPOUND';
+
+/**
+ * Kind of bill a sale is issued on. Bill of Supply lines carry arat/tulak/mandi shulk;
+ * tax invoice lines carry HSN code and CGST/SGST/IGST.
+ */
+export type SellBillType = 'NORMAL' | 'BILL_OF_SUPPLY' | 'TAX_INVOICE';
+
 /**
  * Base Transaction Interface
  * Following Interface Segregation Principle
@@ -50,6 +68,8 @@ export interface BuyTransaction extends BaseTransaction {
   commissionAmount?: number; // Commission earned from buy transaction
   labourCharges?: number; // Labour charges in buy transaction
   labourChargesSettled?: boolean; // Whether labour charges have been settled
+  locationId?: string; // Storage location the grain went into
+  items?: TransactionItem[]; // Grain lines of the bill (stored in transaction_items)
 }
 
 /**
@@ -71,6 +91,12 @@ export interface SellTransaction extends BaseTransaction {
   invoiceNumber?: string;
   commissionAmount?: number; // Commission earned from sell transaction
   labourCharges?: number; // Labour charges in sell transaction
+  billType?: SellBillType;
+  buyerGstin?: string; // Buyer's GSTIN on a tax invoice
+  placeOfSupply?: string; // Two-digit GST state code of the buyer (tax invoice)
+  taxAmount?: number; // Total GST on a tax invoice, charged on top of totalAmount
+  locationId?: string; // Storage location the grain left from
+  items?: TransactionItem[]; // Grain lines of the bill (stored in transaction_items)
 }
 
 /**
@@ -92,6 +118,12 @@ export interface LendTransaction extends BaseTransaction {
   balanceAmount: number;
   balanceQuantity: number;
   paymentStatus: PaymentStatus;
+  interestRate?: number; // percent per interestPeriod (money loans)
+  interestPeriod?: InterestPeriod;
+  interestType?: InterestType;
+  graceDays?: number; // interest-free days after the loan date
+  penalRate?: number; // percent per interestPeriod charged instead of interestRate after expectedReturnDate
+  compoundingMonths?: number; // compound loans: months between compounding dates (0 = every interestPeriod)
 }
 
 /**
@@ -134,6 +166,7 @@ export const TableSchemas = {
       commission_amount REAL DEFAULT 0,
       labour_charges REAL DEFAULT 0,
       labour_charges_settled INTEGER DEFAULT 0,
+      location_id TEXT,
       date TEXT NOT NULL,
       description TEXT,
       created_at TEXT NOT NULL,
@@ -156,6 +189,11 @@ export const TableSchemas = {
       invoice_number TEXT,
       commission_amount REAL DEFAULT 0,
       labour_charges REAL DEFAULT 0,
+      bill_type TEXT DEFAULT 'NORMAL',
+      buyer_gstin TEXT,
+      place_of_supply TEXT,
+      tax_amount REAL DEFAULT 0,
+      location_id TEXT,
       date TEXT NOT NULL,
       description TEXT,
       created_at TEXT NOT NULL,
@@ -178,6 +216,12 @@ export const TableSchemas = {
       balance_amount REAL DEFAULT 0,
       balance_quantity REAL DEFAULT 0,
       payment_status TEXT NOT NULL,
+      interest_rate REAL DEFAULT 0,
+      interest_period TEXT DEFAULT 'MONTHLY',
+      interest_type TEXT DEFAULT 'SIMPLE',
+      grace_days INTEGER DEFAULT 0,
+      penal_rate REAL DEFAULT 0,
+      compounding_months INTEGER DEFAULT 0,
       date TEXT NOT NULL,
       description TEXT,
       created_at TEXT NOT NULL,
@@ -229,6 +273,7 @@ export interface DashboardSummary {
   totalSellCommission: number;
   totalSellLabourCharges: number;
   totalInterestEarned?: number;
+  totalTradingMargin?: number; // Grain value of sales less the cost of the grain sold
   profit: number;
   recentTransactions: Transaction[];
 }
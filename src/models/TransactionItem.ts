@@ -0,0 +1,74 @@
+import {LotPick} from './StockLot';
+
+/**
+ * Transaction Item Model
+ * One grain line of a buy or sell bill (a bill can carry several lines)
+ */
+export interface TransactionItem {
+  id: string;
+  transactionId: string;
+  transactionType: 'BUY' | 'SELL';
+  lineNumber: number; // 1-based position on the bill
+  grainType: string;
+  numberOfBags: number;
+  weightPerBag: number; // in kg
+  extraWeight: number; // loose kg on top of the bags
+  quantity: number; // in quintals
+  ratePerQuintal: number;
+  amount: number;
+  arat?: number; // Bill of Supply additions apportioned to this line
+  tulak?: number;
+  mandiShulk?: number;
+  aratPercent?: number;
+  mandiPercent?: number;
+  hsnCode?: string; // Tax invoice lines: HSN code, GST rate (%) and tax breakup
+  gstRate?: number;
+  taxableValue?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  lotPicks?: LotPick[]; // Sell lines: stock lots chosen by hand (the rest is allocated oldest first)
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Line item as entered on a bill, before it is attached to a transaction
+ */
+export type TransactionItemInput = Omit<
+  TransactionItem,
+  'id' | 'transactionId' | 'transactionType' | 'lineNumber' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Database Table Schema for Transaction Items
+ */
+export const TransactionItemTableSchema = `
+  CREATE TABLE IF NOT EXISTS transaction_items (
+    id TEXT PRIMARY KEY,
+    transaction_id TEXT NOT NULL,
+    transaction_type TEXT NOT NULL CHECK(transaction_type IN ('BUY', 'SELL')),
+    line_number INTEGER NOT NULL,
+    grain_type TEXT NOT NULL,
+    number_of_bags REAL DEFAULT 0,
+    weight_per_bag REAL DEFAULT 0,
+    extra_weight REAL DEFAULT 0,
+    quantity REAL NOT NULL,
+    rate_per_quintal REAL NOT NULL,
+    amount REAL NOT NULL,
+    arat REAL DEFAULT 0,
+    tulak REAL DEFAULT 0,
+    mandi_shulk REAL DEFAULT 0,
+    arat_percent REAL,
+    mandi_percent REAL,
+    hsn_code TEXT,
+    gst_rate REAL DEFAULT 0,
+    taxable_value REAL DEFAULT 0,
+    cgst_amount REAL DEFAULT 0,
+    sgst_amount REAL DEFAULT 0,
+    igst_amount REAL DEFAULT 0,
+    lot_picks TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )
+`;
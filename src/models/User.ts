@@ -1,3 +1,7 @@
+import {Payment} from './Payment';
+import {Party, PartyType} from './Party';
+import {StockRecord, StockRecordType} from './StockRecord';
+
 /**
  * User model for authentication and profile
  */
@@ -37,3 +41,48 @@ export interface CloudTransaction {
   updatedAt: string;
   syncedAt?: string;
 }
+
+/**
+ * Cloud payment with sync metadata
+ */
+export interface CloudPayment {
+  localId: string;
+  userId: string;
+  transactionId: string;
+  transactionType: string;
+  data: Payment;
+  syncStatus: SyncStatus;
+  createdAt: string;
+  updatedAt: string;
+  syncedAt?: string;
+}
+
+/**
+ * Cloud party (farmer/merchant/customer) with sync metadata
+ * Stored under the party's phone number so devices converge on one document
+ */
+export interface CloudParty {
+  phoneNumber: string;
+  userId: string;
+  partyType: PartyType;
+  data: Party;
+  syncStatus: SyncStatus;
+  createdAt: string;
+  updatedAt: string;
+  syncedAt?: string;
+}
+
+/**
+ * Cloud stock record (storage location, stock transfer, stock adjustment) with sync metadata
+ * Stored under the record's id
+ */
+export interface CloudStockRecord {
+  id: string;
+  userId: string;
+  recordType: StockRecordType;
+  data: StockRecord;
+  syncStatus: SyncStatus;
+  createdAt: string;
+  updatedAt: string;
+  syncedAt?: string;
+}
@@ -23,6 +23,14 @@ import {SignUpScreen} from '../screens/SignUpScreen';
 import {PhoneAuthScreen} from '../screens/PhoneAuthScreen';
 import {SearchResultsScreen} from '../screens/SearchResultsScreen';
 import {SettingsScreen} from '../screens/SettingsScreen';
+import {CashLedgerScreen} from '../screens/CashLedgerScreen';
+import {PartyLedgerScreen} from '../screens/PartyLedgerScreen';
+import {LocalBackupScreen} from '../screens/LocalBackupScreen';
+import {SyncConflictsScreen} from '../screens/SyncConflictsScreen';
+import {SyncDiagnosticsScreen} from '../screens/SyncDiagnosticsScreen';
+import {StockLocationsScreen} from '../screens/StockLocationsScreen';
+import {StockReconciliationScreen} from '../screens/StockReconciliationScreen';
+import {GrainsScreen} from '../screens/GrainsScreen';
 import {Colors} from '../constants/theme';
 import AuthService from '../services/AuthService';
 import CloudBackupService from '../services/CloudBackupService';
@@ -351,6 +359,46 @@ export const AppNavigator = () => {
               component={SearchResultsScreen}
               options={{title: 'Search Results'}}
             />
+            <Stack.Screen
+              name="CashLedger"
+              component={CashLedgerScreen}
+              options={{title: 'Cash Ledger'}}
+            />
+            <Stack.Screen
+              name="PartyLedger"
+              component={PartyLedgerScreen}
+              options={{title: 'Party Ledger'}}
+            />
+            <Stack.Screen
+              name="LocalBackup"
+              component={LocalBackupScreen}
+              options={{title: 'Offline Backup'}}
+            />
+            <Stack.Screen
+              name="SyncConflicts"
+              component={SyncConflictsScreen}
+              options={{title: 'Sync Conflicts'}}
+            />
+            <Stack.Screen
+              name="SyncDiagnostics"
+              component={SyncDiagnosticsScreen}
+              options={{title: 'Sync Diagnostics'}}
+            />
+            <Stack.Screen
+              name="StockLocations"
+              component={StockLocationsScreen}
+              options={{title: 'Stock Locations'}}
+            />
+            <Stack.Screen
+              name="StockReconciliation"
+              component={StockReconciliationScreen}
+              options={{title: 'Stock Reconciliation'}}
+            />
+            <Stack.Screen
+              name="Grains"
+              component={GrainsScreen}
+              options={{title: 'Grains'}}
+            />
             {/* Modal Screens for FAB */}
             <Stack.Screen
               name="AddBuyTransactionModal"
@@ -27,8 +27,8 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       INSERT INTO ${this.tableName} (
         id, supplier_name, supplier_phone, grain_type, quantity, rate_per_quintal,
         total_amount, paid_amount, balance_amount, payment_status, vehicle_number,
-        invoice_number, commission_amount, labour_charges, labour_charges_settled, date, description, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        invoice_number, commission_amount, labour_charges, labour_charges_settled, location_id, date, description, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -47,6 +47,7 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       entity.commissionAmount || 0,
       entity.labourCharges || 0,
       entity.labourChargesSettled ? 1 : 0,
+      entity.locationId || null,
       entity.date,
       entity.description || null,
       timestamp,
@@ -81,6 +82,7 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       'commission_amount',
       'labour_charges',
       'labour_charges_settled',
+      'location_id',
       'date',
       'description',
       'created_at',
@@ -103,6 +105,7 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       entity.commissionAmount || 0,
       entity.labourCharges || 0,
       entity.labourChargesSettled ? 1 : 0,
+      entity.locationId || null,
       entity.date,
       entity.description || null,
       entity.createdAt,
@@ -210,6 +213,10 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       updateFields.push('invoice_number = ?');
       params.push(entity.invoiceNumber);
     }
+    if (entity.locationId !== undefined) {
+      updateFields.push('location_id = ?');
+      params.push(entity.locationId);
+    }
     if (entity.commissionAmount !== undefined) {
       updateFields.push('commission_amount = ?');
       params.push(entity.commissionAmount);
@@ -297,6 +304,10 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       updateFields.push('invoice_number = ?');
       params.push(entity.invoiceNumber);
     }
+    if (entity.locationId !== undefined) {
+      updateFields.push('location_id = ?');
+      params.push(entity.locationId);
+    }
     if (entity.commissionAmount !== undefined) {
       updateFields.push('commission_amount = ?');
       params.push(entity.commissionAmount);
@@ -424,6 +435,7 @@ export class BuyTransactionRepository extends BaseRepository<BuyTransaction> {
       commissionAmount: row.commission_amount,
       labourCharges: row.labour_charges,
       labourChargesSettled: row.labour_charges_settled === 1,
+      locationId: row.location_id || undefined,
       date: row.date,
       description: row.description,
       createdAt: row.created_at,
@@ -0,0 +1,182 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {CashLedgerEntry} from '../models/CashLedger';
+import {BaseRepository} from '../database/BaseRepository';
+
+/**
+ * Cash Ledger Repository
+ * Append-only store of cash movements. Each movement is a single INSERT so
+ * concurrent payments can never overwrite each other's effect on the balance.
+ */
+export class CashLedgerRepository extends BaseRepository<CashLedgerEntry> {
+  protected tableName = 'cash_ledger';
+
+  constructor(database: SQLiteDatabase) {
+    super(database);
+  }
+
+  /**
+   * Record a new cash movement
+   */
+  public async create(data: Omit<CashLedgerEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<CashLedgerEntry> {
+    const id = this.generateId();
+    const now = this.getCurrentTimestamp();
+
+    const query = `
+      INSERT INTO cash_ledger (
+        id, entry_date, direction, amount, reason, mode, source_type, source_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.db.executeSql(query, [
+      id,
+      data.entryDate,
+      data.direction,
+      data.amount,
+      data.reason,
+      data.mode || null,
+      data.sourceType,
+      data.sourceId || null,
+      now,
+      now,
+    ]);
+
+    return {
+      ...data,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Find ledger entry by ID
+   */
+  public async findById(id: string): Promise<CashLedgerEntry | null> {
+    const query = 'SELECT * FROM cash_ledger WHERE id = ? LIMIT 1';
+    const [results] = await this.db.executeSql(query, [id]);
+
+    if (results.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(results.rows.item(0));
+  }
+
+  /**
+   * Find all ledger entries, newest first
+   */
+  public async findAll(): Promise<CashLedgerEntry[]> {
+    const query = 'SELECT * FROM cash_ledger ORDER BY entry_date DESC, created_at DESC';
+    const [results] = await this.db.executeSql(query);
+
+    const entries: CashLedgerEntry[] = [];
+    for (let i = 0; i < results.rows.length; i++) {
+      entries.push(this.mapRowToEntity(results.rows.item(i)));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Find all movements recorded against a transaction, payment or expense
+   */
+  public async findBySource(sourceId: string): Promise<CashLedgerEntry[]> {
+    const query = 'SELECT * FROM cash_ledger WHERE source_id = ? ORDER BY created_at ASC';
+    const [results] = await this.db.executeSql(query, [sourceId]);
+
+    const entries: CashLedgerEntry[] = [];
+    for (let i = 0; i < results.rows.length; i++) {
+      entries.push(this.mapRowToEntity(results.rows.item(i)));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Update the descriptive fields of an entry. Amount and direction are never
+   * edited; post a reversing entry instead.
+   */
+  public async update(id: string, data: Partial<CashLedgerEntry>): Promise<CashLedgerEntry> {
+    const now = this.getCurrentTimestamp();
+
+    const query = `
+      UPDATE cash_ledger
+      SET reason = COALESCE(?, reason),
+          mode = COALESCE(?, mode),
+          updated_at = ?
+      WHERE id = ?
+    `;
+
+    await this.db.executeSql(query, [
+      data.reason !== undefined ? data.reason : null,
+      data.mode !== undefined ? data.mode : null,
+      now,
+      id,
+    ]);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Cash ledger entry not found after update');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a ledger entry
+   */
+  public async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM cash_ledger WHERE id = ?';
+    const [result] = await this.db.executeSql(query, [id]);
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Current balance: money in minus money out
+   */
+  public async getBalance(): Promise<number> {
+    const query = `
+      SELECT SUM(CASE WHEN direction = 'IN' THEN amount ELSE -amount END) as balance
+      FROM cash_ledger
+    `;
+    const [results] = await this.db.executeSql(query);
+
+    if (results.rows.length === 0) {
+      return 0;
+    }
+
+    return results.rows.item(0).balance || 0;
+  }
+
+  /**
+   * Timestamp of the most recent movement, or null when the ledger is empty
+   */
+  public async getLastEntryTime(): Promise<string | null> {
+    const query = 'SELECT MAX(created_at) as last_entry FROM cash_ledger';
+    const [results] = await this.db.executeSql(query);
+
+    if (results.rows.length === 0) {
+      return null;
+    }
+
+    return results.rows.item(0).last_entry || null;
+  }
+
+  /**
+   * Map database row to CashLedgerEntry entity
+   */
+  protected mapRowToEntity(row: any): CashLedgerEntry {
+    return {
+      id: row.id,
+      entryDate: row.entry_date,
+      direction: row.direction,
+      amount: row.amount,
+      reason: row.reason,
+      mode: row.mode || undefined,
+      sourceType: row.source_type,
+      sourceId: row.source_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
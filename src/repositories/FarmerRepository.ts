@@ -107,6 +107,50 @@ export class FarmerRepository {
     }
   }
 
+  /**
+   * Insert or update a farmer by phone number, preserving cloud-provided timestamps
+   * Phone number is the identity across devices, so local ids may differ
+   */
+  async upsertFromCloud(farmer: Farmer): Promise<Farmer> {
+    try {
+      const existing = await this.findByPhoneNumber(farmer.phoneNumber);
+      if (existing) {
+        await this.db.executeSql(
+          'UPDATE farmers SET name = ?, address = ?, updated_at = ? WHERE phone_number = ?',
+          [farmer.name, farmer.address, farmer.updatedAt, farmer.phoneNumber],
+        );
+      } else {
+        await this.db.executeSql(
+          `INSERT INTO farmers (id, phone_number, name, address, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [farmer.id, farmer.phoneNumber, farmer.name, farmer.address, farmer.createdAt, farmer.updatedAt],
+        );
+      }
+
+      const saved = await this.findByPhoneNumber(farmer.phoneNumber);
+      if (!saved) {
+        throw new Error('Farmer not found after upsert');
+      }
+      return saved;
+    } catch (error) {
+      console.error('Error upserting farmer from cloud:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete farmer by phone number
+   */
+  async deleteByPhoneNumber(phoneNumber: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.executeSql('DELETE FROM farmers WHERE phone_number = ?', [phoneNumber]);
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting farmer:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all farmers
    */
@@ -0,0 +1,185 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {Grain} from '../models/Grain';
+import {grainIdFor} from '../utils/grainMaster';
+
+/**
+ * Grain Repository
+ * Handles CRUD operations for the grain master
+ */
+export class GrainRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): Grain {
+    let aliases: string[] = [];
+    try {
+      aliases = row.aliases ? JSON.parse(row.aliases) : [];
+    } catch {
+      aliases = [];
+    }
+    return {
+      id: row.id,
+      name: row.name,
+      aliases,
+      variety: row.variety || undefined,
+      hsnCode: row.hsn_code || undefined,
+      defaultBagWeight: row.default_bag_weight || undefined,
+      defaultUnit: row.default_unit || 'QUINTAL',
+      isActive: row.is_active !== 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async findById(id: string): Promise<Grain | null> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM grains WHERE id = ? LIMIT 1', [id]);
+      return results.rows.length > 0 ? this.mapRow(results.rows.item(0)) : null;
+    } catch (error) {
+      console.error('Error finding grain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all grains, active ones first
+   */
+  async findAll(): Promise<Grain[]> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM grains ORDER BY is_active DESC, name');
+      const grains: Grain[] = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        grains.push(this.mapRow(results.rows.item(i)));
+      }
+      return grains;
+    } catch (error) {
+      console.error('Error getting grains:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a grain, with the id other devices give a grain of the same name where it is free
+   */
+  async create(data: Omit<Grain, 'id' | 'createdAt' | 'updatedAt'>): Promise<Grain> {
+    const id = (await this.findById(grainIdFor(data.name)))
+      ? `grain_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      : grainIdFor(data.name);
+    const now = new Date().toISOString();
+    return await this.upsertFromCloud({id, ...data, createdAt: now, updatedAt: now});
+  }
+
+  async update(id: string, data: Partial<Grain>): Promise<Grain> {
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      values.push(data.name);
+    }
+    if (data.aliases !== undefined) {
+      updates.push('aliases = ?');
+      values.push(JSON.stringify(data.aliases));
+    }
+    if (data.variety !== undefined) {
+      updates.push('variety = ?');
+      values.push(data.variety || null);
+    }
+    if (data.hsnCode !== undefined) {
+      updates.push('hsn_code = ?');
+      values.push(data.hsnCode || null);
+    }
+    if (data.defaultBagWeight !== undefined) {
+      updates.push('default_bag_weight = ?');
+      values.push(data.defaultBagWeight || null);
+    }
+    if (data.defaultUnit !== undefined) {
+      updates.push('default_unit = ?');
+      values.push(data.defaultUnit);
+    }
+    if (data.isActive !== undefined) {
+      updates.push('is_active = ?');
+      values.push(data.isActive ? 1 : 0);
+    }
+
+    updates.push('updated_at = ?');
+    values.push(new Date().toISOString(), id);
+
+    try {
+      await this.db.executeSql(`UPDATE grains SET ${updates.join(', ')} WHERE id = ?`, values);
+      const grain = await this.findById(id);
+      if (!grain) {
+        throw new Error('Grain not found after update');
+      }
+      return grain;
+    } catch (error) {
+      console.error('Error updating grain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or replace a grain from cloud, preserving its timestamps
+   */
+  async upsertFromCloud(grain: Grain): Promise<Grain> {
+    try {
+      await this.db.executeSql(
+        `INSERT OR REPLACE INTO grains
+           (id, name, aliases, variety, hsn_code, default_bag_weight, default_unit, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          grain.id,
+          grain.name,
+          JSON.stringify(grain.aliases || []),
+          grain.variety || null,
+          grain.hsnCode || null,
+          grain.defaultBagWeight || null,
+          grain.defaultUnit || 'QUINTAL',
+          grain.isActive === false ? 0 : 1,
+          grain.createdAt,
+          grain.updatedAt,
+        ],
+      );
+      return grain;
+    } catch (error) {
+      console.error('Error upserting grain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any bill line, transfer or adjustment names one of the given grain names
+   * (compared trimmed and case-insensitive)
+   */
+  async isInUse(names: string[]): Promise<boolean> {
+    const keys = names.map(name => name.trim().toLowerCase()).filter(Boolean);
+    if (keys.length === 0) return false;
+    const placeholders = keys.map(() => '?').join(', ');
+    try {
+      const [results] = await this.db.executeSql(
+        `SELECT
+           (SELECT COUNT(*) FROM transaction_items WHERE LOWER(TRIM(grain_type)) IN (${placeholders})) +
+           (SELECT COUNT(*) FROM stock_transfers WHERE LOWER(TRIM(grain_type)) IN (${placeholders})) +
+           (SELECT COUNT(*) FROM stock_adjustments WHERE LOWER(TRIM(grain_type)) IN (${placeholders})) as uses`,
+        [...keys, ...keys, ...keys],
+      );
+      return (results.rows.item(0).uses || 0) > 0;
+    } catch (error) {
+      console.error('Error checking grain usage:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.executeSql('DELETE FROM grains WHERE id = ?', [id]);
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting grain:', error);
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import {SQLiteDatabase} from 'react-native-sqlite-storage';
 import {BaseRepository} from '../database/BaseRepository';
-import {LendTransaction, TransactionType, PaymentStatus} from '../models/Transaction';
+import {LendTransaction, TransactionType, PaymentStatus, InterestPeriod, InterestType} from '../models/Transaction';
 
 /**
  * Lend Transaction Repository
@@ -23,8 +23,9 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       INSERT INTO ${this.tableName} (
         id, person_name, person_phone, lend_type, amount, grain_type, quantity,
         expected_return_date, returned_amount, returned_quantity, balance_amount,
-        balance_quantity, payment_status, date, description, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        balance_quantity, payment_status, interest_rate, interest_period, interest_type,
+        grace_days, penal_rate, compounding_months, date, description, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -41,6 +42,12 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       entity.balanceAmount || 0,
       entity.balanceQuantity || 0,
       entity.paymentStatus,
+      entity.interestRate || 0,
+      entity.interestPeriod || 'MONTHLY',
+      entity.interestType || 'SIMPLE',
+      entity.graceDays || 0,
+      entity.penalRate || 0,
+      entity.compoundingMonths || 0,
       entity.date,
       entity.description || null,
       timestamp,
@@ -73,6 +80,12 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       'balance_amount',
       'balance_quantity',
       'payment_status',
+      'interest_rate',
+      'interest_period',
+      'interest_type',
+      'grace_days',
+      'penal_rate',
+      'compounding_months',
       'date',
       'description',
       'created_at',
@@ -93,6 +106,12 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       entity.balanceAmount || 0,
       entity.balanceQuantity || 0,
       entity.paymentStatus,
+      entity.interestRate || 0,
+      entity.interestPeriod || 'MONTHLY',
+      entity.interestType || 'SIMPLE',
+      entity.graceDays || 0,
+      entity.penalRate || 0,
+      entity.compoundingMonths || 0,
       entity.date,
       entity.description || null,
       entity.createdAt,
@@ -193,6 +212,30 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       updateFields.push('payment_status = ?');
       params.push(entity.paymentStatus);
     }
+    if (entity.interestRate !== undefined) {
+      updateFields.push('interest_rate = ?');
+      params.push(entity.interestRate);
+    }
+    if (entity.interestPeriod !== undefined) {
+      updateFields.push('interest_period = ?');
+      params.push(entity.interestPeriod);
+    }
+    if (entity.interestType !== undefined) {
+      updateFields.push('interest_type = ?');
+      params.push(entity.interestType);
+    }
+    if (entity.graceDays !== undefined) {
+      updateFields.push('grace_days = ?');
+      params.push(entity.graceDays);
+    }
+    if (entity.penalRate !== undefined) {
+      updateFields.push('penal_rate = ?');
+      params.push(entity.penalRate);
+    }
+    if (entity.compoundingMonths !== undefined) {
+      updateFields.push('compounding_months = ?');
+      params.push(entity.compoundingMonths);
+    }
     if (entity.date !== undefined) {
       updateFields.push('date = ?');
       params.push(entity.date);
@@ -272,6 +315,30 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       updateFields.push('payment_status = ?');
       params.push(entity.paymentStatus);
     }
+    if (entity.interestRate !== undefined) {
+      updateFields.push('interest_rate = ?');
+      params.push(entity.interestRate);
+    }
+    if (entity.interestPeriod !== undefined) {
+      updateFields.push('interest_period = ?');
+      params.push(entity.interestPeriod);
+    }
+    if (entity.interestType !== undefined) {
+      updateFields.push('interest_type = ?');
+      params.push(entity.interestType);
+    }
+    if (entity.graceDays !== undefined) {
+      updateFields.push('grace_days = ?');
+      params.push(entity.graceDays);
+    }
+    if (entity.penalRate !== undefined) {
+      updateFields.push('penal_rate = ?');
+      params.push(entity.penalRate);
+    }
+    if (entity.compoundingMonths !== undefined) {
+      updateFields.push('compounding_months = ?');
+      params.push(entity.compoundingMonths);
+    }
     if (entity.date !== undefined) {
       updateFields.push('date = ?');
       params.push(entity.date);
@@ -346,6 +413,12 @@ export class LendTransactionRepository extends BaseRepository<LendTransaction> {
       balanceAmount: row.balance_amount,
       balanceQuantity: row.balance_quantity,
       paymentStatus: row.payment_status as PaymentStatus,
+      interestRate: row.interest_rate || 0,
+      interestPeriod: (row.interest_period || 'MONTHLY') as InterestPeriod,
+      interestType: (row.interest_type || 'SIMPLE') as InterestType,
+      graceDays: row.grace_days || 0,
+      penalRate: row.penal_rate || 0,
+      compoundingMonths: row.compounding_months || 0,
       date: row.date,
       description: row.description,
       createdAt: row.created_at,
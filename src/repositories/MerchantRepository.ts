@@ -118,6 +118,41 @@ export class MerchantRepository extends BaseRepository<Merchant> {
     return this.mapRowToEntity(result[0].rows.item(0));
   }
 
+  /**
+   * Insert or update a merchant by phone number, preserving cloud-provided timestamps
+   * Phone number is the identity across devices, so local ids may differ
+   */
+  public async upsertFromCloud(entity: Merchant): Promise<Merchant> {
+    const existing = await this.findByPhoneNumber(entity.phoneNumber);
+    if (existing) {
+      const query = `UPDATE ${this.tableName} SET firm_name = ?, gstin = ?, address = ?, updated_at = ? WHERE phone_number = ?`;
+      await this.executeQuery(query, [entity.firmName, entity.gstin, entity.address, entity.updatedAt, entity.phoneNumber]);
+    } else {
+      const query = `INSERT INTO ${this.tableName} (id, phone_number, firm_name, gstin, address, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)`;
+      await this.executeQuery(query, [
+        entity.id,
+        entity.phoneNumber,
+        entity.firmName,
+        entity.gstin,
+        entity.address,
+        entity.createdAt,
+        entity.updatedAt,
+      ]);
+    }
+
+    const saved = await this.findByPhoneNumber(entity.phoneNumber);
+    if (!saved) {
+      throw new Error('Failed to upsert merchant from cloud');
+    }
+    return saved;
+  }
+
+  public async deleteByPhoneNumber(phoneNumber: string): Promise<boolean> {
+    const query = `DELETE FROM ${this.tableName} WHERE phone_number = ?`;
+    const result = await this.executeQuery(query, [phoneNumber]);
+    return result[0].rowsAffected > 0;
+  }
+
   private mapRowToEntity(row: any): Merchant {
     return {
       id: row.id,
@@ -49,6 +49,46 @@ export class PaymentRepository extends BaseRepository<Payment> {
     };
   }
 
+  /**
+   * Create a payment preserving id and timestamps (used when restoring from cloud)
+   */
+  public async createWithId(entity: Payment): Promise<Payment> {
+    const columns = [
+      'id',
+      'transaction_id',
+      'transaction_type',
+      'amount',
+      'payment_date',
+      'principal_amount',
+      'interest_amount',
+      'payment_mode',
+      'notes',
+      'created_at',
+      'updated_at',
+    ];
+
+    const params = [
+      entity.id,
+      entity.transactionId,
+      entity.transactionType,
+      entity.amount,
+      entity.paymentDate,
+      entity.principalAmount || 0,
+      entity.interestAmount || 0,
+      entity.paymentMode,
+      entity.notes || null,
+      entity.createdAt,
+      entity.updatedAt,
+    ];
+
+    await this.insertRowWithId(columns, params);
+    const created = await this.findById(entity.id);
+    if (!created) {
+      throw new Error('Failed to create payment with provided id');
+    }
+    return created;
+  }
+
   /**
    * Find all payments for a specific transaction
    */
@@ -130,6 +170,48 @@ export class PaymentRepository extends BaseRepository<Payment> {
     return updated;
   }
 
+  /**
+   * Update a payment but preserve provided updatedAt timestamp
+   * Used when applying cloud updates
+   */
+  public async updateWithTimestamp(id: string, data: Partial<Payment>, updatedAt: string): Promise<Payment> {
+    const updateFields: string[] = [];
+    const params: any[] = [];
+
+    if (data.amount !== undefined) {
+      updateFields.push('amount = ?');
+      params.push(data.amount);
+    }
+    if (data.principalAmount !== undefined) {
+      updateFields.push('principal_amount = ?');
+      params.push(data.principalAmount);
+    }
+    if (data.interestAmount !== undefined) {
+      updateFields.push('interest_amount = ?');
+      params.push(data.interestAmount);
+    }
+    if (data.paymentDate !== undefined) {
+      updateFields.push('payment_date = ?');
+      params.push(data.paymentDate);
+    }
+    if (data.paymentMode !== undefined) {
+      updateFields.push('payment_mode = ?');
+      params.push(data.paymentMode);
+    }
+    if (data.notes !== undefined) {
+      updateFields.push('notes = ?');
+      params.push(data.notes);
+    }
+
+    await this.updateRowWithTimestamp(updateFields, params, id, updatedAt);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Payment not found after update');
+    }
+    return updated;
+  }
+
   /**
    * Delete a payment
    */
@@ -139,6 +221,15 @@ export class PaymentRepository extends BaseRepository<Payment> {
     return result.rowsAffected > 0;
   }
 
+  /**
+   * Delete all payments recorded against a transaction
+   */
+  public async deleteByTransactionId(transactionId: string): Promise<number> {
+    const query = 'DELETE FROM payments WHERE transaction_id = ?';
+    const [result] = await this.db.executeSql(query, [transactionId]);
+    return result.rowsAffected;
+  }
+
   /**
    * Calculate total paid amount for a transaction
    */
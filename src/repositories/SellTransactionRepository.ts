@@ -1,6 +1,6 @@
 import {SQLiteDatabase} from 'react-native-sqlite-storage';
 import {BaseRepository} from '../database/BaseRepository';
-import {SellTransaction, TransactionType, PaymentStatus} from '../models/Transaction';
+import {SellTransaction, SellBillType, TransactionType, PaymentStatus} from '../models/Transaction';
 
 /**
  * Sell Transaction Repository
@@ -23,8 +23,9 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       INSERT INTO ${this.tableName} (
         id, buyer_name, buyer_phone, grain_type, quantity, rate_per_quintal,
         total_amount, received_amount, balance_amount, payment_status, vehicle_number,
-        invoice_number, commission_amount, labour_charges, date, description, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        invoice_number, commission_amount, labour_charges, bill_type, buyer_gstin, place_of_supply,
+        tax_amount, location_id, date, description, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -42,6 +43,11 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       entity.invoiceNumber || null,
       entity.commissionAmount || 0,
       entity.labourCharges || 0,
+      entity.billType || 'NORMAL',
+      entity.buyerGstin || null,
+      entity.placeOfSupply || null,
+      entity.taxAmount || 0,
+      entity.locationId || null,
       entity.date,
       entity.description || null,
       timestamp,
@@ -75,6 +81,11 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       'invoice_number',
       'commission_amount',
       'labour_charges',
+      'bill_type',
+      'buyer_gstin',
+      'place_of_supply',
+      'tax_amount',
+      'location_id',
       'date',
       'description',
       'created_at',
@@ -96,6 +107,11 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       entity.invoiceNumber || null,
       entity.commissionAmount || 0,
       entity.labourCharges || 0,
+      entity.billType || 'NORMAL',
+      entity.buyerGstin || null,
+      entity.placeOfSupply || null,
+      entity.taxAmount || 0,
+      entity.locationId || null,
       entity.date,
       entity.description || null,
       entity.createdAt,
@@ -192,6 +208,10 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       updateFields.push('invoice_number = ?');
       params.push(entity.invoiceNumber);
     }
+    if (entity.locationId !== undefined) {
+      updateFields.push('location_id = ?');
+      params.push(entity.locationId);
+    }
     if (entity.commissionAmount !== undefined) {
       updateFields.push('commission_amount = ?');
       params.push(entity.commissionAmount);
@@ -200,6 +220,22 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       updateFields.push('labour_charges = ?');
       params.push(entity.labourCharges);
     }
+    if (entity.billType !== undefined) {
+      updateFields.push('bill_type = ?');
+      params.push(entity.billType);
+    }
+    if (entity.buyerGstin !== undefined) {
+      updateFields.push('buyer_gstin = ?');
+      params.push(entity.buyerGstin);
+    }
+    if (entity.placeOfSupply !== undefined) {
+      updateFields.push('place_of_supply = ?');
+      params.push(entity.placeOfSupply);
+    }
+    if (entity.taxAmount !== undefined) {
+      updateFields.push('tax_amount = ?');
+      params.push(entity.taxAmount);
+    }
     if (entity.date !== undefined) {
       updateFields.push('date = ?');
       params.push(entity.date);
@@ -275,6 +311,10 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       updateFields.push('invoice_number = ?');
       params.push(entity.invoiceNumber);
     }
+    if (entity.locationId !== undefined) {
+      updateFields.push('location_id = ?');
+      params.push(entity.locationId);
+    }
     if (entity.commissionAmount !== undefined) {
       updateFields.push('commission_amount = ?');
       params.push(entity.commissionAmount);
@@ -283,6 +323,22 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       updateFields.push('labour_charges = ?');
       params.push(entity.labourCharges);
     }
+    if (entity.billType !== undefined) {
+      updateFields.push('bill_type = ?');
+      params.push(entity.billType);
+    }
+    if (entity.buyerGstin !== undefined) {
+      updateFields.push('buyer_gstin = ?');
+      params.push(entity.buyerGstin);
+    }
+    if (entity.placeOfSupply !== undefined) {
+      updateFields.push('place_of_supply = ?');
+      params.push(entity.placeOfSupply);
+    }
+    if (entity.taxAmount !== undefined) {
+      updateFields.push('tax_amount = ?');
+      params.push(entity.taxAmount);
+    }
     if (entity.date !== undefined) {
       updateFields.push('date = ?');
       params.push(entity.date);
@@ -379,6 +435,11 @@ export class SellTransactionRepository extends BaseRepository<SellTransaction> {
       invoiceNumber: row.invoice_number,
       commissionAmount: row.commission_amount,
       labourCharges: row.labour_charges,
+      billType: (row.bill_type || 'NORMAL') as SellBillType,
+      buyerGstin: row.buyer_gstin || undefined,
+      placeOfSupply: row.place_of_supply || undefined,
+      taxAmount: row.tax_amount || 0,
+      locationId: row.location_id || undefined,
       date: row.date,
       description: row.description,
       createdAt: row.created_at,
@@ -0,0 +1,124 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {StockAdjustment} from '../models/StockAdjustment';
+
+/**
+ * Stock Adjustment Repository
+ * Handles stock corrections for shrinkage, damage and physical counts
+ */
+export class StockAdjustmentRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): StockAdjustment {
+    return {
+      id: row.id,
+      date: row.date,
+      grainType: row.grain_type,
+      locationId: row.location_id,
+      quantity: row.quantity,
+      ratePerQuintal: row.rate_per_quintal || 0,
+      valuation: row.valuation || 0,
+      reason: row.reason,
+      physicalCount: row.physical_count ?? undefined,
+      notes: row.notes || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async findById(id: string): Promise<StockAdjustment | null> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM stock_adjustments WHERE id = ? LIMIT 1', [id]);
+      return results.rows.length > 0 ? this.mapRow(results.rows.item(0)) : null;
+    } catch (error) {
+      console.error('Error finding stock adjustment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all adjustments, newest first
+   */
+  async findAll(): Promise<StockAdjustment[]> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM stock_adjustments ORDER BY date DESC, created_at DESC');
+      const adjustments: StockAdjustment[] = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        adjustments.push(this.mapRow(results.rows.item(i)));
+      }
+      return adjustments;
+    } catch (error) {
+      console.error('Error getting stock adjustments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert an adjustment, keeping the given id and timestamps (new entries and cloud copies alike)
+   */
+  async insert(adjustment: StockAdjustment): Promise<StockAdjustment> {
+    try {
+      await this.db.executeSql(
+        `INSERT OR REPLACE INTO stock_adjustments (
+          id, date, grain_type, location_id, quantity, rate_per_quintal, valuation,
+          reason, physical_count, notes, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          adjustment.id,
+          adjustment.date,
+          adjustment.grainType,
+          adjustment.locationId,
+          adjustment.quantity,
+          adjustment.ratePerQuintal || 0,
+          adjustment.valuation || 0,
+          adjustment.reason,
+          adjustment.physicalCount ?? null,
+          adjustment.notes || null,
+          adjustment.createdAt,
+          adjustment.updatedAt,
+        ],
+      );
+      return adjustment;
+    } catch (error) {
+      console.error('Error saving stock adjustment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adjusted quantity and valuation per location and grain (trimmed, lower-cased)
+   */
+  async getQuantityByLocationAndGrain(): Promise<
+    Array<{locationId: string; grain: string; total: number; valuation: number}>
+  > {
+    try {
+      const [results] = await this.db.executeSql(`
+        SELECT location_id, LOWER(TRIM(grain_type)) as grain, SUM(quantity) as total, SUM(valuation) as valuation
+        FROM stock_adjustments
+        GROUP BY location_id, LOWER(TRIM(grain_type))
+      `);
+      const rows: Array<{locationId: string; grain: string; total: number; valuation: number}> = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        const row = results.rows.item(i);
+        rows.push({locationId: row.location_id, grain: row.grain, total: row.total || 0, valuation: row.valuation || 0});
+      }
+      return rows;
+    } catch (error) {
+      console.error('Error totalling stock adjustments:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.executeSql('DELETE FROM stock_adjustments WHERE id = ?', [id]);
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting stock adjustment:', error);
+      throw error;
+    }
+  }
+}
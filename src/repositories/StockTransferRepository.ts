@@ -0,0 +1,135 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {StockTransfer} from '../models/StorageLocation';
+
+/**
+ * Stock Transfer Repository
+ * Handles grain moved between storage locations
+ */
+export class StockTransferRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): StockTransfer {
+    return {
+      id: row.id,
+      fromLocationId: row.from_location_id,
+      toLocationId: row.to_location_id,
+      grainType: row.grain_type,
+      quantity: row.quantity,
+      numberOfBags: row.number_of_bags || 0,
+      transportCost: row.transport_cost || 0,
+      vehicleNumber: row.vehicle_number || undefined,
+      expenseId: row.expense_id || undefined,
+      date: row.date,
+      notes: row.notes || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async findById(id: string): Promise<StockTransfer | null> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM stock_transfers WHERE id = ? LIMIT 1', [id]);
+      return results.rows.length > 0 ? this.mapRow(results.rows.item(0)) : null;
+    } catch (error) {
+      console.error('Error finding stock transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all transfers, newest first
+   */
+  async findAll(): Promise<StockTransfer[]> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM stock_transfers ORDER BY date DESC, created_at DESC');
+      const transfers: StockTransfer[] = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        transfers.push(this.mapRow(results.rows.item(i)));
+      }
+      return transfers;
+    } catch (error) {
+      console.error('Error getting stock transfers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a transfer, keeping the given id and timestamps (new entries and cloud copies alike)
+   */
+  async insert(transfer: StockTransfer): Promise<StockTransfer> {
+    try {
+      await this.db.executeSql(
+        `INSERT OR REPLACE INTO stock_transfers (
+          id, from_location_id, to_location_id, grain_type, quantity, number_of_bags,
+          transport_cost, vehicle_number, expense_id, date, notes, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          transfer.id,
+          transfer.fromLocationId,
+          transfer.toLocationId,
+          transfer.grainType,
+          transfer.quantity,
+          transfer.numberOfBags || 0,
+          transfer.transportCost || 0,
+          transfer.vehicleNumber || null,
+          transfer.expenseId || null,
+          transfer.date,
+          transfer.notes || null,
+          transfer.createdAt,
+          transfer.updatedAt,
+        ],
+      );
+      return transfer;
+    } catch (error) {
+      console.error('Error saving stock transfer:', error);
+      throw error;
+    }
+  }
+
+  async setExpenseId(id: string, expenseId: string): Promise<void> {
+    try {
+      await this.db.executeSql('UPDATE stock_transfers SET expense_id = ? WHERE id = ?', [expenseId, id]);
+    } catch (error) {
+      console.error('Error linking transfer expense:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Quantity moved per grain (trimmed, lower-cased) out of and into each location
+   */
+  async getQuantityByLocationAndGrain(): Promise<Array<{locationId: string; grain: string; total: number}>> {
+    try {
+      const [results] = await this.db.executeSql(`
+        SELECT to_location_id as location_id, LOWER(TRIM(grain_type)) as grain, SUM(quantity) as total
+        FROM stock_transfers GROUP BY to_location_id, LOWER(TRIM(grain_type))
+        UNION ALL
+        SELECT from_location_id as location_id, LOWER(TRIM(grain_type)) as grain, -SUM(quantity) as total
+        FROM stock_transfers GROUP BY from_location_id, LOWER(TRIM(grain_type))
+      `);
+      const rows: Array<{locationId: string; grain: string; total: number}> = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        const row = results.rows.item(i);
+        rows.push({locationId: row.location_id, grain: row.grain, total: row.total || 0});
+      }
+      return rows;
+    } catch (error) {
+      console.error('Error totalling stock transfers:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.executeSql('DELETE FROM stock_transfers WHERE id = ?', [id]);
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting stock transfer:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {StorageLocation} from '../models/StorageLocation';
+
+/**
+ * Storage Location Repository
+ * Handles CRUD operations for godowns and yards
+ */
+export class StorageLocationRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): StorageLocation {
+    return {
+      id: row.id,
+      name: row.name,
+      locationType: row.location_type,
+      address: row.address || undefined,
+      isActive: row.is_active !== 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async findById(id: string): Promise<StorageLocation | null> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM storage_locations WHERE id = ? LIMIT 1', [id]);
+      return results.rows.length > 0 ? this.mapRow(results.rows.item(0)) : null;
+    } catch (error) {
+      console.error('Error finding storage location:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all locations, active ones first
+   */
+  async findAll(): Promise<StorageLocation[]> {
+    try {
+      const [results] = await this.db.executeSql('SELECT * FROM storage_locations ORDER BY is_active DESC, name');
+      const locations: StorageLocation[] = [];
+      for (let i = 0; i < results.rows.length; i++) {
+        locations.push(this.mapRow(results.rows.item(i)));
+      }
+      return locations;
+    } catch (error) {
+      console.error('Error getting storage locations:', error);
+      throw error;
+    }
+  }
+
+  async create(data: Omit<StorageLocation, 'id' | 'createdAt' | 'updatedAt'>): Promise<StorageLocation> {
+    const id = `location_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date().toISOString();
+
+    try {
+      await this.db.executeSql(
+        `INSERT INTO storage_locations (id, name, location_type, address, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [id, data.name, data.locationType, data.address || null, data.isActive ? 1 : 0, now, now],
+      );
+      return {id, ...data, createdAt: now, updatedAt: now};
+    } catch (error) {
+      console.error('Error creating storage location:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, data: Partial<StorageLocation>): Promise<StorageLocation> {
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) {
+      updates.push('name = ?');
+      values.push(data.name);
+    }
+    if (data.locationType !== undefined) {
+      updates.push('location_type = ?');
+      values.push(data.locationType);
+    }
+    if (data.address !== undefined) {
+      updates.push('address = ?');
+      values.push(data.address || null);
+    }
+    if (data.isActive !== undefined) {
+      updates.push('is_active = ?');
+      values.push(data.isActive ? 1 : 0);
+    }
+
+    updates.push('updated_at = ?');
+    values.push(new Date().toISOString(), id);
+
+    try {
+      await this.db.executeSql(`UPDATE storage_locations SET ${updates.join(', ')} WHERE id = ?`, values);
+      const location = await this.findById(id);
+      if (!location) {
+        throw new Error('Storage location not found after update');
+      }
+      return location;
+    } catch (error) {
+      console.error('Error updating storage location:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or replace a location from cloud, preserving its timestamps
+   */
+  async upsertFromCloud(location: StorageLocation): Promise<StorageLocation> {
+    try {
+      await this.db.executeSql(
+        `INSERT OR REPLACE INTO storage_locations (id, name, location_type, address, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          location.id,
+          location.name,
+          location.locationType,
+          location.address || null,
+          location.isActive === false ? 0 : 1,
+          location.createdAt,
+          location.updatedAt,
+        ],
+      );
+      return location;
+    } catch (error) {
+      console.error('Error upserting storage location from cloud:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any bill, transfer or adjustment refers to the location
+   */
+  async isInUse(id: string): Promise<boolean> {
+    try {
+      const [results] = await this.db.executeSql(
+        `SELECT
+           (SELECT COUNT(*) FROM buy_transactions WHERE location_id = ?) +
+           (SELECT COUNT(*) FROM sell_transactions WHERE location_id = ?) +
+           (SELECT COUNT(*) FROM stock_transfers WHERE from_location_id = ? OR to_location_id = ?) +
+           (SELECT COUNT(*) FROM stock_adjustments WHERE location_id = ?) as uses`,
+        [id, id, id, id, id],
+      );
+      return (results.rows.item(0).uses || 0) > 0;
+    } catch (error) {
+      console.error('Error checking storage location usage:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      const [result] = await this.db.executeSql('DELETE FROM storage_locations WHERE id = ?', [id]);
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error('Error deleting storage location:', error);
+      throw error;
+    }
+  }
+}
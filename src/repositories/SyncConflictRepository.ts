@@ -0,0 +1,149 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {SyncConflict, SyncConflictResolution, SyncEntityType} from '../models/SyncConflict';
+
+const parseValue = (raw: string | null): any => {
+  if (raw === null || raw === undefined) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    return raw;
+  }
+};
+
+const toText = (value: any): string | null => (value === undefined ? null : JSON.stringify(value));
+
+/**
+ * Repository for field conflicts found while merging cloud changes.
+ * A field has at most one OPEN conflict; later cloud edits refresh it.
+ */
+export class SyncConflictRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): SyncConflict {
+    return {
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      transactionType: row.transaction_type,
+      field: row.field,
+      baseValue: parseValue(row.base_value),
+      localValue: parseValue(row.local_value),
+      remoteValue: parseValue(row.remote_value),
+      remoteUpdatedAt: row.remote_updated_at || undefined,
+      status: row.status,
+      resolution: row.resolution || undefined,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at || undefined,
+    };
+  }
+
+  /**
+   * Record a conflict, or refresh the values of the open conflict on the same field
+   */
+  public async upsertOpen(conflict: Omit<SyncConflict, 'id' | 'status' | 'createdAt' | 'resolution' | 'resolvedAt'>): Promise<void> {
+    try {
+      const res = await this.db.executeSql(
+        "SELECT id FROM sync_conflicts WHERE entity_type = ? AND entity_id = ? AND field = ? AND status = 'OPEN' LIMIT 1",
+        [conflict.entityType, conflict.entityId, conflict.field],
+      );
+      if (res[0].rows.length > 0) {
+        await this.db.executeSql(
+          'UPDATE sync_conflicts SET local_value = ?, remote_value = ?, remote_updated_at = ? WHERE id = ?',
+          [toText(conflict.localValue), toText(conflict.remoteValue), conflict.remoteUpdatedAt || null, res[0].rows.item(0).id],
+        );
+        return;
+      }
+
+      await this.db.executeSql(
+        `INSERT INTO sync_conflicts (
+          id, entity_type, entity_id, transaction_type, field, base_value, local_value, remote_value,
+          remote_updated_at, status, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'OPEN', ?)`,
+        [
+          `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          conflict.entityType,
+          conflict.entityId,
+          conflict.transactionType,
+          conflict.field,
+          toText(conflict.baseValue),
+          toText(conflict.localValue),
+          toText(conflict.remoteValue),
+          conflict.remoteUpdatedAt || null,
+          new Date().toISOString(),
+        ],
+      );
+    } catch (e) {
+      console.error('Failed to save sync conflict', e);
+      throw e;
+    }
+  }
+
+  public async findOpen(): Promise<SyncConflict[]> {
+    try {
+      const res = await this.db.executeSql(
+        "SELECT * FROM sync_conflicts WHERE status = 'OPEN' ORDER BY created_at DESC",
+      );
+      const conflicts: SyncConflict[] = [];
+      for (let i = 0; i < res[0].rows.length; i++) {
+        conflicts.push(this.mapRow(res[0].rows.item(i)));
+      }
+      return conflicts;
+    } catch (e) {
+      console.error('Failed to query open sync conflicts', e);
+      return [];
+    }
+  }
+
+  public async findOpenByEntity(entityType: SyncEntityType, entityId: string): Promise<SyncConflict[]> {
+    try {
+      const res = await this.db.executeSql(
+        "SELECT * FROM sync_conflicts WHERE entity_type = ? AND entity_id = ? AND status = 'OPEN' ORDER BY field",
+        [entityType, entityId],
+      );
+      const conflicts: SyncConflict[] = [];
+      for (let i = 0; i < res[0].rows.length; i++) {
+        conflicts.push(this.mapRow(res[0].rows.item(i)));
+      }
+      return conflicts;
+    } catch (e) {
+      console.error('Failed to query sync conflicts by entity', e);
+      return [];
+    }
+  }
+
+  public async countOpen(): Promise<number> {
+    try {
+      const res = await this.db.executeSql("SELECT COUNT(*) as count FROM sync_conflicts WHERE status = 'OPEN'");
+      return res[0].rows.item(0).count;
+    } catch (e) {
+      console.error('Failed to count sync conflicts', e);
+      return 0;
+    }
+  }
+
+  public async resolveEntity(entityType: SyncEntityType, entityId: string, resolution: SyncConflictResolution): Promise<void> {
+    try {
+      await this.db.executeSql(
+        "UPDATE sync_conflicts SET status = 'RESOLVED', resolution = ?, resolved_at = ? WHERE entity_type = ? AND entity_id = ? AND status = 'OPEN'",
+        [resolution, new Date().toISOString(), entityType, entityId],
+      );
+    } catch (e) {
+      console.error('Failed to resolve sync conflicts', e);
+      throw e;
+    }
+  }
+
+  public async deleteByEntity(entityType: SyncEntityType, entityId: string): Promise<void> {
+    try {
+      await this.db.executeSql('DELETE FROM sync_conflicts WHERE entity_type = ? AND entity_id = ?', [entityType, entityId]);
+    } catch (e) {
+      console.error('Failed to delete sync conflicts', e);
+    }
+  }
+}
+
+export default SyncConflictRepository;
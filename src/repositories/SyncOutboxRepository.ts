@@ -0,0 +1,231 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {OutboxEntityType, OutboxOperation, OutboxStatus, SyncOutboxItem} from '../models/SyncOutbox';
+
+export interface OutboxEntry {
+  operation: OutboxOperation;
+  entityType: OutboxEntityType;
+  entityId: string;
+  collection?: string;
+  userId?: string;
+  payload?: any;
+  payloadHash?: string;
+  // Only used when importing entries queued by older builds
+  attempts?: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  status?: OutboxStatus;
+}
+
+/**
+ * Repository for the sync outbox
+ * Enqueueing is idempotent per (operation, entity type, entity id)
+ */
+export class SyncOutboxRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  private mapRow(row: any): SyncOutboxItem {
+    let payload: any;
+    if (row.payload) {
+      try {
+        payload = JSON.parse(row.payload);
+      } catch (e) {
+        payload = undefined;
+      }
+    }
+    return {
+      id: row.id,
+      operation: row.operation,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      collection: row.collection || undefined,
+      userId: row.user_id || undefined,
+      payload,
+      payloadHash: row.payload_hash || undefined,
+      attempts: row.attempts || 0,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      lastError: row.last_error || undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private async query(sql: string, params: any[] = []): Promise<SyncOutboxItem[]> {
+    const res = await this.db.executeSql(sql, params);
+    const items: SyncOutboxItem[] = [];
+    for (let i = 0; i < res[0].rows.length; i++) {
+      items.push(this.mapRow(res[0].rows.item(i)));
+    }
+    return items;
+  }
+
+  /**
+   * Queue an operation. An existing row for the same operation and entity keeps its
+   * place in the order; a changed payload hash resets its attempts (and revives a
+   * FAILED row), while an unchanged one leaves the row as it is.
+   */
+  public async enqueue(entry: OutboxEntry): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+      const payload = entry.payload === undefined ? null : JSON.stringify(entry.payload);
+      const existing = await this.query(
+        'SELECT * FROM sync_outbox WHERE operation = ? AND entity_type = ? AND entity_id = ? LIMIT 1',
+        [entry.operation, entry.entityType, entry.entityId],
+      );
+
+      if (existing.length > 0) {
+        const item = existing[0];
+        if (item.payloadHash === entry.payloadHash && (item.status === 'PENDING' || !entry.payloadHash)) {
+          return;
+        }
+        await this.db.executeSql(
+          `UPDATE sync_outbox SET collection = ?, user_id = ?, payload = ?, payload_hash = ?, attempts = 0,
+            next_attempt_at = NULL, last_error = NULL, status = 'PENDING', updated_at = ? WHERE id = ?`,
+          [entry.collection || null, entry.userId || null, payload, entry.payloadHash || null, now, item.id],
+        );
+        return;
+      }
+
+      await this.db.executeSql(
+        `INSERT INTO sync_outbox (
+          operation, entity_type, entity_id, collection, user_id, payload, payload_hash,
+          attempts, next_attempt_at, last_error, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.operation,
+          entry.entityType,
+          entry.entityId,
+          entry.collection || null,
+          entry.userId || null,
+          payload,
+          entry.payloadHash || null,
+          entry.attempts || 0,
+          entry.nextAttemptAt || null,
+          entry.lastError || null,
+          entry.status || 'PENDING',
+          now,
+          now,
+        ],
+      );
+    } catch (e) {
+      console.error('Failed to enqueue sync outbox item', e);
+      throw e;
+    }
+  }
+
+  /**
+   * Pending items of the given operations whose retry time has come, oldest first
+   */
+  public async findDue(operations: OutboxOperation[], now: string): Promise<SyncOutboxItem[]> {
+    try {
+      const placeholders = operations.map(() => '?').join(', ');
+      return await this.query(
+        `SELECT * FROM sync_outbox
+         WHERE status = 'PENDING' AND operation IN (${placeholders})
+           AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+         ORDER BY id`,
+        [...operations, now],
+      );
+    } catch (e) {
+      console.error('Failed to query due sync outbox items', e);
+      return [];
+    }
+  }
+
+  public async findAll(status?: OutboxStatus): Promise<SyncOutboxItem[]> {
+    try {
+      return status
+        ? await this.query('SELECT * FROM sync_outbox WHERE status = ? ORDER BY id', [status])
+        : await this.query('SELECT * FROM sync_outbox ORDER BY id');
+    } catch (e) {
+      console.error('Failed to query sync outbox', e);
+      return [];
+    }
+  }
+
+  public async count(operations: OutboxOperation[], status: OutboxStatus = 'PENDING'): Promise<number> {
+    try {
+      const placeholders = operations.map(() => '?').join(', ');
+      const res = await this.db.executeSql(
+        `SELECT COUNT(*) as count FROM sync_outbox WHERE status = ? AND operation IN (${placeholders})`,
+        [status, ...operations],
+      );
+      return res[0].rows.item(0).count;
+    } catch (e) {
+      console.error('Failed to count sync outbox items', e);
+      return 0;
+    }
+  }
+
+  /**
+   * Remove a processed item, unless it was queued again with a different payload while it was being sent
+   */
+  public async complete(id: number, payloadHash?: string): Promise<void> {
+    try {
+      await this.db.executeSql('DELETE FROM sync_outbox WHERE id = ? AND payload_hash IS ?', [id, payloadHash || null]);
+    } catch (e) {
+      console.error('Failed to complete sync outbox item', e);
+    }
+  }
+
+  public async recordFailure(id: number, attempts: number, status: OutboxStatus, lastError: string, nextAttemptAt?: string): Promise<void> {
+    try {
+      await this.db.executeSql(
+        'UPDATE sync_outbox SET attempts = ?, status = ?, last_error = ?, next_attempt_at = ?, updated_at = ? WHERE id = ?',
+        [attempts, status, lastError, nextAttemptAt || null, new Date().toISOString(), id],
+      );
+    } catch (e) {
+      console.error('Failed to record sync outbox failure', e);
+    }
+  }
+
+  /**
+   * Make an item due now with a fresh attempt count
+   */
+  public async resetForRetry(id: number): Promise<void> {
+    try {
+      await this.db.executeSql(
+        "UPDATE sync_outbox SET attempts = 0, next_attempt_at = NULL, status = 'PENDING', updated_at = ? WHERE id = ?",
+        [new Date().toISOString(), id],
+      );
+    } catch (e) {
+      console.error('Failed to reset sync outbox item', e);
+      throw e;
+    }
+  }
+
+  public async remove(id: number): Promise<void> {
+    try {
+      await this.db.executeSql('DELETE FROM sync_outbox WHERE id = ?', [id]);
+    } catch (e) {
+      console.error('Failed to remove sync outbox item', e);
+      throw e;
+    }
+  }
+
+  public async removeEntity(operations: OutboxOperation[], entityType: OutboxEntityType, entityId: string): Promise<void> {
+    try {
+      const placeholders = operations.map(() => '?').join(', ');
+      await this.db.executeSql(
+        `DELETE FROM sync_outbox WHERE entity_type = ? AND entity_id = ? AND operation IN (${placeholders})`,
+        [entityType, entityId, ...operations],
+      );
+    } catch (e) {
+      console.error('Failed to remove sync outbox items', e);
+    }
+  }
+
+  public async removeFailedByEntityId(entityId: string): Promise<void> {
+    try {
+      await this.db.executeSql("DELETE FROM sync_outbox WHERE entity_id = ? AND status = 'FAILED'", [entityId]);
+    } catch (e) {
+      console.error('Failed to remove failed sync outbox items', e);
+    }
+  }
+}
+
+export default SyncOutboxRepository;
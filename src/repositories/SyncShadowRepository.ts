@@ -0,0 +1,52 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {SyncEntityType} from '../models/SyncConflict';
+
+/**
+ * Repository for sync shadows: the last copy of each record that matched the cloud.
+ * A missing shadow means the record predates field-level merging.
+ */
+export class SyncShadowRepository {
+  private db: SQLiteDatabase;
+
+  constructor(db: SQLiteDatabase) {
+    this.db = db;
+  }
+
+  public async getSnapshot<T = any>(entityType: SyncEntityType, entityId: string): Promise<T | null> {
+    try {
+      const res = await this.db.executeSql(
+        'SELECT snapshot FROM sync_shadows WHERE entity_type = ? AND entity_id = ? LIMIT 1',
+        [entityType, entityId],
+      );
+      if (res[0].rows.length > 0) {
+        return JSON.parse(res[0].rows.item(0).snapshot) as T;
+      }
+      return null;
+    } catch (e) {
+      console.error('Failed to read sync shadow', e);
+      return null;
+    }
+  }
+
+  public async saveSnapshot(entityType: SyncEntityType, entityId: string, snapshot: any): Promise<void> {
+    try {
+      await this.db.executeSql(
+        'INSERT OR REPLACE INTO sync_shadows (entity_type, entity_id, snapshot, synced_at) VALUES (?, ?, ?, ?)',
+        [entityType, entityId, JSON.stringify(snapshot), new Date().toISOString()],
+      );
+    } catch (e) {
+      console.error('Failed to save sync shadow', e);
+      throw e;
+    }
+  }
+
+  public async deleteSnapshot(entityType: SyncEntityType, entityId: string): Promise<void> {
+    try {
+      await this.db.executeSql('DELETE FROM sync_shadows WHERE entity_type = ? AND entity_id = ?', [entityType, entityId]);
+    } catch (e) {
+      console.error('Failed to delete sync shadow', e);
+    }
+  }
+}
+
+export default SyncShadowRepository;
@@ -0,0 +1,331 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import {TransactionItem, TransactionItemInput} from '../models/TransactionItem';
+import {BaseRepository} from '../database/BaseRepository';
+
+/**
+ * Transaction Item Repository
+ * Handles the grain lines of buy and sell bills
+ */
+export class TransactionItemRepository extends BaseRepository<TransactionItem> {
+  protected tableName = 'transaction_items';
+
+  constructor(database: SQLiteDatabase) {
+    super(database);
+  }
+
+  /**
+   * Create a new line item
+   */
+  public async create(data: Omit<TransactionItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<TransactionItem> {
+    const id = this.generateId();
+    const now = this.getCurrentTimestamp();
+
+    await this.createWithId({
+      ...data,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const created = await this.findById(id);
+    if (!created) {
+      throw new Error('Failed to create transaction item');
+    }
+    return created;
+  }
+
+  /**
+   * Create a line item preserving id and timestamps (used when restoring from cloud)
+   */
+  public async createWithId(entity: TransactionItem): Promise<TransactionItem> {
+    const columns = [
+      'id',
+      'transaction_id',
+      'transaction_type',
+      'line_number',
+      'grain_type',
+      'number_of_bags',
+      'weight_per_bag',
+      'extra_weight',
+      'quantity',
+      'rate_per_quintal',
+      'amount',
+      'arat',
+      'tulak',
+      'mandi_shulk',
+      'arat_percent',
+      'mandi_percent',
+      'hsn_code',
+      'gst_rate',
+      'taxable_value',
+      'cgst_amount',
+      'sgst_amount',
+      'igst_amount',
+      'lot_picks',
+      'created_at',
+      'updated_at',
+    ];
+
+    const params = [
+      entity.id,
+      entity.transactionId,
+      entity.transactionType,
+      entity.lineNumber,
+      entity.grainType,
+      entity.numberOfBags || 0,
+      entity.weightPerBag || 0,
+      entity.extraWeight || 0,
+      entity.quantity,
+      entity.ratePerQuintal,
+      entity.amount,
+      entity.arat || 0,
+      entity.tulak || 0,
+      entity.mandiShulk || 0,
+      entity.aratPercent ?? null,
+      entity.mandiPercent ?? null,
+      entity.hsnCode || null,
+      entity.gstRate || 0,
+      entity.taxableValue || 0,
+      entity.cgstAmount || 0,
+      entity.sgstAmount || 0,
+      entity.igstAmount || 0,
+      entity.lotPicks && entity.lotPicks.length > 0 ? JSON.stringify(entity.lotPicks) : null,
+      entity.createdAt,
+      entity.updatedAt,
+    ];
+
+    await this.insertRowWithId(columns, params);
+    return entity;
+  }
+
+  /**
+   * Replace all lines of a transaction with the given items, numbered in order
+   */
+  public async replaceForTransaction(
+    transactionId: string,
+    transactionType: 'BUY' | 'SELL',
+    items: TransactionItemInput[],
+  ): Promise<TransactionItem[]> {
+    await this.deleteByTransactionId(transactionId);
+
+    const created: TransactionItem[] = [];
+    for (let i = 0; i < items.length; i++) {
+      created.push(
+        await this.create({
+          ...items[i],
+          transactionId,
+          transactionType,
+          lineNumber: i + 1,
+        }),
+      );
+    }
+    return created;
+  }
+
+  /**
+   * Replace all lines of a transaction with items carrying their own ids (from cloud)
+   */
+  public async replaceWithIds(transactionId: string, items: TransactionItem[]): Promise<TransactionItem[]> {
+    await this.deleteByTransactionId(transactionId);
+
+    for (const item of items) {
+      await this.createWithId({...item, transactionId});
+    }
+    return this.findByTransactionId(transactionId);
+  }
+
+  /**
+   * Find line item by ID
+   */
+  public async findById(id: string): Promise<TransactionItem | null> {
+    const query = 'SELECT * FROM transaction_items WHERE id = ? LIMIT 1';
+    const [results] = await this.db.executeSql(query, [id]);
+
+    if (results.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntity(results.rows.item(0));
+  }
+
+  /**
+   * Find all line items
+   */
+  public async findAll(): Promise<TransactionItem[]> {
+    const query = 'SELECT * FROM transaction_items ORDER BY transaction_id, line_number ASC';
+    const [results] = await this.db.executeSql(query);
+    return this.mapRows(results.rows);
+  }
+
+  /**
+   * Find the lines of a transaction in bill order
+   */
+  public async findByTransactionId(transactionId: string): Promise<TransactionItem[]> {
+    const query = 'SELECT * FROM transaction_items WHERE transaction_id = ? ORDER BY line_number ASC';
+    const [results] = await this.db.executeSql(query, [transactionId]);
+    return this.mapRows(results.rows);
+  }
+
+  /**
+   * Find all lines of buy or sell bills, grouped by transaction id
+   */
+  public async findGroupedByTransaction(transactionType: 'BUY' | 'SELL'): Promise<Record<string, TransactionItem[]>> {
+    const query = 'SELECT * FROM transaction_items WHERE transaction_type = ? ORDER BY transaction_id, line_number ASC';
+    const [results] = await this.db.executeSql(query, [transactionType]);
+
+    const grouped: Record<string, TransactionItem[]> = {};
+    for (const item of this.mapRows(results.rows)) {
+      (grouped[item.transactionId] = grouped[item.transactionId] || []).push(item);
+    }
+    return grouped;
+  }
+
+  /**
+   * Total quantity (in quintals) per grain type across buy or sell lines
+   */
+  public async getQuantityByGrainType(transactionType: 'BUY' | 'SELL'): Promise<Record<string, number>> {
+    const query = `
+      SELECT LOWER(TRIM(grain_type)) as grain, SUM(quantity) as total
+      FROM transaction_items
+      WHERE transaction_type = ?
+      GROUP BY LOWER(TRIM(grain_type))
+    `;
+    const [results] = await this.db.executeSql(query, [transactionType]);
+
+    const totals: Record<string, number> = {};
+    for (let i = 0; i < results.rows.length; i++) {
+      const row = results.rows.item(i);
+      totals[row.grain] = row.total || 0;
+    }
+    return totals;
+  }
+
+  /**
+   * Total quantity per storage location and grain type across buy or sell lines.
+   * Bills entered without a location are reported with a null location.
+   */
+  public async getQuantityByLocationAndGrainType(
+    transactionType: 'BUY' | 'SELL',
+  ): Promise<Array<{locationId: string | null; grain: string; total: number}>> {
+    const billTable = transactionType === 'BUY' ? 'buy_transactions' : 'sell_transactions';
+    const query = `
+      SELECT b.location_id as location_id, LOWER(TRIM(i.grain_type)) as grain, SUM(i.quantity) as total
+      FROM transaction_items i
+      JOIN ${billTable} b ON b.id = i.transaction_id
+      WHERE i.transaction_type = ?
+      GROUP BY b.location_id, LOWER(TRIM(i.grain_type))
+    `;
+    const [results] = await this.db.executeSql(query, [transactionType]);
+
+    const rows: Array<{locationId: string | null; grain: string; total: number}> = [];
+    for (let i = 0; i < results.rows.length; i++) {
+      const row = results.rows.item(i);
+      rows.push({locationId: row.location_id || null, grain: row.grain, total: row.total || 0});
+    }
+    return rows;
+  }
+
+  /**
+   * Update a line item
+   */
+  public async update(id: string, data: Partial<TransactionItem>): Promise<TransactionItem> {
+    const updateFields: string[] = [];
+    const params: any[] = [];
+
+    if (data.grainType !== undefined) {
+      updateFields.push('grain_type = ?');
+      params.push(data.grainType);
+    }
+    if (data.numberOfBags !== undefined) {
+      updateFields.push('number_of_bags = ?');
+      params.push(data.numberOfBags);
+    }
+    if (data.weightPerBag !== undefined) {
+      updateFields.push('weight_per_bag = ?');
+      params.push(data.weightPerBag);
+    }
+    if (data.extraWeight !== undefined) {
+      updateFields.push('extra_weight = ?');
+      params.push(data.extraWeight);
+    }
+    if (data.quantity !== undefined) {
+      updateFields.push('quantity = ?');
+      params.push(data.quantity);
+    }
+    if (data.ratePerQuintal !== undefined) {
+      updateFields.push('rate_per_quintal = ?');
+      params.push(data.ratePerQuintal);
+    }
+    if (data.amount !== undefined) {
+      updateFields.push('amount = ?');
+      params.push(data.amount);
+    }
+
+    await this.updateRowWithTimestamp(updateFields, params, id, this.getCurrentTimestamp());
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Transaction item not found after update');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a line item
+   */
+  public async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM transaction_items WHERE id = ?';
+    const [result] = await this.db.executeSql(query, [id]);
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Delete all lines of a transaction
+   */
+  public async deleteByTransactionId(transactionId: string): Promise<number> {
+    const query = 'DELETE FROM transaction_items WHERE transaction_id = ?';
+    const [result] = await this.db.executeSql(query, [transactionId]);
+    return result.rowsAffected;
+  }
+
+  private mapRows(rows: {length: number; item(index: number): any}): TransactionItem[] {
+    const items: TransactionItem[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      items.push(this.mapRowToEntity(rows.item(i)));
+    }
+    return items;
+  }
+
+  /**
+   * Map database row to TransactionItem entity
+   */
+  protected mapRowToEntity(row: any): TransactionItem {
+    return {
+      id: row.id,
+      transactionId: row.transaction_id,
+      transactionType: row.transaction_type,
+      lineNumber: row.line_number,
+      grainType: row.grain_type,
+      numberOfBags: row.number_of_bags || 0,
+      weightPerBag: row.weight_per_bag || 0,
+      extraWeight: row.extra_weight || 0,
+      quantity: row.quantity,
+      ratePerQuintal: row.rate_per_quintal,
+      amount: row.amount,
+      arat: row.arat || 0,
+      tulak: row.tulak || 0,
+      mandiShulk: row.mandi_shulk || 0,
+      aratPercent: row.arat_percent,
+      mandiPercent: row.mandi_percent,
+      hsnCode: row.hsn_code || undefined,
+      gstRate: row.gst_rate || 0,
+      taxableValue: row.taxable_value || 0,
+      cgstAmount: row.cgst_amount || 0,
+      sgstAmount: row.sgst_amount || 0,
+      igstAmount: row.igst_amount || 0,
+      lotPicks: row.lot_picks ? JSON.parse(row.lot_picks) : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
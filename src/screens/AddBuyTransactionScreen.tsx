@@ -15,8 +15,13 @@ import {
 import {Calendar} from 'react-native-calendars';
 import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
 import {CustomButton} from '../components/CustomButton';
+import {LocationPicker} from '../components/LocationPicker';
+import {GrainPicker} from '../components/GrainPicker';
 import TransactionService from '../services/TransactionService';
 import {PaymentStatus} from '../models/Transaction';
+import {TransactionItemInput} from '../models/TransactionItem';
+import {StorageLocation} from '../models/StorageLocation';
+import {Grain} from '../models/Grain';
 import DatabaseService from '../database/DatabaseService';
 import {FarmerRepository} from '../repositories/FarmerRepository';
 
@@ -59,6 +64,9 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
   ]);
   // When multiple transactions are present we can ask Grain Type once
   const [multiGrainType, setMultiGrainType] = useState('');
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [grains, setGrains] = useState<Grain[]>([]);
+  const [locationId, setLocationId] = useState<string | undefined>(undefined);
   
   // Fees & Charges
   const [commissionPercent, setCommissionPercent] = useState('');
@@ -76,6 +84,31 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
     initializeFarmerRepository();
   }, []);
 
+  // Storage locations; preselected when there is only one to choose from
+  useEffect(() => {
+    TransactionService.getStorageLocations()
+      .then(list => {
+        setLocations(list);
+        const active = list.filter(location => location.isActive);
+        if (active.length === 1) setLocationId(active[0].id);
+      })
+      .catch(error => console.error('Error loading storage locations:', error));
+  }, []);
+
+  useEffect(() => {
+    TransactionService.getGrains()
+      .then(setGrains)
+      .catch(error => console.error('Error loading grains:', error));
+  }, []);
+
+  // A grain picked from the master fills in its bag weight where none is entered yet
+  const handleGrainSelected = (grain: Grain) => {
+    if (!grain.defaultBagWeight) return;
+    setGrainTransactions(prev =>
+      prev.map(txn => (txn.weightPerBag ? txn : {...txn, weightPerBag: String(grain.defaultBagWeight)})),
+    );
+  };
+
   const initializeFarmerRepository = async () => {
     const db = await DatabaseService.initDatabase();
     setFarmerRepository(new FarmerRepository(db));
@@ -250,6 +283,10 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
       Alert.alert('Validation Error', 'Please enter farmer address');
       return false;
     }
+    if (!locationId) {
+      Alert.alert('Validation Error', 'Please select a storage location');
+      return false;
+    }
     
     // Require a grain type (single top-level for multi items)
     if (!multiGrainType.trim()) {
@@ -311,7 +348,7 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
     try {
       // Save farmer if new
       if (!farmerExists) {
-        await farmerRepository!.create({
+        await TransactionService.createFarmer({
           phoneNumber: farmerPhone,
           name: farmerName.trim(),
           address: farmerAddress.trim(),
@@ -327,10 +364,16 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
       const finalPayable = calculateFinalNetPayable();
       const advance = parseFloat(advancePaid) || 0;
 
-      // Create description with all transactions
-      const description = grainTransactions.map((txn, idx) => 
-        `[${idx + 1}] ${multiGrainType || txn.grainType}: ${txn.numberOfBags} bags × ${txn.weightPerBag}kg + ${txn.extraWeight || 0}kg @ ₹${txn.pricePerQuintal}/qt`
-      ).join('; ');
+      // One bill line per grain entry
+      const items: TransactionItemInput[] = grainTransactions.map(txn => ({
+        grainType: multiGrainType || txn.grainType,
+        numberOfBags: parseFloat(txn.numberOfBags) || 0,
+        weightPerBag: parseFloat(txn.weightPerBag) || 0,
+        extraWeight: parseFloat(txn.extraWeight) || 0,
+        quantity: parseFloat(calculateTransactionWeight(txn).toFixed(2)),
+        ratePerQuintal: parseFloat(txn.pricePerQuintal) || 0,
+        amount: calculateTransactionAmount(txn),
+      }));
 
       // Calculate rate per quintal
       // For single grain: use its rate
@@ -351,9 +394,9 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
         paymentStatus: getPaymentStatus(),
         commissionAmount: commission,
         labourCharges: labourCharges,
+        locationId,
         date: transactionDate.toISOString(),
-        description,
-      });
+      }, items);
 
       Alert.alert(
         'Success',
@@ -529,15 +572,20 @@ export const AddBuyTransactionScreen: React.FC<any> = ({navigation}) => {
           {/* Grain Type (applies to all items) - single control for single or multi items */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Grain Type *</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="e.g., Wheat, Rice, Maize"
-              placeholderTextColor={Colors.textSecondary}
+            <GrainPicker
+              grains={grains}
               value={multiGrainType}
               onChangeText={setMultiGrainType}
+              onSelect={handleGrainSelected}
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Storage Location *</Text>
+            <LocationPicker locations={locations} selectedId={locationId} onSelect={setLocationId} />
+            <Text style={styles.hintText}>Where the grain is unloaded</Text>
+          </View>
+
           {grainTransactions.map((transaction, index) => (
             <View key={transaction.id} style={styles.transactionCard}>
               <View style={styles.transactionHeader}>
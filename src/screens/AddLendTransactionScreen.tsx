@@ -13,9 +13,15 @@ import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
 import {CustomInput} from '../components/CustomInput';
 import {CustomButton} from '../components/CustomButton';
 import TransactionService from '../services/TransactionService';
-import {PaymentStatus} from '../models/Transaction';
-import {FarmerRepository} from '../repositories/FarmerRepository';
-import DatabaseService from '../database/DatabaseService';
+import {InterestPeriod, InterestType, PaymentStatus} from '../models/Transaction';
+import {describeInterestRate} from '../utils/interest';
+
+// Compounding intervals offered for compound loans ("byaj par byaj")
+const COMPOUNDING_OPTIONS = [
+  {months: 1, label: 'Monthly'},
+  {months: 6, label: '6 Months'},
+  {months: 12, label: 'Yearly'},
+];
 
 /**
  * Add Lend Transaction Screen
@@ -31,16 +37,32 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
   const [lenderName, setLenderName] = useState('');
   const [amount, setAmount] = useState('');
   const [interestRate, setInterestRate] = useState('');
+  const [interestPeriod, setInterestPeriod] = useState<InterestPeriod>('MONTHLY');
+  const [interestType, setInterestType] = useState<InterestType>('SIMPLE');
+  const [compoundingMonths, setCompoundingMonths] = useState(0);
+  const [graceDays, setGraceDays] = useState('');
+  const [expectedReturnDate, setExpectedReturnDate] = useState<Date | null>(null);
+  const [pickingReturnDate, setPickingReturnDate] = useState(false);
+  const [penalRate, setPenalRate] = useState('');
   const [loading, setLoading] = useState(false);
   const [farmerExists, setFarmerExists] = useState(false);
   const [activeLoansInfo, setActiveLoansInfo] = useState<string>('');
 
   const handleDateChange = (dateString: string) => {
     const selectedDate = new Date(dateString);
-    setDate(selectedDate);
+    if (pickingReturnDate) {
+      setExpectedReturnDate(selectedDate);
+    } else {
+      setDate(selectedDate);
+    }
     setShowDatePicker(false);
   };
 
+  const openDatePicker = (forReturnDate: boolean) => {
+    setPickingReturnDate(forReturnDate);
+    setShowDatePicker(true);
+  };
+
   const handlePhoneNumberChange = async (phone: string) => {
     setPhoneNumber(phone);
     
@@ -145,6 +167,26 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
       return false;
     }
 
+    const graceValue = graceDays ? parseInt(graceDays, 10) : 0;
+    if (isNaN(graceValue) || graceValue < 0) {
+      Alert.alert('Validation Error', 'Please enter valid grace days (0 or more)');
+      return false;
+    }
+
+    const penalValue = penalRate ? parseFloat(penalRate) : 0;
+    if (isNaN(penalValue) || penalValue < 0) {
+      Alert.alert('Validation Error', 'Please enter a valid penal rate (0 or more)');
+      return false;
+    }
+    if (penalValue > 0 && !expectedReturnDate) {
+      Alert.alert('Validation Error', 'Please select the expected return date after which the penal rate applies');
+      return false;
+    }
+    if (expectedReturnDate && expectedReturnDate < date) {
+      Alert.alert('Validation Error', 'Expected return date cannot be before the loan date');
+      return false;
+    }
+
     return true;
   };
 
@@ -157,14 +199,20 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
     try {
       // Mode-specific save behavior
       const loanAmount = parseFloat(amount);
-      const rate = parseFloat(interestRate);
+      const interestTerms = {
+        interestRate: parseFloat(interestRate),
+        interestPeriod,
+        interestType,
+        compoundingMonths: interestType === 'COMPOUND' ? compoundingMonths : 0,
+        graceDays: graceDays ? parseInt(graceDays, 10) : 0,
+        penalRate: penalRate ? parseFloat(penalRate) : 0,
+        expectedReturnDate: expectedReturnDate ? expectedReturnDate.toISOString() : undefined,
+      };
 
       if (mode === 'Customer') {
         // Save farmer if not exists
         if (!farmerExists) {
-          const db = DatabaseService.getDatabase();
-          const farmerRepo = new FarmerRepository(db);
-          await farmerRepo.create({
+          await TransactionService.createFarmer({
             name: personName.trim(),
             phoneNumber: phoneNumber,
             address: address.trim(),
@@ -177,7 +225,8 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
           personPhone: phoneNumber,
           lendType: 'MONEY',
           amount: loanAmount,
-          description: `Loan Amount: ₹${loanAmount.toFixed(2)} | Interest Rate: ${rate}%`,
+          description: `Loan Amount: ₹${loanAmount.toFixed(2)}`,
+          ...interestTerms,
           returnedAmount: 0,
           returnedQuantity: 0,
           balanceAmount: loanAmount,
@@ -192,7 +241,8 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
           personPhone: undefined as any,
           lendType: 'MONEY',
           amount: loanAmount,
-          description: `Loan (Self - Lender: ${lenderName.trim()}) Amount: ₹${loanAmount.toFixed(2)} | Interest Rate: ${rate}%`,
+          description: `Loan (Self - Lender: ${lenderName.trim()}) Amount: ₹${loanAmount.toFixed(2)}`,
+          ...interestTerms,
           returnedAmount: 0,
           returnedQuantity: 0,
           balanceAmount: loanAmount,
@@ -247,7 +297,7 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
           <Text style={styles.label}>Date *</Text>
           <TouchableOpacity
             style={styles.dateButton}
-            onPress={() => setShowDatePicker(true)}>
+            onPress={() => openDatePicker(false)}>
             <Text style={styles.dateButtonText}>📅 {formatDate(date)}</Text>
           </TouchableOpacity>
           <Text style={styles.hintText}>Tap to select date</Text>
@@ -262,17 +312,18 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
           <View style={styles.modalOverlay}>
             <View style={styles.calendarModal}>
               <View style={styles.calendarHeader}>
-                <Text style={styles.calendarTitle}>Select Date</Text>
+                <Text style={styles.calendarTitle}>{pickingReturnDate ? 'Expected Return Date' : 'Select Date'}</Text>
                 <TouchableOpacity onPress={() => setShowDatePicker(false)}>
                   <Text style={styles.calendarClose}>✕</Text>
                 </TouchableOpacity>
               </View>
               
               <Calendar
-                maxDate={new Date().toISOString().split('T')[0]}
+                maxDate={pickingReturnDate ? undefined : new Date().toISOString().split('T')[0]}
+                minDate={pickingReturnDate ? date.toISOString().split('T')[0] : undefined}
                 onDayPress={(day: any) => handleDateChange(day.dateString)}
                 markedDates={{
-                  [date.toISOString().split('T')[0]]: {
+                  [((pickingReturnDate && expectedReturnDate) || date).toISOString().split('T')[0]]: {
                     selected: true,
                     selectedColor: Colors.primary,
                   },
@@ -382,13 +433,101 @@ export const AddLendTransactionScreen: React.FC<any> = ({navigation}) => {
             placeholder="Enter interest rate"
             keyboardType="decimal-pad"
           />
+          <View style={styles.modeRow}>
+            <TouchableOpacity
+              style={[styles.modeButton, interestPeriod === 'MONTHLY' && styles.modeButtonActive]}
+              onPress={() => setInterestPeriod('MONTHLY')}>
+              <Text style={[styles.modeButtonText, interestPeriod === 'MONTHLY' && styles.modeButtonTextActive]}>Per Month</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modeButton, interestPeriod === 'YEARLY' && styles.modeButtonActive]}
+              onPress={() => setInterestPeriod('YEARLY')}>
+              <Text style={[styles.modeButtonText, interestPeriod === 'YEARLY' && styles.modeButtonTextActive]}>Per Year</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={[styles.modeRow, styles.toggleRow]}>
+            <TouchableOpacity
+              style={[styles.modeButton, interestType === 'SIMPLE' && styles.modeButtonActive]}
+              onPress={() => setInterestType('SIMPLE')}>
+              <Text style={[styles.modeButtonText, interestType === 'SIMPLE' && styles.modeButtonTextActive]}>Simple</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modeButton, interestType === 'COMPOUND' && styles.modeButtonActive]}
+              onPress={() => setInterestType('COMPOUND')}>
+              <Text style={[styles.modeButtonText, interestType === 'COMPOUND' && styles.modeButtonTextActive]}>Compound</Text>
+            </TouchableOpacity>
+          </View>
+          {interestType === 'COMPOUND' && (
+            <View style={[styles.modeRow, styles.toggleRow]}>
+              {COMPOUNDING_OPTIONS.map(option => {
+                const active = (compoundingMonths || (interestPeriod === 'YEARLY' ? 12 : 1)) === option.months;
+                return (
+                  <TouchableOpacity
+                    key={option.months}
+                    style={[styles.modeButton, active && styles.modeButtonActive]}
+                    onPress={() => setCompoundingMonths(option.months)}>
+                    <Text style={[styles.modeButtonText, active && styles.modeButtonTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
           {interestRate && !isNaN(parseFloat(interestRate)) && (
             <Text style={styles.hintText}>
-              Interest rate: {interestRate}% per month
+              Interest rate: {describeInterestRate({
+                interestRate: parseFloat(interestRate),
+                interestPeriod,
+                interestType,
+                compoundingMonths,
+                graceDays: 0,
+                penalRate: 0,
+              })}
+            </Text>
+          )}
+        </View>
+
+        {/* Grace Days */}
+        <View style={styles.section}>
+          <CustomInput
+            label="Grace Days"
+            value={graceDays}
+            onChangeText={setGraceDays}
+            placeholder="Interest-free days after the loan date"
+            keyboardType="number-pad"
+          />
+        </View>
+
+        {/* Expected Return Date */}
+        <View style={styles.section}>
+          <Text style={styles.label}>Expected Return Date</Text>
+          <TouchableOpacity
+            style={styles.dateButton}
+            onPress={() => openDatePicker(true)}>
+            <Text style={styles.dateButtonText}>
+              📅 {expectedReturnDate ? formatDate(expectedReturnDate) : 'Not set'}
             </Text>
+          </TouchableOpacity>
+          {expectedReturnDate && (
+            <TouchableOpacity onPress={() => setExpectedReturnDate(null)}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
           )}
         </View>
 
+        {/* Penal Rate */}
+        <View style={styles.section}>
+          <CustomInput
+            label="Penal Rate (%)"
+            value={penalRate}
+            onChangeText={setPenalRate}
+            placeholder="Rate after the expected return date"
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.hintText}>
+            Charged {interestPeriod === 'YEARLY' ? 'per year' : 'per month'} instead of the normal rate once the loan is overdue
+          </Text>
+        </View>
+
         {/* Save Button */}
         <CustomButton
           title="Save Loan"
@@ -447,6 +586,14 @@ const styles = StyleSheet.create({
   modeButtonTextActive: {
     color: Colors.textLight,
   },
+  toggleRow: {
+    marginTop: Spacing.sm,
+  },
+  clearText: {
+    ...Typography.caption,
+    color: Colors.primary,
+    marginTop: Spacing.xs,
+  },
   dateButton: {
     backgroundColor: Colors.surface,
     borderWidth: 1,
@@ -15,13 +15,33 @@ import {
 import {Calendar} from 'react-native-calendars';
 import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
 import {CustomButton} from '../components/CustomButton';
+import {LocationPicker} from '../components/LocationPicker';
+import {GrainPicker} from '../components/GrainPicker';
 import TransactionService from '../services/TransactionService';
-import {PaymentStatus} from '../models/Transaction';
+import AuthService from '../services/AuthService';
+import {PaymentStatus, SellBillType} from '../models/Transaction';
+import {TransactionItemInput} from '../models/TransactionItem';
+import {LotPick, StockLot} from '../models/StockLot';
+import {StorageLocation} from '../models/StorageLocation';
+import {Grain} from '../models/Grain';
 import DatabaseService from '../database/DatabaseService';
 import {MerchantRepository} from '../repositories/MerchantRepository';
 import {CustomerRepository} from '../repositories/CustomerRepository';
+import {GST_RATES} from '../constants/types';
+import {
+  calculateItemTax,
+  describeStateCode,
+  getStateCodeFromGstin,
+  isInterStateSupply,
+  suggestHsnCode,
+  summarizeTax,
+} from '../utils/gst';
+import {describeGstinDetails, validateGstin} from '../utils/gstin';
+import {splitLotPicks} from '../utils/stockLots';
+import {findGrain} from '../utils/grainMaster';
+import {formatDate as formatLotDate} from '../utils/helpers';
 
-type BillType = 'NORMAL' | 'BILL_OF_SUPPLY';
+type BillType = SellBillType;
 type PartyType = 'MERCHANT' | 'CUSTOMER';
 
 /**
@@ -89,6 +109,22 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
   // Tulak: editable monetary amount (defaults to ₹1 per Quintal * total weight)
   const [tulakAmount, setTulakAmount] = useState('');
   const [mandiPercent, setMandiPercent] = useState('1.5');
+
+  // Tax Invoice (for Merchant only)
+  const [hsnCode, setHsnCode] = useState('');
+  const [hsnEdited, setHsnEdited] = useState(false);
+  const [gstRate, setGstRate] = useState<number>(5);
+  const [supplierGstin, setSupplierGstin] = useState('');
+
+  // Stock lots: sold quantity comes from the oldest lots unless lots are picked by hand
+  const [chooseLots, setChooseLots] = useState(false);
+  const [openLots, setOpenLots] = useState<StockLot[]>([]);
+  const [loadingLots, setLoadingLots] = useState(false);
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [grains, setGrains] = useState<Grain[]>([]);
+  const [locationId, setLocationId] = useState<string | undefined>(undefined);
   
   const [loading, setLoading] = useState(false);
   const [merchantRepository, setMerchantRepository] = useState<MerchantRepository | null>(null);
@@ -106,10 +142,68 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
     setGrainTransactions(prev => prev.map(txn => ({ ...txn, grainType: multiGrainType })));
   }, [multiGrainType]);
 
+  // Suggest the grain's HSN code from the grain master until the user types their own
+  useEffect(() => {
+    if (!hsnEdited) {
+      setHsnCode(findGrain(grains, multiGrainType)?.hsnCode || suggestHsnCode(multiGrainType));
+    }
+  }, [multiGrainType, hsnEdited, grains]);
+
+  // Reload the grain's open lots at the location while picking by hand; earlier picks no longer apply
+  useEffect(() => {
+    setLotQuantities({});
+    if (!chooseLots || !multiGrainType.trim()) {
+      setOpenLots([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingLots(true);
+    TransactionService.getStockLots(multiGrainType, locationId)
+      .then(lots => {
+        if (!cancelled) setOpenLots(lots);
+      })
+      .catch(error => console.error('Error loading stock lots:', error))
+      .finally(() => {
+        if (!cancelled) setLoadingLots(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chooseLots, multiGrainType, locationId]);
+
+  // Storage locations; preselected when there is only one to choose from
+  useEffect(() => {
+    TransactionService.getStorageLocations()
+      .then(list => {
+        setLocations(list);
+        const active = list.filter(location => location.isActive);
+        if (active.length === 1) setLocationId(active[0].id);
+      })
+      .catch(error => console.error('Error loading storage locations:', error));
+  }, []);
+
+  useEffect(() => {
+    TransactionService.getGrains()
+      .then(setGrains)
+      .catch(error => console.error('Error loading grains:', error));
+  }, []);
+
+  // A grain picked from the master fills in its bag weight where none is entered yet
+  const handleGrainSelected = (grain: Grain) => {
+    if (!grain.defaultBagWeight) return;
+    setGrainTransactions(prev =>
+      prev.map(txn => (txn.weightPerBag ? txn : {...txn, weightPerBag: String(grain.defaultBagWeight)})),
+    );
+  };
+
   const initializeRepositories = async () => {
     const db = await DatabaseService.initDatabase();
     setMerchantRepository(new MerchantRepository(db));
     setCustomerRepository(new CustomerRepository(db));
+
+    // Our own GSTIN decides between CGST + SGST and IGST on tax invoices
+    const user = await AuthService.getCurrentUser();
+    setSupplierGstin(user?.gstin || '');
   };
 
   // Check party when phone number changes
@@ -216,8 +310,23 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
     return parseFloat(((mandi * grossAmount) / 100).toFixed(2));
   };
 
+  // Tax Invoice calculations: place of supply is the buyer's GSTIN state
+  const isTaxInvoice = billType === 'TAX_INVOICE' && partyType === 'MERCHANT';
+  const supplierStateCode = getStateCodeFromGstin(supplierGstin);
+  const gstinValidation = validateGstin(gstin);
+  const placeOfSupply = gstinValidation.details?.stateCode;
+  const interState = isInterStateSupply(supplierStateCode, placeOfSupply);
+
+  const calculateItemTaxes = () =>
+    grainTransactions.map(txn => calculateItemTax(calculateTransactionAmount(txn), gstRate, interState));
+
   const calculateNetReceivable = (): number => {
     const grossAmount = calculateGrossAmount();
+
+    if (isTaxInvoice) {
+      // Tax Invoice: Taxable value + GST
+      return parseFloat((grossAmount + summarizeTax(calculateItemTaxes()).totalTax).toFixed(2));
+    }
     
       if (billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT') {
       // Bill of Supply: Gross + Arat + Tulak(monetary) + Mandi Shulk
@@ -278,6 +387,10 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
         Alert.alert('Validation Error', 'Please enter GSTIN number');
         return false;
       }
+      if (!partyExists && !gstinValidation.valid) {
+        Alert.alert('Validation Error', gstinValidation.error || 'Invalid GSTIN');
+        return false;
+      }
     } else {
       if (!partyExists && !customerName.trim()) {
         Alert.alert('Validation Error', 'Please enter customer name');
@@ -289,6 +402,21 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
       Alert.alert('Validation Error', 'Please enter address');
       return false;
     }
+
+    if (isTaxInvoice) {
+      if (!supplierStateCode) {
+        Alert.alert('Validation Error', 'Add your firm GSTIN to your profile to issue a tax invoice');
+        return false;
+      }
+      if (!gstinValidation.valid) {
+        Alert.alert('Validation Error', `Merchant's GSTIN is invalid: ${gstinValidation.error}`);
+        return false;
+      }
+      if (!/^\d{4}(\d{2}){0,2}$/.test(hsnCode.trim())) {
+        Alert.alert('Validation Error', 'Please enter a 4, 6 or 8 digit HSN code');
+        return false;
+      }
+    }
     
     // Validate each grain transaction (or use multiGrainType when multiple)
     // Require a grain type for all cases (single or multiple items)
@@ -297,6 +425,28 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
       return false;
     }
 
+    if (!locationId) {
+      Alert.alert('Validation Error', 'Please select a storage location');
+      return false;
+    }
+
+    if (chooseLots) {
+      for (const lot of openLots) {
+        const picked = parseFloat(lotQuantities[lot.id] || '') || 0;
+        if (picked < 0 || picked > lot.remainingQuantity) {
+          Alert.alert(
+            'Validation Error',
+            `Lot from ${lot.supplierName} has ${lot.remainingQuantity.toFixed(2)} Qtl left`,
+          );
+          return false;
+        }
+      }
+      if (getPickedQuantity() > calculateTotalWeight() + 0.005) {
+        Alert.alert('Validation Error', 'Quantity picked from lots is more than the quantity sold');
+        return false;
+      }
+    }
+
     for (let i = 0; i < grainTransactions.length; i++) {
       const txn = grainTransactions[i];
       if (!txn.numberOfBags || parseFloat(txn.numberOfBags) <= 0) {
@@ -316,6 +466,15 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
     return true;
   };
 
+  const getLotPicks = (): LotPick[] =>
+    chooseLots
+      ? openLots
+          .map(lot => ({lotId: lot.id, quantity: parseFloat(lotQuantities[lot.id] || '') || 0}))
+          .filter(pick => pick.quantity > 0)
+      : [];
+
+  const getPickedQuantity = (): number => getLotPicks().reduce((sum, pick) => sum + pick.quantity, 0);
+
   const handleSubmit = async () => {
     if (!validateForm()) return;
     if (partyType === 'MERCHANT' && !merchantRepository) {
@@ -332,14 +491,14 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
       // Save party if new
       if (!partyExists) {
         if (partyType === 'MERCHANT') {
-          await merchantRepository!.create({
+          await TransactionService.createMerchant({
             phoneNumber: phoneNumber,
             firmName: firmName.trim(),
             gstin: gstin.trim(),
             address: address.trim(),
           });
         } else {
-          await customerRepository!.create({
+          await TransactionService.createCustomer({
             phoneNumber: phoneNumber,
             name: customerName.trim(),
             address: address.trim(),
@@ -368,17 +527,59 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
         // Bill of Supply charges (tulak input is weight in Qtl -> convert to monetary)
         commission = arat + tulakMonetaryTotal + mandiShulk; // Store total additions in commission field
         labour = 0;
+      } else if (isTaxInvoice) {
+        // Tax Invoice carries GST only; tax is kept apart from commission
+        commission = 0;
+        labour = 0;
       } else {
         // Normal transaction charges
         commission = calculateCommission();
         labour = parseFloat(labourCharge) || 0;
       }
 
-      // If this is Bill of Supply for a merchant, save as a single receipt containing all items
-      if (billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT') {
-        // Build items array with proportional charges per item
+      // Hand-picked lots are shared out over the lines in order
+      const linePicks = splitLotPicks(getLotPicks(), grainTransactions.map(calculateTransactionWeight));
+
+      // A Tax Invoice is a single bill with the GST breakup on every line
+      if (isTaxInvoice) {
+        const itemTaxes = calculateItemTaxes();
+        const items: TransactionItemInput[] = grainTransactions.map((txn, idx) => ({
+          grainType: multiGrainType,
+          numberOfBags: parseFloat(txn.numberOfBags) || 0,
+          weightPerBag: parseFloat(txn.weightPerBag) || 0,
+          extraWeight: 0,
+          quantity: calculateTransactionWeight(txn),
+          ratePerQuintal: parseFloat(txn.pricePerQuintal) || 0,
+          amount: itemTaxes[idx].taxableValue,
+          hsnCode: hsnCode.trim(),
+          ...itemTaxes[idx],
+          lotPicks: linePicks[idx],
+        }));
+        const taxSummary = summarizeTax(itemTaxes);
 
-        const items = grainTransactions.map(txn => {
+        await TransactionService.createSellTransaction({
+          buyerName,
+          buyerPhone: phoneNumber,
+          grainType: multiGrainType || 'MULTI',
+          quantity: totalWeight,
+          ratePerQuintal: totalWeight > 0 ? parseFloat((grossAmount / totalWeight).toFixed(2)) : 0,
+          totalAmount: grossAmount,
+          receivedAmount: 0,
+          balanceAmount: netReceivable,
+          paymentStatus: PaymentStatus.PENDING,
+          commissionAmount: 0,
+          labourCharges: 0,
+          billType: 'TAX_INVOICE',
+          buyerGstin: gstin.trim().toUpperCase(),
+          placeOfSupply,
+          taxAmount: taxSummary.totalTax,
+          locationId,
+          date: transactionDate.toISOString(),
+        }, items);
+      } else if (billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT') {
+        // Bill of Supply for a merchant is saved as a single receipt containing all items
+        // Build line items with proportional charges per item
+        const items: TransactionItemInput[] = grainTransactions.map((txn, idx) => {
           const txnWeight = calculateTransactionWeight(txn);
           const txnAmount = calculateTransactionAmount(txn);
           const txnArat = grossAmount > 0 ? (arat * txnAmount) / grossAmount : 0;
@@ -387,29 +588,20 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
           const txnMandi = grossAmount > 0 ? (mandiShulk * txnAmount) / grossAmount : 0;
           return {
             grainType: multiGrainType,
-            numberOfBags: txn.numberOfBags,
-            weightPerBag: txn.weightPerBag,
-            pricePerQuintal: txn.pricePerQuintal,
-            quantityQuintal: txnWeight,
+            numberOfBags: parseFloat(txn.numberOfBags) || 0,
+            weightPerBag: parseFloat(txn.weightPerBag) || 0,
+            extraWeight: 0,
+            quantity: txnWeight,
+            ratePerQuintal: parseFloat(txn.pricePerQuintal) || 0,
             amount: parseFloat(txnAmount.toFixed(2)),
             arat: parseFloat(txnArat.toFixed(2)),
             tulak: parseFloat(txnTulak.toFixed(2)),
-            mandi: parseFloat(txnMandi.toFixed(2)),
-          };
-        });
-
-        // Encode items and meta as URI component to safely store in description
-        const payload = {
-          items,
-          // meta keeps tulak as monetary amount (tulakAmount) for clarity
-          meta: {
-            tulakAmount: tulakMonetaryTotal,
+            mandiShulk: parseFloat(txnMandi.toFixed(2)),
             aratPercent: parseFloat(aratPercent) || 0,
             mandiPercent: parseFloat(mandiPercent) || 0,
-          },
-        };
-        const itemsPayload = encodeURIComponent(JSON.stringify(payload));
-        const description = `BillOfSupplyItems::${itemsPayload}`;
+            lotPicks: linePicks[idx],
+          };
+        });
 
         await TransactionService.createSellTransaction({
           buyerName,
@@ -423,12 +615,13 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
           paymentStatus: PaymentStatus.PENDING,
           commissionAmount: commission, // store total additions in commission field
           labourCharges: labour,
+          billType: 'BILL_OF_SUPPLY',
+          locationId,
           date: transactionDate.toISOString(),
-          description,
-        });
+        }, items);
       } else {
         // Create a transaction for each grain type (normal behavior)
-        for (const txn of grainTransactions) {
+        for (const [idx, txn] of grainTransactions.entries()) {
           const txnWeight = calculateTransactionWeight(txn);
           const txnAmount = calculateTransactionAmount(txn);
           
@@ -437,25 +630,16 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
           const txnLabour = grossAmount > 0 ? (labour * txnAmount) / grossAmount : 0;
           const txnNetReceivable = txnAmount + txnCommission + txnLabour;
 
-          let description = '';
-          if (billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT') {
-            const txnArat = grossAmount > 0 ? (arat * txnAmount) / grossAmount : 0;
-            const txnTulak = grossAmount > 0 ? (tulakMonetaryTotal * txnAmount) / grossAmount : 0;
-            const txnMandi = grossAmount > 0 ? (mandiShulk * txnAmount) / grossAmount : 0;
-            description = `Bill of Supply: ${txn.grainType} - ${txn.numberOfBags} bags × ${txn.weightPerBag}kg @ ₹${txn.pricePerQuintal}/qt | Arat: ₹${txnArat.toFixed(2)}, Tulak: ₹${txnTulak.toFixed(2)}, Mandi Shulk: ₹${txnMandi.toFixed(2)}`;
-          } else {
-            // For Normal bill type, store grain details as a single-item BillOfSupplyItems payload
-            const item = {
-              grainType: txn.grainType,
-              numberOfBags: txn.numberOfBags,
-              weightPerBag: txn.weightPerBag,
-              pricePerQuintal: txn.pricePerQuintal,
-              quantityQuintal: txnWeight,
-              amount: parseFloat(txnAmount.toFixed(2)),
-            };
-            const payload = { items: [item], meta: { normal: true } };
-            description = `BillOfSupplyItems::${encodeURIComponent(JSON.stringify(payload))}`;
-          }
+          const item: TransactionItemInput = {
+            grainType: txn.grainType,
+            numberOfBags: parseFloat(txn.numberOfBags) || 0,
+            weightPerBag: parseFloat(txn.weightPerBag) || 0,
+            extraWeight: 0,
+            quantity: txnWeight,
+            ratePerQuintal: parseFloat(txn.pricePerQuintal) || 0,
+            amount: parseFloat(txnAmount.toFixed(2)),
+            lotPicks: linePicks[idx],
+          };
 
           await TransactionService.createSellTransaction({
             buyerName,
@@ -469,9 +653,10 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
             paymentStatus: PaymentStatus.PENDING,
             commissionAmount: txnCommission,
             labourCharges: txnLabour,
+            billType: 'NORMAL',
+            locationId,
             date: transactionDate.toISOString(),
-            description,
-          });
+          }, [item]);
         }
       }
 
@@ -487,7 +672,7 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
       );
     } catch (error) {
       console.error('Error creating sell transaction:', error);
-      Alert.alert('Error', 'Failed to create transaction. Please try again.');
+      Alert.alert('Error', error instanceof Error && chooseLots ? error.message : 'Failed to create transaction. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -502,6 +687,7 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
   const tulakMonetaryDisplay = parseFloat(tulakAmount) || (totalWeight * 1);
   // Total additions: Arat + Tulak + Mandi Shulk
   const totalAddition = parseFloat((calculateArat() + tulakMonetaryDisplay + calculateMandiShulk()).toFixed(2));
+  const taxSummary = summarizeTax(calculateItemTaxes());
 
   return (
     <KeyboardAvoidingView
@@ -613,10 +799,35 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
                 Bill of Supply
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.typeButton,
+                billType === 'TAX_INVOICE' && styles.typeButtonActive,
+                partyType === 'CUSTOMER' && styles.typeButtonDisabled
+              ]}
+              onPress={() => {
+                if (partyType === 'CUSTOMER') {
+                  Alert.alert('Not Allowed', 'Tax Invoice is only applicable for Merchants');
+                  return;
+                }
+                setBillType('TAX_INVOICE');
+              }}
+              disabled={partyType === 'CUSTOMER'}>
+              <Text style={[
+                styles.typeButtonText,
+                billType === 'TAX_INVOICE' && styles.typeButtonTextActive,
+                partyType === 'CUSTOMER' && styles.typeButtonTextDisabled
+              ]}>
+                Tax Invoice
+              </Text>
+            </TouchableOpacity>
           </View>
           {billType === 'BILL_OF_SUPPLY' && (
             <Text style={styles.hint}>Bill of Supply is only available for Merchant transactions</Text>
           )}
+          {billType === 'TAX_INVOICE' && (
+            <Text style={styles.hint}>Tax Invoice charges GST on the grain value (Merchants with GSTIN only)</Text>
+          )}
         </View>
 
         {/* Party Type Section */}
@@ -638,8 +849,8 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
               onPress={() => {
                 setPartyType('CUSTOMER');
                 resetPartyDetails();
-                // Reset to NORMAL if Bill of Supply was selected
-                if (billType === 'BILL_OF_SUPPLY') {
+                // Reset to NORMAL if Bill of Supply or Tax Invoice was selected
+                if (billType !== 'NORMAL') {
                   setBillType('NORMAL');
                 }
               }}>
@@ -708,10 +919,16 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
                       placeholder="Enter GSTIN"
                       placeholderTextColor={Colors.textSecondary}
                       value={gstin}
-                      onChangeText={setGstin}
+                      onChangeText={value => setGstin(value.toUpperCase())}
                       editable={!partyExists}
                       autoCapitalize="characters"
+                      maxLength={15}
                     />
+                    {gstin.trim().length === 15 && (
+                      <Text style={[styles.hint, !gstinValidation.valid && styles.errorHint]}>
+                        {gstinValidation.details ? describeGstinDetails(gstinValidation.details) : gstinValidation.error}
+                      </Text>
+                    )}
                   </View>
                 </>
               ) : (
@@ -755,15 +972,20 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
           {/* Grain Type (applies to all items) - single control for single or multi items */}
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Grain Type *</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="e.g., Wheat, Rice, Maize"
-              placeholderTextColor={Colors.textSecondary}
+            <GrainPicker
+              grains={grains}
               value={multiGrainType}
               onChangeText={setMultiGrainType}
+              onSelect={handleGrainSelected}
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Storage Location *</Text>
+            <LocationPicker locations={locations} selectedId={locationId} onSelect={setLocationId} />
+            <Text style={styles.hint}>Where the grain is loaded from</Text>
+          </View>
+
           {grainTransactions.map((transaction, index) => (
             <View key={transaction.id} style={styles.transactionCard}>
               <View style={styles.transactionHeader}>
@@ -854,11 +1076,139 @@ export const AddSellTransactionScreen: React.FC<any> = ({navigation}) => {
           </View>
         </View>
 
+        {/* Stock Lots Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📦 Stock Lots</Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.typeButton, !chooseLots && styles.typeButtonActive]}
+              onPress={() => setChooseLots(false)}>
+              <Text style={[styles.typeButtonText, !chooseLots && styles.typeButtonTextActive]}>
+                Oldest First
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.typeButton, chooseLots && styles.typeButtonActive]}
+              onPress={() => setChooseLots(true)}>
+              <Text style={[styles.typeButtonText, chooseLots && styles.typeButtonTextActive]}>
+                Choose Lots
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {!chooseLots ? (
+            <Text style={styles.hint}>Sold quantity is taken from the oldest purchases of this grain</Text>
+          ) : !multiGrainType.trim() ? (
+            <Text style={styles.hint}>Enter the grain type to see its lots</Text>
+          ) : loadingLots ? (
+            <ActivityIndicator style={styles.lotLoader} color={Colors.primary} />
+          ) : openLots.length === 0 ? (
+            <Text style={styles.hint}>No {multiGrainType.trim()} in stock</Text>
+          ) : (
+            <>
+              {openLots.map(lot => (
+                <View key={lot.id} style={styles.lotRow}>
+                  <View style={styles.lotInfo}>
+                    <Text style={styles.lotSupplier} numberOfLines={1}>{lot.supplierName}</Text>
+                    <Text style={styles.lotMeta}>
+                      {formatLotDate(lot.date)} · {lot.ageDays} {lot.ageDays === 1 ? 'day' : 'days'} old ·{' '}
+                      {lot.remainingQuantity.toFixed(2)} Qtl left
+                    </Text>
+                  </View>
+                  <TextInput
+                    style={[styles.input, styles.lotInput]}
+                    placeholder="0.00"
+                    placeholderTextColor={Colors.textSecondary}
+                    value={lotQuantities[lot.id] || ''}
+                    onChangeText={(value) => setLotQuantities(prev => ({...prev, [lot.id]: value}))}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))}
+              <Text style={styles.hint}>
+                Picked {getPickedQuantity().toFixed(2)} of {totalWeight.toFixed(2)} Qtl; the rest is taken from the oldest lots
+              </Text>
+            </>
+          )}
+        </View>
+
         {/* Fees & Charges Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>💰 Fees & Charges</Text>
           
-          {billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT' ? (
+          {isTaxInvoice ? (
+            // Tax Invoice - HSN and GST
+            <>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>HSN Code *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., 1001"
+                  placeholderTextColor={Colors.textSecondary}
+                  value={hsnCode}
+                  onChangeText={(value) => {
+                    setHsnCode(value);
+                    setHsnEdited(true);
+                  }}
+                  keyboardType="number-pad"
+                  maxLength={8}
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>GST Rate</Text>
+                <View style={styles.buttonRow}>
+                  {GST_RATES.map(rate => (
+                    <TouchableOpacity
+                      key={rate}
+                      style={[styles.typeButton, gstRate === rate && styles.typeButtonActive]}
+                      onPress={() => setGstRate(rate)}>
+                      <Text style={[styles.typeButtonText, gstRate === rate && styles.typeButtonTextActive]}>
+                        {rate}%
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <Text style={styles.hint}>
+                Place of supply: {describeStateCode(placeOfSupply)}
+                {placeOfSupply && supplierStateCode
+                  ? interState
+                    ? ' (inter-state: IGST)'
+                    : ' (intra-state: CGST + SGST)'
+                  : ''}
+              </Text>
+
+              <View style={styles.amountBreakdown}>
+                <View style={styles.breakdownRow}>
+                  <Text style={styles.breakdownLabel}>Taxable Value:</Text>
+                  <Text style={styles.breakdownValue}>₹ {taxSummary.taxableValue.toFixed(2)}</Text>
+                </View>
+                {interState ? (
+                  <View style={styles.breakdownRow}>
+                    <Text style={styles.breakdownLabel}>IGST ({gstRate}%):</Text>
+                    <Text style={[styles.breakdownValue, styles.additionValue]}>+ ₹ {taxSummary.igstAmount.toFixed(2)}</Text>
+                  </View>
+                ) : (
+                  <>
+                    <View style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>CGST ({gstRate / 2}%):</Text>
+                      <Text style={[styles.breakdownValue, styles.additionValue]}>+ ₹ {taxSummary.cgstAmount.toFixed(2)}</Text>
+                    </View>
+                    <View style={styles.breakdownRow}>
+                      <Text style={styles.breakdownLabel}>SGST ({gstRate / 2}%):</Text>
+                      <Text style={[styles.breakdownValue, styles.additionValue]}>+ ₹ {taxSummary.sgstAmount.toFixed(2)}</Text>
+                    </View>
+                  </>
+                )}
+                <View style={[styles.breakdownRow, styles.totalRow]}>
+                  <Text style={styles.totalLabel}>Invoice Total:</Text>
+                  <Text style={styles.totalValue}>₹ {netReceivable.toFixed(2)}</Text>
+                </View>
+              </View>
+            </>
+          ) : billType === 'BILL_OF_SUPPLY' && partyType === 'MERCHANT' ? (
             // Bill of Supply - Merchant charges
             <>
               <View style={styles.inputGroup}>
@@ -1115,6 +1465,10 @@ const styles = StyleSheet.create({
     marginTop: Spacing.xs,
     fontStyle: 'italic',
   },
+  errorHint: {
+    color: Colors.error,
+    fontStyle: 'normal',
+  },
   phoneInputContainer: {
     position: 'relative',
   },
@@ -1175,6 +1529,33 @@ const styles = StyleSheet.create({
   sectionHeader: {
     marginBottom: Spacing.sm,
   },
+  lotLoader: {
+    marginTop: Spacing.md,
+  },
+  lotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  lotInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  lotSupplier: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  lotMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  lotInput: {
+    width: 90,
+    textAlign: 'right',
+  },
   transactionCard: {
     backgroundColor: Colors.background,
     borderRadius: BorderRadius.md,
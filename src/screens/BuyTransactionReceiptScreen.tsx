@@ -14,6 +14,10 @@ import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
 import {BuyTransaction} from '../models/Transaction';
 import {Payment} from '../models/Payment';
 import TransactionService from '../services/TransactionService';
+import ReceiptService from '../services/ReceiptService';
+import ThermalPrinterService from '../services/ThermalPrinterService';
+import {PaperWidth} from '../models/Receipt';
+import {buildBuyReceipt} from '../utils/receipt';
 
 /**
  * Buy Transaction Receipt Screen
@@ -25,6 +29,7 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
   const [payments, setPayments] = useState<Payment[]>([]);
   const [farmerAddress, setFarmerAddress] = useState<string>('N/A');
   const [loading, setLoading] = useState(true);
+  const [printing, setPrinting] = useState(false);
   const [isPaymentModalVisible, setIsPaymentModalVisible] = useState(false);
   const [paymentType, setPaymentType] = useState<'PARTIAL' | 'FINAL'>('PARTIAL');
   const [paymentAmount, setPaymentAmount] = useState('');
@@ -64,7 +69,17 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     navigation.navigate('EditBuyTransaction', {transactionId});
   };
 
-  const handleShare = async () => {
+  const handleShare = () => {
+    if (!transaction) return;
+
+    Alert.alert('Share Receipt', 'Choose a format', [
+      {text: 'PDF', onPress: handleSharePdf},
+      {text: 'Text', onPress: handleShareText},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handleShareText = async () => {
     if (!transaction) return;
 
     const receiptText = generateReceiptText(transaction);
@@ -77,6 +92,44 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     }
   };
 
+  const handleSharePdf = async () => {
+    if (!transaction) return;
+
+    try {
+      const firm = await ReceiptService.getFirmDetails();
+      await ReceiptService.shareReceiptPdf(buildBuyReceipt(transaction, payments, firm, farmerAddress));
+    } catch (error) {
+      console.error('Error creating receipt PDF:', error);
+      Alert.alert('Error', 'Failed to create receipt PDF');
+    }
+  };
+
+  const handlePrint = () => {
+    if (!transaction) return;
+
+    Alert.alert('Print Receipt', 'Choose the paper width', [
+      {text: '58mm', onPress: () => handlePrintThermal('58mm')},
+      {text: '80mm', onPress: () => handlePrintThermal('80mm')},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handlePrintThermal = async (paperWidth: PaperWidth) => {
+    if (!transaction) return;
+
+    try {
+      setPrinting(true);
+      const firm = await ReceiptService.getFirmDetails();
+      ThermalPrinterService.setPaperWidth(paperWidth);
+      await ThermalPrinterService.printReceipt(buildBuyReceipt(transaction, payments, firm, farmerAddress), paperWidth);
+    } catch (error: any) {
+      console.error('Error printing receipt:', error);
+      Alert.alert('Print Failed', error.message || 'Failed to print receipt');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   const handleAddPayment = async () => {
     if (!transaction) return;
 
@@ -186,19 +239,14 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     text += `GRAIN DETAILS\n`;
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
     
-    // Parse grain details from description
-    if (txn.description && txn.description.includes('@')) {
-      const transactions = txn.description.split(';').filter(t => t.includes('@'));
-      transactions.forEach((t) => {
-        // Parse format: [1] Wheat: 10 bags × 50kg + 5kg @ ₹2000/qt
-        const match = t.match(/\[(\d+)\]\s*([^:]+):\s*(\d+)\s*bags\s*×\s*(\d+)kg\s*\+\s*(\d+)kg\s*@\s*₹([\d.]+)\/qt/);
-        if (match) {
-          const [, , grainType, bags, weight, extra, price] = match;
-          const totalWeight = ((parseFloat(bags) * parseFloat(weight) + parseFloat(extra)) / 100).toFixed(2);
-          text += `${grainType.trim()}:\n`;
-          text += `Quantity:                      ${bags} × ${weight} + ${extra}\n`;
-          text += `                               ${totalWeight} Quintal × ₹${price}\n\n`;
+    const items = txn.items || [];
+    if (items.length > 0) {
+      items.forEach((it) => {
+        text += `${it.grainType || txn.grainType}:\n`;
+        if (it.numberOfBags && it.weightPerBag) {
+          text += `Quantity:                      ${it.numberOfBags} × ${it.weightPerBag} + ${it.extraWeight || 0}\n`;
         }
+        text += `                               ${it.quantity.toFixed(2)} Quintal × ₹${it.ratePerQuintal}\n\n`;
       });
     } else {
       text += `${txn.grainType}\n`;
@@ -319,30 +367,23 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           <Text style={styles.sectionTitle}>Grain Details</Text>
           <View style={styles.divider} />
           
-          {transaction.description && transaction.description.includes('@') ? (
-            // Multiple transactions
-            transaction.description.split(';').filter(t => t.includes('@')).map((txnDesc, idx) => {
-              // Parse format: [1] Wheat: 10 bags × 50kg + 5kg @ ₹2000/qt
-              const match = txnDesc.match(/\[(\d+)\]\s*([^:]+):\s*(\d+)\s*bags\s*×\s*(\d+)kg\s*\+\s*(\d+)kg\s*@\s*₹([\d.]+)\/qt/);
-              if (match) {
-                const [, , grainType, bags, weight, extra, price] = match;
-                const totalWeight = ((parseFloat(bags) * parseFloat(weight) + parseFloat(extra)) / 100).toFixed(2);
-                return (
-                  <View key={idx} style={styles.grainItem}>
-                    <Text style={styles.grainLabel}>{grainType.trim()}:</Text>
-                    <View style={styles.row}>
-                      <Text style={styles.label}>Quantity:</Text>
-                      <Text style={styles.value}>{bags} × {weight} + {extra}</Text>
-                    </View>
-                    <View style={styles.row}>
-                      <Text style={styles.label}></Text>
-                      <Text style={styles.value}>{totalWeight} Quintal × ₹{price}</Text>
-                    </View>
+          {transaction.items && transaction.items.length > 0 ? (
+            // One entry per bill line
+            transaction.items.map((it) => (
+              <View key={it.id} style={styles.grainItem}>
+                <Text style={styles.grainLabel}>{(it.grainType || transaction.grainType).trim()}:</Text>
+                {!!(it.numberOfBags && it.weightPerBag) && (
+                  <View style={styles.row}>
+                    <Text style={styles.label}>Quantity:</Text>
+                    <Text style={styles.value}>{it.numberOfBags} × {it.weightPerBag} + {it.extraWeight || 0}</Text>
                   </View>
-                );
-              }
-              return null;
-            })
+                )}
+                <View style={styles.row}>
+                  <Text style={styles.label}></Text>
+                  <Text style={styles.value}>{it.quantity.toFixed(2)} Quintal × ₹{it.ratePerQuintal}</Text>
+                </View>
+              </View>
+            ))
           ) : (
             // Single transaction
             <View style={styles.grainItem}>
@@ -476,6 +517,9 @@ export const BuyTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           <TouchableOpacity style={styles.editButton} onPress={handleEdit}>
             <Text style={styles.editButtonText}>✏️ Edit Transaction</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.printButton} onPress={handlePrint} disabled={printing}>
+            <Text style={styles.printButtonText}>{printing ? 'Printing...' : '🖨️ Print Receipt'}</Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
@@ -928,6 +972,22 @@ const styles = StyleSheet.create({
     minWidth: 0,
     marginRight: Spacing.sm,
   },
+  printButton: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    alignItems: 'center',
+    width: '100%',
+    marginTop: Spacing.sm,
+  },
+  printButtonText: {
+    ...Typography.button,
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
   shareButtonText: {
     ...Typography.button,
     color: Colors.textLight,
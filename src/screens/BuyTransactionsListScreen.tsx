@@ -14,6 +14,10 @@ import {Calendar} from 'react-native-calendars';
 import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
 import {BuyTransaction} from '../models/Transaction';
 import TransactionService from '../services/TransactionService';
+import ExportService from '../services/ExportService';
+import {SpreadsheetFormat} from '../models/Spreadsheet';
+import {buildBuySheet} from '../utils/transactionSheets';
+import {spreadsheetFileName} from '../utils/spreadsheet';
 
 /**
  * Buy Transactions List Screen
@@ -125,6 +129,26 @@ export const BuyTransactionsListScreen: React.FC<any> = ({navigation, route}) =>
     );
   };
 
+  const handleExport = () => {
+    if (filteredTransactions.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no transactions in this list');
+      return;
+    }
+    const exportAs = async (format: SpreadsheetFormat) => {
+      try {
+        await ExportService.shareSpreadsheet([buildBuySheet(filteredTransactions)], spreadsheetFileName(selectedTab === 'SETTLED' ? 'Buy_Settled' : 'Buy_Unsettled'), format);
+      } catch (error) {
+        console.error('Error exporting transactions:', error);
+        Alert.alert('Error', 'Failed to export transactions');
+      }
+    };
+    Alert.alert('Export', `${filteredTransactions.length} transactions as shown in the list`, [
+      {text: 'Cancel', style: 'cancel'},
+      {text: 'CSV', onPress: () => exportAs('CSV')},
+      {text: 'Excel', onPress: () => exportAs('XLSX')},
+    ]);
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-IN', {
@@ -259,6 +283,10 @@ export const BuyTransactionsListScreen: React.FC<any> = ({navigation, route}) =>
             <Text style={styles.clearButtonText}>✕</Text>
           </TouchableOpacity>
         )}
+
+        <TouchableOpacity style={styles.dateButton} onPress={handleExport}>
+          <Text style={styles.dateButtonText}>📤</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Tab Navigation */}
@@ -0,0 +1,311 @@
+import React, {useState, useCallback, useMemo} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {CashDirection, CashLedgerEntry} from '../models/CashLedger';
+import CashBalanceService from '../services/CashBalanceService';
+import {formatCurrency, formatDateTime} from '../utils/helpers';
+
+type DirectionFilter = 'ALL' | CashDirection;
+
+interface LedgerRow extends CashLedgerEntry {
+  runningBalance: number;
+}
+
+/**
+ * Cash Ledger Screen
+ * Lists every cash movement with the running balance after it
+ */
+export const CashLedgerScreen: React.FC<any> = () => {
+  const [entries, setEntries] = useState<CashLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filter, setFilter] = useState<DirectionFilter>('ALL');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [])
+  );
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      const data = await CashBalanceService.getLedgerEntries();
+      setEntries(data);
+    } catch (error) {
+      console.error('Error loading cash ledger:', error);
+      Alert.alert('Error', 'Failed to load cash ledger');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadEntries();
+  };
+
+  // Entries arrive newest first; walk oldest to newest to compute running balances
+  const rows = useMemo<LedgerRow[]>(() => {
+    let balance = 0;
+    const withBalance = [...entries].reverse().map(entry => {
+      balance += entry.direction === 'IN' ? entry.amount : -entry.amount;
+      return {...entry, runningBalance: balance};
+    });
+    withBalance.reverse();
+    return filter === 'ALL' ? withBalance : withBalance.filter(row => row.direction === filter);
+  }, [entries, filter]);
+
+  const totals = useMemo(() => {
+    return entries.reduce(
+      (acc, entry) => {
+        if (entry.direction === 'IN') {
+          acc.in += entry.amount;
+        } else {
+          acc.out += entry.amount;
+        }
+        return acc;
+      },
+      {in: 0, out: 0},
+    );
+  }, [entries]);
+
+  const renderEntry = ({item}: {item: LedgerRow}) => {
+    const isIn = item.direction === 'IN';
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.date}>{formatDateTime(item.entryDate)}</Text>
+          <Text style={[styles.amount, isIn ? styles.amountIn : styles.amountOut]}>
+            {isIn ? '+' : '-'}{formatCurrency(item.amount)}
+          </Text>
+        </View>
+        <Text style={styles.reason} numberOfLines={2}>
+          {item.reason}
+        </Text>
+        <View style={styles.cardFooter}>
+          <Text style={styles.meta}>
+            {item.sourceType}
+            {item.mode ? ` • ${item.mode}` : ''}
+          </Text>
+          <Text style={styles.runningBalance}>Bal: {formatCurrency(item.runningBalance)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryLabel}>Current Cash Balance</Text>
+        <Text style={styles.summaryValue}>{formatCurrency(totals.in - totals.out)}</Text>
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryDetail}>In: {formatCurrency(totals.in)}</Text>
+          <Text style={styles.summaryDetail}>Out: {formatCurrency(totals.out)}</Text>
+        </View>
+      </View>
+      <View style={styles.filterRow}>
+        {(['ALL', 'IN', 'OUT'] as DirectionFilter[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterButton, filter === option && styles.filterButtonActive]}
+            onPress={() => setFilter(option)}>
+            <Text style={[styles.filterText, filter === option && styles.filterTextActive]}>
+              {option === 'ALL' ? 'All' : option === 'IN' ? 'Money In' : 'Money Out'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>📒</Text>
+      <Text style={styles.emptyText}>No cash movements yet</Text>
+      <Text style={styles.emptySubtext}>Payments, loans and expenses will appear here</Text>
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={rows}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[Colors.primary]}
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  list: {
+    padding: Spacing.md,
+    flexGrow: 1,
+  },
+  header: {
+    marginBottom: Spacing.md,
+  },
+  summaryCard: {
+    backgroundColor: Colors.primary,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+    ...Shadow.medium,
+  },
+  summaryLabel: {
+    ...Typography.body2,
+    color: Colors.textLight,
+    marginBottom: Spacing.xs,
+  },
+  summaryValue: {
+    ...Typography.h2,
+    color: Colors.textLight,
+    fontWeight: 'bold',
+    marginBottom: Spacing.xs,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: Spacing.lg,
+  },
+  summaryDetail: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    opacity: 0.9,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+  },
+  filterButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    ...Shadow.small,
+  },
+  filterButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  filterTextActive: {
+    color: Colors.textLight,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+    ...Shadow.small,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  date: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+  amount: {
+    ...Typography.h4,
+    fontWeight: 'bold',
+  },
+  amountIn: {
+    color: Colors.success,
+  },
+  amountOut: {
+    color: Colors.error,
+  },
+  reason: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  meta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  runningBalance: {
+    ...Typography.caption,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.h4,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  emptySubtext: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
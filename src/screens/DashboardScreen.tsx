@@ -10,11 +10,22 @@ import TransactionService, {StockByGrainType} from '../services/TransactionServi
 import NetInfo from '@react-native-community/netinfo';
 import {useFocusEffect} from '@react-navigation/native';
 import {DashboardSummary} from '../models/Transaction';
+import {StockLot} from '../models/StockLot';
+import {LocationStock} from '../models/StorageLocation';
+import {CostingMethod, TradingMarginReport} from '../models/TradingMargin';
 import {formatCurrency, formatQuantity, formatDate} from '../utils/helpers';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import AuthService from '../services/AuthService';
 import DailyResetService from '../services/DailyResetService';
 import CashBalanceService from '../services/CashBalanceService';
+import DatabaseService from '../database/DatabaseService';
+import ExportService from '../services/ExportService';
+import {spreadsheetFileName} from '../utils/spreadsheet';
+import {grainKey} from '../utils/stockLots';
+
+// "YYYY-MM-DD" in local time, as react-native-calendars expects
+const toCalendarDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
 /**
  * Dashboard Screen - Grain Ledger
@@ -34,15 +45,25 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
   const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
   const [totalStock, setTotalStock] = useState<number>(0);
   const [stockByGrainType, setStockByGrainType] = useState<StockByGrainType[]>([]);
+  const [stockLots, setStockLots] = useState<StockLot[]>([]);
+  const [stockByLocation, setStockByLocation] = useState<LocationStock[]>([]);
+  const [stockLocationKey, setStockLocationKey] = useState<string>('ALL');
   const [isStockModalVisible, setIsStockModalVisible] = useState(false);
   const [isOnline, setIsOnline] = useState<boolean | null>(null);
   const [isProfitModalVisible, setIsProfitModalVisible] = useState(false);
-  const [profitTab, setProfitTab] = useState<'buy' | 'sell' | 'interest'>('buy');
+  const [profitTab, setProfitTab] = useState<'buy' | 'sell' | 'interest' | 'margin'>('buy');
   const [interestPayments, setInterestPayments] = useState<Array<any>>([]);
   const [loadingInterest, setLoadingInterest] = useState(false);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('LOT');
+  const [tradingMargin, setTradingMargin] = useState<TradingMarginReport | null>(null);
+  const [loadingMargin, setLoadingMargin] = useState(false);
   const [isLabourModalVisible, setIsLabourModalVisible] = useState(false);
   const [labourTransactions, setLabourTransactions] = useState<any[]>([]);
   const [loadingLabour, setLoadingLabour] = useState(false);
+  const [isExportModalVisible, setIsExportModalVisible] = useState(false);
+  const [exportRange, setExportRange] = useState({start: new Date(), end: new Date()});
+  const [exportPickerTarget, setExportPickerTarget] = useState<'start' | 'end' | null>(null);
+  const [exportingWorkbook, setExportingWorkbook] = useState(false);
   
   useEffect(() => {
     const fetchInterest = async () => {
@@ -65,6 +86,28 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
     fetchInterest();
   }, [isProfitModalVisible, profitTab, dateRange.start, dateRange.end]);
 
+  useEffect(() => {
+    const fetchMargin = async () => {
+      if (!isProfitModalVisible) return;
+      if (profitTab !== 'margin') return;
+      setLoadingMargin(true);
+      try {
+        const report = await TransactionService.getTradingMargin(
+          dateRange.start,
+          dateRange.end,
+          costingMethod,
+        );
+        setTradingMargin(report);
+      } catch (err) {
+        console.error('Error loading trading margin:', err);
+      } finally {
+        setLoadingMargin(false);
+      }
+    };
+
+    fetchMargin();
+  }, [isProfitModalVisible, profitTab, costingMethod, dateRange.start, dateRange.end]);
+
   const loadDashboardData = async () => {
     try {
       // Check and perform daily reset if needed
@@ -87,6 +130,14 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
       // Load stock by grain type
       const stockBreakdown = await TransactionService.getStockByGrainType();
       setStockByGrainType(stockBreakdown);
+
+      // Load open stock lots (oldest first) for the stock breakdown
+      const lots = await TransactionService.getStockLots();
+      setStockLots(lots);
+
+      // Load stock per storage location
+      const locationStock = await TransactionService.getStockByLocation();
+      setStockByLocation(locationStock);
     } catch (error) {
       console.error('Error loading dashboard:', error);
     } finally {
@@ -167,6 +218,38 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
     }
   };
 
+  const openExportModal = () => {
+    // Start from the period on screen
+    const start = selectedTab === 'custom' && selectedDate ? selectedDate : dateRange.start;
+    const end = selectedTab === 'custom' && selectedDate ? selectedDate : dateRange.end;
+    setExportRange({start, end});
+    setExportPickerTarget(null);
+    setIsExportModalVisible(true);
+  };
+
+  const exportWorkbook = async () => {
+    const start = new Date(exportRange.start);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(exportRange.end);
+    end.setHours(23, 59, 59, 999);
+
+    setExportingWorkbook(true);
+    try {
+      const sheets = await TransactionService.getTransactionWorkbook(start, end);
+      if (sheets.every(sheet => sheet.rows.length === 0)) {
+        Alert.alert('Nothing to Export', 'There are no transactions in this period');
+        return;
+      }
+      await ExportService.shareSpreadsheet(sheets, spreadsheetFileName('Transactions', start, end), 'XLSX');
+      setIsExportModalVisible(false);
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+      Alert.alert('Error', 'Failed to export workbook');
+    } finally {
+      setExportingWorkbook(false);
+    }
+  };
+
   const calculateDateRange = () => {
     const today = new Date();
     let start = new Date();
@@ -224,6 +307,12 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
     loadDashboardData();
   }, []);
 
+  // Stock shown in the stock modal: the total, or one location's
+  const locationKey = (stock: LocationStock): string => stock.locationId || 'unassigned';
+  const selectedLocationStock =
+    stockLocationKey === 'ALL' ? undefined : stockByLocation.find(l => locationKey(l) === stockLocationKey);
+  const shownStock: StockByGrainType[] = selectedLocationStock ? selectedLocationStock.grains : stockByGrainType;
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -339,6 +428,11 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
               <Text style={styles.rupeeSymbol}>₹</Text>
               <Text style={styles.balanceAmount}>{currentCashBalance.toFixed(2)}</Text>
             </View>
+            <TouchableOpacity
+              style={styles.ledgerLink}
+              onPress={() => navigation.navigate('CashLedger')}>
+              <Text style={styles.ledgerLinkText}>📒 View Cash Ledger</Text>
+            </TouchableOpacity>
           </TouchableOpacity>
         </View>
       </View>
@@ -411,6 +505,11 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
               <Text style={styles.datePickerHint}>Tap to select a date</Text>
             </View>
           )}
+
+          <TouchableOpacity style={styles.exportButton} onPress={openExportModal}>
+            <Icon name="microsoft-excel" size={20} color={Colors.primary} />
+            <Text style={styles.exportButtonText}>Export Workbook</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Daily Operational Summary */}
@@ -598,25 +697,62 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
           <View style={styles.stockModalContent}>
             <Text style={styles.modalTitle}>Stock Breakdown</Text>
             <Text style={styles.stockTotalText}>
-              Total Stock: {totalStock.toFixed(2)} Qtl
+              {selectedLocationStock
+                ? `${selectedLocationStock.locationName}: ${selectedLocationStock.totalStock.toFixed(2)} Qtl`
+                : `Total Stock: ${totalStock.toFixed(2)} Qtl`}
             </Text>
+
+            {stockByLocation.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.stockLocationRow}>
+                {[{key: 'ALL', name: 'All Locations'}, ...stockByLocation.map(l => ({key: locationKey(l), name: l.locationName}))].map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.stockLocationChip, stockLocationKey === option.key && styles.costingMethodChipActive]}
+                    onPress={() => setStockLocationKey(option.key)}>
+                    <Text style={[styles.costingMethodText, stockLocationKey === option.key && styles.costingMethodTextActive]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
             
             <ScrollView style={styles.stockListContainer} showsVerticalScrollIndicator={false}>
-              {stockByGrainType.length > 0 ? (
-                stockByGrainType.map((item, index) => (
+              {shownStock.length > 0 ? (
+                shownStock.map((item, index) => (
                   <View key={index} style={styles.stockItem}>
-                    <View style={styles.stockItemLeft}>
-                      <Text style={styles.stockGrainIcon}>🌾</Text>
-                      <Text style={styles.stockGrainName}>{item.grainType}</Text>
-                    </View>
-                    <View style={styles.stockItemRight}>
-                      <Text style={[
-                        styles.stockQuantity,
-                        item.stock < 0 && styles.stockNegative
-                      ]}>
-                        {item.stock.toFixed(2)} Qtl
-                      </Text>
+                    <View style={styles.stockItemHeader}>
+                      <View style={styles.stockItemLeft}>
+                        <Text style={styles.stockGrainIcon}>🌾</Text>
+                        <Text style={styles.stockGrainName}>{item.grainType}</Text>
+                      </View>
+                      <View style={styles.stockItemRight}>
+                        <Text style={[
+                          styles.stockQuantity,
+                          item.stock < 0 && styles.stockNegative
+                        ]}>
+                          {item.stock.toFixed(2)} Qtl
+                        </Text>
+                      </View>
                     </View>
+                    {/* Lots follow the buy bills, not later transfers, so they are listed for the total only */}
+                    {!selectedLocationStock && stockLots
+                      .filter(lot => grainKey(lot.grainType) === grainKey(item.grainType))
+                      .map(lot => (
+                        <View key={lot.id} style={styles.stockLotRow}>
+                          <View style={styles.stockLotInfo}>
+                            <Text style={styles.stockLotSupplier} numberOfLines={1}>
+                              {lot.supplierName}
+                            </Text>
+                            <Text style={styles.stockLotMeta}>
+                              {formatDate(lot.date)} · {lot.ageDays} {lot.ageDays === 1 ? 'day' : 'days'} old
+                            </Text>
+                          </View>
+                          <Text style={styles.stockLotQuantity}>
+                            {lot.remainingQuantity.toFixed(2)} / {lot.quantity.toFixed(2)} Qtl
+                          </Text>
+                        </View>
+                      ))}
                   </View>
                 ))
               ) : (
@@ -624,6 +760,15 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
               )}
             </ScrollView>
 
+            <TouchableOpacity
+              style={styles.stockLocationsLink}
+              onPress={() => {
+                setIsStockModalVisible(false);
+                navigation.navigate('StockLocations');
+              }}>
+              <Text style={styles.stockLocationsLinkText}>Locations & Transfers →</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.stockCloseButton}
               onPress={() => setIsStockModalVisible(false)}>
@@ -669,6 +814,13 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
                   Interest
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.profitTab, profitTab === 'margin' && styles.profitTabActive]}
+                onPress={() => setProfitTab('margin')}>
+                <Text style={[styles.profitTabText, profitTab === 'margin' && styles.profitTabTextActive]}>
+                  Margin
+                </Text>
+              </TouchableOpacity>
             </View>
 
             {/* Tab Content */}
@@ -818,6 +970,94 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
                   )}
                 </View>
               )}
+
+              {profitTab === 'margin' && (
+                <View>
+                  <View style={styles.costingMethodRow}>
+                    {(['LOT', 'AVERAGE'] as CostingMethod[]).map(method => (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.costingMethodChip, costingMethod === method && styles.costingMethodChipActive]}
+                        onPress={() => setCostingMethod(method)}>
+                        <Text style={[styles.costingMethodText, costingMethod === method && styles.costingMethodTextActive]}>
+                          {method === 'LOT' ? 'Lot Cost' : 'Average Cost'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {loadingMargin && !tradingMargin ? (
+                    <Text style={styles.profitEmptyText}>Loading trading margin...</Text>
+                  ) : !tradingMargin || tradingMargin.sales.length === 0 ? (
+                    <Text style={styles.profitEmptyText}>No sales found for the selected range.</Text>
+                  ) : (
+                    <>
+                      <View style={styles.profitSummaryCard}>
+                        <Text style={styles.profitSummaryLabel}>Sales Value (Grain)</Text>
+                        <Text style={styles.profitSummaryValue}>{formatCurrency(tradingMargin.revenue)}</Text>
+                      </View>
+                      <View style={styles.profitSummaryCard}>
+                        <Text style={styles.profitSummaryLabel}>Cost of Goods Sold</Text>
+                        <Text style={[styles.profitSummaryValue, {color: Colors.error}]}>
+                          {formatCurrency(tradingMargin.costOfGoods)}
+                        </Text>
+                      </View>
+                      <View style={styles.profitSummaryCard}>
+                        <Text style={styles.profitSummaryLabel}>
+                          Gross Trading Margin ({tradingMargin.marginPercent.toFixed(1)}%)
+                        </Text>
+                        <Text style={[
+                          styles.profitSummaryValue,
+                          {color: tradingMargin.margin >= 0 ? Colors.success : Colors.error, fontSize: 20},
+                        ]}>
+                          {formatCurrency(tradingMargin.margin)}
+                        </Text>
+                        {tradingMargin.uncostedQuantity > 0 && (
+                          <Text style={styles.profitTransactionDetails}>
+                            {tradingMargin.uncostedQuantity.toFixed(2)} Qtl sold with no purchase to cost it from
+                          </Text>
+                        )}
+                      </View>
+
+                      <Text style={styles.profitSectionTitle}>By Grain</Text>
+                      {tradingMargin.byGrain.map(grain => (
+                        <View key={grain.grainType} style={styles.profitTransactionCard}>
+                          <View style={styles.profitTransactionLeft}>
+                            <Text style={styles.profitTransactionTitle}>{grain.grainType}</Text>
+                            <Text style={styles.profitTransactionSubtitle}>
+                              {grain.quantity.toFixed(2)} Qtl • Avg cost {formatCurrency(grain.averageCost)}/Qtl
+                            </Text>
+                            <Text style={styles.profitTransactionDetails}>
+                              Sales: {formatCurrency(grain.revenue)} | Cost: {formatCurrency(grain.costOfGoods)}
+                            </Text>
+                          </View>
+                          <Text style={[styles.profitTransactionAmount, grain.margin < 0 && {color: Colors.error}]}>
+                            {formatCurrency(grain.margin)}
+                          </Text>
+                        </View>
+                      ))}
+
+                      <Text style={styles.profitSectionTitle}>Sell Transactions</Text>
+                      {tradingMargin.sales.map(sale => (
+                        <View key={sale.sellTransactionId} style={styles.profitTransactionCard}>
+                          <View style={styles.profitTransactionLeft}>
+                            <Text style={styles.profitTransactionTitle}>{sale.buyerName}</Text>
+                            <Text style={styles.profitTransactionSubtitle}>
+                              {sale.grainType} • {sale.quantity.toFixed(2)} Qtl • {formatDate(sale.date)}
+                            </Text>
+                            <Text style={styles.profitTransactionDetails}>
+                              Sale: {formatCurrency(sale.revenue)} | Cost: {formatCurrency(sale.costOfGoods)}
+                            </Text>
+                          </View>
+                          <Text style={[styles.profitTransactionAmount, sale.margin < 0 && {color: Colors.error}]}>
+                            {formatCurrency(sale.margin)}
+                          </Text>
+                        </View>
+                      ))}
+                    </>
+                  )}
+                </View>
+              )}
             </ScrollView>
 
             <TouchableOpacity
@@ -902,6 +1142,79 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
         </View>
       </Modal>
 
+      {/* Export Workbook Modal */}
+      <Modal
+        visible={isExportModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsExportModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Export Workbook</Text>
+            <Text style={styles.modalSubtitle}>
+              Buy, sell, lend, expenses and payments as sheets of one Excel file
+            </Text>
+
+            <View style={styles.exportRangeRow}>
+              {(['start', 'end'] as const).map(target => (
+                <TouchableOpacity
+                  key={target}
+                  style={[styles.exportRangeButton, exportPickerTarget === target && styles.exportRangeButtonActive]}
+                  onPress={() => setExportPickerTarget(exportPickerTarget === target ? null : target)}>
+                  <Text style={styles.exportRangeLabel}>{target === 'start' ? 'From' : 'To'}</Text>
+                  <Text style={styles.exportRangeValue}>{formatDate(exportRange[target])}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {exportPickerTarget && (
+              <Calendar
+                current={toCalendarDate(exportRange[exportPickerTarget])}
+                minDate={exportPickerTarget === 'end' ? toCalendarDate(exportRange.start) : undefined}
+                maxDate={exportPickerTarget === 'start' ? toCalendarDate(exportRange.end) : undefined}
+                onDayPress={(day: {year: number; month: number; day: number}) => {
+                  const picked = new Date(day.year, day.month - 1, day.day);
+                  setExportRange(range => ({...range, [exportPickerTarget]: picked}));
+                  setExportPickerTarget(null);
+                }}
+                markedDates={{
+                  [toCalendarDate(exportRange[exportPickerTarget])]: {
+                    selected: true,
+                    selectedColor: Colors.primary,
+                  },
+                }}
+                theme={{
+                  backgroundColor: Colors.surface,
+                  calendarBackground: Colors.surface,
+                  selectedDayBackgroundColor: Colors.primary,
+                  selectedDayTextColor: Colors.surface,
+                  todayTextColor: Colors.primary,
+                  dayTextColor: Colors.textPrimary,
+                  monthTextColor: Colors.textPrimary,
+                  arrowColor: Colors.primary,
+                }}
+              />
+            )}
+
+            <View style={[styles.modalButtons, styles.exportModalButtons]}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonCancel]}
+                onPress={() => setIsExportModalVisible(false)}>
+                <Text style={styles.modalButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.modalButtonSave]}
+                disabled={exportingWorkbook}
+                onPress={exportWorkbook}>
+                <Text style={[styles.modalButtonText, {color: Colors.textLight}]}>
+                  {exportingWorkbook ? 'Exporting...' : 'Export'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Labour Charges Modal */}
       <Modal
         visible={isLabourModalVisible}
@@ -960,11 +1273,14 @@ export const DashboardScreen: React.FC<any> = ({navigation}) => {
                               style: 'destructive',
                               onPress: async () => {
                                 try {
-                                  const currentBalance = await CashBalanceService.getCurrentBalance();
-                                  const newBalance = currentBalance - totalAmount;
-
-                                  // Update cash balance
-                                  await CashBalanceService.setBalance(newBalance);
+                                  // Update cash balance, in a unit of work of its own
+                                  const newBalance = await DatabaseService.runInTransaction(() =>
+                                    CashBalanceService.subtractFromBalance(
+                                      totalAmount,
+                                      `Labour charges settled for ${unsettledTransactions.length} transaction(s)`,
+                                      {sourceType: 'LABOUR'},
+                                    ),
+                                  );
 
                                   // Mark all unsettled transactions as settled
                                   for (const transaction of unsettledTransactions) {
@@ -1176,6 +1492,18 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: Colors.textLight,
   },
+  ledgerLink: {
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  ledgerLinkText: {
+    color: Colors.textLight,
+    fontSize: 12,
+    fontWeight: '600',
+  },
   
   // Operational Summary
   operationalTitle: {
@@ -1467,15 +1795,17 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
   stockItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
     backgroundColor: Colors.background,
     padding: Spacing.md,
     borderRadius: BorderRadius.md,
     marginBottom: Spacing.sm,
     ...Shadow.small,
   },
+  stockItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   stockItemLeft: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1502,6 +1832,53 @@ const styles = StyleSheet.create({
   stockNegative: {
     color: Colors.error,
   },
+  stockLotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  stockLotInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  stockLotSupplier: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+  },
+  stockLotMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  stockLotQuantity: {
+    ...Typography.body2,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  stockLocationRow: {
+    flexGrow: 0,
+    marginBottom: Spacing.md,
+  },
+  stockLocationChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginRight: Spacing.sm,
+  },
+  stockLocationsLink: {
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  stockLocationsLinkText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
   emptyStockText: {
     ...Typography.body1,
     color: Colors.textSecondary,
@@ -1561,6 +1938,30 @@ const styles = StyleSheet.create({
   profitTabTextActive: {
     color: Colors.textLight,
   },
+  costingMethodRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  costingMethodChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.round,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  costingMethodChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  costingMethodText: {
+    ...Typography.caption,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  costingMethodTextActive: {
+    color: Colors.textLight,
+  },
   profitContentContainer: {
     maxHeight: 450,
     marginBottom: Spacing.lg,
@@ -1632,6 +2033,52 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
   },
   
+  // Export Workbook Styles
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    backgroundColor: Colors.surface,
+  },
+  exportButtonText: {
+    ...Typography.button,
+    color: Colors.primary,
+  },
+  exportRangeRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  exportRangeButton: {
+    flex: 1,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  exportRangeButtonActive: {
+    borderColor: Colors.primary,
+  },
+  exportRangeLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  exportRangeValue: {
+    ...Typography.body1,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+  },
+  exportModalButtons: {
+    marginTop: Spacing.md,
+  },
+
   // Date Picker Modal Styles
   datePickerModalContent: {
     backgroundColor: Colors.surface,
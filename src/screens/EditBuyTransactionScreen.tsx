@@ -145,6 +145,16 @@ export const EditBuyTransactionScreen: React.FC<any> = ({route, navigation}) =>
             <Text style={styles.detailLabel}>Quantity:</Text>
             <Text style={styles.detailValue}>{transaction.quantity} Quintal</Text>
           </View>
+          {(transaction.items || []).map(it => (
+            <View key={it.id} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>
+                {it.lineNumber}. {it.grainType || transaction.grainType}
+              </Text>
+              <Text style={styles.detailValue}>
+                {it.quantity.toFixed(2)} Qtl @ ₹{it.ratePerQuintal}
+              </Text>
+            </View>
+          ))}
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Total Amount:</Text>
             <Text style={[styles.detailValue, styles.amountText]}>
@@ -62,8 +62,8 @@ export const EditSellTransactionScreen: React.FC<any> = ({route, navigation}) =>
     const commission = parseFloat(commissionAmount) || 0;
     const labour = parseFloat(labourCharges) || 0;
 
-    // Net Receivable = Total Amount + Commission + Labour
-    const netReceivable = transaction.totalAmount + commission + labour;
+    // Net Receivable = Total Amount + Commission + Labour (+ GST on a tax invoice)
+    const netReceivable = transaction.totalAmount + commission + labour + (transaction.taxAmount || 0);
 
     if (received > netReceivable) {
       Alert.alert('Error', 'Received amount cannot exceed net receivable amount');
@@ -122,7 +122,7 @@ export const EditSellTransactionScreen: React.FC<any> = ({route, navigation}) =>
 
   const commission = parseFloat(commissionAmount) || 0;
   const labour = parseFloat(labourCharges) || 0;
-  const netReceivable = transaction.totalAmount + commission + labour;
+  const netReceivable = transaction.totalAmount + commission + labour + (transaction.taxAmount || 0);
   const received = parseFloat(receivedAmount) || 0;
   const balance = netReceivable - received;
 
@@ -154,6 +154,16 @@ export const EditSellTransactionScreen: React.FC<any> = ({route, navigation}) =>
             <Text style={styles.detailLabel}>Quantity:</Text>
             <Text style={styles.detailValue}>{transaction.quantity} Quintal</Text>
           </View>
+          {(transaction.items || []).map(it => (
+            <View key={it.id} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>
+                {it.lineNumber}. {it.grainType || transaction.grainType}
+              </Text>
+              <Text style={styles.detailValue}>
+                {it.quantity.toFixed(2)} Qtl @ ₹{it.ratePerQuintal}
+              </Text>
+            </View>
+          ))}
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Gross Amount:</Text>
             <Text style={[styles.detailValue, styles.amountText]}>
@@ -14,6 +14,10 @@ import {Calendar} from 'react-native-calendars';
 import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
 import {Expense} from '../models/Expense';
 import ExpenseService from '../services/ExpenseService';
+import ExportService from '../services/ExportService';
+import {SpreadsheetFormat} from '../models/Spreadsheet';
+import {buildExpenseSheet} from '../utils/transactionSheets';
+import {spreadsheetFileName} from '../utils/spreadsheet';
 import {useFocusEffect} from '@react-navigation/native';
 
 /**
@@ -108,6 +112,26 @@ export const ExpenseTransactionsListScreen: React.FC<any> = ({navigation}) => {
     return filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
   };
 
+  const handleExport = () => {
+    if (filteredExpenses.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no expenses in this list');
+      return;
+    }
+    const exportAs = async (format: SpreadsheetFormat) => {
+      try {
+        await ExportService.shareSpreadsheet([buildExpenseSheet(filteredExpenses)], spreadsheetFileName('Expenses'), format);
+      } catch (error) {
+        console.error('Error exporting expenses:', error);
+        Alert.alert('Error', 'Failed to export expenses');
+      }
+    };
+    Alert.alert('Export', `${filteredExpenses.length} expenses as shown in the list`, [
+      {text: 'Cancel', style: 'cancel'},
+      {text: 'CSV', onPress: () => exportAs('CSV')},
+      {text: 'Excel', onPress: () => exportAs('XLSX')},
+    ]);
+  };
+
   const handleEditExpense = (expense: Expense) => {
     // TODO: Navigate to edit screen when implemented
     Alert.alert('Edit Expense', 'Edit functionality coming soon!');
@@ -164,6 +188,9 @@ export const ExpenseTransactionsListScreen: React.FC<any> = ({navigation}) => {
             <Text style={styles.dateButtonText}>✕</Text>
           </TouchableOpacity>
         )}
+        <TouchableOpacity style={styles.dateButton} onPress={handleExport}>
+          <Text style={styles.dateButtonText}>📤</Text>
+        </TouchableOpacity>
       </View>
       <View style={styles.summaryCard}>
         <Text style={styles.summaryLabel}>
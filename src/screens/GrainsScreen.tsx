@@ -0,0 +1,409 @@
+import React, {useState, useCallback} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {CustomButton} from '../components/CustomButton';
+import {Grain, GrainUnit} from '../models/Grain';
+import TransactionService from '../services/TransactionService';
+
+const UNIT_LABELS: Record<GrainUnit, string> = {
+  QUINTAL: 'Quintal',
+  KG: 'Kg',
+  TONNE: 'Tonne',
+};
+
+/**
+ * Grains Screen
+ * Grain master: names, local-language aliases, variety, HSN code and bag weight
+ */
+export const GrainsScreen: React.FC<any> = () => {
+  const [grains, setGrains] = useState<Grain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Grain being added, or edited when editingId is set
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [variety, setVariety] = useState('');
+  const [hsnCode, setHsnCode] = useState('');
+  const [bagWeight, setBagWeight] = useState('');
+  const [defaultUnit, setDefaultUnit] = useState<GrainUnit>('QUINTAL');
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const loadData = async () => {
+    try {
+      setGrains(await TransactionService.getGrains());
+    } catch (error) {
+      console.error('Error loading grains:', error);
+      Alert.alert('Error', 'Failed to load grains');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData();
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setAliases('');
+    setVariety('');
+    setHsnCode('');
+    setBagWeight('');
+    setDefaultUnit('QUINTAL');
+  };
+
+  const handleEdit = (grain: Grain) => {
+    setEditingId(grain.id);
+    setName(grain.name);
+    setAliases(grain.aliases.join(', '));
+    setVariety(grain.variety || '');
+    setHsnCode(grain.hsnCode || '');
+    setBagWeight(grain.defaultBagWeight ? String(grain.defaultBagWeight) : '');
+    setDefaultUnit(grain.defaultUnit);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Validation Error', 'Please enter a grain name');
+      return;
+    }
+    if (bagWeight.trim() && !(parseFloat(bagWeight) >= 0)) {
+      Alert.alert('Validation Error', 'Please enter a valid bag weight');
+      return;
+    }
+
+    const data = {
+      name,
+      aliases: aliases.split(','),
+      variety,
+      hsnCode,
+      defaultBagWeight: bagWeight.trim() ? parseFloat(bagWeight) : 0,
+      defaultUnit,
+    };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await TransactionService.updateGrain(editingId, data);
+      } else {
+        await TransactionService.createGrain({...data, isActive: true});
+      }
+      resetForm();
+      await loadData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save grain');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (grain: Grain) => {
+    try {
+      await TransactionService.updateGrain(grain.id, {isActive: !grain.isActive});
+      await loadData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update grain');
+    }
+  };
+
+  const handleDelete = (grain: Grain) => {
+    Alert.alert('Delete Grain', `Delete ${grain.name}?`, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await TransactionService.deleteGrain(grain.id);
+            if (editingId === grain.id) resetForm();
+            await loadData();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete grain');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[Colors.primary]} />
+      }>
+      <Text style={styles.sectionTitle}>{editingId ? 'Edit Grain' : 'Add Grain'}</Text>
+      <View style={styles.formCard}>
+        <Text style={styles.label}>Name *</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Wheat"
+          placeholderTextColor={Colors.textSecondary}
+          value={name}
+          onChangeText={setName}
+        />
+        <Text style={styles.label}>Aliases</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Gehun, गेहूं (comma separated)"
+          placeholderTextColor={Colors.textSecondary}
+          value={aliases}
+          onChangeText={setAliases}
+        />
+        <View style={styles.inputRow}>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Variety</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., Sharbati"
+              placeholderTextColor={Colors.textSecondary}
+              value={variety}
+              onChangeText={setVariety}
+            />
+          </View>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>HSN Code</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., 1001"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="number-pad"
+              value={hsnCode}
+              onChangeText={setHsnCode}
+            />
+          </View>
+        </View>
+        <Text style={styles.label}>Default Bag Weight (Kg)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., 50"
+          placeholderTextColor={Colors.textSecondary}
+          keyboardType="decimal-pad"
+          value={bagWeight}
+          onChangeText={setBagWeight}
+        />
+        <Text style={styles.label}>Default Unit</Text>
+        <View style={styles.typeRow}>
+          {(Object.keys(UNIT_LABELS) as GrainUnit[]).map(unit => (
+            <TouchableOpacity
+              key={unit}
+              style={[styles.typeButton, defaultUnit === unit && styles.typeButtonActive]}
+              onPress={() => setDefaultUnit(unit)}>
+              <Text style={[styles.typeButtonText, defaultUnit === unit && styles.typeButtonTextActive]}>
+                {UNIT_LABELS[unit]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.hint}>
+          Entries typed with an alias are saved under the grain's name, and stock is grouped by grain.
+        </Text>
+        <CustomButton
+          title={editingId ? 'Save Grain' : 'Add Grain'}
+          onPress={handleSave}
+          loading={saving}
+          disabled={saving}
+          style={styles.saveButton}
+        />
+        {editingId && <CustomButton title="Cancel" onPress={resetForm} variant="outline" />}
+      </View>
+
+      <Text style={styles.sectionTitle}>Grains</Text>
+      <View style={styles.card}>
+        {grains.length === 0 ? (
+          <Text style={styles.emptyText}>No grains yet</Text>
+        ) : (
+          grains.map(grain => (
+            <View key={grain.id} style={styles.grainRow}>
+              <Text style={[styles.itemTitle, !grain.isActive && styles.inactiveText]}>
+                {grain.name}
+                {grain.variety ? ` (${grain.variety})` : ''}
+              </Text>
+              {grain.aliases.length > 0 && <Text style={styles.itemMeta}>{grain.aliases.join(', ')}</Text>}
+              <Text style={styles.itemMeta}>
+                {[
+                  grain.hsnCode ? `HSN ${grain.hsnCode}` : null,
+                  grain.defaultBagWeight ? `${grain.defaultBagWeight} Kg bags` : null,
+                  UNIT_LABELS[grain.defaultUnit],
+                  grain.isActive ? null : 'Inactive',
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+              <View style={styles.itemActions}>
+                <TouchableOpacity onPress={() => handleEdit(grain)}>
+                  <Text style={styles.actionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleToggleActive(grain)}>
+                  <Text style={styles.actionText}>{grain.isActive ? 'Mark Inactive' : 'Mark Active'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDelete(grain)}>
+                  <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  sectionTitle: {
+    ...Typography.h4,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    ...Shadow.small,
+  },
+  formCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+    ...Shadow.small,
+  },
+  grainRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  itemTitle: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  inactiveText: {
+    color: Colors.textSecondary,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.md,
+    marginTop: Spacing.xs,
+  },
+  actionText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: Colors.error,
+  },
+  label: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    ...Typography.body1,
+    color: Colors.textPrimary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  inputHalf: {
+    flex: 1,
+    gap: Spacing.sm,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  typeButton: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  typeButtonText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  typeButtonTextActive: {
+    color: Colors.textLight,
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  saveButton: {
+    marginTop: Spacing.sm,
+  },
+  emptyText: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+});
@@ -15,7 +15,20 @@ import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/th
 import {LendTransaction, PaymentStatus} from '../models/Transaction';
 import {Payment} from '../models/Payment';
 import TransactionService from '../services/TransactionService';
+import ReceiptService from '../services/ReceiptService';
+import ThermalPrinterService from '../services/ThermalPrinterService';
+import {PaperWidth} from '../models/Receipt';
 import {CustomButton} from '../components/CustomButton';
+import {calculateLoanPosition, describeInterestRate, getInterestTerms} from '../utils/interest';
+import {buildLendReceipt} from '../utils/receipt';
+
+interface InterestBreakdownItem {
+  period: string;
+  principal: number;
+  rate: number;
+  days: number;
+  interest: number;
+}
 
 /**
  * Lend Transaction Receipt Screen
@@ -31,7 +44,11 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
   const [paymentAmount, setPaymentAmount] = useState('');
   const [paymentDate, setPaymentDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [projectionDate, setProjectionDate] = useState(new Date());
+  const [pickingProjectionDate, setPickingProjectionDate] = useState(false);
   const [paymentMode, setPaymentMode] = useState<'CASH' | 'ONLINE' | 'CHEQUE'>('CASH');
+  const [sharingPdf, setSharingPdf] = useState(false);
+  const [printing, setPrinting] = useState(false);
   // Notes removed from UI; notes will be generated automatically when recording payment
 
   useEffect(() => {
@@ -55,93 +72,86 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     }
   };
 
-  /**
-   * Calculate interest for a given period
-   * Interest = (Principal × Rate × Days) / (100 × 30)
-   * Rate is per month, so we divide by 30 days
-   */
-  const calculateInterest = (
-    principal: number,
-    ratePerMonth: number,
-    startDate: Date,
-    endDate: Date
-  ): number => {
-    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const interest = (principal * ratePerMonth * days) / (100 * 30);
-    return Math.round(interest); // Round to nearest whole number
+  const handleSharePdf = async () => {
+    if (!transaction) return;
+
+    try {
+      setSharingPdf(true);
+      const firm = await ReceiptService.getFirmDetails();
+      await ReceiptService.shareReceiptPdf(buildLendReceipt(transaction, payments, firm));
+    } catch (error) {
+      console.error('Error creating loan statement PDF:', error);
+      Alert.alert('Error', 'Failed to create loan statement PDF');
+    } finally {
+      setSharingPdf(false);
+    }
   };
 
-  /**
-   * Extract interest rate from description
-   */
-  const getInterestRate = (): number => {
-    if (!transaction?.description) return 0;
-    const match = transaction.description.match(/Interest Rate:\s*(\d+\.?\d*)/);
-    return match ? parseFloat(match[1]) : 0;
+  const handlePrint = () => {
+    if (!transaction) return;
+
+    Alert.alert('Print Loan Statement', 'Choose the paper width', [
+      {text: '58mm', onPress: () => handlePrintThermal('58mm')},
+      {text: '80mm', onPress: () => handlePrintThermal('80mm')},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handlePrintThermal = async (paperWidth: PaperWidth) => {
+    if (!transaction) return;
+
+    try {
+      setPrinting(true);
+      const firm = await ReceiptService.getFirmDetails();
+      ThermalPrinterService.setPaperWidth(paperWidth);
+      await ThermalPrinterService.printReceipt(buildLendReceipt(transaction, payments, firm), paperWidth);
+    } catch (error: any) {
+      console.error('Error printing loan statement:', error);
+      Alert.alert('Print Failed', error.message || 'Failed to print loan statement');
+    } finally {
+      setPrinting(false);
+    }
   };
 
   /**
-   * Calculate total interest and amount with interest up to a specific date
+   * Calculate total interest and amount with interest up to a specific date.
+   * Replays the payment history, so interest left unpaid by earlier partial payments is included.
    */
   const calculateTotalInterestUpToDate = (upToDate: Date): {
     totalInterest: number;
     totalAmountWithInterest: number;
     currentPrincipal: number;
-    interestBreakdown: Array<{period: string; principal: number; days: number; interest: number}>;
+    interestBroughtForward: number;
+    interestBreakdown: InterestBreakdownItem[];
   } => {
-    if (!transaction) return {totalInterest: 0, totalAmountWithInterest: 0, currentPrincipal: 0, interestBreakdown: []};
-
-    const rate = getInterestRate();
-    if (rate === 0) return {
-      totalInterest: 0,
-      totalAmountWithInterest: transaction.balanceAmount,
-      currentPrincipal: transaction.balanceAmount,
-      interestBreakdown: []
-    };
-
-    const lendDate = new Date(transaction.date);
-    const sortedPayments = [...payments].sort(
-      (a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime()
-    );
-
-    // Start with the current balance from the transaction (this is the remaining principal after all payments)
-    let currentPrincipal = transaction.balanceAmount || 0;
-    // If there are no payments yet, use the original loan amount
-    if (sortedPayments.length === 0) {
-      currentPrincipal = transaction.amount || 0;
+    if (!transaction) {
+      return {totalInterest: 0, totalAmountWithInterest: 0, currentPrincipal: 0, interestBroughtForward: 0, interestBreakdown: []};
     }
-    
-    // Determine the start date for interest calculation
-    // If there are payments, start from the last payment date
-    // Otherwise, start from the loan date
-    let currentDate = lendDate;
-    if (sortedPayments.length > 0) {
-      const lastPayment = sortedPayments[sortedPayments.length - 1];
-      currentDate = new Date(lastPayment.paymentDate);
-      // The current principal is the remaining balance after all payments
-      currentPrincipal = transaction.balanceAmount || 0;
-    }
-
-    const interestBreakdown: Array<{period: string; principal: number; days: number; interest: number}> = [];
 
-    // Calculate interest from the last payment date (or loan date) to upToDate
-    const interest = calculateInterest(currentPrincipal, rate, currentDate, upToDate);
-    const days = Math.ceil((upToDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (days > 0) {
-      interestBreakdown.push({
-        period: `${formatDate(currentDate)} to ${formatDate(upToDate)}`,
-        principal: currentPrincipal,
-        days,
-        interest,
-      });
-    }
-
-    const totalInterest = interest;
+    const terms = getInterestTerms(transaction);
+    const position = calculateLoanPosition(
+      transaction.amount || 0,
+      terms,
+      new Date(transaction.date),
+      payments,
+      upToDate,
+    );
 
-    const totalAmountWithInterest = currentPrincipal + totalInterest;
+    const interestBreakdown: InterestBreakdownItem[] = position.segments.map(segment => ({
+      period: `${formatDate(segment.from)} to ${formatDate(segment.to)}${segment.penal ? ' (penal)' : ''}`,
+      principal: segment.base,
+      rate: segment.rate,
+      days: segment.days,
+      interest: segment.interest,
+    }));
 
-    return {totalInterest, totalAmountWithInterest, currentPrincipal, interestBreakdown};
+    return {
+      totalInterest: position.interestDue,
+      totalAmountWithInterest: position.totalDue,
+      currentPrincipal: position.principal,
+      interestBroughtForward: position.interestBroughtForward,
+      interestBreakdown,
+    };
   };
 
   /**
@@ -150,12 +160,14 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
   const calculateTotalInterest = (): {
     totalInterest: number;
     totalAmountWithInterest: number;
-    interestBreakdown: Array<{period: string; principal: number; days: number; interest: number}>;
+    interestBroughtForward: number;
+    interestBreakdown: InterestBreakdownItem[];
   } => {
     const result = calculateTotalInterestUpToDate(new Date());
     return {
       totalInterest: result.totalInterest,
       totalAmountWithInterest: result.totalAmountWithInterest,
+      interestBroughtForward: result.interestBroughtForward,
       interestBreakdown: result.interestBreakdown
     };
   };
@@ -173,7 +185,7 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     if (!transaction) return;
 
     // Calculate interest up to the selected payment date
-    const {totalAmountWithInterest, totalInterest, currentPrincipal} = 
+    const {totalAmountWithInterest, totalInterest, currentPrincipal, interestBroughtForward} = 
       calculateTotalInterestUpToDate(paymentDate);
 
     // For final settlement, use total amount with interest
@@ -193,7 +205,7 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
       }
 
       // Calculate interest payment and principal payment
-      // Interest is only what has accrued since the last payment
+      // Unpaid interest (including any carried from earlier partial payments) is settled first
       const interestPayment = Math.min(amount, totalInterest);
       const principalPayment = amount - interestPayment;
 
@@ -208,10 +220,13 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
         `Principal Payment: ₹${principalPayment.toFixed(2)}\n\n` +
         `Current Principal: ₹${currentPrincipal.toFixed(2)}\n` +
         `New Principal: ₹${(currentPrincipal - principalPayment).toFixed(2)}\n\n` +
-        `Accrued Interest (since last payment till ${formatDate(paymentDate)}): ₹${totalInterest.toFixed(0)}\n` +
+        `Interest Due (till ${formatDate(paymentDate)}): ₹${totalInterest.toFixed(0)}\n` +
+        (interestBroughtForward > 0 ? `  incl. unpaid from earlier payments: ₹${interestBroughtForward.toFixed(0)}\n` : '') +
         `Remaining Interest: ₹${remainingInterest.toFixed(0)}\n\n` +
         (interestPaidInFull && principalPayment < currentPrincipal
           ? `✓ Full interest paid! Future interest will be calculated from ${formatDate(paymentDate)} on remaining principal.`
+          : remainingInterest > 0
+          ? `Unpaid interest of ₹${remainingInterest.toFixed(0)} will be carried forward.`
           : ''),
         [
           {text: 'Cancel', style: 'cancel'},
@@ -249,12 +264,17 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           loadTransaction();
         }}
       ]);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error recording payment:', error);
-      Alert.alert('Error', 'Failed to record payment');
+      Alert.alert('Error', error.message || 'Failed to record payment');
     }
   };
 
+  const openDatePicker = (forProjection: boolean) => {
+    setPickingProjectionDate(forProjection);
+    setShowDatePicker(true);
+  };
+
   const openPaymentModal = (type: 'PARTIAL' | 'FINAL') => {
     setPaymentType(type);
     setPaymentDate(new Date());
@@ -277,8 +297,10 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     );
   }
 
-  const {totalInterest, totalAmountWithInterest, interestBreakdown} = calculateTotalInterest();
-  const rate = getInterestRate();
+  const {totalInterest, totalAmountWithInterest, interestBroughtForward, interestBreakdown} = calculateTotalInterest();
+  const projection = calculateTotalInterestUpToDate(projectionDate);
+  const terms = getInterestTerms(transaction);
+  const periodUnit = terms.interestPeriod === 'YEARLY' ? 'yr' : 'mo';
 
   return (
     <View style={styles.container}>
@@ -331,8 +353,22 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           </View>
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Interest Rate:</Text>
-            <Text style={styles.detailValue}>{rate}% per month</Text>
+            <Text style={styles.detailValue}>{describeInterestRate(terms)}</Text>
           </View>
+          {terms.graceDays > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Grace Period:</Text>
+              <Text style={styles.detailValue}>{terms.graceDays} days</Text>
+            </View>
+          )}
+          {terms.penalRate > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Penal Rate:</Text>
+              <Text style={styles.detailValue}>
+                {terms.penalRate}% after {terms.expectedReturnDate ? formatDate(terms.expectedReturnDate) : 'due date'}
+              </Text>
+            </View>
+          )}
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Returned Amount:</Text>
             <Text style={[styles.amountValue, styles.successAmount]}>
@@ -348,10 +384,18 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
         </View>
 
         {/* Interest Calculation */}
-        {rate > 0 && (
+        {(terms.interestRate > 0 || terms.penalRate > 0) && (
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Interest Calculation</Text>
             <View style={styles.interestSummary}>
+              {interestBroughtForward > 0 && (
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Unpaid from earlier payments:</Text>
+                  <Text style={[styles.amountValue, styles.warningAmount]}>
+                    ₹{interestBroughtForward.toFixed(0)}
+                  </Text>
+                </View>
+              )}
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Total Interest:</Text>
                 <Text style={[styles.amountValue, styles.warningAmount]}>
@@ -374,7 +418,7 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
                   <View key={index} style={styles.breakdownItem}>
                     <Text style={styles.breakdownPeriod}>{item.period}</Text>
                     <Text style={styles.breakdownDetails}>
-                      ₹{item.principal.toFixed(0)} × {rate}% × {item.days} days = ₹{item.interest.toFixed(0)}
+                      ₹{item.principal.toFixed(0)} × {item.rate}%/{periodUnit} × {item.days} days = ₹{item.interest.toFixed(0)}
                     </Text>
                   </View>
                 ))}
@@ -383,6 +427,32 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           </View>
         )}
 
+        {/* Interest Projection */}
+        {(terms.interestRate > 0 || terms.penalRate > 0) && transaction.paymentStatus !== PaymentStatus.COMPLETED && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Due As Of Date</Text>
+            <TouchableOpacity
+              style={styles.dateButton}
+              onPress={() => openDatePicker(true)}>
+              <Text style={styles.dateButtonText}>📅 {formatDate(projectionDate)}</Text>
+            </TouchableOpacity>
+            <View style={styles.projectionRows}>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Principal:</Text>
+                <Text style={styles.detailValue}>₹{projection.currentPrincipal.toFixed(2)}</Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Interest:</Text>
+                <Text style={[styles.amountValue, styles.warningAmount]}>₹{projection.totalInterest.toFixed(0)}</Text>
+              </View>
+              <View style={[styles.detailRow, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Due on {formatDate(projectionDate)}:</Text>
+                <Text style={styles.totalValue}>₹{projection.totalAmountWithInterest.toFixed(0)}</Text>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Payment History */}
         {payments.length > 0 && (
           <View style={styles.card}>
@@ -403,20 +473,36 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
         )}
 
         {/* Action Buttons */}
-        {transaction.paymentStatus !== PaymentStatus.COMPLETED && (
-          <View style={styles.actionsCard}>
-            <CustomButton
-              title="Add Partial Payment"
-              onPress={() => openPaymentModal('PARTIAL')}
-              variant="secondary"
-            />
-            <View style={{height: Spacing.md}} />
-            <CustomButton
-              title={`Settle Loan (₹${totalAmountWithInterest.toFixed(0)})`}
-              onPress={() => openPaymentModal('FINAL')}
-            />
-          </View>
-        )}
+        <View style={styles.actionsCard}>
+          {transaction.paymentStatus !== PaymentStatus.COMPLETED && (
+            <>
+              <CustomButton
+                title="Add Partial Payment"
+                onPress={() => openPaymentModal('PARTIAL')}
+                variant="secondary"
+              />
+              <View style={{height: Spacing.md}} />
+              <CustomButton
+                title={`Settle Loan (₹${totalAmountWithInterest.toFixed(0)})`}
+                onPress={() => openPaymentModal('FINAL')}
+              />
+              <View style={{height: Spacing.md}} />
+            </>
+          )}
+          <CustomButton
+            title="📄 Share Loan Statement (PDF)"
+            onPress={handleSharePdf}
+            variant="outline"
+            loading={sharingPdf}
+          />
+          <View style={{height: Spacing.md}} />
+          <CustomButton
+            title="🖨️ Print Loan Statement"
+            onPress={handlePrint}
+            variant="outline"
+            loading={printing}
+          />
+        </View>
       </ScrollView>
 
       {/* Payment Modal */}
@@ -436,7 +522,7 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
               <Text style={styles.modalLabel}>Payment Date</Text>
               <TouchableOpacity
                 style={styles.dateButton}
-                onPress={() => setShowDatePicker(true)}>
+                onPress={() => openDatePicker(false)}>
                 <Text style={styles.dateButtonText}>📅 {formatDate(paymentDate)}</Text>
               </TouchableOpacity>
             </View>
@@ -547,7 +633,7 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
         <View style={styles.modalOverlay}>
           <View style={styles.calendarModal}>
             <View style={styles.calendarHeader}>
-              <Text style={styles.calendarTitle}>Select Payment Date</Text>
+              <Text style={styles.calendarTitle}>{pickingProjectionDate ? 'Select Date' : 'Select Payment Date'}</Text>
               <TouchableOpacity onPress={() => setShowDatePicker(false)}>
                 <Text style={styles.calendarClose}>✕</Text>
               </TouchableOpacity>
@@ -563,13 +649,17 @@ export const LendTransactionReceiptScreen: React.FC<any> = ({route, navigation})
                 }
                 return new Date(transaction.date).toISOString().split('T')[0];
               })()}
-              maxDate={new Date().toISOString().split('T')[0]}
+              maxDate={pickingProjectionDate ? undefined : new Date().toISOString().split('T')[0]}
               onDayPress={(day: any) => {
-                setPaymentDate(new Date(day.dateString));
+                if (pickingProjectionDate) {
+                  setProjectionDate(new Date(day.dateString));
+                } else {
+                  setPaymentDate(new Date(day.dateString));
+                }
                 setShowDatePicker(false);
               }}
               markedDates={{
-                [paymentDate.toISOString().split('T')[0]]: {
+                [(pickingProjectionDate ? projectionDate : paymentDate).toISOString().split('T')[0]]: {
                   selected: true,
                   selectedColor: Colors.primary,
                 },
@@ -680,6 +770,9 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     marginTop: Spacing.sm,
   },
+  projectionRows: {
+    marginTop: Spacing.md,
+  },
   totalRow: {
     borderTopWidth: 2,
     borderTopColor: Colors.border,
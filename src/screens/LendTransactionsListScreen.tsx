@@ -15,6 +15,11 @@ import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/th
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {LendTransaction, PaymentStatus} from '../models/Transaction';
 import TransactionService from '../services/TransactionService';
+import ExportService from '../services/ExportService';
+import {SpreadsheetFormat} from '../models/Spreadsheet';
+import {buildLendSheet} from '../utils/transactionSheets';
+import {spreadsheetFileName} from '../utils/spreadsheet';
+import {calculateLoanPosition, describeInterestRate, getInterestTerms} from '../utils/interest';
 
 /**
  * Lend Transactions List Screen
@@ -99,6 +104,26 @@ export const LendTransactionsListScreen: React.FC<any> = ({navigation}) => {
     setFilteredTransactions(filtered);
   };
 
+  const handleExport = () => {
+    if (filteredTransactions.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no transactions in this list');
+      return;
+    }
+    const exportAs = async (format: SpreadsheetFormat) => {
+      try {
+        await ExportService.shareSpreadsheet([buildLendSheet(filteredTransactions)], spreadsheetFileName(activeTab === 'SELF' ? 'Lend_Self' : 'Lend_Customers'), format);
+      } catch (error) {
+        console.error('Error exporting transactions:', error);
+        Alert.alert('Error', 'Failed to export transactions');
+      }
+    };
+    Alert.alert('Export', `${filteredTransactions.length} transactions as shown in the list`, [
+      {text: 'Cancel', style: 'cancel'},
+      {text: 'CSV', onPress: () => exportAs('CSV')},
+      {text: 'Excel', onPress: () => exportAs('XLSX')},
+    ]);
+  };
+
   const getStatusColor = (status: PaymentStatus) => {
     switch (status) {
       case PaymentStatus.COMPLETED:
@@ -134,29 +159,21 @@ export const LendTransactionsListScreen: React.FC<any> = ({navigation}) => {
     });
   };
 
-  /**
-   * Extract interest rate from transaction description
-   */
-  const getInterestRate = (transaction: LendTransaction): number => {
-    if (!transaction?.description) return 0;
-    const match = transaction.description.match(/Interest Rate:\s*(\d+\.?\d*)/);
-    return match ? parseFloat(match[1]) : 0;
-  };
-
   /**
    * Calculate interest for current balance up to today
    */
   const calculateCurrentInterest = (transaction: LendTransaction): number => {
-    const rate = getInterestRate(transaction);
-    if (rate === 0 || transaction.balanceAmount === 0) return 0;
+    if (transaction.balanceAmount === 0) return 0;
 
     // Calculate from transaction date to today for simplicity in list view
     // Note: This is a simplified calculation. For accurate interest, use the receipt screen
-    const startDate = new Date(transaction.date);
-    const today = new Date();
-    const days = Math.ceil((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const interest = (transaction.balanceAmount * rate * days) / (100 * 30);
-    return Math.round(interest); // Round to nearest whole number
+    return calculateLoanPosition(
+      transaction.balanceAmount,
+      getInterestTerms(transaction),
+      new Date(transaction.date),
+      [],
+      new Date(),
+    ).interestDue;
   };
 
   /**
@@ -241,10 +258,10 @@ export const LendTransactionsListScreen: React.FC<any> = ({navigation}) => {
           </Text>
         </View>
       </View>
-      {getInterestRate(item) > 0 && item.balanceAmount > 0 && (
+      {(item.interestRate || 0) > 0 && item.balanceAmount > 0 && (
         <View style={styles.interestFooter}>
           <View style={styles.interestSection}>
-            <Text style={styles.interestLabel}>Interest ({getInterestRate(item)}%/month)</Text>
+            <Text style={styles.interestLabel}>Interest ({describeInterestRate(getInterestTerms(item))})</Text>
             <Text style={styles.interestValue}>₹{calculateCurrentInterest(item).toFixed(0)}</Text>
           </View>
           <View style={styles.totalSection}>
@@ -297,6 +314,9 @@ export const LendTransactionsListScreen: React.FC<any> = ({navigation}) => {
               <Text style={styles.dateButtonText}>✕</Text>
             </TouchableOpacity>
           )}
+          <TouchableOpacity style={styles.dateButton} onPress={handleExport}>
+            <Text style={styles.dateButtonText}>📤</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.headerAddButton}
             onPress={() => navigation.navigate('AddLendTransaction')}>
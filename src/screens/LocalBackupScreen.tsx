@@ -0,0 +1,312 @@
+import React, {useState} from 'react';
+import {View, Text, StyleSheet, ScrollView, Alert} from 'react-native';
+import DocumentPicker from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
+import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
+import {CustomButton} from '../components/CustomButton';
+import {CustomInput} from '../components/CustomInput';
+import {BackupSummary} from '../models/Backup';
+import LocalBackupService from '../services/LocalBackupService';
+import ExportService from '../services/ExportService';
+import {MIN_BACKUP_PASSPHRASE_LENGTH, readBackupArchive} from '../utils/backupArchive';
+import {formatCurrency, formatDateTime} from '../utils/helpers';
+
+const countRecords = (summary: BackupSummary): number =>
+  summary.tables.reduce((total, table) => total + table.records, 0);
+
+/**
+ * Local Backup Screen
+ * Encrypted backup file of all data and restore from it, without sign-in or network
+ */
+export const LocalBackupScreen: React.FC<any> = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [backupContent, setBackupContent] = useState<string | null>(null);
+  const [backupCreatedAt, setBackupCreatedAt] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [preview, setPreview] = useState<BackupSummary | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH
+      ? `At least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`
+      : undefined;
+  const confirmError =
+    confirmPassphrase.length > 0 && confirmPassphrase !== passphrase ? 'Passphrases do not match' : undefined;
+
+  const handleCreateBackup = async () => {
+    if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH || passphrase !== confirmPassphrase) {
+      Alert.alert('Passphrase', `Enter the same passphrase of at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters twice`);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const backup = await LocalBackupService.createBackup(passphrase);
+      await ExportService.shareTextFile(backup.content, backup.fileName, 'application/json', 'Mandi Backup');
+      Alert.alert(
+        'Backup Created',
+        `${countRecords(backup.summary)} records saved in ${backup.fileName}. Keep the passphrase safe: the backup cannot be opened without it.`,
+      );
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error: any) {
+      console.error('Error creating local backup:', error);
+      Alert.alert('Backup Failed', error.message || 'Failed to create backup');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleOpenBackup = async () => {
+    try {
+      // Copy the picked file into the cache: shared files can arrive as content:// URIs
+      const file = await DocumentPicker.pickSingle({type: DocumentPicker.types.allFiles, copyTo: 'cachesDirectory'});
+      if (!file.fileCopyUri) {
+        throw new Error(file.copyError || 'Could not open the file');
+      }
+      const path = decodeURIComponent(file.fileCopyUri.replace(/^file:\/\//, ''));
+      const content = await RNFS.readFile(path, 'utf8');
+      await RNFS.unlink(path).catch(() => {});
+
+      const archive = readBackupArchive(content);
+      setBackupContent(content);
+      setBackupCreatedAt(archive.createdAt);
+      setPreview(null);
+    } catch (error: any) {
+      if (DocumentPicker.isCancel(error)) return;
+      Alert.alert('Backup File', error.message || 'Could not open the backup file');
+    }
+  };
+
+  const handleCheckBackup = async () => {
+    if (!backupContent) return;
+    setChecking(true);
+    try {
+      setPreview(await LocalBackupService.previewRestore(backupContent, restorePassphrase));
+    } catch (error: any) {
+      setPreview(null);
+      Alert.alert('Cannot Open Backup', error.message || 'Failed to read backup');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backupContent || !preview) return;
+    const currentRecords = preview.tables.reduce((total, table) => total + table.currentRecords, 0);
+
+    Alert.alert(
+      'Replace All Data',
+      `All ${currentRecords} records on this device will be replaced by the ${countRecords(preview)} records in the backup. This cannot be undone. Continue?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            setRestoring(true);
+            try {
+              const result = await LocalBackupService.restoreBackup(backupContent, restorePassphrase);
+              setBackupContent(null);
+              setBackupCreatedAt(null);
+              setRestorePassphrase('');
+              setPreview(null);
+              Alert.alert(
+                'Restore Complete',
+                `${countRecords(result)} records restored. Cash in hand: ${formatCurrency(result.currentCashBalance)}`,
+              );
+            } catch (error: any) {
+              console.error('Error restoring local backup:', error);
+              Alert.alert('Restore Failed', `${error.message || 'Failed to restore backup'}. Your data was not changed.`);
+            } finally {
+              setRestoring(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Create Backup */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Create Backup</Text>
+        <View style={styles.card}>
+          <CustomInput
+            label="Passphrase"
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            error={passphraseError}
+          />
+          <CustomInput
+            label="Confirm Passphrase"
+            value={confirmPassphrase}
+            onChangeText={setConfirmPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            error={confirmError}
+          />
+          <CustomButton
+            title="Create Encrypted Backup"
+            onPress={handleCreateBackup}
+            loading={creating}
+            disabled={creating}
+          />
+          <Text style={styles.helpText}>
+            All transactions, parties, payments, expenses and the cash ledger are saved in one
+            encrypted file. Save it to Drive, WhatsApp or a memory card. Works without internet.
+          </Text>
+        </View>
+      </View>
+
+      {/* Restore */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Restore from Backup</Text>
+        <View style={styles.card}>
+          <CustomButton title="Open Backup File" onPress={handleOpenBackup} variant="outline" />
+          <Text style={styles.helpText}>
+            Choose the MandiBackup .json file from Downloads, Drive or wherever you saved it.
+          </Text>
+
+          {backupCreatedAt && (
+            <>
+              <Text style={styles.backupInfo}>Backup taken {formatDateTime(backupCreatedAt)}</Text>
+              <CustomInput
+                label="Backup Passphrase"
+                value={restorePassphrase}
+                onChangeText={text => {
+                  setRestorePassphrase(text);
+                  setPreview(null);
+                }}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <CustomButton
+                title="Check Backup"
+                onPress={handleCheckBackup}
+                loading={checking}
+                disabled={checking || restorePassphrase.length === 0}
+              />
+            </>
+          )}
+
+          {preview && (
+            <View style={styles.preview}>
+              <View style={styles.previewHeader}>
+                <Text style={[styles.previewCell, styles.previewHeading]}>Table</Text>
+                <Text style={[styles.previewCount, styles.previewHeading]}>Backup</Text>
+                <Text style={[styles.previewCount, styles.previewHeading]}>Device</Text>
+              </View>
+              {preview.tables.map(table => (
+                <View key={table.table} style={styles.previewRow}>
+                  <Text style={styles.previewCell}>{table.table}</Text>
+                  <Text style={styles.previewCount}>{table.records}</Text>
+                  <Text style={styles.previewCount}>{table.currentRecords}</Text>
+                </View>
+              ))}
+              <View style={styles.previewRow}>
+                <Text style={styles.previewCell}>Cash in hand</Text>
+                <Text style={styles.previewCount}>{formatCurrency(preview.cashBalance)}</Text>
+                <Text style={styles.previewCount}>{formatCurrency(preview.currentCashBalance)}</Text>
+              </View>
+
+              {preview.warnings.map(warning => (
+                <Text key={warning} style={styles.warningText}>
+                  ⚠️ {warning}
+                </Text>
+              ))}
+
+              <CustomButton
+                title="Restore (Replace Data)"
+                onPress={handleRestore}
+                variant="danger"
+                loading={restoring}
+                disabled={restoring}
+                style={styles.restoreButton}
+              />
+            </View>
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    ...Typography.h3,
+    marginBottom: Spacing.md,
+    paddingHorizontal: Spacing.xs,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+  },
+  helpText: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+  },
+  backupInfo: {
+    ...Typography.body1,
+    fontWeight: '600',
+    color: Colors.textPrimary,
+    marginVertical: Spacing.md,
+  },
+  preview: {
+    marginTop: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    paddingTop: Spacing.sm,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    paddingVertical: Spacing.xs,
+  },
+  previewHeading: {
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  previewCell: {
+    ...Typography.body2,
+    flex: 2,
+    color: Colors.textPrimary,
+  },
+  previewCount: {
+    ...Typography.body2,
+    flex: 1,
+    textAlign: 'right',
+    color: Colors.textPrimary,
+  },
+  warningText: {
+    ...Typography.caption,
+    color: Colors.warning,
+    marginTop: Spacing.sm,
+  },
+  restoreButton: {
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,497 @@
+import React, {useState, useCallback, useMemo} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  Share,
+} from 'react-native';
+import {Calendar} from 'react-native-calendars';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {PartyLedgerEntry, PartyLedgerRow, PartyLedgerSource} from '../models/PartyLedger';
+import TransactionService from '../services/TransactionService';
+import {formatCurrency, formatDate} from '../utils/helpers';
+import {
+  PARTY_LEDGER_SOURCE_LABELS,
+  buildPartyStatement,
+  describeBalance,
+  formatPartyStatementText,
+} from '../utils/partyLedger';
+
+const RECEIPT_SCREENS: Record<PartyLedgerSource, string> = {
+  BUY: 'BuyTransactionReceiptModal',
+  SELL: 'SellTransactionReceiptModal',
+  LEND: 'LendTransactionReceiptModal',
+};
+
+const endOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+};
+
+const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * Party Ledger Screen
+ * Statement of account (lena-dena) for one phone number across buys, sells and loans
+ */
+export const PartyLedgerScreen: React.FC<any> = ({route, navigation}) => {
+  const phoneNumber: string = route.params?.phoneNumber || '';
+  const [name, setName] = useState<string>(route.params?.name || phoneNumber);
+  const [entries, setEntries] = useState<PartyLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [fromDate, setFromDate] = useState<Date | null>(null);
+  const [toDate, setToDate] = useState(new Date());
+  const [pickerTarget, setPickerTarget] = useState<'FROM' | 'TO' | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLedger();
+    }, [phoneNumber, toDate])
+  );
+
+  const loadLedger = async () => {
+    try {
+      setLoading(true);
+      // Unpaid loan interest is worked out up to the end of the statement
+      const ledger = await TransactionService.getPartyLedger(phoneNumber, endOfDay(toDate));
+      setName(ledger.name);
+      setEntries(ledger.entries);
+    } catch (error) {
+      console.error('Error loading party ledger:', error);
+      Alert.alert('Error', 'Failed to load party ledger');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadLedger();
+  };
+
+  const statement = useMemo(
+    () => buildPartyStatement(phoneNumber, name, entries, fromDate ? startOfDay(fromDate) : null, endOfDay(toDate)),
+    [phoneNumber, name, entries, fromDate, toDate],
+  );
+
+  // Newest first on screen; running balances are computed oldest first
+  const rows = useMemo(() => [...statement.rows].reverse(), [statement]);
+
+  const handleShare = async () => {
+    try {
+      await Share.share({message: formatPartyStatementText(statement)});
+    } catch (error) {
+      console.error('Error sharing statement:', error);
+    }
+  };
+
+  const handleDayPress = (dateString: string) => {
+    const selected = new Date(dateString);
+    if (pickerTarget === 'FROM') {
+      setFromDate(selected);
+    } else if (pickerTarget === 'TO') {
+      setToDate(selected);
+    }
+    setPickerTarget(null);
+  };
+
+  const balanceStyle = (balance: number) =>
+    Math.round(balance) > 0 ? styles.receivable : Math.round(balance) < 0 ? styles.payable : null;
+
+  const renderRow = ({item}: {item: PartyLedgerRow}) => {
+    const isDebit = item.debit > 0;
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => navigation.navigate(RECEIPT_SCREENS[item.source], {transactionId: item.transactionId})}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.date}>{formatDate(item.date)}</Text>
+          <Text style={[styles.amount, isDebit ? styles.receivable : styles.payable]}>
+            {isDebit ? 'Dr ' : 'Cr '}
+            {formatCurrency(isDebit ? item.debit : item.credit)}
+          </Text>
+        </View>
+        <Text style={styles.description} numberOfLines={2}>
+          {item.description}
+        </Text>
+        <View style={styles.cardFooter}>
+          <Text style={styles.meta}>
+            {PARTY_LEDGER_SOURCE_LABELS[item.source]}
+            {item.mode ? ` • ${item.mode}` : ''}
+          </Text>
+          <Text style={[styles.runningBalance, balanceStyle(item.runningBalance)]}>
+            Bal: {describeBalance(item.runningBalance)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryName}>{statement.name}</Text>
+        <Text style={styles.summaryPhone}>{phoneNumber}</Text>
+        <Text style={styles.summaryLabel}>Net Position</Text>
+        <Text style={styles.summaryValue}>{describeBalance(statement.closingBalance)}</Text>
+        <View style={styles.summaryRow}>
+          {(Object.keys(PARTY_LEDGER_SOURCE_LABELS) as PartyLedgerSource[]).map(source => (
+            <Text key={source} style={styles.summaryDetail}>
+              {PARTY_LEDGER_SOURCE_LABELS[source]}: {describeBalance(statement.netBySource[source])}
+            </Text>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.rangeRow}>
+        <TouchableOpacity style={styles.rangeButton} onPress={() => setPickerTarget('FROM')}>
+          <Text style={styles.rangeLabel}>From</Text>
+          <Text style={styles.rangeValue}>{fromDate ? formatDate(fromDate) : 'Beginning'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.rangeButton} onPress={() => setPickerTarget('TO')}>
+          <Text style={styles.rangeLabel}>To</Text>
+          <Text style={styles.rangeValue}>{formatDate(toDate)}</Text>
+        </TouchableOpacity>
+      </View>
+      {fromDate && (
+        <TouchableOpacity onPress={() => setFromDate(null)}>
+          <Text style={styles.clearText}>Show from beginning</Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.balanceCard}>
+        <View style={styles.balanceRow}>
+          <Text style={styles.balanceLabel}>Opening Balance</Text>
+          <Text style={[styles.balanceValue, balanceStyle(statement.openingBalance)]}>
+            {describeBalance(statement.openingBalance)}
+          </Text>
+        </View>
+        <View style={styles.balanceRow}>
+          <Text style={styles.balanceLabel}>Debit / Credit</Text>
+          <Text style={styles.balanceValue}>
+            {formatCurrency(statement.totalDebit)} / {formatCurrency(statement.totalCredit)}
+          </Text>
+        </View>
+        <View style={styles.balanceRow}>
+          <Text style={styles.balanceLabel}>Closing Balance</Text>
+          <Text style={[styles.balanceValue, balanceStyle(statement.closingBalance)]}>
+            {describeBalance(statement.closingBalance)}
+          </Text>
+        </View>
+      </View>
+
+      <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+        <Text style={styles.shareButtonText}>📤 Share Statement</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>📒</Text>
+      <Text style={styles.emptyText}>No entries in this period</Text>
+      <Text style={styles.emptySubtext}>Buys, sells, loans and payments for {phoneNumber} will appear here</Text>
+    </View>
+  );
+
+  if (loading && !refreshing && entries.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const pickerDate = pickerTarget === 'FROM' ? fromDate || toDate : toDate;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={rows}
+        renderItem={renderRow}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[Colors.primary]}
+          />
+        }
+      />
+
+      <Modal
+        visible={pickerTarget !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setPickerTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.calendarModal}>
+            <View style={styles.calendarHeader}>
+              <Text style={styles.calendarTitle}>{pickerTarget === 'FROM' ? 'Statement From' : 'Statement To'}</Text>
+              <TouchableOpacity onPress={() => setPickerTarget(null)}>
+                <Text style={styles.calendarClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <Calendar
+              minDate={pickerTarget === 'TO' && fromDate ? fromDate.toISOString().split('T')[0] : undefined}
+              maxDate={pickerTarget === 'FROM' ? toDate.toISOString().split('T')[0] : undefined}
+              onDayPress={(day: any) => handleDayPress(day.dateString)}
+              markedDates={{
+                [pickerDate.toISOString().split('T')[0]]: {
+                  selected: true,
+                  selectedColor: Colors.primary,
+                },
+              }}
+              theme={{
+                backgroundColor: Colors.surface,
+                calendarBackground: Colors.surface,
+                selectedDayBackgroundColor: Colors.primary,
+                selectedDayTextColor: Colors.textLight,
+                todayTextColor: Colors.primary,
+                dayTextColor: Colors.textPrimary,
+                monthTextColor: Colors.textPrimary,
+                arrowColor: Colors.primary,
+              }}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  list: {
+    padding: Spacing.md,
+    flexGrow: 1,
+  },
+  header: {
+    marginBottom: Spacing.md,
+  },
+  summaryCard: {
+    backgroundColor: Colors.primary,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+    ...Shadow.medium,
+  },
+  summaryName: {
+    ...Typography.h3,
+    color: Colors.textLight,
+    fontWeight: 'bold',
+  },
+  summaryPhone: {
+    ...Typography.body2,
+    color: Colors.textLight,
+    opacity: 0.9,
+    marginBottom: Spacing.md,
+  },
+  summaryLabel: {
+    ...Typography.body2,
+    color: Colors.textLight,
+    marginBottom: Spacing.xs,
+  },
+  summaryValue: {
+    ...Typography.h2,
+    color: Colors.textLight,
+    fontWeight: 'bold',
+    marginBottom: Spacing.sm,
+  },
+  summaryRow: {
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  summaryDetail: {
+    ...Typography.caption,
+    color: Colors.textLight,
+    opacity: 0.9,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  rangeButton: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    alignItems: 'center',
+    ...Shadow.small,
+  },
+  rangeLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  rangeValue: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  clearText: {
+    ...Typography.caption,
+    color: Colors.primary,
+    textAlign: 'center',
+    marginTop: Spacing.xs,
+  },
+  balanceCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing.md,
+    ...Shadow.small,
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+  },
+  balanceLabel: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+  balanceValue: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  shareButton: {
+    backgroundColor: Colors.primary,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+  shareButtonText: {
+    ...Typography.body1,
+    color: Colors.textLight,
+    fontWeight: 'bold',
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+    ...Shadow.small,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  date: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+  amount: {
+    ...Typography.h4,
+    fontWeight: 'bold',
+  },
+  receivable: {
+    color: Colors.success,
+  },
+  payable: {
+    color: Colors.error,
+  },
+  description: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  meta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  runningBalance: {
+    ...Typography.caption,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.h4,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  emptySubtext: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  calendarModal: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    width: '90%',
+    overflow: 'hidden',
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  calendarTitle: {
+    ...Typography.h4,
+    color: Colors.textPrimary,
+    fontWeight: 'bold',
+  },
+  calendarClose: {
+    ...Typography.h3,
+    color: Colors.textSecondary,
+  },
+});
@@ -15,6 +15,7 @@ import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/th
 import {CustomButton} from '../components/CustomButton';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import AuthService from '../services/AuthService';
+import {describeGstinDetails, validateGstin} from '../utils/gstin';
 
 /**
  * Phone Authentication Screen
@@ -26,6 +27,7 @@ export const PhoneAuthScreen: React.FC<any> = ({navigation}) => {
   const [displayName, setDisplayName] = useState('');
   const [firmName, setFirmName] = useState('');
   const [gstin, setGstin] = useState('');
+  const gstinValidation = validateGstin(gstin);
   
   const [step, setStep] = useState<'phone' | 'otp' | 'profile'>('phone');
   const [loading, setLoading] = useState(false);
@@ -97,6 +99,13 @@ export const PhoneAuthScreen: React.FC<any> = ({navigation}) => {
       Alert.alert('Validation Error', 'Please enter your name');
       return;
     }
+    if (gstin.trim()) {
+      const {error} = validateGstin(gstin);
+      if (error) {
+        Alert.alert('Validation Error', error);
+        return;
+      }
+    }
 
     setLoading(true);
     try {
@@ -270,6 +279,11 @@ export const PhoneAuthScreen: React.FC<any> = ({navigation}) => {
           maxLength={15}
           autoCapitalize="characters"
         />
+        {gstin.trim().length === 15 && (
+          <Text style={[styles.gstinHint, !gstinValidation.valid && styles.gstinHintError]}>
+            {gstinValidation.details ? describeGstinDetails(gstinValidation.details) : gstinValidation.error}
+          </Text>
+        )}
       </View>
 
       <CustomButton
@@ -382,6 +396,14 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xs,
     fontWeight: '500',
   },
+  gstinHint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  gstinHintError: {
+    color: Colors.error,
+  },
   input: {
     backgroundColor: Colors.surface,
     borderWidth: 1,
@@ -44,13 +44,19 @@ export const SearchResultsScreen: React.FC<any> = ({ navigation, route }) => {
       }
     };
 
+    const name = item.supplierName || item.buyerName || item.personName;
+    const phone = item.supplierPhone || item.buyerPhone || item.personPhone;
+
     return (
       <TouchableOpacity style={styles.card} onPress={onPress}>
         <Text style={styles.type}>{item.type} Transaction</Text>
-        <Text style={styles.name}>{item.supplierName || item.buyerName || item.personName}</Text>
-        <Text style={styles.phone}>{item.supplierPhone || item.buyerPhone || item.personPhone}</Text>
+        <Text style={styles.name}>{name}</Text>
+        <Text style={styles.phone}>{phone}</Text>
         <Text style={styles.amount}>Amount: ₹{item.totalAmount || item.amount || 0}</Text>
         <Text style={styles.date}>Date: {formatDateTime(item.date)}</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('PartyLedger', { phoneNumber: phone, name })}>
+          <Text style={styles.ledgerLink}>📒 View Ledger ›</Text>
+        </TouchableOpacity>
       </TouchableOpacity>
     );
   };
@@ -118,6 +124,12 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     marginTop: Spacing.xs,
   },
+  ledgerLink: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: 'bold',
+    marginTop: Spacing.sm,
+  },
   noResults: {
     ...Typography.body1,
     color: Colors.textSecondary,
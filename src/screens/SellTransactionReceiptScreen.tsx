@@ -13,7 +13,40 @@ import {
 import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
 import {SellTransaction} from '../models/Transaction';
 import {Payment} from '../models/Payment';
+import {TransactionItem} from '../models/TransactionItem';
 import TransactionService from '../services/TransactionService';
+import ReceiptService from '../services/ReceiptService';
+import ThermalPrinterService from '../services/ThermalPrinterService';
+import {PaperWidth} from '../models/Receipt';
+import {buildSellReceipt} from '../utils/receipt';
+import {describeStateCode, summarizeTax} from '../utils/gst';
+
+/**
+ * "N × Wkg + Ekg" for a bill line, or '' when the line has no bag detail
+ */
+const formatBags = (item: TransactionItem): string => {
+  if (!item.numberOfBags || !item.weightPerBag) return '';
+  return `${item.numberOfBags} × ${item.weightPerBag}kg${item.extraWeight ? ` + ${item.extraWeight}kg` : ''}`;
+};
+
+/**
+ * Arat, tulak and mandi shulk totals across the bill lines
+ */
+const getBillOfSupplyCharges = (txn: SellTransaction) => {
+  const items = txn.items || [];
+  const arat = items.reduce((sum, it) => sum + (it.arat || 0), 0);
+  const tulak = items.reduce((sum, it) => sum + (it.tulak || 0), 0);
+  const mandiShulk = items.reduce((sum, it) => sum + (it.mandiShulk || 0), 0);
+  return {isBillOfSupply: arat + tulak + mandiShulk > 0, arat, tulak, mandiShulk};
+};
+
+/**
+ * GST totals of a tax invoice (all zero for other bill types)
+ */
+const getTaxInvoiceSummary = (txn: SellTransaction) => ({
+  isTaxInvoice: txn.billType === 'TAX_INVOICE',
+  ...summarizeTax(txn.items || []),
+});
 
 /**
  * Sell Transaction Receipt Screen
@@ -25,6 +58,7 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
   const [payments, setPayments] = useState<Payment[]>([]);
   const [buyerAddress, setBuyerAddress] = useState<string>('N/A');
   const [loading, setLoading] = useState(true);
+  const [printing, setPrinting] = useState(false);
   const [isPaymentModalVisible, setIsPaymentModalVisible] = useState(false);
   const [paymentType, setPaymentType] = useState<'PARTIAL' | 'FINAL'>('PARTIAL');
   const [paymentAmount, setPaymentAmount] = useState('');
@@ -69,7 +103,17 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     }
   };
 
-  const handleShare = async () => {
+  const handleShare = () => {
+    if (!transaction) return;
+
+    Alert.alert('Share Receipt', 'Choose a format', [
+      {text: 'PDF', onPress: handleSharePdf},
+      {text: 'Text', onPress: handleShareText},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handleShareText = async () => {
     if (!transaction) return;
 
     const receiptText = generateReceiptText(transaction);
@@ -82,6 +126,44 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     }
   };
 
+  const handleSharePdf = async () => {
+    if (!transaction) return;
+
+    try {
+      const firm = await ReceiptService.getFirmDetails();
+      await ReceiptService.shareReceiptPdf(buildSellReceipt(transaction, payments, firm, buyerAddress));
+    } catch (error) {
+      console.error('Error creating receipt PDF:', error);
+      Alert.alert('Error', 'Failed to create receipt PDF');
+    }
+  };
+
+  const handlePrint = () => {
+    if (!transaction) return;
+
+    Alert.alert('Print Receipt', 'Choose the paper width', [
+      {text: '58mm', onPress: () => handlePrintThermal('58mm')},
+      {text: '80mm', onPress: () => handlePrintThermal('80mm')},
+      {text: 'Cancel', style: 'cancel'},
+    ]);
+  };
+
+  const handlePrintThermal = async (paperWidth: PaperWidth) => {
+    if (!transaction) return;
+
+    try {
+      setPrinting(true);
+      const firm = await ReceiptService.getFirmDetails();
+      ThermalPrinterService.setPaperWidth(paperWidth);
+      await ThermalPrinterService.printReceipt(buildSellReceipt(transaction, payments, firm, buyerAddress), paperWidth);
+    } catch (error: any) {
+      console.error('Error printing receipt:', error);
+      Alert.alert('Print Failed', error.message || 'Failed to print receipt');
+    } finally {
+      setPrinting(false);
+    }
+  };
+
   const handleAddPayment = async () => {
     if (!transaction) return;
 
@@ -180,90 +262,48 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
       year: 'numeric',
     });
 
+    const tax = getTaxInvoiceSummary(txn);
+
     let text = `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-    text += `     SELL TRANSACTION RECEIPT\n`;
+    text += tax.isTaxInvoice ? `          TAX INVOICE\n` : `     SELL TRANSACTION RECEIPT\n`;
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+    if (tax.isTaxInvoice && txn.invoiceNumber) {
+      text += `Invoice No: ${txn.invoiceNumber}\n`;
+    }
     text += `Date: ${date}\n`;
     text += `Phone Number: ${txn.buyerPhone || 'N/A'}\n`;
     text += `Buyer Name: ${txn.buyerName}\n`;
-    text += `Address: ${buyerAddress}\n\n`;
+    text += `Address: ${buyerAddress}\n`;
+    if (tax.isTaxInvoice) {
+      text += `Buyer GSTIN: ${txn.buyerGstin || 'N/A'}\n`;
+      text += `Place of Supply: ${describeStateCode(txn.placeOfSupply)}\n`;
+    }
+    text += `\n`;
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     text += `GRAIN DETAILS\n`;
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
     
-    // Support multiple items for Bill of Supply stored as encoded JSON in description
-    if (txn.description && txn.description.startsWith('BillOfSupplyItems::')) {
-      try {
-        const payloadStr = decodeURIComponent(txn.description.replace('BillOfSupplyItems::', ''));
-        const parsed = JSON.parse(payloadStr) as any;
-        const items: Array<any> = Array.isArray(parsed) ? parsed : parsed.items || [];
-        const meta = Array.isArray(parsed) ? {} : (parsed.meta || {});
-
-        // If meta contains tulakAmount/tulakWeight or percents, show them at top
-        if (meta && (meta.tulakAmount !== undefined || meta.tulakWeight !== undefined || meta.aratPercent || meta.mandiPercent)) {
-          const tulakMetaDisplay = meta.tulakAmount !== undefined
-            ? `Tulak (₹): ${parseFloat(meta.tulakAmount).toFixed(2)}`
-            : `Tulak (Qtl): ${meta.tulakWeight || 0}`;
-          text += `Arat (%): ${meta.aratPercent || 0}  Mandi (%): ${meta.mandiPercent || 0}  ${tulakMetaDisplay}\n\n`;
-        }
-
-        items.forEach((it, idx) => {
-          text += `${idx + 1}. ${it.grainType}\n`;
-          text += `   Quantity: ${it.numberOfBags} × ${it.weightPerBag}kg => ${parseFloat(it.quantityQuintal).toFixed(2)} Quintal\n`;
-          text += `   Rate: ₹${parseFloat(it.pricePerQuintal).toFixed(2)}/qt   Amount: ₹${parseFloat(it.amount).toFixed(2)}\n`;
-          if (it.arat || it.tulak || it.mandi) {
-            text += `   Arat: ₹${(it.arat || 0).toFixed(2)}  Tulak: ₹${(it.tulak || 0).toFixed(2)}  Mandi: ₹${(it.mandi || 0).toFixed(2)}\n`;
-          }
-          text += `\n`;
-        });
-      } catch (e) {
-        console.warn('Failed to parse BillOfSupplyItems payload', e);
-        text += `${txn.grainType}\n`;
-        text += `${txn.quantity.toFixed(2)} Quintal\n\n`;
-      }
-    } else if (txn.description && txn.description.includes('@')) {
-      // Support descriptions that may omit the grain type (e.g. ": 9 bags × 50kg @ ...")
-      let grainType = txn.grainType;
-      let bags = '';
-      let weight = '';
-      let extra = '';
-      let price = txn.ratePerQuintal;
-
-      if (txn.description.startsWith('BillOfSupplyItems::')) {
-        try {
-          const payload = JSON.parse(decodeURIComponent(txn.description.slice(19)));
-          const item = payload.items[0];
-          if (item) {
-            grainType = item.grainType || grainType;
-            bags = item.numberOfBags || '';
-            weight = item.weightPerBag || '';
-            price = item.pricePerQuintal || price;
-          }
-        } catch (e) {
-          console.warn('Failed to parse Normal BOS payload for share', e);
+    const items = txn.items || [];
+    const firstItem = items[0];
+    if (firstItem && (firstItem.aratPercent || firstItem.mandiPercent)) {
+      text += `Arat (%): ${firstItem.aratPercent || 0}  Mandi (%): ${firstItem.mandiPercent || 0}\n\n`;
+    }
+    if (items.length > 0) {
+      items.forEach((it, idx) => {
+        text += `${idx + 1}. ${it.grainType || txn.grainType || 'N/A'}\n`;
+        text += `   Quantity: ${formatBags(it) || '-'} => ${it.quantity.toFixed(2)} Quintal\n`;
+        text += `   Rate: ₹${it.ratePerQuintal.toFixed(2)}/qt   Amount: ₹${it.amount.toFixed(2)}\n`;
+        if (it.arat || it.tulak || it.mandiShulk) {
+          text += `   Arat: ₹${(it.arat || 0).toFixed(2)}  Tulak: ₹${(it.tulak || 0).toFixed(2)}  Mandi: ₹${(it.mandiShulk || 0).toFixed(2)}\n`;
         }
-      } else {
-        const match = txn.description.match(/(?:([^:]+):)?\s*(\d+)\s*bags\s*(?:x|×)\s*([\d.]+)kg(?:\s*\+\s*([\d.]+)kg)?\s*@\s*₹([\d.]+)\/qt/i);
-        if (match) {
-          grainType = match[1] ? match[1].trim() : grainType;
-          bags = match[2];
-          weight = match[3];
-          extra = match[4] || '';
-          price = parseFloat(match[5]);
+        if (tax.isTaxInvoice) {
+          text += `   HSN: ${it.hsnCode || '-'}  GST: ${it.gstRate || 0}%\n`;
+          text += it.igstAmount
+            ? `   IGST: ₹${it.igstAmount.toFixed(2)}\n`
+            : `   CGST: ₹${(it.cgstAmount || 0).toFixed(2)}  SGST: ₹${(it.sgstAmount || 0).toFixed(2)}\n`;
         }
-      }
-
-      grainType = grainType || 'N/A';
-      if (bags && weight) {
-        const extraWeight = extra ? parseFloat(extra) : 0;
-        const totalWeight = ((parseFloat(bags) * parseFloat(weight) + extraWeight) / 100).toFixed(2);
-        text += `${grainType}:\n`;
-        text += `Quantity:                      ${bags} × ${weight}${extra ? ' + ' + extra : ''}\n`;
-        text += `                               ${totalWeight} Quintal × ₹${price}\n\n`;
-      } else {
-        text += `${grainType}\n`;
-        text += `${txn.quantity.toFixed(2)} Quintal\n\n`;
-      }
+        text += `\n`;
+      });
     } else {
       text += `${txn.grainType}\n`;
       text += `${txn.quantity.toFixed(2)} Quintal\n\n`;
@@ -272,26 +312,24 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     text += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     text += `Gross Amount: ₹${txn.totalAmount.toFixed(2)}\n\n`;
     
-    const totalAdditions = (txn.commissionAmount || 0) + (txn.labourCharges || 0);
+    const totalAdditions = (txn.commissionAmount || 0) + (txn.labourCharges || 0) + (txn.taxAmount || 0);
     const netReceivableAfterAdditions = txn.totalAmount + totalAdditions;
     const totalPaymentReceived = payments.reduce((sum, p) => sum + p.amount, 0);
     const initialReceived = txn.receivedAmount - totalPaymentReceived;
     
-    // Check if Bill of Supply to show detailed breakdown
-    const isBillOfSupply = txn.description?.startsWith('Bill of Supply:');
-    let arat = 0, tulak = 0, mandiShulk = 0;
-    
-    if (isBillOfSupply && txn.description) {
-      const aratMatch = txn.description.match(/Arat: ₹([\d.]+)/);
-      const tulakMatch = txn.description.match(/Tulak: ₹([\d.]+)/);
-      const mandiShulkMatch = txn.description.match(/Mandi Shulk: ₹([\d.]+)/);
-      if (aratMatch) arat = parseFloat(aratMatch[1]);
-      if (tulakMatch) tulak = parseFloat(tulakMatch[1]);
-      if (mandiShulkMatch) mandiShulk = parseFloat(mandiShulkMatch[1]);
-    }
+    // Bill of Supply lines carry arat/tulak/mandi; show them instead of commission/labour
+    const {isBillOfSupply, arat, tulak, mandiShulk} = getBillOfSupplyCharges(txn);
     
     text += `ADDITIONS:\n`;
-    if (isBillOfSupply) {
+    if (tax.isTaxInvoice) {
+      text += `  Taxable Value: ₹${tax.taxableValue.toFixed(2)}\n`;
+      if (tax.igstAmount > 0) {
+        text += `  IGST: ₹${tax.igstAmount.toFixed(2)}\n`;
+      } else {
+        text += `  CGST: ₹${tax.cgstAmount.toFixed(2)}\n`;
+        text += `  SGST: ₹${tax.sgstAmount.toFixed(2)}\n`;
+      }
+    } else if (isBillOfSupply) {
       text += `  Arat: ₹${arat.toFixed(2)}\n`;
       text += `  Tulak: ₹${tulak.toFixed(2)}\n`;
       text += `  Mandi Shulk: ₹${mandiShulk.toFixed(2)}\n`;
@@ -302,7 +340,7 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     text += `  Total Additions: ₹${totalAdditions.toFixed(2)}\n\n`;
     
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-    text += `Net Receivable: ₹${netReceivableAfterAdditions.toFixed(2)}\n`;
+    text += `${tax.isTaxInvoice ? 'Invoice Total' : 'Net Receivable'}: ₹${netReceivableAfterAdditions.toFixed(2)}\n`;
     text += `━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
     
     if (initialReceived > 0) {
@@ -359,7 +397,8 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
     year: 'numeric',
   });
 
-  const totalAdditions = (transaction.commissionAmount || 0) + (transaction.labourCharges || 0);
+  const totalAdditions =
+    (transaction.commissionAmount || 0) + (transaction.labourCharges || 0) + (transaction.taxAmount || 0);
   
   // Calculate initial received (total received minus payment settlements)
   const totalPaymentReceived = payments.reduce((sum, p) => sum + p.amount, 0);
@@ -368,25 +407,18 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
   // Calculate net receivable (after additions but before any payments)
   const netReceivableAfterAdditions = transaction.totalAmount + totalAdditions;
   
-  // Check if Bill of Supply and parse charges
-  const isBillOfSupply = transaction.description?.startsWith('Bill of Supply:');
-  let arat = 0, tulak = 0, mandiShulk = 0;
-  
-  if (isBillOfSupply && transaction.description) {
-    const aratMatch = transaction.description.match(/Arat: ₹([\d.]+)/);
-    const tulakMatch = transaction.description.match(/Tulak: ₹([\d.]+)/);
-    const mandiShulkMatch = transaction.description.match(/Mandi Shulk: ₹([\d.]+)/);
-    if (aratMatch) arat = parseFloat(aratMatch[1]);
-    if (tulakMatch) tulak = parseFloat(tulakMatch[1]);
-    if (mandiShulkMatch) mandiShulk = parseFloat(mandiShulkMatch[1]);
-  }
+  // Bill of Supply charges come from the bill lines
+  const {isBillOfSupply, arat, tulak, mandiShulk} = getBillOfSupplyCharges(transaction);
+
+  // Tax Invoice GST comes from the bill lines
+  const tax = getTaxInvoiceSummary(transaction);
 
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         {/* Receipt Header */}
         <View style={styles.receiptHeader}>
-          <Text style={styles.receiptTitle}>SELL TRANSACTION RECEIPT</Text>
+          <Text style={styles.receiptTitle}>{tax.isTaxInvoice ? 'TAX INVOICE' : 'SELL TRANSACTION RECEIPT'}</Text>
           <View style={styles.divider} />
         </View>
 
@@ -408,6 +440,22 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
             <Text style={styles.label}>Address:</Text>
             <Text style={styles.value}>{buyerAddress}</Text>
           </View>
+          {tax.isTaxInvoice && (
+            <>
+              <View style={styles.row}>
+                <Text style={styles.label}>Invoice No:</Text>
+                <Text style={styles.value}>{transaction.invoiceNumber || '-'}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.label}>Buyer GSTIN:</Text>
+                <Text style={styles.value}>{transaction.buyerGstin || 'N/A'}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.label}>Place of Supply:</Text>
+                <Text style={styles.value}>{describeStateCode(transaction.placeOfSupply)}</Text>
+              </View>
+            </>
+          )}
         </View>
 
         {/* Grain Details */}
@@ -415,120 +463,78 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           <Text style={styles.sectionTitle}>Grain Details</Text>
           <View style={styles.divider} />
           
-          {transaction.description && transaction.description.startsWith('BillOfSupplyItems::') ? (
-            (() => {
-              try {
-                const payload = decodeURIComponent(transaction.description.replace('BillOfSupplyItems::', ''));
-                const parsed = JSON.parse(payload) as any;
-                const items = Array.isArray(parsed) ? parsed : parsed.items || [];
-                const meta = Array.isArray(parsed) ? {} : (parsed.meta || {});
-                return (
-                  <View>
-                    {items.map((it: any, idx: number) => (
-                      <View key={`${transaction.id}-item-${idx}`} style={styles.grainItem}>
-                        <Text style={styles.grainLabel}>{idx + 1}. {it.grainType}</Text>
-                        <View style={styles.row}>
-                          <Text style={styles.label}>Bags:</Text>
-                          <Text style={styles.value}>{it.numberOfBags} × {it.weightPerBag}kg</Text>
-                        </View>
-                        <View style={styles.row}>
-                          <Text style={styles.label}>Quantity (Qtl):</Text>
-                          <Text style={styles.value}>{parseFloat(it.quantityQuintal).toFixed(2)}</Text>
-                        </View>
-                        <View style={styles.row}>
-                          <Text style={styles.label}>Rate/Qt:</Text>
-                          <Text style={styles.value}>₹{parseFloat(it.pricePerQuintal).toFixed(2)}</Text>
-                        </View>
-                        <View style={styles.row}>
-                          <Text style={styles.label}>Amount:</Text>
-                          <Text style={styles.value}>₹{parseFloat(it.amount).toFixed(2)}</Text>
-                        </View>
-                        {/* Per-item additions if present */}
-                        {(it.arat || it.tulak || it.mandi) && (
-                          <View style={{marginTop: Spacing.xs}}>
-                            <View style={styles.row}>
-                              <Text style={styles.label}>Arat:</Text>
-                              <Text style={styles.value}>₹{(it.arat || 0).toFixed(2)}</Text>
-                            </View>
-                            <View style={styles.row}>
-                              <Text style={styles.label}>Tulak:</Text>
-                              <Text style={styles.value}>₹{(it.tulak || 0).toFixed(2)}</Text>
-                            </View>
-                            <View style={styles.row}>
-                              <Text style={styles.label}>Mandi:</Text>
-                              <Text style={styles.value}>₹{(it.mandi || 0).toFixed(2)}</Text>
-                            </View>
-                          </View>
-                        )}
-                      </View>
-                    ))}
-                  </View>
-                );
-              } catch (e) {
-                console.warn('Failed to parse BillOfSupplyItems payload', e);
-                return (
-                  <View style={styles.grainItem}>
-                    <Text style={styles.grainLabel}>{transaction.grainType}</Text>
-                    <Text style={styles.grainDetail}>{transaction.quantity.toFixed(2)} Quintal</Text>
+          {transaction.items && transaction.items.length > 0 ? (
+            <View>
+              {transaction.items.map((it, idx) => (
+                <View key={it.id} style={styles.grainItem}>
+                  <Text style={styles.grainLabel}>{idx + 1}. {it.grainType || transaction.grainType || 'N/A'}</Text>
+                  <View style={styles.row}>
+                    <Text style={styles.label}>Bags:</Text>
+                    <Text style={styles.value}>{formatBags(it) || '-'}</Text>
                   </View>
-                );
-              }
-            })()
-          ) : (
-            // Render Normal transaction as a single-item Bill of Supply style entry
-            (() => {
-                let grainType = transaction.grainType;
-                let numberOfBags = '';
-                let weightPerBag = '';
-                let extraWeight = '';
-                let pricePerQt = transaction.ratePerQuintal;
-
-                if (transaction.description?.startsWith('BillOfSupplyItems::')) {
-                  try {
-                    const payload = JSON.parse(decodeURIComponent(transaction.description.slice(19)));
-                    const item = payload.items[0];
-                    if (item) {
-                      grainType = item.grainType || grainType;
-                      numberOfBags = item.numberOfBags || '';
-                      weightPerBag = item.weightPerBag || '';
-                      pricePerQt = item.pricePerQuintal || pricePerQt;
-                    }
-                  } catch (e) {
-                    console.warn('Failed to parse Normal BOS payload', e);
-                  }
-                } else {
-                  // Try to parse detailed bags info from description. Allow optional grain type (some records start with ": 9 bags...")
-                  const match = transaction.description?.match(/(?:([^:]+):)?\s*(\d+)\s*bags\s*(?:x|×)\s*([\d.]+)kg(?:\s*\+\s*([\d.]+)kg)?\s*@\s*₹([\d.]+)\/qt/i);
-                  if (match) {
-                    grainType = match[1] ? match[1].trim() : grainType;
-                    numberOfBags = match[2];
-                    weightPerBag = match[3];
-                    extraWeight = match[4] || '';
-                    pricePerQt = parseFloat(match[5]);
-                  }
-                }
-
-                grainType = grainType || 'N/A';
-                const bagsDisplay = numberOfBags && weightPerBag ? `${numberOfBags} × ${weightPerBag}kg${extraWeight ? ' + ' + extraWeight + 'kg' : ''}` : '';
-                const totalQtl = Number(transaction.quantity).toFixed(2);
-
-              return (
-                <View style={styles.grainItem}>
                   <View style={styles.row}>
-                    <Text style={styles.label}>Grain Type:</Text>
-                    <Text style={styles.value}>{grainType}</Text>
+                    <Text style={styles.label}>Quantity (Qtl):</Text>
+                    <Text style={styles.value}>{it.quantity.toFixed(2)}</Text>
                   </View>
                   <View style={styles.row}>
-                    <Text style={styles.label}>Bags:</Text>
-                    <Text style={styles.value}>{bagsDisplay || '-'}</Text>
+                    <Text style={styles.label}>Rate/Qt:</Text>
+                    <Text style={styles.value}>₹{it.ratePerQuintal.toFixed(2)}</Text>
                   </View>
                   <View style={styles.row}>
-                    <Text style={styles.label}>Weight:</Text>
-                    <Text style={styles.value}>{totalQtl} Qtl</Text>
+                    <Text style={styles.label}>Amount:</Text>
+                    <Text style={styles.value}>₹{it.amount.toFixed(2)}</Text>
                   </View>
+                  {/* Per-item additions if present */}
+                  {!!(it.arat || it.tulak || it.mandiShulk) && (
+                    <View style={{marginTop: Spacing.xs}}>
+                      <View style={styles.row}>
+                        <Text style={styles.label}>Arat:</Text>
+                        <Text style={styles.value}>₹{(it.arat || 0).toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.row}>
+                        <Text style={styles.label}>Tulak:</Text>
+                        <Text style={styles.value}>₹{(it.tulak || 0).toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.row}>
+                        <Text style={styles.label}>Mandi:</Text>
+                        <Text style={styles.value}>₹{(it.mandiShulk || 0).toFixed(2)}</Text>
+                      </View>
+                    </View>
+                  )}
+                  {/* Per-item GST on a tax invoice */}
+                  {tax.isTaxInvoice && (
+                    <View style={{marginTop: Spacing.xs}}>
+                      <View style={styles.row}>
+                        <Text style={styles.label}>HSN / GST:</Text>
+                        <Text style={styles.value}>{it.hsnCode || '-'} / {it.gstRate || 0}%</Text>
+                      </View>
+                      {it.igstAmount ? (
+                        <View style={styles.row}>
+                          <Text style={styles.label}>IGST:</Text>
+                          <Text style={styles.value}>₹{it.igstAmount.toFixed(2)}</Text>
+                        </View>
+                      ) : (
+                        <>
+                          <View style={styles.row}>
+                            <Text style={styles.label}>CGST:</Text>
+                            <Text style={styles.value}>₹{(it.cgstAmount || 0).toFixed(2)}</Text>
+                          </View>
+                          <View style={styles.row}>
+                            <Text style={styles.label}>SGST:</Text>
+                            <Text style={styles.value}>₹{(it.sgstAmount || 0).toFixed(2)}</Text>
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  )}
                 </View>
-              );
-            })()
+              ))}
+            </View>
+          ) : (
+            <View style={styles.grainItem}>
+              <Text style={styles.grainLabel}>{transaction.grainType || 'N/A'}</Text>
+              <Text style={styles.grainDetail}>{transaction.quantity.toFixed(2)} Quintal</Text>
+            </View>
           )}
         </View>
 
@@ -541,8 +547,27 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
 
           <View style={styles.divider} />
 
-          <Text style={styles.additionsTitle}>Additions:</Text>
-          {isBillOfSupply ? (
+          <Text style={styles.additionsTitle}>{tax.isTaxInvoice ? 'Tax:' : 'Additions:'}</Text>
+          {tax.isTaxInvoice ? (
+            // Tax Invoice GST breakup
+            tax.igstAmount > 0 ? (
+              <View style={styles.additionRow}>
+                <Text style={styles.additionLabel}>IGST</Text>
+                <Text style={styles.additionValue}>₹{tax.igstAmount.toFixed(2)}</Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.additionRow}>
+                  <Text style={styles.additionLabel}>CGST</Text>
+                  <Text style={styles.additionValue}>₹{tax.cgstAmount.toFixed(2)}</Text>
+                </View>
+                <View style={styles.additionRow}>
+                  <Text style={styles.additionLabel}>SGST</Text>
+                  <Text style={styles.additionValue}>₹{tax.sgstAmount.toFixed(2)}</Text>
+                </View>
+              </>
+            )
+          ) : isBillOfSupply ? (
             // Bill of Supply charges breakdown
             <>
               <View style={styles.additionRow}>
@@ -572,14 +597,14 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
             </>
           )}
           <View style={[styles.additionRow, styles.totalAddition]}>
-            <Text style={styles.additionLabelBold}>Total Additions</Text>
+            <Text style={styles.additionLabelBold}>{tax.isTaxInvoice ? 'Total Tax' : 'Total Additions'}</Text>
             <Text style={styles.additionValueBold}>₹{totalAdditions.toFixed(2)}</Text>
           </View>
 
           <View style={styles.divider} />
           
           <View style={styles.netReceivableRow}>
-            <Text style={styles.netReceivableLabel}>Net Receivable</Text>
+            <Text style={styles.netReceivableLabel}>{tax.isTaxInvoice ? 'Invoice Total' : 'Net Receivable'}</Text>
             <Text style={styles.netReceivableValue}>₹{netReceivableAfterAdditions.toFixed(2)}</Text>
           </View>
 
@@ -674,6 +699,9 @@ export const SellTransactionReceiptScreen: React.FC<any> = ({route, navigation})
           <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
             <Text style={styles.shareButtonText}>📤 Share Receipt</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.printButton} onPress={handlePrint} disabled={printing}>
+            <Text style={styles.printButtonText}>{printing ? 'Printing...' : '🖨️ Print Receipt'}</Text>
+          </TouchableOpacity>
           <TouchableOpacity style={styles.editButton} onPress={handleEdit}>
             <Text style={styles.editButtonText}>✏️ Edit Transaction</Text>
           </TouchableOpacity>
@@ -1109,6 +1137,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: Spacing.sm,
   },
+  printButton: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    alignItems: 'center',
+    marginBottom: Spacing.sm,
+  },
+  printButtonText: {
+    ...Typography.button,
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
   shareButtonText: {
     ...Typography.button,
     color: Colors.textLight,
@@ -9,12 +9,23 @@ import {
   ActivityIndicator,
   RefreshControl,
   Modal,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import {Calendar} from 'react-native-calendars';
 import {useFocusEffect} from '@react-navigation/native';
 import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
 import {SellTransaction, PaymentStatus} from '../models/Transaction';
 import TransactionService from '../services/TransactionService';
+import ExportService from '../services/ExportService';
+import {CustomButton} from '../components/CustomButton';
+import {Gstr1Export} from '../models/Gstr1';
+import {SpreadsheetFormat} from '../models/Spreadsheet';
+import {buildSellSheet} from '../utils/transactionSheets';
+import {spreadsheetFileName} from '../utils/spreadsheet';
+import {formatCurrency} from '../utils/helpers';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
 type TabType = 'UNSETTLED' | 'SETTLED';
 
@@ -31,6 +42,15 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
   const [selectedTab, setSelectedTab] = useState<TabType>('UNSETTLED');
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [showCalendar, setShowCalendar] = useState(false);
+  const [showGstr1, setShowGstr1] = useState(false);
+  const [gstr1Month, setGstr1Month] = useState(() => {
+    // Returns are filed for the month just ended
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  });
+  const [gstr1Export, setGstr1Export] = useState<Gstr1Export | null>(null);
+  const [gstr1Loading, setGstr1Loading] = useState(false);
+  const [gstr1Sharing, setGstr1Sharing] = useState(false);
 
   // Get search phone from navigation params (if coming from Dashboard search)
   const searchPhone = route.params?.searchPhone;
@@ -96,6 +116,85 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
     setFilteredTransactions(filtered);
   };
 
+  useEffect(() => {
+    if (showGstr1) {
+      loadGstr1Export(gstr1Month);
+    }
+  }, [showGstr1, gstr1Month]);
+
+  const loadGstr1Export = async (month: Date) => {
+    try {
+      setGstr1Loading(true);
+      setGstr1Export(await TransactionService.getGstr1Export(month.getFullYear(), month.getMonth() + 1));
+    } catch (error) {
+      console.error('Error building GSTR-1:', error);
+      Alert.alert('Error', 'Failed to prepare GSTR-1');
+    } finally {
+      setGstr1Loading(false);
+    }
+  };
+
+  const changeGstr1Month = (delta: number) => {
+    setGstr1Month(current => new Date(current.getFullYear(), current.getMonth() + delta, 1));
+  };
+
+  const shareGstr1 = async (report: Gstr1Export) => {
+    try {
+      setGstr1Sharing(true);
+      await ExportService.shareTextFile(
+        JSON.stringify(report.data, null, 2),
+        `GSTR1_${report.period}.json`,
+        'application/json',
+        `GSTR-1 ${report.period}`,
+      );
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share GSTR-1 file');
+    } finally {
+      setGstr1Sharing(false);
+    }
+  };
+
+  const handleShareGstr1 = () => {
+    if (!gstr1Export) return;
+    if (gstr1Export.errors.length > 0) {
+      Alert.alert(
+        'Bills Left Out',
+        `${gstr1Export.errors.length} problem(s) found. Bills with errors are not included in the file. Share anyway?`,
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: 'Share', onPress: () => shareGstr1(gstr1Export)},
+        ],
+      );
+      return;
+    }
+    shareGstr1(gstr1Export);
+  };
+
+  const handleExport = () => {
+    if (filteredTransactions.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no transactions in this list');
+      return;
+    }
+    const exportAs = async (format: SpreadsheetFormat) => {
+      try {
+        await ExportService.shareSpreadsheet([buildSellSheet(filteredTransactions)], spreadsheetFileName(selectedTab === 'SETTLED' ? 'Sell_Settled' : 'Sell_Unsettled'), format);
+      } catch (error) {
+        console.error('Error exporting transactions:', error);
+        Alert.alert('Error', 'Failed to export transactions');
+      }
+    };
+    Alert.alert('Export', `${filteredTransactions.length} transactions as shown in the list`, [
+      {text: 'Cancel', style: 'cancel'},
+      {text: 'CSV', onPress: () => exportAs('CSV')},
+      {text: 'Excel', onPress: () => exportAs('XLSX')},
+    ]);
+  };
+
+  const openErrorBill = (transactionId: string) => {
+    setShowGstr1(false);
+    navigation.navigate('SellTransactionReceipt', {transactionId});
+  };
+
   const getStatusColor = (status: PaymentStatus) => {
     switch (status) {
       case PaymentStatus.COMPLETED:
@@ -142,39 +241,11 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
         </View>
         <View style={styles.headerRight}>
           {(() => {
-            // Determine badge label for transactions
-            const desc = item.description || '';
-            if (desc.startsWith('BillOfSupplyItems::')) {
-              try {
-                const payload = JSON.parse(decodeURIComponent(desc.replace('BillOfSupplyItems::', '')));
-                const items = Array.isArray(payload) ? payload : (payload.items || []);
-                const meta = Array.isArray(payload) ? {} : (payload.meta || {});
-                const isNormal = !!meta.normal;
-                const showBos = !isNormal; // Show BOS if not marked as normal
-                return (
-                  <View style={[styles.typeBadge, showBos ? styles.bosBadge : styles.normalBadge]}>
-                    <Text style={styles.typeBadgeText}>{showBos ? 'Bill of Supply' : 'Normal'}</Text>
-                  </View>
-                );
-              } catch (e) {
-                // Fallback when payload parsing fails - assume BOS for encoded format
-                return (
-                  <View style={[styles.typeBadge, styles.bosBadge]}>
-                    <Text style={styles.typeBadgeText}>Bill of Supply</Text>
-                  </View>
-                );
-              }
-            } else if (desc.startsWith('Bill of Supply:')) {
-              // Traditional Bill of Supply format
-              return (
-                <View style={[styles.typeBadge, styles.bosBadge]}>
-                  <Text style={styles.typeBadgeText}>Bill of Supply</Text>
-                </View>
-              );
-            }
+            // Bill of Supply lines carry arat/tulak/mandi additions
+            const showBos = (item.items || []).some(it => !!(it.arat || it.tulak || it.mandiShulk));
             return (
-              <View style={[styles.typeBadge, styles.normalBadge]}>
-                <Text style={styles.typeBadgeText}>Normal</Text>
+              <View style={[styles.typeBadge, showBos ? styles.bosBadge : styles.normalBadge]}>
+                <Text style={styles.typeBadgeText}>{showBos ? 'Bill of Supply' : 'Normal'}</Text>
               </View>
             );
           })()}
@@ -190,28 +261,25 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
           <Text style={styles.detailValue}>{item.grainType}</Text>
         </View>
         {(() => {
-          // Try to parse quantity breakdown from description
-          if (item.description && item.description.includes('@')) {
-            const match = item.description.match(/:(\s*\d+)\s*bags\s*×\s*([\d.]+)kg(?:\s*\+\s*([\d.]+)kg)?/);
-            if (match) {
-              const [, bags, weight, extra] = match;
-              return (
-                <>
-                  <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}>Quantity:</Text>
-                    <Text style={styles.detailValue}>
-                      {bags.trim()} × {weight}{extra ? ' + ' + extra : ''}
-                    </Text>
-                  </View>
-                  <View style={styles.detailRow}>
-                    <Text style={styles.detailLabel}></Text>
-                    <Text style={styles.detailValue}>
-                      {item.quantity.toFixed(2)} Qtl × ₹{item.ratePerQuintal.toFixed(2)}
-                    </Text>
-                  </View>
-                </>
-              );
-            }
+          // Show the bag breakdown for single-line bills
+          const line = item.items && item.items.length === 1 ? item.items[0] : null;
+          if (line && line.numberOfBags && line.weightPerBag) {
+            return (
+              <>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Quantity:</Text>
+                  <Text style={styles.detailValue}>
+                    {line.numberOfBags} × {line.weightPerBag}{line.extraWeight ? ' + ' + line.extraWeight : ''}
+                  </Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}></Text>
+                  <Text style={styles.detailValue}>
+                    {item.quantity.toFixed(2)} Qtl × ₹{item.ratePerQuintal.toFixed(2)}
+                  </Text>
+                </View>
+              </>
+            );
           }
           // Fallback to simple quantity display
           return (
@@ -232,7 +300,7 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
       <View style={styles.transactionFooter}>
         <View style={styles.amountSection}>
           <Text style={styles.amountLabel}>Net Receivable</Text>
-          <Text style={styles.amountValue}>₹{(item.totalAmount + (item.commissionAmount || 0) + (item.labourCharges || 0)).toFixed(2)}</Text>
+          <Text style={styles.amountValue}>₹{(item.totalAmount + (item.commissionAmount || 0) + (item.labourCharges || 0) + (item.taxAmount || 0)).toFixed(2)}</Text>
         </View>
         <View style={styles.amountSection}>
           <Text style={styles.amountLabel}>Received</Text>
@@ -298,8 +366,106 @@ export const SellTransactionsListScreen: React.FC<any> = ({navigation, route}) =
             <Text style={styles.dateButtonText}>✕</Text>
           </TouchableOpacity>
         )}
+        <TouchableOpacity style={styles.dateButton} onPress={() => setShowGstr1(true)}>
+          <Text style={styles.dateButtonText}>GSTR-1</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.dateButton} onPress={handleExport}>
+          <Text style={styles.dateButtonText}>📤</Text>
+        </TouchableOpacity>
       </View>
 
+      {/* GSTR-1 Export Modal */}
+      <Modal
+        visible={showGstr1}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowGstr1(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.calendarModal, styles.gstr1Modal]}>
+            <View style={styles.calendarHeader}>
+              <Text style={styles.calendarTitle}>GSTR-1 Export</Text>
+              <TouchableOpacity onPress={() => setShowGstr1(false)}>
+                <Text style={styles.calendarClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.monthSelector}>
+              <TouchableOpacity onPress={() => changeGstr1Month(-1)}>
+                <Text style={styles.monthArrow}>‹</Text>
+              </TouchableOpacity>
+              <Text style={styles.monthLabel}>
+                {MONTH_NAMES[gstr1Month.getMonth()]} {gstr1Month.getFullYear()}
+              </Text>
+              <TouchableOpacity onPress={() => changeGstr1Month(1)}>
+                <Text style={styles.monthArrow}>›</Text>
+              </TouchableOpacity>
+            </View>
+
+            {gstr1Loading || !gstr1Export ? (
+              <ActivityIndicator size="large" color={Colors.primary} style={styles.gstr1Loader} />
+            ) : (
+              <>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>B2B invoices</Text>
+                  <Text style={styles.detailValue}>
+                    {gstr1Export.summary.b2bInvoices} ({gstr1Export.data.b2b.length} buyer{gstr1Export.data.b2b.length !== 1 ? 's' : ''})
+                  </Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>B2C invoices</Text>
+                  <Text style={styles.detailValue}>{gstr1Export.summary.b2cInvoices}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Exempt bills</Text>
+                  <Text style={styles.detailValue}>{gstr1Export.summary.exemptInvoices}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>HSN rows</Text>
+                  <Text style={styles.detailValue}>{gstr1Export.data.hsn.data.length}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Taxable value</Text>
+                  <Text style={styles.detailValue}>{formatCurrency(gstr1Export.summary.taxableValue)}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Total tax</Text>
+                  <Text style={styles.detailValue}>₹{gstr1Export.summary.totalTax.toFixed(2)}</Text>
+                </View>
+
+                {gstr1Export.errors.length > 0 && (
+                  <>
+                    <Text style={styles.gstr1ErrorTitle}>⚠️ {gstr1Export.errors.length} problem(s) to fix</Text>
+                    <ScrollView style={styles.gstr1ErrorList}>
+                      {gstr1Export.errors.map((error, idx) => (
+                        <TouchableOpacity
+                          key={`${error.transactionId || 'firm'}-${idx}`}
+                          disabled={!error.transactionId}
+                          onPress={() => error.transactionId && openErrorBill(error.transactionId)}
+                          style={styles.gstr1ErrorRow}>
+                          {error.transactionId && (
+                            <Text style={styles.gstr1ErrorBill}>
+                              #{error.invoiceNumber} · {error.buyerName}
+                            </Text>
+                          )}
+                          <Text style={styles.gstr1ErrorText}>{error.message}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  </>
+                )}
+
+                <CustomButton
+                  title="📤 Share GSTR-1 JSON"
+                  onPress={handleShareGstr1}
+                  loading={gstr1Sharing}
+                  style={styles.gstr1ShareButton}
+                />
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
       {/* Calendar Modal */}
       <Modal
         visible={showCalendar}
@@ -489,6 +655,55 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     paddingHorizontal: Spacing.sm,
   },
+  gstr1Modal: {
+    maxHeight: '85%',
+  },
+  monthSelector: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  monthArrow: {
+    ...Typography.h2,
+    color: Colors.primary,
+    paddingHorizontal: Spacing.md,
+  },
+  monthLabel: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  gstr1Loader: {
+    marginVertical: Spacing.lg,
+  },
+  gstr1ErrorTitle: {
+    ...Typography.body2,
+    color: Colors.error,
+    fontWeight: '600',
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  gstr1ErrorList: {
+    maxHeight: 200,
+  },
+  gstr1ErrorRow: {
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  gstr1ErrorBill: {
+    ...Typography.caption,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  gstr1ErrorText: {
+    ...Typography.caption,
+    color: Colors.error,
+  },
+  gstr1ShareButton: {
+    marginTop: Spacing.md,
+  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: Colors.surface,
@@ -1,4 +1,4 @@
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useCallback} from 'react';
 import {
   View,
   Text,
@@ -7,13 +7,28 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  Modal,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {Calendar} from 'react-native-calendars';
+import {useFocusEffect} from '@react-navigation/native';
 import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
 import {CustomButton} from '../components/CustomButton';
 import AuthService from '../services/AuthService';
 import CloudBackupService from '../services/CloudBackupService';
-import {formatDateTime} from '../utils/helpers';
+import TransactionService from '../services/TransactionService';
+import ExportService from '../services/ExportService';
+import {formatDate, formatDateTime} from '../utils/helpers';
+
+// Financial year runs April to March
+const startOfFinancialYear = (date: Date): Date =>
+  new Date(date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1, 3, 1);
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const toCalendarDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
 /**
  * Settings Screen
@@ -24,12 +39,23 @@ export const SettingsScreen: React.FC<any> = ({navigation}) => {
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [exportFrom, setExportFrom] = useState(() => startOfFinancialYear(new Date()));
+  const [exportTo, setExportTo] = useState(new Date());
+  const [pickerTarget, setPickerTarget] = useState<'FROM' | 'TO' | null>(null);
+  const [exportingTally, setExportingTally] = useState(false);
+  const [conflictCount, setConflictCount] = useState(0);
 
   useEffect(() => {
     loadUserData();
     loadLastSyncTime();
   }, []);
 
+  useFocusEffect(
+    useCallback(() => {
+      loadConflictCount();
+    }, [])
+  );
+
   const loadUserData = async () => {
     try {
       const currentUser = await AuthService.getCurrentUser();
@@ -50,6 +76,14 @@ export const SettingsScreen: React.FC<any> = ({navigation}) => {
     }
   };
 
+  const loadConflictCount = async () => {
+    try {
+      setConflictCount(await CloudBackupService.getOpenConflictCount());
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+    }
+  };
+
   const handleBackup = async () => {
     if (!user) {
       Alert.alert('Error', 'You must be signed in to backup data');
@@ -109,6 +143,7 @@ export const SettingsScreen: React.FC<any> = ({navigation}) => {
     try {
       await CloudBackupService.syncData();
       await loadLastSyncTime();
+      await loadConflictCount();
       Alert.alert('Success', 'Data synchronized successfully!');
     } catch (error: any) {
       Alert.alert('Sync Failed', error.message);
@@ -117,6 +152,48 @@ export const SettingsScreen: React.FC<any> = ({navigation}) => {
     }
   };
 
+  const handleDayPress = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const picked = new Date(year, month - 1, day);
+    if (pickerTarget === 'FROM') {
+      setExportFrom(picked);
+    } else {
+      setExportTo(picked);
+    }
+    setPickerTarget(null);
+  };
+
+  const handleTallyExport = async () => {
+    setExportingTally(true);
+    try {
+      const to = new Date(exportTo);
+      to.setHours(23, 59, 59, 999);
+      const tally = await TransactionService.getTallyExport(exportFrom, to);
+      if (tally.vouchers.length === 0) {
+        Alert.alert('Nothing to Export', 'There are no entries in this period');
+        return;
+      }
+
+      await ExportService.shareTextFile(
+        tally.xml,
+        `Tally_${toDateKey(exportFrom)}_${toDateKey(exportTo)}.xml`,
+        'application/xml',
+        'Tally Vouchers',
+      );
+      if (tally.skipped.length > 0) {
+        Alert.alert(
+          'Some Entries Skipped',
+          `${tally.vouchers.length} vouchers exported. Not exported:\n\n${tally.skipped.join('\n')}`,
+        );
+      }
+    } catch (error: any) {
+      console.error('Error exporting to Tally:', error);
+      Alert.alert('Export Failed', error.message || 'Failed to export Tally XML');
+    } finally {
+      setExportingTally(false);
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert('Logout', 'Are you sure you want to logout?', [
       {text: 'Cancel', style: 'cancel'},
@@ -215,14 +292,156 @@ export const SettingsScreen: React.FC<any> = ({navigation}) => {
             style={styles.button}
           />
 
+          {conflictCount > 0 && (
+            <CustomButton
+              title={`Review Sync Conflicts (${conflictCount})`}
+              onPress={() => navigation.navigate('SyncConflicts')}
+              variant="danger"
+              style={styles.button}
+            />
+          )}
+
+          <CustomButton
+            title="Sync Diagnostics"
+            onPress={() => navigation.navigate('SyncDiagnostics')}
+            variant="outline"
+            style={styles.button}
+          />
+
           <Text style={styles.helpText}>
             ✓ Instant Sync Enabled: All transactions automatically backup to
             cloud. Use "Sync Now" to ensure everything is up-to-date. "Restore"
-            downloads cloud data to this device.
+            downloads cloud data to this device. Edits made on two devices are
+            merged; amounts changed on both need your review.
+          </Text>
+        </View>
+      </View>
+
+      {/* Grains Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Grains</Text>
+        <View style={styles.card}>
+          <CustomButton
+            title="Grain Master"
+            onPress={() => navigation.navigate('Grains')}
+            variant="outline"
+            style={styles.button}
+          />
+          <Text style={styles.helpText}>
+            Grain names with their local names, variety, HSN code and bag weight. Stock and reports group entries by grain.
+          </Text>
+        </View>
+      </View>
+
+      {/* Stock Locations Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Stock Locations</Text>
+        <View style={styles.card}>
+          <CustomButton
+            title="Locations & Transfers"
+            onPress={() => navigation.navigate('StockLocations')}
+            variant="outline"
+            style={styles.button}
+          />
+          <Text style={styles.helpText}>
+            Add godowns and yards, see the stock held at each, and record grain moved between them.
+          </Text>
+          <CustomButton
+            title="Stock Reconciliation"
+            onPress={() => navigation.navigate('StockReconciliation')}
+            variant="outline"
+            style={styles.button}
+          />
+          <Text style={styles.helpText}>
+            Compare book stock with a physical count and record shrinkage, moisture loss and damage.
+          </Text>
+        </View>
+      </View>
+
+      {/* Offline Backup Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Offline Backup</Text>
+        <View style={styles.card}>
+          <CustomButton
+            title="Backup / Restore File"
+            onPress={() => navigation.navigate('LocalBackup')}
+            variant="outline"
+            style={styles.button}
+          />
+          <Text style={styles.helpText}>
+            Save all data to a passphrase-protected file, or restore from one. No sign-in or internet needed.
           </Text>
         </View>
       </View>
 
+      {/* Accounting Export Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Accounting Export</Text>
+        <View style={styles.card}>
+          <View style={styles.rangeRow}>
+            <TouchableOpacity style={styles.rangeButton} onPress={() => setPickerTarget('FROM')}>
+              <Text style={styles.syncLabel}>From</Text>
+              <Text style={styles.syncValue}>{formatDate(exportFrom)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.rangeButton} onPress={() => setPickerTarget('TO')}>
+              <Text style={styles.syncLabel}>To</Text>
+              <Text style={styles.syncValue}>{formatDate(exportTo)}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <CustomButton
+            title="Export to Tally (XML)"
+            onPress={handleTallyExport}
+            loading={exportingTally}
+            disabled={exportingTally}
+            style={styles.button}
+          />
+
+          <Text style={styles.helpText}>
+            Purchases, sales, loans, payments and expenses in this period as Tally vouchers.
+            Import the file in Tally from Gateway of Tally → Import → Transactions.
+          </Text>
+        </View>
+      </View>
+
+      <Modal
+        visible={pickerTarget !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setPickerTarget(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.calendarModal}>
+            <View style={styles.calendarHeader}>
+              <Text style={styles.calendarTitle}>{pickerTarget === 'FROM' ? 'Export From' : 'Export To'}</Text>
+              <TouchableOpacity onPress={() => setPickerTarget(null)}>
+                <Text style={styles.calendarClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <Calendar
+              minDate={pickerTarget === 'TO' ? toCalendarDate(exportFrom) : undefined}
+              maxDate={pickerTarget === 'FROM' ? toCalendarDate(exportTo) : undefined}
+              onDayPress={(day: any) => handleDayPress(day.dateString)}
+              markedDates={{
+                [toCalendarDate(pickerTarget === 'FROM' ? exportFrom : exportTo)]: {
+                  selected: true,
+                  selectedColor: Colors.primary,
+                },
+              }}
+              theme={{
+                backgroundColor: Colors.surface,
+                calendarBackground: Colors.surface,
+                selectedDayBackgroundColor: Colors.primary,
+                selectedDayTextColor: Colors.textLight,
+                todayTextColor: Colors.primary,
+                dayTextColor: Colors.textPrimary,
+                monthTextColor: Colors.textPrimary,
+                arrowColor: Colors.primary,
+              }}
+            />
+          </View>
+        </View>
+      </Modal>
+
       {/* App Info Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>About</Text>
@@ -333,6 +552,46 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 18,
   },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  rangeButton: {
+    flex: 1,
+    padding: Spacing.sm,
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  calendarModal: {
+    backgroundColor: Colors.surface,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.md,
+    width: '90%',
+    maxWidth: 400,
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.md,
+  },
+  calendarTitle: {
+    ...Typography.h3,
+    color: Colors.textPrimary,
+  },
+  calendarClose: {
+    ...Typography.h3,
+    color: Colors.textSecondary,
+    paddingHorizontal: Spacing.sm,
+  },
   logoutButton: {
     marginTop: Spacing.md,
     marginBottom: Spacing.xl,
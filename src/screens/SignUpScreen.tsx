@@ -12,6 +12,7 @@ import {CustomInput} from '../components/CustomInput';
 import {CustomButton} from '../components/CustomButton';
 import {Colors, Typography, Spacing, BorderRadius} from '../constants/theme';
 import AuthService from '../services/AuthService';
+import {decodeGstin, describeGstinDetails, validateGstin} from '../utils/gstin';
 
 /**
  * Sign Up Screen
@@ -29,6 +30,7 @@ export const SignUpScreen: React.FC<any> = ({navigation}) => {
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
+  const gstinDetails = decodeGstin(formData.gstin);
 
   const updateField = (field: string, value: string) => {
     setFormData(prev => ({...prev, [field]: value}));
@@ -37,13 +39,6 @@ export const SignUpScreen: React.FC<any> = ({navigation}) => {
     }
   };
 
-  const validateGSTIN = (gstin: string): boolean => {
-    // GSTIN format: 2 digits (state code) + 10 alphanumeric (PAN) + 1 digit (entity number) + 1 letter (Z) + 1 alphanumeric (checksum)
-    // Example: 27AAPFU0939F1ZV
-    const gstinRegex = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
-    return gstinRegex.test(gstin.toUpperCase());
-  };
-
   const validateEmail = (email: string): boolean => {
     // Comprehensive email validation
     const emailRegex = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
@@ -67,11 +62,14 @@ export const SignUpScreen: React.FC<any> = ({navigation}) => {
       newErrors.firmName = 'Firm Name must be at least 2 characters';
     }
 
-    // GSTIN validation
+    // GSTIN validation: format, state code, embedded PAN and check digit
     if (!formData.gstin.trim()) {
       newErrors.gstin = 'GSTIN Number is required';
-    } else if (!validateGSTIN(formData.gstin)) {
-      newErrors.gstin = 'Invalid GSTIN format (e.g., 27AAPFU0939F1ZV)';
+    } else {
+      const {error} = validateGstin(formData.gstin);
+      if (error) {
+        newErrors.gstin = error;
+      }
     }
 
     // Email validation
@@ -175,6 +173,7 @@ export const SignUpScreen: React.FC<any> = ({navigation}) => {
             autoCapitalize="characters"
             maxLength={15}
             error={errors.gstin}
+            hint={gstinDetails ? describeGstinDetails(gstinDetails) : undefined}
           />
 
           <CustomInput
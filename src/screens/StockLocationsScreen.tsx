@@ -0,0 +1,572 @@
+import React, {useState, useCallback} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {CustomButton} from '../components/CustomButton';
+import {LocationPicker} from '../components/LocationPicker';
+import {GrainPicker} from '../components/GrainPicker';
+import {LocationStock, StockTransfer, StorageLocation, StorageLocationType} from '../models/StorageLocation';
+import {Grain} from '../models/Grain';
+import TransactionService from '../services/TransactionService';
+import {formatCurrency, formatDate} from '../utils/helpers';
+
+const LOCATION_TYPE_LABELS: Record<StorageLocationType, string> = {
+  GODOWN: 'Godown',
+  MANDI_YARD: 'Mandi Yard',
+  OTHER: 'Other',
+};
+
+/**
+ * Stock Locations Screen
+ * Stock held at each godown and yard, the locations themselves, and transfers between them
+ */
+export const StockLocationsScreen: React.FC<any> = () => {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [stockByLocation, setStockByLocation] = useState<LocationStock[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // New location
+  const [locationName, setLocationName] = useState('');
+  const [locationType, setLocationType] = useState<StorageLocationType>('GODOWN');
+  const [savingLocation, setSavingLocation] = useState(false);
+
+  // New transfer
+  const [grains, setGrains] = useState<Grain[]>([]);
+  const [grainType, setGrainType] = useState('');
+  const [fromLocationId, setFromLocationId] = useState<string | undefined>(undefined);
+  const [toLocationId, setToLocationId] = useState<string | undefined>(undefined);
+  const [quantity, setQuantity] = useState('');
+  const [numberOfBags, setNumberOfBags] = useState('');
+  const [transportCost, setTransportCost] = useState('');
+  const [vehicleNumber, setVehicleNumber] = useState('');
+  const [notes, setNotes] = useState('');
+  const [savingTransfer, setSavingTransfer] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const loadData = async () => {
+    try {
+      const [locationList, stock, transferList, grainList] = await Promise.all([
+        TransactionService.getStorageLocations(),
+        TransactionService.getStockByLocation(),
+        TransactionService.getStockTransfers(),
+        TransactionService.getGrains(),
+      ]);
+      setLocations(locationList);
+      setGrains(grainList);
+      setStockByLocation(stock);
+      setTransfers(transferList);
+    } catch (error) {
+      console.error('Error loading stock locations:', error);
+      Alert.alert('Error', 'Failed to load stock locations');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData();
+  };
+
+  const locationNameById = (id: string): string =>
+    locations.find(location => location.id === id)?.name || 'Unknown location';
+
+  const handleAddLocation = async () => {
+    if (!locationName.trim()) {
+      Alert.alert('Validation Error', 'Please enter a location name');
+      return;
+    }
+    setSavingLocation(true);
+    try {
+      await TransactionService.createStorageLocation({
+        name: locationName,
+        locationType,
+        isActive: true,
+      });
+      setLocationName('');
+      await loadData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add location');
+    } finally {
+      setSavingLocation(false);
+    }
+  };
+
+  const handleToggleActive = async (location: StorageLocation) => {
+    try {
+      await TransactionService.updateStorageLocation(location.id, {isActive: !location.isActive});
+      await loadData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update location');
+    }
+  };
+
+  const handleDeleteLocation = (location: StorageLocation) => {
+    Alert.alert('Delete Location', `Delete ${location.name}?`, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await TransactionService.deleteStorageLocation(location.id);
+            await loadData();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete location');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveTransfer = async () => {
+    const transferQuantity = parseFloat(quantity) || 0;
+    const cost = parseFloat(transportCost) || 0;
+    if (!grainType.trim()) {
+      Alert.alert('Validation Error', 'Please enter grain type');
+      return;
+    }
+    if (!fromLocationId || !toLocationId) {
+      Alert.alert('Validation Error', 'Please choose where the grain moves from and to');
+      return;
+    }
+    if (transferQuantity <= 0) {
+      Alert.alert('Validation Error', 'Please enter a valid quantity');
+      return;
+    }
+    if (cost < 0) {
+      Alert.alert('Validation Error', 'Transport cost cannot be negative');
+      return;
+    }
+
+    setSavingTransfer(true);
+    try {
+      await TransactionService.createStockTransfer({
+        fromLocationId,
+        toLocationId,
+        grainType: grainType.trim(),
+        quantity: parseFloat(transferQuantity.toFixed(2)),
+        numberOfBags: parseFloat(numberOfBags) || 0,
+        transportCost: cost,
+        vehicleNumber: vehicleNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+        date: new Date().toISOString(),
+      });
+      setQuantity('');
+      setNumberOfBags('');
+      setTransportCost('');
+      setVehicleNumber('');
+      setNotes('');
+      await loadData();
+      Alert.alert('Success', cost > 0 ? 'Transfer saved and transport cost added to expenses' : 'Transfer saved');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save transfer');
+    } finally {
+      setSavingTransfer(false);
+    }
+  };
+
+  const handleDeleteTransfer = (transfer: StockTransfer) => {
+    Alert.alert(
+      'Delete Transfer',
+      transfer.expenseId
+        ? 'The transfer and its transport expense will be deleted.'
+        : 'The transfer will be deleted.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await TransactionService.deleteStockTransfer(transfer.id);
+              await loadData();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete transfer');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const totalStock = stockByLocation.reduce((sum, l) => sum + l.totalStock, 0);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[Colors.primary]} />
+      }>
+      <Text style={styles.sectionTitle}>Stock by Location</Text>
+      <Text style={styles.hint}>Total stock: {totalStock.toFixed(2)} Qtl</Text>
+      {stockByLocation.map(stock => {
+        const location = locations.find(l => l.id === stock.locationId);
+        return (
+          <View key={stock.locationId || 'unassigned'} style={styles.card}>
+            <View style={styles.rowHeader}>
+              <View>
+                <Text style={[styles.itemTitle, location && !location.isActive && styles.inactiveText]}>
+                  {stock.locationName}
+                </Text>
+                <Text style={styles.itemMeta}>
+                  {location ? LOCATION_TYPE_LABELS[location.locationType] : 'Not a saved location'}
+                  {location && !location.isActive ? ' · Inactive' : ''}
+                </Text>
+              </View>
+              <Text style={styles.stockTotal}>{stock.totalStock.toFixed(2)} Qtl</Text>
+            </View>
+            {stock.grains.map(grain => (
+              <View key={grain.grainType} style={styles.grainRow}>
+                <Text style={styles.grainName}>{grain.grainType}</Text>
+                <Text style={[styles.grainStock, grain.stock < 0 && styles.negativeText]}>
+                  {grain.stock.toFixed(2)} Qtl
+                </Text>
+              </View>
+            ))}
+            {stock.grains.length === 0 && <Text style={styles.itemMeta}>No stock</Text>}
+            {location && (
+              <View style={styles.itemActions}>
+                <TouchableOpacity onPress={() => handleToggleActive(location)}>
+                  <Text style={styles.actionText}>{location.isActive ? 'Mark Inactive' : 'Mark Active'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDeleteLocation(location)}>
+                  <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>Add Location</Text>
+      <View style={styles.formCard}>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Godown 2, Mandi Yard"
+          placeholderTextColor={Colors.textSecondary}
+          value={locationName}
+          onChangeText={setLocationName}
+        />
+        <View style={styles.typeRow}>
+          {(Object.keys(LOCATION_TYPE_LABELS) as StorageLocationType[]).map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.typeButton, locationType === type && styles.typeButtonActive]}
+              onPress={() => setLocationType(type)}>
+              <Text style={[styles.typeButtonText, locationType === type && styles.typeButtonTextActive]}>
+                {LOCATION_TYPE_LABELS[type]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <CustomButton title="Add Location" onPress={handleAddLocation} loading={savingLocation} disabled={savingLocation} />
+      </View>
+
+      <Text style={styles.sectionTitle}>New Transfer</Text>
+      <View style={styles.formCard}>
+        <Text style={styles.label}>Grain Type *</Text>
+        <GrainPicker grains={grains} value={grainType} onChangeText={setGrainType} placeholder="e.g., Wheat" />
+        <Text style={styles.label}>From *</Text>
+        <LocationPicker
+          locations={locations}
+          selectedId={fromLocationId}
+          onSelect={id => {
+            setFromLocationId(id);
+            if (id === toLocationId) setToLocationId(undefined);
+          }}
+        />
+        <Text style={styles.label}>To *</Text>
+        <LocationPicker
+          locations={locations}
+          selectedId={toLocationId}
+          onSelect={setToLocationId}
+          excludeId={fromLocationId}
+        />
+        <View style={styles.inputRow}>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Quantity (Qtl) *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.00"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="decimal-pad"
+              value={quantity}
+              onChangeText={setQuantity}
+            />
+          </View>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>No. of Bags</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="number-pad"
+              value={numberOfBags}
+              onChangeText={setNumberOfBags}
+            />
+          </View>
+        </View>
+        <View style={styles.inputRow}>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Transport Cost (₹)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="decimal-pad"
+              value={transportCost}
+              onChangeText={setTransportCost}
+            />
+          </View>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Vehicle No.</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Optional"
+              placeholderTextColor={Colors.textSecondary}
+              autoCapitalize="characters"
+              value={vehicleNumber}
+              onChangeText={setVehicleNumber}
+            />
+          </View>
+        </View>
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Optional"
+          placeholderTextColor={Colors.textSecondary}
+          value={notes}
+          onChangeText={setNotes}
+        />
+        <Text style={styles.hint}>Transport cost is paid from cash and recorded as an expense</Text>
+        <CustomButton
+          title="Save Transfer"
+          onPress={handleSaveTransfer}
+          loading={savingTransfer}
+          disabled={savingTransfer}
+          style={styles.saveButton}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>Transfers</Text>
+      <View style={styles.card}>
+        {transfers.length === 0 ? (
+          <Text style={styles.emptyText}>No transfers yet</Text>
+        ) : (
+          transfers.map(transfer => (
+            <View key={transfer.id} style={styles.transferRow}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.itemTitle}>
+                  {transfer.quantity.toFixed(2)} Qtl {transfer.grainType}
+                </Text>
+                <Text style={styles.itemMeta}>{formatDate(transfer.date)}</Text>
+              </View>
+              <Text style={styles.itemMeta}>
+                {locationNameById(transfer.fromLocationId)} → {locationNameById(transfer.toLocationId)}
+                {transfer.vehicleNumber ? ` · ${transfer.vehicleNumber}` : ''}
+              </Text>
+              {transfer.transportCost > 0 && (
+                <Text style={styles.itemMeta}>Transport: {formatCurrency(transfer.transportCost)}</Text>
+              )}
+              {transfer.notes ? <Text style={styles.itemMeta}>{transfer.notes}</Text> : null}
+              <View style={styles.itemActions}>
+                <TouchableOpacity onPress={() => handleDeleteTransfer(transfer)}>
+                  <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  sectionTitle: {
+    ...Typography.h4,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+    ...Shadow.small,
+  },
+  formCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+    ...Shadow.small,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  inactiveText: {
+    color: Colors.textSecondary,
+  },
+  stockTotal: {
+    ...Typography.body1,
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
+  grainRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.xs,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    marginTop: Spacing.xs,
+  },
+  grainName: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+  },
+  grainStock: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  negativeText: {
+    color: Colors.error,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+  actionText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: Colors.error,
+  },
+  label: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    ...Typography.body1,
+    color: Colors.textPrimary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  inputHalf: {
+    flex: 1,
+    gap: Spacing.sm,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  typeButton: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  typeButtonText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  typeButtonTextActive: {
+    color: Colors.textLight,
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  saveButton: {
+    marginTop: Spacing.xs,
+  },
+  transferRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  emptyText: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+});
@@ -0,0 +1,587 @@
+import React, {useState, useCallback, useEffect} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {CustomButton} from '../components/CustomButton';
+import {LocationPicker} from '../components/LocationPicker';
+import {GrainPicker} from '../components/GrainPicker';
+import {StorageLocation} from '../models/StorageLocation';
+import {Grain} from '../models/Grain';
+import {StockAdjustment, StockAdjustmentReason, StockReconciliation} from '../models/StockAdjustment';
+import TransactionService from '../services/TransactionService';
+import {formatCurrency, formatDate} from '../utils/helpers';
+
+const REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  SHRINKAGE: 'Shrinkage',
+  MOISTURE_LOSS: 'Moisture Loss',
+  DAMAGE: 'Damage',
+  PEST_LOSS: 'Rodents / Pests',
+  PHYSICAL_COUNT: 'Physical Count',
+  OTHER: 'Other',
+};
+
+// Reasons offered on a manual entry; physical count adjustments are posted from the count
+const ENTRY_REASONS: StockAdjustmentReason[] = ['SHRINKAGE', 'MOISTURE_LOSS', 'DAMAGE', 'PEST_LOSS', 'OTHER'];
+
+/**
+ * Stock Reconciliation Screen
+ * Book stock against a physical count, and adjustments for shrinkage, moisture loss and damage
+ */
+export const StockReconciliationScreen: React.FC<any> = () => {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string | undefined>(undefined);
+  const [reconciliation, setReconciliation] = useState<StockReconciliation | null>(null);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  // New adjustment
+  const [grains, setGrains] = useState<Grain[]>([]);
+  const [grainType, setGrainType] = useState('');
+  const [locationId, setLocationId] = useState<string | undefined>(undefined);
+  const [isLoss, setIsLoss] = useState(true);
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState<StockAdjustmentReason>('SHRINKAGE');
+  const [rate, setRate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData(locationFilter);
+    }, [locationFilter])
+  );
+
+  // Counts belong to the location they were taken at
+  useEffect(() => {
+    setCounts({});
+  }, [locationFilter]);
+
+  const loadData = async (filter?: string) => {
+    try {
+      const [locationList, report, adjustmentList, grainList] = await Promise.all([
+        TransactionService.getStorageLocations(),
+        TransactionService.getStockReconciliation([], filter),
+        TransactionService.getStockAdjustments(),
+        TransactionService.getGrains(),
+      ]);
+      setLocations(locationList);
+      setGrains(grainList);
+      setReconciliation(report);
+      setAdjustments(adjustmentList);
+    } catch (error) {
+      console.error('Error loading stock reconciliation:', error);
+      Alert.alert('Error', 'Failed to load stock reconciliation');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData(locationFilter);
+  };
+
+  const locationName = (id: string): string =>
+    locations.find(location => location.id === id)?.name || 'Unknown location';
+
+  const getCount = (grain: string): number | undefined => {
+    const value = counts[grain.toLowerCase()];
+    return value === undefined || value.trim() === '' ? undefined : parseFloat(value);
+  };
+
+  const handlePostCounts = () => {
+    if (!locationFilter || !reconciliation) return;
+    const physicalCounts = reconciliation.lines
+      .map(line => ({grainType: line.grainType, quantity: getCount(line.grainType)}))
+      .filter((c): c is {grainType: string; quantity: number} => c.quantity !== undefined);
+    if (physicalCounts.length === 0) {
+      Alert.alert('Validation Error', 'Please enter the counted quantity of at least one grain');
+      return;
+    }
+    if (physicalCounts.some(c => isNaN(c.quantity) || c.quantity < 0)) {
+      Alert.alert('Validation Error', 'Please enter valid counted quantities');
+      return;
+    }
+
+    Alert.alert(
+      'Post Adjustments',
+      `Book stock at ${locationName(locationFilter)} will be adjusted to the counted quantities.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Post',
+          onPress: async () => {
+            setPosting(true);
+            try {
+              const posted = await TransactionService.postPhysicalCounts(locationFilter, physicalCounts);
+              setCounts({});
+              await loadData(locationFilter);
+              Alert.alert('Success', posted.length > 0 ? `${posted.length} adjustment(s) posted` : 'Book stock already matches the count');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to post adjustments');
+            } finally {
+              setPosting(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleSaveAdjustment = async () => {
+    const adjustedQuantity = parseFloat(quantity) || 0;
+    if (!grainType.trim()) {
+      Alert.alert('Validation Error', 'Please enter grain type');
+      return;
+    }
+    if (!locationId) {
+      Alert.alert('Validation Error', 'Please select a storage location');
+      return;
+    }
+    if (adjustedQuantity <= 0) {
+      Alert.alert('Validation Error', 'Please enter a valid quantity');
+      return;
+    }
+    if (rate.trim() && !(parseFloat(rate) >= 0)) {
+      Alert.alert('Validation Error', 'Please enter a valid rate');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await TransactionService.createStockAdjustment({
+        date: new Date().toISOString(),
+        grainType: grainType.trim(),
+        locationId,
+        quantity: isLoss ? -adjustedQuantity : adjustedQuantity,
+        reason,
+        ratePerQuintal: rate.trim() ? parseFloat(rate) : undefined,
+        notes: notes.trim() || undefined,
+      });
+      setQuantity('');
+      setRate('');
+      setNotes('');
+      await loadData(locationFilter);
+      Alert.alert('Success', 'Stock adjustment saved');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save adjustment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAdjustment = (adjustment: StockAdjustment) => {
+    Alert.alert('Delete Adjustment', 'The adjustment will be removed and book stock restored.', [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await TransactionService.deleteStockAdjustment(adjustment.id);
+            await loadData(locationFilter);
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete adjustment');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const lines = reconciliation ? reconciliation.lines : [];
+  const totalDifferenceValue = lines.reduce((sum, line) => {
+    const counted = getCount(line.grainType);
+    return counted === undefined || isNaN(counted) ? sum : sum + (counted - line.bookStock) * line.ratePerQuintal;
+  }, 0);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[Colors.primary]} />
+      }>
+      <Text style={styles.sectionTitle}>Book vs Physical Stock</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+        {[{id: undefined as string | undefined, name: 'All Locations'}, ...locations.map(l => ({id: l.id as string | undefined, name: l.name}))].map(option => (
+          <TouchableOpacity
+            key={option.id || 'all'}
+            style={[styles.filterButton, locationFilter === option.id && styles.filterButtonActive]}
+            onPress={() => setLocationFilter(option.id)}>
+            <Text style={[styles.filterText, locationFilter === option.id && styles.filterTextActive]}>
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.card}>
+        {lines.length === 0 ? (
+          <Text style={styles.emptyText}>No stock</Text>
+        ) : (
+          lines.map(line => {
+            const counted = getCount(line.grainType);
+            const difference = counted === undefined || isNaN(counted) ? undefined : counted - line.bookStock;
+            return (
+              <View key={line.grainType} style={styles.lineRow}>
+                <View style={styles.rowHeader}>
+                  <Text style={styles.itemTitle}>{line.grainType}</Text>
+                  <Text style={styles.bookStock}>{line.bookStock.toFixed(2)} Qtl</Text>
+                </View>
+                <Text style={styles.itemMeta}>
+                  Bills {line.billStock.toFixed(2)} Qtl
+                  {line.adjustments !== 0 ? ` · Adjusted ${line.adjustments.toFixed(2)} Qtl (${formatCurrency(line.adjustmentValue)})` : ''}
+                </Text>
+                {locationFilter && (
+                  <View style={styles.countRow}>
+                    <TextInput
+                      style={[styles.input, styles.countInput]}
+                      placeholder="Counted Qtl"
+                      placeholderTextColor={Colors.textSecondary}
+                      keyboardType="decimal-pad"
+                      value={counts[line.grainType.toLowerCase()] || ''}
+                      onChangeText={text => setCounts(prev => ({...prev, [line.grainType.toLowerCase()]: text}))}
+                    />
+                    {difference !== undefined && (
+                      <Text style={[styles.difference, difference < 0 ? styles.lossText : styles.gainText]}>
+                        {difference > 0 ? '+' : ''}{difference.toFixed(2)} Qtl · {formatCurrency(difference * line.ratePerQuintal)}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+        {locationFilter ? (
+          lines.length > 0 && (
+            <>
+              <Text style={styles.hint}>
+                Difference at average purchase rate: {formatCurrency(totalDifferenceValue)}
+              </Text>
+              <CustomButton
+                title="Post Adjustments"
+                onPress={handlePostCounts}
+                loading={posting}
+                disabled={posting}
+                style={styles.saveButton}
+              />
+            </>
+          )
+        ) : (
+          <Text style={styles.hint}>Choose a location to enter a physical count</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>New Adjustment</Text>
+      <View style={styles.formCard}>
+        <Text style={styles.label}>Grain Type *</Text>
+        <GrainPicker grains={grains} value={grainType} onChangeText={setGrainType} placeholder="e.g., Wheat" />
+        <Text style={styles.label}>Storage Location *</Text>
+        <LocationPicker locations={locations} selectedId={locationId} onSelect={setLocationId} />
+        <View style={styles.typeRow}>
+          <TouchableOpacity
+            style={[styles.typeButton, isLoss && styles.typeButtonActive]}
+            onPress={() => setIsLoss(true)}>
+            <Text style={[styles.typeButtonText, isLoss && styles.typeButtonTextActive]}>Loss (−)</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.typeButton, !isLoss && styles.typeButtonActive]}
+            onPress={() => setIsLoss(false)}>
+            <Text style={[styles.typeButtonText, !isLoss && styles.typeButtonTextActive]}>Gain (+)</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.label}>Reason *</Text>
+        <View style={styles.reasonRow}>
+          {ENTRY_REASONS.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.filterButton, reason === option && styles.filterButtonActive]}
+              onPress={() => setReason(option)}>
+              <Text style={[styles.filterText, reason === option && styles.filterTextActive]}>
+                {REASON_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.inputRow}>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Quantity (Qtl) *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.00"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="decimal-pad"
+              value={quantity}
+              onChangeText={setQuantity}
+            />
+          </View>
+          <View style={styles.inputHalf}>
+            <Text style={styles.label}>Rate/Quintal (₹)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Average cost"
+              placeholderTextColor={Colors.textSecondary}
+              keyboardType="decimal-pad"
+              value={rate}
+              onChangeText={setRate}
+            />
+          </View>
+        </View>
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Optional"
+          placeholderTextColor={Colors.textSecondary}
+          value={notes}
+          onChangeText={setNotes}
+        />
+        <Text style={styles.hint}>Adjustments change stock only. Party balances and cash are not affected.</Text>
+        <CustomButton
+          title="Save Adjustment"
+          onPress={handleSaveAdjustment}
+          loading={saving}
+          disabled={saving}
+          style={styles.saveButton}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>Adjustments</Text>
+      <View style={styles.card}>
+        {adjustments.length === 0 ? (
+          <Text style={styles.emptyText}>No adjustments yet</Text>
+        ) : (
+          adjustments.map(adjustment => (
+            <View key={adjustment.id} style={styles.lineRow}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.itemTitle}>
+                  {adjustment.grainType} · {REASON_LABELS[adjustment.reason] || adjustment.reason}
+                </Text>
+                <Text style={[styles.difference, adjustment.quantity < 0 ? styles.lossText : styles.gainText]}>
+                  {adjustment.quantity > 0 ? '+' : ''}{adjustment.quantity.toFixed(2)} Qtl
+                </Text>
+              </View>
+              <Text style={styles.itemMeta}>
+                {formatDate(adjustment.date)} · {locationName(adjustment.locationId)} · {formatCurrency(adjustment.valuation)}
+              </Text>
+              {adjustment.notes ? <Text style={styles.itemMeta}>{adjustment.notes}</Text> : null}
+              <View style={styles.itemActions}>
+                <TouchableOpacity onPress={() => handleDeleteAdjustment(adjustment)}>
+                  <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  sectionTitle: {
+    ...Typography.h4,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    ...Shadow.small,
+  },
+  formCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+    ...Shadow.small,
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: Spacing.sm,
+  },
+  filterButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginRight: Spacing.sm,
+  },
+  filterButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+  },
+  filterTextActive: {
+    color: Colors.textLight,
+    fontWeight: '600',
+  },
+  lineRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  bookStock: {
+    ...Typography.body1,
+    color: Colors.primary,
+    fontWeight: 'bold',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  countInput: {
+    width: 120,
+  },
+  difference: {
+    ...Typography.body2,
+    fontWeight: '600',
+  },
+  lossText: {
+    color: Colors.error,
+  },
+  gainText: {
+    color: Colors.success,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.xs,
+  },
+  actionText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: Colors.error,
+  },
+  label: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    ...Typography.body1,
+    color: Colors.textPrimary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  inputHalf: {
+    flex: 1,
+    gap: Spacing.sm,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  typeButton: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    alignItems: 'center',
+  },
+  typeButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  typeButtonText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  typeButtonTextActive: {
+    color: Colors.textLight,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: Spacing.sm,
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.sm,
+  },
+  saveButton: {
+    marginTop: Spacing.sm,
+  },
+  emptyText: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+});
@@ -0,0 +1,308 @@
+import React, {useState, useCallback} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {SyncConflict, SyncConflictGroup, SyncConflictResolution} from '../models/SyncConflict';
+import CloudBackupService from '../services/CloudBackupService';
+import {CustomButton} from '../components/CustomButton';
+import {formatCurrency, formatDate} from '../utils/helpers';
+
+const FIELD_LABELS: Record<string, string> = {
+  paidAmount: 'Paid',
+  receivedAmount: 'Received',
+  balanceAmount: 'Balance',
+  returnedAmount: 'Returned',
+  returnedQuantity: 'Returned Qty',
+  balanceQuantity: 'Balance Qty',
+  paymentStatus: 'Status',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  BUY: 'Buy',
+  SELL: 'Sell',
+  LEND: 'Lend',
+  EXPENSE: 'Expense',
+};
+
+const formatValue = (field: string, value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'paymentStatus') return String(value);
+  if (field.endsWith('Quantity')) return `${value} qtl`;
+  return typeof value === 'number' ? formatCurrency(value) : String(value);
+};
+
+/**
+ * Sync Conflicts Screen
+ * Amounts changed on this device and another device at the same time;
+ * the user keeps one side per transaction
+ */
+export const SyncConflictsScreen: React.FC<any> = () => {
+  const [groups, setGroups] = useState<SyncConflictGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConflicts();
+    }, [])
+  );
+
+  const loadConflicts = async () => {
+    try {
+      setLoading(true);
+      const data = await CloudBackupService.getConflictGroups();
+      setGroups(data);
+    } catch (error) {
+      console.error('Error loading sync conflicts:', error);
+      Alert.alert('Error', 'Failed to load sync conflicts');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadConflicts();
+  };
+
+  const resolve = async (group: SyncConflictGroup, resolution: SyncConflictResolution) => {
+    try {
+      setResolvingId(group.entityId);
+      await CloudBackupService.resolveConflicts(group.entityId, resolution);
+      setGroups(current => current.filter(g => g.entityId !== group.entityId));
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      Alert.alert('Error', 'Failed to resolve conflict. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const confirmResolve = (group: SyncConflictGroup, resolution: SyncConflictResolution) => {
+    const side = resolution === 'LOCAL' ? "this device's" : "the cloud's";
+    Alert.alert(
+      'Resolve Conflict',
+      `Use ${side} values for ${group.title}? Other devices will be updated to match.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Confirm', onPress: () => resolve(group, resolution)},
+      ],
+    );
+  };
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <View key={conflict.id} style={styles.fieldRow}>
+      <Text style={styles.fieldLabel}>{FIELD_LABELS[conflict.field] || conflict.field}</Text>
+      <View style={styles.valueColumn}>
+        <Text style={styles.valueCaption}>This device</Text>
+        <Text style={styles.localValue}>{formatValue(conflict.field, conflict.localValue)}</Text>
+      </View>
+      <View style={styles.valueColumn}>
+        <Text style={styles.valueCaption}>Cloud</Text>
+        <Text style={styles.remoteValue}>{formatValue(conflict.field, conflict.remoteValue)}</Text>
+      </View>
+      <View style={styles.valueColumn}>
+        <Text style={styles.valueCaption}>Before</Text>
+        <Text style={styles.baseValue}>{formatValue(conflict.field, conflict.baseValue)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderGroup = ({item}: {item: SyncConflictGroup}) => {
+    const busy = resolvingId === item.entityId;
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.title} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.typeBadge}>{TYPE_LABELS[item.transactionType] || item.transactionType}</Text>
+        </View>
+        {item.date ? <Text style={styles.date}>{formatDate(item.date)}</Text> : null}
+        {item.conflicts.map(renderConflict)}
+        <View style={styles.actions}>
+          <CustomButton
+            title="Keep This Device"
+            onPress={() => confirmResolve(item, 'LOCAL')}
+            variant="outline"
+            disabled={!!resolvingId}
+            loading={busy}
+            style={styles.actionButton}
+          />
+          <CustomButton
+            title="Use Cloud"
+            onPress={() => confirmResolve(item, 'REMOTE')}
+            variant="secondary"
+            disabled={!!resolvingId}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <Text style={styles.intro}>
+      These amounts were changed on this device and on another device before they synced.
+      Other edits were merged automatically.
+    </Text>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>✅</Text>
+      <Text style={styles.emptyText}>No sync conflicts</Text>
+      <Text style={styles.emptySubtext}>Edits from all your devices are in agreement</Text>
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={groups}
+        renderItem={renderGroup}
+        keyExtractor={(item) => item.entityId}
+        ListHeaderComponent={groups.length > 0 ? renderHeader : null}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[Colors.primary]}
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  list: {
+    padding: Spacing.md,
+    flexGrow: 1,
+  },
+  intro: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+    ...Shadow.small,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xs,
+  },
+  title: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  typeBadge: {
+    ...Typography.caption,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  date: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  fieldLabel: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+    width: 90,
+  },
+  valueColumn: {
+    flex: 1,
+  },
+  valueCaption: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  localValue: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  remoteValue: {
+    ...Typography.body2,
+    color: Colors.warning,
+    fontWeight: '600',
+  },
+  baseValue: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: Spacing.md,
+  },
+  emptyText: {
+    ...Typography.h4,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  emptySubtext: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,455 @@
+import React, {useState, useCallback} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import {useFocusEffect} from '@react-navigation/native';
+import {Colors, Typography, Spacing, BorderRadius, Shadow} from '../constants/theme';
+import {CustomButton} from '../components/CustomButton';
+import {SyncOutboxItem} from '../models/SyncOutbox';
+import CloudBackupService from '../services/CloudBackupService';
+import ExportService from '../services/ExportService';
+import SyncLogger, {SyncLogEntry, SyncLogLevel} from '../services/SyncLogger';
+import {buildSyncReport} from '../utils/syncReport';
+import {formatDateTime} from '../utils/helpers';
+
+type LevelFilter = 'ALL' | SyncLogLevel;
+
+const LOG_LIMIT = 200;
+
+const OPERATION_LABELS: Record<string, string> = {
+  UPLOAD: 'Upload',
+  DELETE: 'Delete',
+  META: 'Cash balance update',
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  TRANSACTION: 'transaction',
+  PAYMENT: 'payment',
+  FARMER: 'farmer',
+  MERCHANT: 'merchant',
+  CUSTOMER: 'customer',
+  LOCATION: 'storage location',
+  TRANSFER: 'stock transfer',
+  ADJUSTMENT: 'stock adjustment',
+  GRAIN: 'grain',
+};
+
+const describeItem = (item: SyncOutboxItem): string =>
+  item.operation === 'META'
+    ? OPERATION_LABELS.META
+    : `${OPERATION_LABELS[item.operation]} ${ENTITY_LABELS[item.entityType] || item.entityType}`;
+
+/**
+ * Sync Diagnostics Screen
+ * Queued cloud writes, uploads that gave up, and the sync log for support
+ */
+export const SyncDiagnosticsScreen: React.FC<any> = () => {
+  const [items, setItems] = useState<SyncOutboxItem[]>([]);
+  const [logs, setLogs] = useState<SyncLogEntry[]>([]);
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('ALL');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<number | null>(null);
+  const [sending, setSending] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData(levelFilter);
+    }, [levelFilter])
+  );
+
+  const loadData = async (filter: LevelFilter) => {
+    try {
+      const [outbox, entries] = await Promise.all([
+        CloudBackupService.getOutboxItems(),
+        SyncLogger.getRecentLogs(LOG_LIMIT, filter === 'ALL' ? undefined : filter),
+      ]);
+      setItems(outbox);
+      setLogs(entries);
+    } catch (error) {
+      console.error('Error loading sync diagnostics:', error);
+      Alert.alert('Error', 'Failed to load sync diagnostics');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData(levelFilter);
+  };
+
+  const handleSendNow = async () => {
+    setSending(true);
+    try {
+      await CloudBackupService.processPendingUploads();
+      await CloudBackupService.processPendingDeletes();
+      await loadData(levelFilter);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send queued changes');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async (item: SyncOutboxItem) => {
+    setBusyItemId(item.id);
+    try {
+      await CloudBackupService.retryOutboxItem(item);
+      await loadData(levelFilter);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Retry failed');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleDiscard = (item: SyncOutboxItem) => {
+    Alert.alert(
+      'Discard Change',
+      `${describeItem(item)} will not be sent to the cloud. It is sent again only when the record is edited or on the next full sync.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyItemId(item.id);
+            try {
+              await CloudBackupService.discardOutboxItem(item);
+              await loadData(levelFilter);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to discard');
+            } finally {
+              setBusyItemId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      // Export the full log, whatever level is shown
+      const [outbox, entries] = await Promise.all([
+        CloudBackupService.getOutboxItems(),
+        SyncLogger.getRecentLogs(1000),
+      ]);
+      const now = new Date();
+      const stamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+      await ExportService.shareTextFile(buildSyncReport(outbox, entries, now), `SyncLog_${stamp}.txt`, 'text/plain', 'Sync Log');
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export sync log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderItem = (item: SyncOutboxItem) => {
+    const busy = busyItemId === item.id;
+    return (
+      <View key={item.id} style={styles.itemRow}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemTitle}>{describeItem(item)}</Text>
+          <Text style={styles.itemMeta}>
+            {item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'}
+          </Text>
+        </View>
+        {item.operation !== 'META' && (
+          <Text style={styles.itemId} numberOfLines={1}>{item.entityId}</Text>
+        )}
+        <Text style={styles.itemMeta}>
+          Queued {formatDateTime(item.createdAt)}
+          {item.status === 'PENDING' && item.nextAttemptAt ? ` · next try ${formatDateTime(item.nextAttemptAt)}` : ''}
+        </Text>
+        {item.lastError ? (
+          <Text style={styles.itemError} numberOfLines={3}>{item.lastError}</Text>
+        ) : null}
+        <View style={styles.itemActions}>
+          {busy ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <>
+              <TouchableOpacity onPress={() => handleRetry(item)} disabled={busyItemId !== null}>
+                <Text style={styles.actionText}>Retry</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleDiscard(item)} disabled={busyItemId !== null}>
+                <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderLog = (entry: SyncLogEntry) => (
+    <View key={entry.id} style={styles.logRow}>
+      <View style={styles.itemHeader}>
+        <Text style={[styles.logLevel, entry.level === 'ERROR' ? styles.logError : styles.logInfo]}>
+          {entry.level}
+        </Text>
+        <Text style={styles.itemMeta}>{formatDateTime(entry.createdAt)}</Text>
+      </View>
+      <Text style={styles.logMessage}>{entry.message}</Text>
+      {entry.meta ? (
+        <Text style={styles.logMeta} numberOfLines={3}>{entry.meta}</Text>
+      ) : null}
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const pending = items.filter(item => item.status === 'PENDING');
+  const failed = items.filter(item => item.status === 'FAILED');
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[Colors.primary]} />
+      }>
+      <View style={styles.summaryCard}>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryStat}>
+            <Text style={styles.summaryValue}>{pending.length}</Text>
+            <Text style={styles.summaryLabel}>Waiting to send</Text>
+          </View>
+          <View style={styles.summaryStat}>
+            <Text style={[styles.summaryValue, failed.length > 0 && styles.summaryValueError]}>{failed.length}</Text>
+            <Text style={styles.summaryLabel}>Failed</Text>
+          </View>
+        </View>
+        <View style={styles.summaryActions}>
+          <CustomButton
+            title="Send Now"
+            onPress={handleSendNow}
+            loading={sending}
+            disabled={sending || pending.length === 0}
+            style={styles.summaryButton}
+          />
+          <CustomButton
+            title="Export Log"
+            onPress={handleExport}
+            variant="outline"
+            loading={exporting}
+            disabled={exporting}
+            style={styles.summaryButton}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Outbox</Text>
+      <View style={styles.card}>
+        {pending.length > 0 ? pending.map(renderItem) : (
+          <Text style={styles.emptyText}>Nothing waiting to be sent</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Failed Uploads</Text>
+      <View style={styles.card}>
+        {failed.length > 0 ? failed.map(renderItem) : (
+          <Text style={styles.emptyText}>No failed uploads</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Sync Log</Text>
+      <View style={styles.filterRow}>
+        {(['ALL', 'INFO', 'ERROR'] as LevelFilter[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterButton, levelFilter === option && styles.filterButtonActive]}
+            onPress={() => setLevelFilter(option)}>
+            <Text style={[styles.filterText, levelFilter === option && styles.filterTextActive]}>
+              {option === 'ALL' ? 'All' : option === 'INFO' ? 'Info' : 'Errors'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.card}>
+        {logs.length > 0 ? logs.map(renderLog) : (
+          <Text style={styles.emptyText}>No log entries</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  summaryCard: {
+    backgroundColor: Colors.surface,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+    ...Shadow.small,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginBottom: Spacing.md,
+  },
+  summaryStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    ...Typography.h2,
+    color: Colors.textPrimary,
+    fontWeight: 'bold',
+  },
+  summaryValueError: {
+    color: Colors.error,
+  },
+  summaryLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  summaryActions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  summaryButton: {
+    flex: 1,
+  },
+  sectionTitle: {
+    ...Typography.h4,
+    color: Colors.textPrimary,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.lg,
+    ...Shadow.small,
+  },
+  itemRow: {
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    ...Typography.body1,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  itemId: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    fontFamily: 'monospace',
+  },
+  itemMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  itemError: {
+    ...Typography.caption,
+    color: Colors.error,
+    marginTop: Spacing.xs,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.lg,
+    marginTop: Spacing.sm,
+  },
+  actionText: {
+    ...Typography.body2,
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  discardText: {
+    color: Colors.error,
+  },
+  emptyText: {
+    ...Typography.body2,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  filterButton: {
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  filterButtonActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterText: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+    fontWeight: '600',
+  },
+  filterTextActive: {
+    color: Colors.textLight,
+  },
+  logRow: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  logLevel: {
+    ...Typography.caption,
+    fontWeight: 'bold',
+  },
+  logError: {
+    color: Colors.error,
+  },
+  logInfo: {
+    color: Colors.success,
+  },
+  logMessage: {
+    ...Typography.body2,
+    color: Colors.textPrimary,
+  },
+  logMeta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    fontFamily: 'monospace',
+  },
+});
@@ -2,6 +2,7 @@ import auth, {FirebaseAuthTypes} from '@react-native-firebase/auth';
 import firestore, {collection, doc, getDoc, setDoc} from '@react-native-firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {User} from '../models/User';
+import {normalizeGstin, validateGstin} from '../utils/gstin';
 
 /**
  * Authentication Service
@@ -11,9 +12,15 @@ class AuthService {
   private currentUser: User | null = null;
 
   /**
-   * Check if GSTIN already exists
+   * Check if GSTIN already exists. Throws when the GSTIN itself is invalid.
    */
   async checkGSTINExists(gstin: string): Promise<boolean> {
+    const {error} = validateGstin(gstin);
+    if (error) {
+      throw new Error(error);
+    }
+    gstin = normalizeGstin(gstin);
+
     try {
       console.log('Checking GSTIN in Firestore:', gstin);
       
@@ -56,6 +63,14 @@ class AuthService {
     gstin?: string,
     phoneNumber?: string,
   ): Promise<User> {
+    if (gstin) {
+      const {error} = validateGstin(gstin);
+      if (error) {
+        throw new Error(error);
+      }
+      gstin = normalizeGstin(gstin);
+    }
+
     try {
       const userCredential = await auth().createUserWithEmailAndPassword(email, password);
       
@@ -326,6 +341,14 @@ class AuthService {
     gstin?: string;
     phoneNumber?: string;
   }): Promise<User> {
+    if (updates.gstin) {
+      const {error} = validateGstin(updates.gstin);
+      if (error) {
+        throw new Error(error);
+      }
+      updates = {...updates, gstin: normalizeGstin(updates.gstin)};
+    }
+
     const currentUser = await this.getCurrentUser();
     if (!currentUser) {
       throw new Error('No user logged in');
@@ -1,20 +1,108 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import DatabaseService from '../database/DatabaseService';
+import {CashLedgerRepository} from '../repositories/CashLedgerRepository';
+import {CashDirection, CashLedgerEntry, CashMovementSource} from '../models/CashLedger';
 
 /**
  * Cash Balance Service
- * Manages user's current cash balance and automatic updates
+ * Records every cash movement in the `cash_ledger` table; the current balance
+ * is the sum of the ledger rather than a stored number
  */
 export class CashBalanceService {
+  // Legacy AsyncStorage keys, migrated into the ledger as an opening balance
   private static readonly CASH_BALANCE_KEY = 'currentCashBalance';
   private static readonly LAST_BALANCE_UPDATE_KEY = 'lastBalanceUpdate';
 
+  private static ledgerRepository: CashLedgerRepository | null = null;
+  private static legacyMigration: Promise<void> | null = null;
+
+  /**
+   * Initialize ledger repository and migrate the legacy AsyncStorage balance once
+   */
+  private static async getRepository(): Promise<CashLedgerRepository> {
+    if (!this.ledgerRepository) {
+      const db = await DatabaseService.initDatabase();
+      this.ledgerRepository = new CashLedgerRepository(db);
+    }
+    if (!this.legacyMigration) {
+      this.legacyMigration = this.migrateLegacyBalance(this.ledgerRepository);
+    }
+    await this.legacyMigration;
+    return this.ledgerRepository;
+  }
+
+  /**
+   * Move the old AsyncStorage balance into the ledger as an opening entry
+   */
+  private static async migrateLegacyBalance(repo: CashLedgerRepository): Promise<void> {
+    try {
+      const legacyBalance = await AsyncStorage.getItem(this.CASH_BALANCE_KEY);
+      if (legacyBalance === null) return;
+
+      const amount = parseFloat(legacyBalance);
+      if ((await repo.count()) === 0 && !isNaN(amount) && amount !== 0) {
+        const lastUpdate = await AsyncStorage.getItem(this.LAST_BALANCE_UPDATE_KEY);
+        await repo.create({
+          entryDate: lastUpdate || new Date().toISOString(),
+          direction: amount >= 0 ? 'IN' : 'OUT',
+          amount: Math.abs(amount),
+          reason: 'Opening balance (migrated)',
+          sourceType: 'OPENING',
+        });
+        console.log(`Migrated legacy cash balance ₹${amount} into cash ledger`);
+      }
+
+      await AsyncStorage.multiRemove([this.CASH_BALANCE_KEY, this.LAST_BALANCE_UPDATE_KEY]);
+    } catch (error) {
+      console.error('Error migrating legacy cash balance:', error);
+    }
+  }
+
+  /**
+   * Push user meta to cloud (fire-and-forget) - lazy import to avoid circular dependency
+   */
+  private static async pushMetaToCloud(): Promise<void> {
+    try {
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      CloudBackupService.pushUserMeta().catch(console.error);
+    } catch (err) {
+      console.warn('CloudBackupService not available to push meta immediately', err);
+    }
+  }
+
+  /**
+   * Append a movement to the ledger and return the new balance
+   */
+  private static async recordMovement(
+    direction: CashDirection,
+    amount: number,
+    reason: string,
+    source?: CashMovementSource,
+  ): Promise<number> {
+    const repo = await this.getRepository();
+    if (amount !== 0) {
+      await repo.create({
+        entryDate: source?.entryDate || new Date().toISOString(),
+        direction,
+        amount,
+        reason,
+        mode: source?.mode,
+        sourceType: source?.sourceType || 'ADJUSTMENT',
+        sourceId: source?.sourceId,
+      });
+      // Only push once the movement is committed
+      DatabaseService.runAfterCommit(() => this.pushMetaToCloud());
+    }
+    return repo.getBalance();
+  }
+
   /**
    * Get current cash balance
    */
   public static async getCurrentBalance(): Promise<number> {
     try {
-      const balance = await AsyncStorage.getItem(this.CASH_BALANCE_KEY);
-      return balance ? parseFloat(balance) : 0;
+      const repo = await this.getRepository();
+      return await repo.getBalance();
     } catch (error) {
       console.error('Error getting cash balance:', error);
       return 0;
@@ -22,20 +110,33 @@ export class CashBalanceService {
   }
 
   /**
-   * Set cash balance manually
+   * Get all ledger entries, newest first
    */
-  public static async setBalance(amount: number): Promise<boolean> {
+  public static async getLedgerEntries(): Promise<CashLedgerEntry[]> {
+    const repo = await this.getRepository();
+    return repo.findAll();
+  }
+
+  /**
+   * Set cash balance manually; records the difference as an adjustment entry
+   */
+  public static async setBalance(amount: number, reason: string = 'Manual balance update'): Promise<boolean> {
     try {
-      await AsyncStorage.setItem(this.CASH_BALANCE_KEY, amount.toString());
-      await AsyncStorage.setItem(this.LAST_BALANCE_UPDATE_KEY, new Date().toISOString());
-      console.log(`Cash balance updated to: ₹${amount}`);
-      // Push user meta to cloud (fire-and-forget) - lazy import to avoid circular dependency
-      try {
-        const {default: CloudBackupService} = await import('./CloudBackupService');
-        CloudBackupService.pushUserMeta().catch(console.error);
-      } catch (err) {
-        console.warn('CloudBackupService not available to push meta immediately', err);
+      // Read and adjust in one unit, so a movement committed in between is not overwritten.
+      // Units do not nest: inside one already open, the adjustment joins it.
+      const adjust = async () => {
+        const currentBalance = await this.getCurrentBalance();
+        const difference = amount - currentBalance;
+        await this.recordMovement(difference >= 0 ? 'IN' : 'OUT', Math.abs(difference), reason, {
+          sourceType: 'ADJUSTMENT',
+        });
+      };
+      if (DatabaseService.isInTransaction()) {
+        await adjust();
+      } else {
+        await DatabaseService.runInTransaction(adjust);
       }
+      console.log(`Cash balance updated to: ₹${amount}`);
       return true;
     } catch (error) {
       console.error('Error setting cash balance:', error);
@@ -46,11 +147,9 @@ export class CashBalanceService {
   /**
    * Add to cash balance (for income/receipts)
    */
-  public static async addToBalance(amount: number, reason?: string): Promise<number> {
+  public static async addToBalance(amount: number, reason?: string, source?: CashMovementSource): Promise<number> {
     try {
-      const currentBalance = await this.getCurrentBalance();
-      const newBalance = currentBalance + amount;
-      await this.setBalance(newBalance);
+      const newBalance = await this.recordMovement('IN', amount, reason || 'Not specified', source);
       console.log(`Added ₹${amount} to balance. Reason: ${reason || 'Not specified'}`);
       return newBalance;
     } catch (error) {
@@ -62,13 +161,9 @@ export class CashBalanceService {
   /**
    * Subtract from cash balance (for expenses/payments)
    */
-  public static async subtractFromBalance(amount: number, reason?: string): Promise<number> {
+  public static async subtractFromBalance(amount: number, reason?: string, source?: CashMovementSource): Promise<number> {
     try {
-      const currentBalance = await this.getCurrentBalance();
-      console.log(`subtractFromBalance: currentBalance=${currentBalance}, amount=${amount}, type of currentBalance=${typeof currentBalance}, type of amount=${typeof amount}`);
-      const newBalance = currentBalance - amount;
-      console.log(`subtractFromBalance: newBalance=${newBalance}`);
-      await this.setBalance(newBalance);
+      const newBalance = await this.recordMovement('OUT', amount, reason || 'Not specified', source);
       console.log(`Subtracted ₹${amount} from balance. Reason: ${reason || 'Not specified'}`);
       return newBalance;
     } catch (error) {
@@ -83,8 +178,9 @@ export class CashBalanceService {
   public static async onSellPaymentReceived(
     buyerName: string,
     amount: number,
+    source?: CashMovementSource,
   ): Promise<number> {
-    return this.addToBalance(amount, `Payment received from ${buyerName}`);
+    return this.addToBalance(amount, `Payment received from ${buyerName}`, {sourceType: 'SELL', ...source});
   }
 
   /**
@@ -93,8 +189,9 @@ export class CashBalanceService {
   public static async onBuyPaymentMade(
     supplierName: string,
     amount: number,
+    source?: CashMovementSource,
   ): Promise<number> {
-    return this.subtractFromBalance(amount, `Payment made to ${supplierName}`);
+    return this.subtractFromBalance(amount, `Payment made to ${supplierName}`, {sourceType: 'BUY', ...source});
   }
 
   /**
@@ -103,9 +200,9 @@ export class CashBalanceService {
   public static async onExpensePayment(
     expenseName: string,
     amount: number,
+    source?: CashMovementSource,
   ): Promise<number> {
-    console.log(`onExpensePayment: expenseName=${expenseName}, amount=${amount}`);
-    return this.subtractFromBalance(amount, `Expense: ${expenseName}`);
+    return this.subtractFromBalance(amount, `Expense: ${expenseName}`, {sourceType: 'EXPENSE', ...source});
   }
 
   /**
@@ -114,8 +211,9 @@ export class CashBalanceService {
   public static async onLendMoney(
     personName: string,
     amount: number,
+    source?: CashMovementSource,
   ): Promise<number> {
-    return this.subtractFromBalance(amount, `Lent money to ${personName}`);
+    return this.subtractFromBalance(amount, `Lent money to ${personName}`, {sourceType: 'LEND', ...source});
   }
 
   /**
@@ -124,8 +222,9 @@ export class CashBalanceService {
   public static async onLendRepayment(
     personName: string,
     amount: number,
+    source?: CashMovementSource,
   ): Promise<number> {
-    return this.addToBalance(amount, `Repayment from ${personName}`);
+    return this.addToBalance(amount, `Repayment from ${personName}`, {sourceType: 'PAYMENT', ...source});
   }
 
   /**
@@ -133,7 +232,8 @@ export class CashBalanceService {
    */
   public static async getLastUpdateTime(): Promise<string | null> {
     try {
-      return await AsyncStorage.getItem(this.LAST_BALANCE_UPDATE_KEY);
+      const repo = await this.getRepository();
+      return await repo.getLastEntryTime();
     } catch (error) {
       console.error('Error getting last update time:', error);
       return null;
@@ -141,18 +241,14 @@ export class CashBalanceService {
   }
 
   /**
-   * Reset balance (use with caution)
+   * Reset balance (use with caution); posts an adjustment bringing the balance to 0
    */
   public static async resetBalance(): Promise<boolean> {
-    try {
-      await AsyncStorage.setItem(this.CASH_BALANCE_KEY, '0');
-      await AsyncStorage.setItem(this.LAST_BALANCE_UPDATE_KEY, new Date().toISOString());
+    const success = await this.setBalance(0, 'Balance reset');
+    if (success) {
       console.log('Cash balance reset to 0');
-      return true;
-    } catch (error) {
-      console.error('Error resetting balance:', error);
-      return false;
     }
+    return success;
   }
 }
 
@@ -16,13 +16,67 @@ import firestore, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import {Transaction} from '../models/Transaction';
-import {SyncStatus, CloudTransaction} from '../models/User';
+import {Payment} from '../models/Payment';
+import {Party, PartyType} from '../models/Party';
+import {StockRecord, StockRecordType} from '../models/StockRecord';
+import {SyncStatus, CloudTransaction, CloudPayment, CloudParty, CloudStockRecord} from '../models/User';
+import {SyncConflictGroup, SyncConflictResolution} from '../models/SyncConflict';
 import AuthService from './AuthService';
 import TransactionService from './TransactionService';
 import CashBalanceService from './CashBalanceService';
 import DailyResetService from './DailyResetService';
 import DatabaseService from '../database/DatabaseService';
+import {OutboxOperation, SyncOutboxItem} from '../models/SyncOutbox';
 import RemoteLocalMappingRepository from '../repositories/RemoteLocalMappingRepository';
+import SyncShadowRepository from '../repositories/SyncShadowRepository';
+import SyncConflictRepository from '../repositories/SyncConflictRepository';
+import SyncOutboxRepository from '../repositories/SyncOutboxRepository';
+import {mergeRecords, sameRecordContent} from '../utils/syncMerge';
+import {getReceiptNumber} from '../utils/receipt';
+import {sha256} from '../utils/crypto';
+import {bytesToBase64, utf8ToBytes} from '../utils/base64';
+
+type PendingEntityType = 'TRANSACTION' | 'PAYMENT' | PartyType | StockRecordType;
+type SyncedCollection =
+  | 'transactions'
+  | 'payments'
+  | 'farmers'
+  | 'merchants'
+  | 'customers'
+  | 'storageLocations'
+  | 'stockTransfers'
+  | 'stockAdjustments'
+  | 'grains';
+
+// Outbox entity type of the records in each synced collection
+const COLLECTION_ENTITY_TYPES: Record<SyncedCollection, PendingEntityType> = {
+  transactions: 'TRANSACTION',
+  payments: 'PAYMENT',
+  farmers: 'FARMER',
+  merchants: 'MERCHANT',
+  customers: 'CUSTOMER',
+  storageLocations: 'LOCATION',
+  stockTransfers: 'TRANSFER',
+  stockAdjustments: 'ADJUSTMENT',
+  grains: 'GRAIN',
+};
+
+// Party master data lives in one collection per party type, keyed by phone number
+const PARTY_COLLECTIONS: Record<PartyType, SyncedCollection> = {
+  FARMER: 'farmers',
+  MERCHANT: 'merchants',
+  CUSTOMER: 'customers',
+};
+const PARTY_TYPES = Object.keys(PARTY_COLLECTIONS) as PartyType[];
+
+// Stock masters and movements live in one collection per record type, keyed by record id
+const STOCK_RECORD_COLLECTIONS: Record<StockRecordType, SyncedCollection> = {
+  LOCATION: 'storageLocations',
+  TRANSFER: 'stockTransfers',
+  ADJUSTMENT: 'stockAdjustments',
+  GRAIN: 'grains',
+};
+const STOCK_RECORD_TYPES = Object.keys(STOCK_RECORD_COLLECTIONS) as StockRecordType[];
 
 /**
  * Cloud Backup Service with Real-time Synchronization
@@ -31,14 +85,23 @@ import RemoteLocalMappingRepository from '../repositories/RemoteLocalMappingRepo
 class CloudBackupService {
   private syncInProgress = false;
   private readonly LAST_SYNC_KEY = 'last_sync_timestamp';
-  private readonly PENDING_UPLOADS_KEY = 'pending_uploads';
-  private readonly PENDING_DELETES_KEY = 'pending_deletes';
-  private readonly PENDING_META_KEY = 'pending_meta';
-  private readonly FAILED_UPLOADS_KEY = 'failed_uploads';
+  // AsyncStorage queues of older builds, moved into sync_outbox on first use
+  private readonly LEGACY_PENDING_UPLOADS_KEY = 'pending_uploads';
+  private readonly LEGACY_PENDING_DELETES_KEY = 'pending_deletes';
+  private readonly LEGACY_PENDING_META_KEY = 'pending_meta';
+  private readonly LEGACY_FAILED_UPLOADS_KEY = 'failed_uploads';
+  private readonly META_ENTITY_ID = 'state';
   // Backoff strategy params
   private readonly BASE_BACKOFF_MS = 60 * 1000; // 1 minute
   private readonly MAX_BACKOFF_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly MAX_OUTBOX_ATTEMPTS = 5; // Then the item is marked FAILED
   private mappingRepo: RemoteLocalMappingRepository | null = null;
+  private outboxRepo: SyncOutboxRepository | null = null;
+  private legacyQueuesImported = false;
+  private outboxInProgress = false;
+  private outboxRerun = new Set<OutboxOperation>(); // Operations asked for while a pass was running
+  private shadowRepo: SyncShadowRepository | null = null;
+  private conflictRepo: SyncConflictRepository | null = null;
   private netUnsubscribe: (() => void) | null = null;
 
   // Permission-denied retry policy
@@ -106,7 +169,7 @@ class CloudBackupService {
       // Initialize database and mapping repo
       await DatabaseService.initDatabase();
       if (!this.mappingRepo) {
-        this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
+        this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
       }
 
       // Clear any existing listeners before setting up new ones
@@ -135,47 +198,72 @@ class CloudBackupService {
             console.error('Error handling real-time transaction changes:', error);
           }
         },
-        (error: any) => {
-          console.error('Real-time transactions listener error:', error);
-          console.error('Listener error details:', {
-            code: (error as any)?.code,
-            message: error?.message,
-            userId: user.uid,
-          });
+        (error: any) => this.handleRealtimeListenerError('transactions', error, user.uid),
+      );
 
-          // Handle permission-denied transiently (auth token/rules propagation race)
-          if ((error as any)?.code === 'permission-denied' || error?.message?.includes('permission-denied')) {
-            if (this.permissionRetryCount < this.MAX_PERMISSION_RETRIES) {
-              const backoff = this.PERMISSION_RETRY_BASE_MS * Math.pow(2, this.permissionRetryCount);
-              console.warn(`Permission denied on transactions listener. Retrying in ${backoff}ms (attempt ${this.permissionRetryCount + 1})`);
-              this.permissionRetryCount++;
-              // Ensure listeners are cleaned up before retrying
-              try { this.stopRealtimeSync(); } catch (e) { /* ignore */ }
-              setTimeout(() => {
-                console.log('Retrying real-time transactions listener after permission-denied');
-                this.startRealtimeSync().catch(console.error);
-              }, backoff);
-            } else {
-              console.error('Max permission-denied retries reached for transactions listener. Giving up until next auth change.');
-            }
-            return;
-          }
+      // Set up real-time listener for payments collection
+      const paymentsQuery = fbQuery(
+        collection(db, 'users', user.uid, 'payments'),
+        fbOrderBy('updatedAt', 'desc'),
+        fbLimit(100),
+      );
 
-          // If it's a memory error, temporarily disable real-time sync
-          if ((error as any)?.code === 'resource-exhausted' ||
-              error?.message?.includes('OutOfMemory') ||
-              error?.message?.includes('memory')) {
-            console.warn('Memory error detected, temporarily disabling real-time sync');
-            this.stopRealtimeSync();
-            // Try to re-enable after 5 minutes
-            setTimeout(() => {
-              console.log('Attempting to re-enable real-time sync after memory error');
-              this.startRealtimeSync().catch(console.error);
-            }, 5 * 60 * 1000);
+      this.realtimeListeners.payments = fbOnSnapshot(
+        paymentsQuery,
+        async (snapshot: FirebaseFirestoreTypes.QuerySnapshot) => {
+          try {
+            await this.handleRealtimePaymentChanges(snapshot);
+          } catch (error) {
+            console.error('Error handling real-time payment changes:', error);
           }
-        }
+        },
+        (error: any) => this.handleRealtimeListenerError('payments', error, user.uid),
       );
 
+      // Set up real-time listeners for party master data (farmers, merchants, customers)
+      for (const partyType of PARTY_TYPES) {
+        const collectionName = PARTY_COLLECTIONS[partyType];
+        const partiesQuery = fbQuery(
+          collection(db, 'users', user.uid, collectionName),
+          fbOrderBy('updatedAt', 'desc'),
+          fbLimit(100),
+        );
+
+        this.realtimeListeners[collectionName] = fbOnSnapshot(
+          partiesQuery,
+          async (snapshot: FirebaseFirestoreTypes.QuerySnapshot) => {
+            try {
+              await this.handleRealtimePartyChanges(partyType, snapshot);
+            } catch (error) {
+              console.error(`Error handling real-time ${collectionName} changes:`, error);
+            }
+          },
+          (error: any) => this.handleRealtimeListenerError(collectionName, error, user.uid),
+        );
+      }
+
+      // Set up real-time listeners for storage locations, stock transfers, adjustments and grains
+      for (const recordType of STOCK_RECORD_TYPES) {
+        const collectionName = STOCK_RECORD_COLLECTIONS[recordType];
+        const recordsQuery = fbQuery(
+          collection(db, 'users', user.uid, collectionName),
+          fbOrderBy('updatedAt', 'desc'),
+          fbLimit(100),
+        );
+
+        this.realtimeListeners[collectionName] = fbOnSnapshot(
+          recordsQuery,
+          async (snapshot: FirebaseFirestoreTypes.QuerySnapshot) => {
+            try {
+              await this.handleRealtimeStockRecordChanges(recordType, snapshot);
+            } catch (error) {
+              console.error(`Error handling real-time ${collectionName} changes:`, error);
+            }
+          },
+          (error: any) => this.handleRealtimeListenerError(collectionName, error, user.uid),
+        );
+      }
+
       // Set up real-time listener for user meta (cash balance, etc.)
       const metaDocRef = doc(collection(db, 'users', user.uid, 'meta'), 'state');
 
@@ -189,44 +277,7 @@ class CloudBackupService {
             console.error('Document data:', docSnap?.data?.());
           }
         },
-        (error: any) => {
-          console.error('Real-time meta listener error:', error);
-          console.error('Listener error details:', {
-            code: (error as any)?.code,
-            message: error?.message,
-            userId: user.uid,
-          });
-
-          // Handle permission-denied transiently (auth token/rules propagation race)
-          if ((error as any)?.code === 'permission-denied' || error?.message?.includes('permission-denied')) {
-            if (this.permissionRetryCount < this.MAX_PERMISSION_RETRIES) {
-              const backoff = this.PERMISSION_RETRY_BASE_MS * Math.pow(2, this.permissionRetryCount);
-              console.warn(`Permission denied on meta listener. Retrying in ${backoff}ms (attempt ${this.permissionRetryCount + 1})`);
-              this.permissionRetryCount++;
-              try { this.stopRealtimeSync(); } catch (e) { /* ignore */ }
-              setTimeout(() => {
-                console.log('Retrying real-time meta listener after permission-denied');
-                this.startRealtimeSync().catch(console.error);
-              }, backoff);
-            } else {
-              console.error('Max permission-denied retries reached for meta listener. Giving up until next auth change.');
-            }
-            return;
-          }
-
-          // If it's a memory error, temporarily disable real-time sync
-          if ((error as any)?.code === 'resource-exhausted' ||
-              error?.message?.includes('OutOfMemory') ||
-              error?.message?.includes('memory')) {
-            console.warn('Memory error in meta listener detected, temporarily disabling real-time sync');
-            this.stopRealtimeSync();
-            // Try to re-enable after 5 minutes
-            setTimeout(() => {
-              console.log('Attempting to re-enable real-time sync after meta memory error');
-              this.startRealtimeSync().catch(console.error);
-            }, 5 * 60 * 1000);
-          }
-        }
+        (error: any) => this.handleRealtimeListenerError('meta', error, user.uid),
       );
 
       console.log('Real-time synchronization enabled successfully');
@@ -239,6 +290,50 @@ class CloudBackupService {
     }
   }
 
+  /**
+   * Shared error handling for real-time listeners
+   * Retries permission-denied with exponential backoff and pauses sync on memory pressure
+   */
+  private handleRealtimeListenerError(listenerName: string, error: any, userId: string): void {
+    console.error(`Real-time ${listenerName} listener error:`, error);
+    console.error('Listener error details:', {
+      code: (error as any)?.code,
+      message: error?.message,
+      userId,
+    });
+
+    // Handle permission-denied transiently (auth token/rules propagation race)
+    if ((error as any)?.code === 'permission-denied' || error?.message?.includes('permission-denied')) {
+      if (this.permissionRetryCount < this.MAX_PERMISSION_RETRIES) {
+        const backoff = this.PERMISSION_RETRY_BASE_MS * Math.pow(2, this.permissionRetryCount);
+        console.warn(`Permission denied on ${listenerName} listener. Retrying in ${backoff}ms (attempt ${this.permissionRetryCount + 1})`);
+        this.permissionRetryCount++;
+        // Ensure listeners are cleaned up before retrying
+        try { this.stopRealtimeSync(); } catch (e) { /* ignore */ }
+        setTimeout(() => {
+          console.log(`Retrying real-time ${listenerName} listener after permission-denied`);
+          this.startRealtimeSync().catch(console.error);
+        }, backoff);
+      } else {
+        console.error(`Max permission-denied retries reached for ${listenerName} listener. Giving up until next auth change.`);
+      }
+      return;
+    }
+
+    // If it's a memory error, temporarily disable real-time sync
+    if ((error as any)?.code === 'resource-exhausted' ||
+        error?.message?.includes('OutOfMemory') ||
+        error?.message?.includes('memory')) {
+      console.warn(`Memory error in ${listenerName} listener detected, temporarily disabling real-time sync`);
+      this.stopRealtimeSync();
+      // Try to re-enable after 5 minutes
+      setTimeout(() => {
+        console.log(`Attempting to re-enable real-time sync after ${listenerName} memory error`);
+        this.startRealtimeSync().catch(console.error);
+      }, 5 * 60 * 1000);
+    }
+  }
+
   /**
    * Stop real-time synchronization
    */
@@ -345,7 +440,7 @@ class CloudBackupService {
             : parseFloat(cloudMeta.cashBalance);
 
           if (!isNaN(balanceValue)) {
-            await CashBalanceService.setBalance(balanceValue);
+            await CashBalanceService.setBalance(balanceValue, 'Synced from cloud');
             console.log('Synced cash balance from cloud:', balanceValue);
           } else {
             console.error('Invalid cash balance value from cloud:', cloudMeta.cashBalance);
@@ -375,25 +470,12 @@ class CloudBackupService {
         console.log(`Syncing new transaction from cloud: ${transaction.id}`);
         await this.createLocalTransaction(cloudTransaction, remoteId);
       } else {
-        // Existing transaction - check which one is newer
-        const cloudTime = (cloudTransaction as any).serverUpdatedAt?.toDate?.() || new Date(cloudTransaction.updatedAt);
-        const localTime = new Date(existingTransaction.updatedAt);
-
-        if (cloudTime > localTime) {
-          // Cloud is newer, update local
-          console.log(`Updating local transaction from cloud: ${transaction.id}`);
-          await this.updateLocalTransaction(transaction);
-
-          // Notify UI about the change (if needed)
+        // Existing transaction - merge field by field; if only local changed, it will be uploaded via auto-sync
+        const {downloaded} = await this.mergeCloudTransaction(existingTransaction, cloudTransaction, this.currentUserId);
+        if (downloaded) {
+          console.log(`Merged cloud changes into local transaction: ${transaction.id}`);
           this.notifyTransactionUpdated(transaction.id);
-        } else if (cloudTime.getTime() === localTime.getTime()) {
-          // Same timestamp - check if content is different (conflict)
-          if (this.hasTransactionConflict(existingTransaction, transaction)) {
-            console.log(`Conflict detected for transaction: ${transaction.id}`);
-            await this.resolveTransactionConflict(existingTransaction, transaction);
-          }
         }
-        // If local is newer, it will be uploaded via auto-sync
       }
     } catch (error) {
       console.error('Error syncing transaction from cloud:', error);
@@ -401,65 +483,202 @@ class CloudBackupService {
   }
 
   /**
-   * Check if two transactions have conflicting changes
+   * Merge the cloud version of a transaction into the local copy.
+   *
+   * The sync shadow (the last version both sides agreed on) is the merge base, so
+   * edits to different fields on two devices are both kept. Financial fields changed
+   * on both sides keep the local value and are queued as conflicts; until they are
+   * resolved, uploads carry the cloud's value for those fields so the other device
+   * does not take this device's value silently. Records synced before shadows
+   * existed have no base and fall back to last-write-wins.
    */
-  private hasTransactionConflict(local: Transaction, remote: Transaction): boolean {
-    // Compare common fields
-    if (local.date !== remote.date || local.description !== remote.description) {
-      return true;
+  private async mergeCloudTransaction(
+    local: Transaction,
+    cloudTransaction: CloudTransaction,
+    userId: string | null,
+  ): Promise<{downloaded: boolean; uploaded: boolean}> {
+    const remote = cloudTransaction.data as Transaction;
+    const cloudTime: Date = (cloudTransaction as any).serverUpdatedAt?.toDate?.() || new Date(cloudTransaction.updatedAt || remote.updatedAt);
+    const remoteIsNewer = cloudTime > new Date(local.updatedAt);
+    const shadowRepo = this.getShadowRepo();
+
+    if (sameRecordContent(local, remote)) {
+      await shadowRepo.saveSnapshot('TRANSACTION', local.id, remote);
+      return {downloaded: false, uploaded: false};
     }
 
-    // Compare type-specific fields
-    switch (local.transactionType) {
-      case 'BUY':
-        const localBuy = local as any;
-        const remoteBuy = remote as any;
-        return localBuy.totalAmount !== remoteBuy.totalAmount ||
-               localBuy.supplierName !== remoteBuy.supplierName ||
-               localBuy.grainType !== remoteBuy.grainType;
+    const base = await shadowRepo.getSnapshot<Transaction>('TRANSACTION', local.id);
+    if (!base) {
+      if (remoteIsNewer) {
+        await this.updateLocalTransaction(remote);
+        await shadowRepo.saveSnapshot('TRANSACTION', local.id, remote);
+        return {downloaded: true, uploaded: false};
+      }
+      if (userId) {
+        await this.uploadSingleTransaction(local, userId);
+        return {downloaded: false, uploaded: true};
+      }
+      return {downloaded: false, uploaded: false};
+    }
 
-      case 'SELL':
-        const localSell = local as any;
-        const remoteSell = remote as any;
-        return localSell.totalAmount !== remoteSell.totalAmount ||
-               localSell.buyerName !== remoteSell.buyerName ||
-               localSell.grainType !== remoteSell.grainType;
+    const {merged, conflicts} = mergeRecords(base, local, remote, remoteIsNewer);
+    for (const conflict of conflicts) {
+      console.log(`Conflict on ${conflict.field} for transaction ${local.id}, queued for review`);
+      await this.getConflictRepo().upsertOpen({
+        entityType: 'TRANSACTION',
+        entityId: local.id,
+        transactionType: local.transactionType,
+        field: conflict.field,
+        baseValue: conflict.base,
+        localValue: conflict.local,
+        remoteValue: conflict.remote,
+        remoteUpdatedAt: cloudTime.toISOString(),
+      });
+    }
 
-      case 'LEND':
-        const localLend = local as any;
-        const remoteLend = remote as any;
-        return localLend.amount !== remoteLend.amount ||
-               localLend.personName !== remoteLend.personName;
+    // The merged record is a new edit unless it is exactly the cloud version
+    const matchesRemote = sameRecordContent(merged, remote);
+    const result = {...merged, updatedAt: matchesRemote ? remote.updatedAt : new Date().toISOString()} as Transaction;
 
-      case 'EXPENSE':
-        const localExpense = local as any;
-        const remoteExpense = remote as any;
-        return localExpense.amount !== remoteExpense.amount ||
-               localExpense.expenseName !== remoteExpense.expenseName;
+    const downloaded = !sameRecordContent(merged, local);
+    if (downloaded) {
+      await this.updateLocalTransaction(result);
+    }
+    await shadowRepo.saveSnapshot('TRANSACTION', local.id, remote);
 
-      default:
-        return false;
+    let uploaded = false;
+    if (userId && !sameRecordContent(await this.withConflictValues(result), remote)) {
+      await this.uploadSingleTransaction(result, userId);
+      uploaded = true;
     }
+    return {downloaded, uploaded};
   }
 
   /**
-   * Resolve transaction conflicts (last write wins strategy)
+   * The transaction as it should be uploaded: fields with an open conflict carry
+   * the cloud's value until the user picks a side
    */
-  private async resolveTransactionConflict(local: Transaction, remote: Transaction): Promise<void> {
-    // For now, use last-write-wins strategy
-    // In the future, this could be enhanced with conflict resolution UI
-    const localTime = new Date(local.updatedAt).getTime();
-    const remoteTime = new Date(remote.updatedAt).getTime();
+  private async withConflictValues(transaction: Transaction): Promise<Transaction> {
+    const conflicts = await this.getConflictRepo().findOpenByEntity('TRANSACTION', transaction.id);
+    if (conflicts.length === 0) return transaction;
 
-    if (remoteTime > localTime) {
-      // Remote is newer, update local
-      console.log(`Resolving conflict: accepting remote version for ${local.id}`);
-      await this.updateLocalTransaction(remote);
-      this.notifyTransactionUpdated(local.id);
-    } else {
-      // Local is newer or equal, keep local and upload it
-      console.log(`Resolving conflict: keeping local version for ${local.id}`);
-      // The local version will be uploaded via auto-sync
+    const outgoing: any = {...transaction};
+    conflicts.forEach(conflict => {
+      outgoing[conflict.field] = conflict.remoteValue;
+    });
+    return outgoing as Transaction;
+  }
+
+  /**
+   * Record the version of a transaction now held by the cloud
+   */
+  private async saveSyncShadow(transaction: Transaction): Promise<void> {
+    try {
+      await DatabaseService.initDatabase();
+      await this.getShadowRepo().saveSnapshot('TRANSACTION', transaction.id, transaction);
+    } catch (e) {
+      console.warn('Failed to save sync shadow for transaction', transaction.id, e);
+    }
+  }
+
+  /**
+   * Drop merge state of a transaction that no longer exists
+   */
+  private async clearSyncState(transactionId: string): Promise<void> {
+    try {
+      await DatabaseService.initDatabase();
+      await this.getShadowRepo().deleteSnapshot('TRANSACTION', transactionId);
+      await this.getConflictRepo().deleteByEntity('TRANSACTION', transactionId);
+    } catch (e) {
+      console.warn('Failed to clear sync state for transaction', transactionId, e);
+    }
+  }
+
+  /**
+   * Number of open sync conflicts waiting for review
+   */
+  public async getOpenConflictCount(): Promise<number> {
+    await DatabaseService.initDatabase();
+    return this.getConflictRepo().countOpen();
+  }
+
+  /**
+   * Open sync conflicts grouped by transaction, newest first
+   */
+  public async getConflictGroups(): Promise<SyncConflictGroup[]> {
+    await DatabaseService.initDatabase();
+    const conflicts = await this.getConflictRepo().findOpen();
+    const groups = new Map<string, SyncConflictGroup>();
+
+    for (const conflict of conflicts) {
+      let group = groups.get(conflict.entityId);
+      if (!group) {
+        const local = await this.getLocalTransactionById(conflict.entityId);
+        group = {
+          entityId: conflict.entityId,
+          transactionType: conflict.transactionType,
+          title: local ? this.describeTransaction(local) : 'Deleted transaction',
+          date: local?.date,
+          conflicts: [],
+        };
+        groups.set(conflict.entityId, group);
+      }
+      group.conflicts.push(conflict);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Settle every open conflict of a transaction with one side's values, then upload
+   * the result so other devices pick it up
+   */
+  public async resolveConflicts(transactionId: string, resolution: SyncConflictResolution): Promise<void> {
+    await DatabaseService.initDatabase();
+    const conflictRepo = this.getConflictRepo();
+    const conflicts = await conflictRepo.findOpenByEntity('TRANSACTION', transactionId);
+    if (conflicts.length === 0) return;
+
+    const local = await this.getLocalTransactionById(transactionId);
+    if (!local) {
+      await conflictRepo.resolveEntity('TRANSACTION', transactionId, resolution);
+      return;
+    }
+
+    const resolved: any = {...local, updatedAt: new Date().toISOString()};
+    if (resolution === 'REMOTE') {
+      conflicts.forEach(conflict => {
+        resolved[conflict.field] = conflict.remoteValue;
+      });
+    }
+    await this.updateLocalTransaction(resolved as Transaction);
+    await conflictRepo.resolveEntity('TRANSACTION', transactionId, resolution);
+
+    const user = await AuthService.getCurrentUser();
+    if (!user) return;
+    try {
+      await this.uploadSingleTransaction(resolved as Transaction, user.uid);
+    } catch (e) {
+      // Queued for retry by uploadSingleTransaction
+      console.warn('Failed to upload resolved transaction', transactionId, e);
+    }
+  }
+
+  /**
+   * "Ram Singh · INV-12" style label for a transaction
+   */
+  private describeTransaction(transaction: Transaction): string {
+    switch (transaction.transactionType) {
+      case 'BUY':
+        return `${transaction.supplierName} · ${getReceiptNumber('BUY', transaction.id, transaction.invoiceNumber)}`;
+      case 'SELL':
+        return `${transaction.buyerName} · ${getReceiptNumber('SELL', transaction.id, transaction.invoiceNumber)}`;
+      case 'LEND':
+        return `${transaction.personName} · ${getReceiptNumber('LEND', transaction.id, transaction.invoiceNumber)}`;
+      case 'EXPENSE':
+        return transaction.expenseName || transaction.expenseCategory;
+      default:
+        return 'Transaction';
     }
   }
 
@@ -506,22 +725,243 @@ class CloudBackupService {
           break;
       }
 
-      // Remove the mapping
+      // Remove the mapping and merge state
       await this.mappingRepo.deleteByRemoteId(remoteId);
+      await this.clearSyncState(mapping.localId);
     } catch (error) {
       console.error('Error deleting transaction from cloud sync:', error);
     }
   }
 
+  /**
+   * Handle real-time payment changes from Firestore
+   */
+  private async handleRealtimePaymentChanges(snapshot: FirebaseFirestoreTypes.QuerySnapshot): Promise<void> {
+    if (!this.currentUserId) return;
+
+    const changes = snapshot.docChanges();
+
+    // Limit processing to prevent memory issues
+    const maxChangesToProcess = 50;
+    const changesToProcess = changes.slice(0, maxChangesToProcess);
+
+    if (changes.length > maxChangesToProcess) {
+      console.warn(`Too many payment changes (${changes.length}), processing only first ${maxChangesToProcess}`);
+    }
+
+    for (const change of changesToProcess) {
+      try {
+        const docId = change.doc.id;
+        const cloudPayment = change.doc.data() as CloudPayment;
+
+        switch (change.type) {
+          case 'added':
+          case 'modified':
+            await this.syncPaymentFromCloud(cloudPayment, docId);
+            break;
+          case 'removed':
+            await this.deletePaymentFromCloud(docId);
+            break;
+        }
+      } catch (error) {
+        console.error('Error processing real-time payment change:', error);
+        // Continue processing other changes even if one fails
+      }
+    }
+  }
+
+  /**
+   * Sync a single payment from cloud to local database
+   * Only the payment row is written; the parent transaction's balances arrive with its own sync
+   */
+  private async syncPaymentFromCloud(cloudPayment: CloudPayment, remoteId: string): Promise<void> {
+    try {
+      const payment = cloudPayment.data;
+      if (!payment || !payment.id) return;
+
+      const existing = await TransactionService.getPayment(payment.id);
+      if (!existing) {
+        console.log(`Syncing new payment from cloud: ${payment.id}`);
+        await this.createLocalPayment(cloudPayment, remoteId);
+        return;
+      }
+
+      const cloudTime = (cloudPayment as any).serverUpdatedAt?.toDate?.() || new Date(cloudPayment.updatedAt);
+      const localTime = new Date(existing.updatedAt);
+      if (cloudTime > localTime) {
+        console.log(`Updating local payment from cloud: ${payment.id}`);
+        const {id, createdAt, updatedAt, ...data} = payment;
+        await TransactionService.updatePaymentFromCloud(id, data, updatedAt);
+      }
+    } catch (error) {
+      console.error('Error syncing payment from cloud:', error);
+    }
+  }
+
+  /**
+   * Create a local payment from a cloud doc. Returns true if a new row was created.
+   */
+  private async createLocalPayment(cloudPayment: CloudPayment, remoteId?: string): Promise<boolean> {
+    const payment = cloudPayment.data;
+    if (!payment || !payment.id) return false;
+
+    const existing = await TransactionService.getPayment(payment.id);
+    if (existing) return false;
+
+    await TransactionService.createPaymentFromCloud(payment);
+    try {
+      await this.getMappingRepo().createMapping(remoteId || payment.id, payment.id, 'PAYMENT');
+    } catch (e) {
+      console.warn('Failed to create mapping for payment from cloud:', payment.id, e);
+    }
+    return true;
+  }
+
+  /**
+   * Delete a payment locally when deleted from cloud
+   */
+  private async deletePaymentFromCloud(remoteId: string): Promise<void> {
+    try {
+      const mappingRepo = this.getMappingRepo();
+      const mapping = await mappingRepo.findByRemoteId(remoteId);
+      const localId = mapping?.localId || remoteId;
+
+      const localPayment = await TransactionService.getPayment(localId);
+      if (localPayment) {
+        console.log(`Deleting local payment synced from cloud: ${localId}`);
+        await TransactionService.deletePaymentFromCloud(localId);
+      }
+
+      await mappingRepo.deleteByRemoteId(remoteId);
+    } catch (error) {
+      console.error('Error deleting payment from cloud sync:', error);
+    }
+  }
+
+  /**
+   * Handle real-time party (farmer/merchant/customer) changes from Firestore
+   */
+  private async handleRealtimePartyChanges(partyType: PartyType, snapshot: FirebaseFirestoreTypes.QuerySnapshot): Promise<void> {
+    if (!this.currentUserId) return;
+
+    for (const change of snapshot.docChanges()) {
+      try {
+        const cloudParty = change.doc.data() as CloudParty;
+        switch (change.type) {
+          case 'added':
+          case 'modified':
+            await this.syncPartyFromCloud(partyType, cloudParty);
+            break;
+          case 'removed':
+            await TransactionService.deletePartyFromCloud(partyType, change.doc.id);
+            break;
+        }
+      } catch (error) {
+        console.error(`Error processing real-time ${partyType.toLowerCase()} change:`, error);
+      }
+    }
+  }
+
+  /**
+   * Apply a cloud party locally if it is new or newer than the local copy.
+   * Returns true if the local table was changed.
+   */
+  private async syncPartyFromCloud(partyType: PartyType, cloudParty: CloudParty): Promise<boolean> {
+    const party = cloudParty.data;
+    if (!party || !party.phoneNumber) return false;
+
+    const existing = await TransactionService.getPartyByPhone(partyType, party.phoneNumber);
+    if (existing && new Date(existing.updatedAt) >= new Date(party.updatedAt)) {
+      // Local is newer or equal, it will be uploaded via sync
+      return false;
+    }
+
+    await TransactionService.upsertPartyFromCloud(partyType, party);
+    return true;
+  }
+
+  /**
+   * Handle real-time storage location, stock transfer and adjustment changes from Firestore
+   */
+  private async handleRealtimeStockRecordChanges(
+    recordType: StockRecordType,
+    snapshot: FirebaseFirestoreTypes.QuerySnapshot,
+  ): Promise<void> {
+    if (!this.currentUserId) return;
+
+    for (const change of snapshot.docChanges()) {
+      try {
+        switch (change.type) {
+          case 'added':
+          case 'modified':
+            await this.syncStockRecordFromCloud(recordType, change.doc.data() as CloudStockRecord);
+            break;
+          case 'removed':
+            await TransactionService.deleteStockRecordFromCloud(recordType, change.doc.id);
+            break;
+        }
+      } catch (error) {
+        console.error(`Error processing real-time ${recordType.toLowerCase()} change:`, error);
+      }
+    }
+  }
+
+  /**
+   * Apply a cloud stock record locally if it is new or newer than the local copy.
+   * Returns true if the local table was changed.
+   */
+  private async syncStockRecordFromCloud(recordType: StockRecordType, cloudRecord: CloudStockRecord): Promise<boolean> {
+    const record = cloudRecord.data;
+    if (!record || !record.id) return false;
+
+    const existing = await TransactionService.getStockRecord(recordType, record.id);
+    if (existing && new Date(existing.updatedAt) >= new Date(record.updatedAt)) {
+      // Local is newer or equal, it will be uploaded via sync
+      return false;
+    }
+
+    await TransactionService.upsertStockRecordFromCloud(recordType, record);
+    return true;
+  }
+
+  /**
+   * Lazily create the remote-local mapping repository (database must already be initialized)
+   */
+  private getMappingRepo(): RemoteLocalMappingRepository {
+    if (!this.mappingRepo) {
+      this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
+    }
+    return this.mappingRepo;
+  }
+
+  private getShadowRepo(): SyncShadowRepository {
+    if (!this.shadowRepo) {
+      this.shadowRepo = new SyncShadowRepository(DatabaseService.getQueuedDatabase());
+    }
+    return this.shadowRepo;
+  }
+
+  private getConflictRepo(): SyncConflictRepository {
+    if (!this.conflictRepo) {
+      this.conflictRepo = new SyncConflictRepository(DatabaseService.getQueuedDatabase());
+    }
+    return this.conflictRepo;
+  }
+
+  private getOutboxRepo(): SyncOutboxRepository {
+    if (!this.outboxRepo) {
+      this.outboxRepo = new SyncOutboxRepository(DatabaseService.getQueuedDatabase());
+    }
+    return this.outboxRepo;
+  }
+
   /**
    * Return number of pending uploads (queued items)
    */
   public async getPendingUploadsCount(): Promise<number> {
     try {
-      const raw = await AsyncStorage.getItem(this.PENDING_UPLOADS_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      const normalized = list.map((item: any) => (typeof item === 'string' ? {transactionId: item} : item));
-      return normalized.length;
+      await this.openOutbox();
+      return await this.getOutboxRepo().count(['UPLOAD']);
     } catch (e) {
       return 0;
     }
@@ -532,8 +972,8 @@ class CloudBackupService {
    */
   public async hasPendingMeta(): Promise<boolean> {
     try {
-      const raw = await AsyncStorage.getItem(this.PENDING_META_KEY);
-      return !!raw;
+      await this.openOutbox();
+      return (await this.getOutboxRepo().count(['META'])) > 0;
     } catch (e) {
       return false;
     }
@@ -547,64 +987,273 @@ class CloudBackupService {
     const netState = await NetInfo.fetch();
     if (!netState.isConnected) {
       console.log(`No network - enqueuing transaction ${transaction.id} for later upload`);
-      await this.enqueuePendingUpload(transaction.id);
+      await this.enqueuePendingUpload(transaction.id, 'TRANSACTION', transaction);
       return;
     }
 
     try {
-      const db = firestore();
-      const docRef = doc(collection(db, 'users', userId, 'transactions'), transaction.id);
-
-      const cloudTransaction: any = {
-        localId: transaction.id,
-        userId: userId,
-        transactionType: transaction.transactionType,
-        data: transaction,
-        syncStatus: SyncStatus.SYNCED,
-        createdAt: transaction.createdAt,
-        // keep client updatedAt for reference
-        updatedAt: transaction.updatedAt,
-        // serverUpdatedAt will be set by Firestore to avoid clock skew
-        serverUpdatedAt: serverTimestamp(),
-        syncedAt: new Date().toISOString(),
-      };
-
-      await setDoc(docRef, cloudTransaction, {merge: true} as any);
-      console.log(`Uploaded transaction ${transaction.id} to cloud`);
+      await this.putTransaction(transaction, userId);
       // If upload succeeds, remove from pending list if present
-      await this.dequeuePendingUpload(transaction.id);
-      // Create mapping record to mark remote<->local relationship
-      try {
-        await DatabaseService.initDatabase();
-        if (!this.mappingRepo) {
-          this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
-        }
-        await this.mappingRepo.createMapping(docRef.id, transaction.id, transaction.transactionType);
-      } catch (e) {
-        console.warn('Failed to create remote-local mapping after upload', e);
-      }
+      await this.dequeuePendingUpload(transaction.id, 'TRANSACTION');
     } catch (error) {
       console.error('Failed to upload transaction to cloud:', error);
       // On network-like errors, enqueue for later
-      await this.enqueuePendingUpload(transaction.id);
+      await this.enqueuePendingUpload(transaction.id, 'TRANSACTION', transaction);
       throw error;
     }
   }
 
   /**
-   * Delete single transaction from cloud
+   * Write a transaction document and record it as the version the cloud holds
    */
-  async deleteSingleTransaction(transactionId: string, userId: string): Promise<boolean> {
-    try {
-      // Resolve remote id from mapping if available. Some uploads may use a different remote id.
-      let remoteId = transactionId;
-      try {
-        await DatabaseService.initDatabase();
-        if (!this.mappingRepo) {
-          this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
-        }
-        const mapping = await this.mappingRepo.findByLocalId(transactionId);
-        if (mapping && mapping.remoteId) {
+  private async putTransaction(transaction: Transaction, userId: string): Promise<void> {
+    await DatabaseService.initDatabase();
+    const data = await this.withConflictValues(transaction);
+    const db = firestore();
+    const docRef = doc(collection(db, 'users', userId, 'transactions'), transaction.id);
+
+    const cloudTransaction: any = {
+      localId: transaction.id,
+      userId: userId,
+      transactionType: transaction.transactionType,
+      data,
+      syncStatus: SyncStatus.SYNCED,
+      createdAt: transaction.createdAt,
+      // keep client updatedAt for reference
+      updatedAt: transaction.updatedAt,
+      // serverUpdatedAt will be set by Firestore to avoid clock skew
+      serverUpdatedAt: serverTimestamp(),
+      syncedAt: new Date().toISOString(),
+    };
+
+    await setDoc(docRef, cloudTransaction, {merge: true} as any);
+    console.log(`Uploaded transaction ${transaction.id} to cloud`);
+    await this.saveSyncShadow(data);
+    // Create mapping record to mark remote<->local relationship
+    try {
+      await this.getMappingRepo().createMapping(docRef.id, transaction.id, transaction.transactionType);
+    } catch (e) {
+      console.warn('Failed to create remote-local mapping after upload', e);
+    }
+  }
+
+  /**
+   * Build the Firestore document for a payment
+   */
+  private buildCloudPayment(payment: Payment, userId: string): any {
+    return {
+      localId: payment.id,
+      userId,
+      transactionId: payment.transactionId,
+      transactionType: payment.transactionType,
+      data: payment,
+      syncStatus: SyncStatus.SYNCED,
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt,
+      serverUpdatedAt: serverTimestamp(),
+      syncedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Upload single payment to cloud (for instant sync)
+   */
+  async uploadSinglePayment(payment: Payment, userId: string): Promise<void> {
+    // If offline, enqueue for later upload
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) {
+      console.log(`No network - enqueuing payment ${payment.id} for later upload`);
+      await this.enqueuePendingUpload(payment.id, 'PAYMENT', payment);
+      return;
+    }
+
+    try {
+      await this.putPayment(payment, userId);
+      await this.dequeuePendingUpload(payment.id, 'PAYMENT');
+    } catch (error) {
+      console.error('Failed to upload payment to cloud:', error);
+      await this.enqueuePendingUpload(payment.id, 'PAYMENT', payment);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a payment document
+   */
+  private async putPayment(payment: Payment, userId: string): Promise<void> {
+    const db = firestore();
+    const docRef = doc(collection(db, 'users', userId, 'payments'), payment.id);
+    await setDoc(docRef, this.buildCloudPayment(payment, userId), {merge: true} as any);
+    console.log(`Uploaded payment ${payment.id} to cloud`);
+    try {
+      await DatabaseService.initDatabase();
+      await this.getMappingRepo().createMapping(docRef.id, payment.id, 'PAYMENT');
+    } catch (e) {
+      console.warn('Failed to create remote-local mapping after payment upload', e);
+    }
+  }
+
+  /**
+   * Delete single payment from cloud
+   */
+  async deleteSinglePayment(paymentId: string, userId: string): Promise<boolean> {
+    let remoteId = paymentId;
+    try {
+      await DatabaseService.initDatabase();
+      const mapping = await this.getMappingRepo().findByLocalId(paymentId);
+      if (mapping && mapping.remoteId) {
+        remoteId = mapping.remoteId;
+      }
+    } catch (e) {
+      console.warn('Failed to lookup payment mapping for delete; will attempt delete using provided id', e);
+    }
+
+    try {
+      const db = firestore();
+      await deleteDoc(doc(collection(db, 'users', userId, 'payments'), remoteId));
+      console.log(`Deleted payment ${remoteId} (requested ${paymentId}) from cloud`);
+      try {
+        await this.getMappingRepo().deleteByRemoteId(remoteId);
+      } catch (e) {
+        console.warn('Failed to remove remote-local mapping after payment delete:', e);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to delete payment from cloud:', error);
+      try { await this.enqueuePendingDelete(remoteId, userId, 'payments'); } catch (e) { /* ignore */ }
+      return false;
+    }
+  }
+
+  /**
+   * Build the Firestore document for a party
+   */
+  private buildCloudParty(partyType: PartyType, party: Party, userId: string): any {
+    return {
+      phoneNumber: party.phoneNumber,
+      userId,
+      partyType,
+      data: party,
+      syncStatus: SyncStatus.SYNCED,
+      createdAt: party.createdAt,
+      updatedAt: party.updatedAt,
+      serverUpdatedAt: serverTimestamp(),
+      syncedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Upload single party to cloud (for instant sync)
+   * The document id is the phone number, so two devices creating the same party share one document
+   */
+  async uploadSingleParty(partyType: PartyType, party: Party, userId: string): Promise<void> {
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) {
+      console.log(`No network - enqueuing ${partyType.toLowerCase()} ${party.phoneNumber} for later upload`);
+      await this.enqueuePendingUpload(party.phoneNumber, partyType, party);
+      return;
+    }
+
+    try {
+      await this.putParty(partyType, party, userId);
+      await this.dequeuePendingUpload(party.phoneNumber, partyType);
+    } catch (error) {
+      console.error('Failed to upload party to cloud:', error);
+      await this.enqueuePendingUpload(party.phoneNumber, partyType, party);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a party document
+   */
+  private async putParty(partyType: PartyType, party: Party, userId: string): Promise<void> {
+    const db = firestore();
+    const docRef = doc(collection(db, 'users', userId, PARTY_COLLECTIONS[partyType]), party.phoneNumber);
+    await setDoc(docRef, this.buildCloudParty(partyType, party, userId), {merge: true} as any);
+    console.log(`Uploaded ${partyType.toLowerCase()} ${party.phoneNumber} to cloud`);
+  }
+
+  /**
+   * Build the Firestore document for a stock record
+   */
+  private buildCloudStockRecord(recordType: StockRecordType, record: StockRecord, userId: string): any {
+    return {
+      id: record.id,
+      userId,
+      recordType,
+      data: record,
+      syncStatus: SyncStatus.SYNCED,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      serverUpdatedAt: serverTimestamp(),
+      syncedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Upload a single storage location, stock transfer or adjustment to cloud (for instant sync)
+   */
+  async uploadSingleStockRecord(recordType: StockRecordType, record: StockRecord, userId: string): Promise<void> {
+    const netState = await NetInfo.fetch();
+    if (!netState.isConnected) {
+      console.log(`No network - enqueuing ${recordType.toLowerCase()} ${record.id} for later upload`);
+      await this.enqueuePendingUpload(record.id, recordType, record);
+      return;
+    }
+
+    try {
+      await this.putStockRecord(recordType, record, userId);
+      await this.dequeuePendingUpload(record.id, recordType);
+    } catch (error) {
+      console.error('Failed to upload stock record to cloud:', error);
+      await this.enqueuePendingUpload(record.id, recordType, record);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a stock record document
+   */
+  private async putStockRecord(recordType: StockRecordType, record: StockRecord, userId: string): Promise<void> {
+    const db = firestore();
+    const docRef = doc(collection(db, 'users', userId, STOCK_RECORD_COLLECTIONS[recordType]), record.id);
+    await setDoc(docRef, this.buildCloudStockRecord(recordType, record, userId), {merge: true} as any);
+    console.log(`Uploaded ${recordType.toLowerCase()} ${record.id} to cloud`);
+  }
+
+  /**
+   * Delete a storage location, stock transfer or adjustment from cloud, queueing the delete when it fails
+   */
+  async deleteSingleStockRecord(recordType: StockRecordType, id: string, userId: string): Promise<boolean> {
+    const collectionName = STOCK_RECORD_COLLECTIONS[recordType];
+    try {
+      const db = firestore();
+      await deleteDoc(doc(collection(db, 'users', userId, collectionName), id));
+      await this.dequeuePendingUpload(id, recordType);
+      console.log(`Deleted ${recordType.toLowerCase()} ${id} from cloud`);
+      return true;
+    } catch (error) {
+      console.error('Failed to delete stock record from cloud:', error);
+      await this.enqueuePendingDelete(id, userId, collectionName);
+      return false;
+    }
+  }
+
+  /**
+   * Delete single transaction from cloud
+   */
+  async deleteSingleTransaction(transactionId: string, userId: string): Promise<boolean> {
+    try {
+      // Resolve remote id from mapping if available. Some uploads may use a different remote id.
+      let remoteId = transactionId;
+      try {
+        await DatabaseService.initDatabase();
+        if (!this.mappingRepo) {
+          this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
+        }
+        const mapping = await this.mappingRepo.findByLocalId(transactionId);
+        if (mapping && mapping.remoteId) {
           remoteId = mapping.remoteId;
         }
       } catch (e) {
@@ -632,12 +1281,13 @@ class CloudBackupService {
         try {
           if (!this.mappingRepo) {
             await DatabaseService.initDatabase();
-            this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
+            this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
           }
           await this.mappingRepo.deleteByRemoteId(remoteId);
         } catch (e) {
           console.warn('Failed to remove remote-local mapping after confirmed delete:', e);
         }
+        await this.clearSyncState(transactionId);
 
         return true;
       } catch (e) {
@@ -705,14 +1355,18 @@ class CloudBackupService {
         await batch.commit();
       }
 
+      const paymentCount = await this.backupPaymentsToCloud(user.uid);
+      await this.backupPartiesToCloud(user.uid);
+      await this.backupStockRecordsToCloud(user.uid);
+
       await this.updateLastSyncTime();
-      console.log(`Backed up ${transactions.length} transactions to cloud`);
+      console.log(`Backed up ${transactions.length} transactions and ${paymentCount} payments to cloud`);
 
       // Ensure remote-local mappings exist for the backed-up documents
       try {
         await DatabaseService.initDatabase();
         if (!this.mappingRepo) {
-          this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
+          this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
         }
         for (const transaction of transactions) {
           try {
@@ -761,9 +1415,16 @@ class CloudBackupService {
         }
       }
 
+      // Restore parties first so auto-fill works for restored transactions
+      const restoredParties = await this.restorePartiesFromCloud(user.uid);
+      console.log(`Restored ${restoredParties} parties from cloud`);
+      const restoredStockRecords = await this.restoreStockRecordsFromCloud(user.uid);
+      console.log(`Restored ${restoredStockRecords} storage locations, stock transfers, adjustments and grains from cloud`);
+      const restoredPayments = await this.restorePaymentsFromCloud(user.uid);
+
       await this.updateLastSyncTime();
-      console.log(`Restored ${restoredCount} transactions from cloud`);
-      return restoredCount;
+      console.log(`Restored ${restoredCount} transactions and ${restoredPayments} payments from cloud`);
+      return restoredCount + restoredPayments;
     } catch (error) {
       console.error('Cloud restore failed:', error);
       throw error;
@@ -771,291 +1432,658 @@ class CloudBackupService {
   }
 
   /**
-   * Enqueue a transaction id for pending upload
+   * Upload all local payments to cloud. Returns number of payments written.
    */
-  private async enqueuePendingUpload(transactionId: string): Promise<void> {
+  private async backupPaymentsToCloud(userId: string): Promise<number> {
+    const payments = await TransactionService.getAllPayments();
+    const db = firestore();
+    let batch = writeBatch(db);
+    let batchCount = 0;
+
+    for (const payment of payments) {
+      const docRef = doc(collection(db, 'users', userId, 'payments'), payment.id);
+      batch.set(docRef, this.buildCloudPayment(payment, userId), {merge: true} as any);
+      batchCount++;
+
+      // Firebase batch limit is 500 operations
+      if (batchCount === 500) {
+        await batch.commit();
+        batch = writeBatch(db);
+        batchCount = 0;
+      }
+    }
+
+    if (batchCount > 0) {
+      await batch.commit();
+    }
+
     try {
-      const raw = await AsyncStorage.getItem(this.PENDING_UPLOADS_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      // Normalize legacy string entries
-      const normalized: Array<{transactionId: string; retryCount: number; nextAttempt?: number; errorCount?: number; lastError?: string}> = [];
-      for (const item of list) {
-        if (typeof item === 'string') {
-          normalized.push({transactionId: item, retryCount: 0});
-        } else if (item && item.transactionId) {
-          normalized.push(item);
+      const mappingRepo = this.getMappingRepo();
+      for (const payment of payments) {
+        try {
+          await mappingRepo.createMapping(payment.id, payment.id, 'PAYMENT');
+        } catch (e) {
+          console.warn('Failed to create mapping for payment after backup:', payment.id, e);
         }
       }
-      if (!normalized.find(e => e.transactionId === transactionId)) {
-        normalized.push({transactionId, retryCount: 0, errorCount: 0});
-        await AsyncStorage.setItem(this.PENDING_UPLOADS_KEY, JSON.stringify(normalized));
+    } catch (e) {
+      console.warn('Failed to create remote-local mappings for payments after backup:', e);
+    }
+
+    return payments.length;
+  }
+
+  /**
+   * Restore all payments from cloud. Returns number of new local payments.
+   */
+  private async restorePaymentsFromCloud(userId: string): Promise<number> {
+    await DatabaseService.initDatabase();
+    const db = firestore();
+    const snapshot = await getDocs(collection(db, 'users', userId, 'payments'));
+
+    let restoredCount = 0;
+    for (const paymentDoc of snapshot.docs) {
+      try {
+        const created = await this.createLocalPayment(paymentDoc.data() as CloudPayment, paymentDoc.id);
+        if (created) restoredCount++;
+      } catch (error) {
+        console.error(`Failed to restore cloud payment ${paymentDoc.id}:`, error);
       }
-    } catch (error) {
-      console.error('Failed to enqueue pending upload:', error);
     }
+    return restoredCount;
   }
 
   /**
-   * Enqueue a pending delete to be retried later
+   * Two-way sync of payments between local database and cloud
    */
-  private async enqueuePendingDelete(transactionId: string, userId: string): Promise<void> {
-    try {
-      const raw = await AsyncStorage.getItem(this.PENDING_DELETES_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      const normalized: Array<{transactionId: string; userId: string; retryCount: number; nextAttempt?: number}> = list.map((it: any) => ({...it}));
-      if (!normalized.find(e => e.transactionId === transactionId && e.userId === userId)) {
-        normalized.push({transactionId, userId, retryCount: 0});
-        await AsyncStorage.setItem(this.PENDING_DELETES_KEY, JSON.stringify(normalized));
+  private async syncPayments(userId: string, lastSyncTime: string | null): Promise<{uploaded: number; downloaded: number}> {
+    await DatabaseService.initDatabase();
+    const db = firestore();
+    const paymentsCollection = collection(db, 'users', userId, 'payments');
+
+    const snapshot = await getDocs(paymentsCollection);
+    const cloudById: Record<string, CloudPayment> = {};
+    for (const paymentDoc of snapshot.docs) {
+      cloudById[paymentDoc.id] = paymentDoc.data() as CloudPayment;
+    }
+
+    let uploaded = 0;
+    let downloaded = 0;
+
+    // Upload new/modified local payments
+    const localPayments = await TransactionService.getAllPayments();
+    const localById: Record<string, Payment> = {};
+    for (const payment of localPayments) {
+      localById[payment.id] = payment;
+      const cloudPayment = cloudById[payment.id];
+      const changedSinceSync = !lastSyncTime || new Date(payment.updatedAt) > new Date(lastSyncTime);
+      if (!cloudPayment || (changedSinceSync && new Date(payment.updatedAt) > new Date(cloudPayment.updatedAt))) {
+        await setDoc(doc(paymentsCollection, payment.id), this.buildCloudPayment(payment, userId), {merge: true} as any);
+        try {
+          await this.getMappingRepo().createMapping(payment.id, payment.id, 'PAYMENT');
+        } catch (e) {
+          console.warn('Failed to create mapping after payment upload', e);
+        }
+        uploaded++;
       }
-    } catch (error) {
-      console.error('Failed to enqueue pending delete:', error);
     }
+
+    // Download payments that are missing locally or newer in cloud
+    for (const remoteId of Object.keys(cloudById)) {
+      const cloudPayment = cloudById[remoteId];
+      const payment = cloudPayment.data;
+      if (!payment || !payment.id) continue;
+
+      const existing = localById[payment.id];
+      if (!existing) {
+        const created = await this.createLocalPayment(cloudPayment, remoteId);
+        if (created) downloaded++;
+      } else if (new Date(cloudPayment.updatedAt) > new Date(existing.updatedAt)) {
+        const {id, createdAt, updatedAt, ...data} = payment;
+        await TransactionService.updatePaymentFromCloud(id, data, updatedAt);
+        downloaded++;
+      }
+    }
+
+    return {uploaded, downloaded};
   }
 
   /**
-   * Process pending deletes when network is available
+   * Upload all local farmers, merchants and customers to cloud
    */
-  public async processPendingDeletes(): Promise<void> {
-    try {
-      const netState = await NetInfo.fetch();
-      if (!netState.isConnected) return;
+  private async backupPartiesToCloud(userId: string): Promise<number> {
+    const db = firestore();
+    let total = 0;
 
-      const user = await AuthService.getCurrentUser();
-      if (!user) return;
+    for (const partyType of PARTY_TYPES) {
+      const parties = await TransactionService.getAllParties(partyType);
+      let batch = writeBatch(db);
+      let batchCount = 0;
+
+      for (const party of parties) {
+        const docRef = doc(collection(db, 'users', userId, PARTY_COLLECTIONS[partyType]), party.phoneNumber);
+        batch.set(docRef, this.buildCloudParty(partyType, party, userId), {merge: true} as any);
+        batchCount++;
+
+        // Firebase batch limit is 500 operations
+        if (batchCount === 500) {
+          await batch.commit();
+          batch = writeBatch(db);
+          batchCount = 0;
+        }
+      }
+
+      if (batchCount > 0) {
+        await batch.commit();
+      }
+      total += parties.length;
+    }
 
-      const raw = await AsyncStorage.getItem(this.PENDING_DELETES_KEY);
-      const list: Array<{transactionId: string; userId: string; retryCount: number; nextAttempt?: number}> = raw ? JSON.parse(raw) : [];
-      if (!list || list.length === 0) return;
+    console.log(`Backed up ${total} parties to cloud`);
+    return total;
+  }
 
-      const remaining: typeof list = [];
-      for (const entry of list) {
+  /**
+   * Restore all farmers, merchants and customers from cloud. Returns number of local rows written.
+   */
+  private async restorePartiesFromCloud(userId: string): Promise<number> {
+    const db = firestore();
+    let restoredCount = 0;
+
+    for (const partyType of PARTY_TYPES) {
+      const snapshot = await getDocs(collection(db, 'users', userId, PARTY_COLLECTIONS[partyType]));
+      for (const partyDoc of snapshot.docs) {
         try {
-          const now = Date.now();
-          if (entry.nextAttempt && entry.nextAttempt > now) {
-            remaining.push(entry);
-            continue;
-          }
+          const changed = await this.syncPartyFromCloud(partyType, partyDoc.data() as CloudParty);
+          if (changed) restoredCount++;
+        } catch (error) {
+          console.error(`Failed to restore cloud ${partyType.toLowerCase()} ${partyDoc.id}:`, error);
+        }
+      }
+    }
+    return restoredCount;
+  }
 
-          // Use modular deleteDoc instead of namespaced API
-          const db = firestore();
-          await deleteDoc(doc(collection(db, 'users', entry.userId, 'transactions'), entry.transactionId));
+  /**
+   * Two-way sync of party master data, newest updatedAt wins per phone number
+   */
+  private async syncParties(userId: string): Promise<{uploaded: number; downloaded: number}> {
+    const db = firestore();
+    let uploaded = 0;
+    let downloaded = 0;
+
+    for (const partyType of PARTY_TYPES) {
+      const partiesCollection = collection(db, 'users', userId, PARTY_COLLECTIONS[partyType]);
+      const snapshot = await getDocs(partiesCollection);
+      const cloudByPhone: Record<string, CloudParty> = {};
+      for (const partyDoc of snapshot.docs) {
+        cloudByPhone[partyDoc.id] = partyDoc.data() as CloudParty;
+      }
 
-          console.log(`Processed pending delete for ${entry.transactionId}`);
-          // Attempt to cleanup mapping if present. Entry.transactionId might be a remoteId or a localId.
-          try {
-            await DatabaseService.initDatabase();
-            if (!this.mappingRepo) {
-              this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
-            }
-            // First try treating entry.transactionId as remoteId
-            await this.mappingRepo.deleteByRemoteId(entry.transactionId);
-            // Also try to find a mapping by local id and delete by remote id if found
-            try {
-              const map = await this.mappingRepo.findByLocalId(entry.transactionId);
-              if (map && map.remoteId) {
-                await this.mappingRepo.deleteByRemoteId(map.remoteId);
-              }
-            } catch (e) {
-              // ignore secondary mapping lookup failures
-            }
-          } catch (e) {
-            console.warn('Failed to cleanup mapping after processed pending delete:', e);
-          }
-        } catch (e) {
-          // Retry with backoff
-          const retryCount = (entry.retryCount || 0) + 1;
-          const backoff = Math.min(this.BASE_BACKOFF_MS * Math.pow(2, retryCount), this.MAX_BACKOFF_MS);
-          entry.retryCount = retryCount;
-          entry.nextAttempt = Date.now() + backoff;
-          remaining.push(entry);
-          console.warn(`Pending delete for ${entry.transactionId} failed, will retry in ${backoff}ms`, e);
+      // Upload local parties missing in cloud or newer than cloud
+      const localParties = await TransactionService.getAllParties(partyType);
+      for (const party of localParties) {
+        const cloudParty = cloudByPhone[party.phoneNumber];
+        if (!cloudParty || new Date(party.updatedAt) > new Date(cloudParty.updatedAt)) {
+          await setDoc(doc(partiesCollection, party.phoneNumber), this.buildCloudParty(partyType, party, userId), {merge: true} as any);
+          uploaded++;
         }
       }
 
-      await AsyncStorage.setItem(this.PENDING_DELETES_KEY, JSON.stringify(remaining));
-    } catch (error) {
-      console.error('Failed to process pending deletes:', error);
+      // Download parties missing locally or newer in cloud
+      for (const phone of Object.keys(cloudByPhone)) {
+        try {
+          const changed = await this.syncPartyFromCloud(partyType, cloudByPhone[phone]);
+          if (changed) downloaded++;
+        } catch (error) {
+          console.error(`Failed to sync cloud ${partyType.toLowerCase()} ${phone}:`, error);
+        }
+      }
     }
+
+    return {uploaded, downloaded};
   }
 
   /**
-   * Remove a transaction id from pending upload list
+   * Upload all local storage locations, stock transfers, adjustments and grains to cloud
    */
-  private async dequeuePendingUpload(transactionId: string): Promise<void> {
-    try {
-      const raw = await AsyncStorage.getItem(this.PENDING_UPLOADS_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      const normalized: Array<{transactionId: string; retryCount: number; nextAttempt?: number; errorCount?: number; lastError?: string}> = [];
-      for (const item of list) {
-        if (typeof item === 'string') {
-          normalized.push({transactionId: item, retryCount: 0});
-        } else if (item && item.transactionId) {
-          normalized.push(item);
+  private async backupStockRecordsToCloud(userId: string): Promise<number> {
+    const db = firestore();
+    let total = 0;
+
+    for (const recordType of STOCK_RECORD_TYPES) {
+      const records = await TransactionService.getAllStockRecords(recordType);
+      let batch = writeBatch(db);
+      let batchCount = 0;
+
+      for (const record of records) {
+        const docRef = doc(collection(db, 'users', userId, STOCK_RECORD_COLLECTIONS[recordType]), record.id);
+        batch.set(docRef, this.buildCloudStockRecord(recordType, record, userId), {merge: true} as any);
+        batchCount++;
+
+        // Firebase batch limit is 500 operations
+        if (batchCount === 500) {
+          await batch.commit();
+          batch = writeBatch(db);
+          batchCount = 0;
+        }
+      }
+
+      if (batchCount > 0) {
+        await batch.commit();
+      }
+      total += records.length;
+    }
+
+    console.log(`Backed up ${total} storage locations, stock transfers, adjustments and grains to cloud`);
+    return total;
+  }
+
+  /**
+   * Restore all storage locations, stock transfers, adjustments and grains from cloud. Returns number of local rows written.
+   */
+  private async restoreStockRecordsFromCloud(userId: string): Promise<number> {
+    const db = firestore();
+    let restoredCount = 0;
+
+    for (const recordType of STOCK_RECORD_TYPES) {
+      const snapshot = await getDocs(collection(db, 'users', userId, STOCK_RECORD_COLLECTIONS[recordType]));
+      for (const recordDoc of snapshot.docs) {
+        try {
+          const changed = await this.syncStockRecordFromCloud(recordType, recordDoc.data() as CloudStockRecord);
+          if (changed) restoredCount++;
+        } catch (error) {
+          console.error(`Failed to restore cloud ${recordType.toLowerCase()} ${recordDoc.id}:`, error);
+        }
+      }
+    }
+    return restoredCount;
+  }
+
+  /**
+   * Two-way sync of storage locations, stock transfers, adjustments and grains, newest updatedAt wins per record
+   */
+  private async syncStockRecords(userId: string): Promise<{uploaded: number; downloaded: number}> {
+    const db = firestore();
+    let uploaded = 0;
+    let downloaded = 0;
+
+    for (const recordType of STOCK_RECORD_TYPES) {
+      const recordsCollection = collection(db, 'users', userId, STOCK_RECORD_COLLECTIONS[recordType]);
+      const snapshot = await getDocs(recordsCollection);
+      const cloudById: Record<string, CloudStockRecord> = {};
+      for (const recordDoc of snapshot.docs) {
+        cloudById[recordDoc.id] = recordDoc.data() as CloudStockRecord;
+      }
+
+      // Upload local records missing in cloud or newer than cloud
+      const localRecords = await TransactionService.getAllStockRecords(recordType);
+      for (const record of localRecords) {
+        const cloudRecord = cloudById[record.id];
+        if (!cloudRecord || new Date(record.updatedAt) > new Date(cloudRecord.updatedAt)) {
+          await setDoc(doc(recordsCollection, record.id), this.buildCloudStockRecord(recordType, record, userId), {merge: true} as any);
+          uploaded++;
         }
       }
-      const idx = normalized.findIndex(e => e.transactionId === transactionId);
-      if (idx !== -1) {
-        normalized.splice(idx, 1);
-        await AsyncStorage.setItem(this.PENDING_UPLOADS_KEY, JSON.stringify(normalized));
+
+      // Download records missing locally or newer in cloud
+      for (const id of Object.keys(cloudById)) {
+        try {
+          const changed = await this.syncStockRecordFromCloud(recordType, cloudById[id]);
+          if (changed) downloaded++;
+        } catch (error) {
+          console.error(`Failed to sync cloud ${recordType.toLowerCase()} ${id}:`, error);
+        }
       }
+    }
+
+    return {uploaded, downloaded};
+  }
+
+  /**
+   * Initialize the database and move any queues left in AsyncStorage by older builds into the outbox
+   */
+  private async openOutbox(): Promise<void> {
+    await DatabaseService.initDatabase();
+    if (this.legacyQueuesImported) return;
+    await this.importLegacyQueues();
+    this.legacyQueuesImported = true;
+  }
+
+  /**
+   * One-time import of the AsyncStorage queues (pending uploads, deletes, meta and
+   * failed uploads). Older builds stored some entries as bare id strings.
+   */
+  private async importLegacyQueues(): Promise<void> {
+    const keys = [
+      this.LEGACY_PENDING_UPLOADS_KEY,
+      this.LEGACY_PENDING_DELETES_KEY,
+      this.LEGACY_PENDING_META_KEY,
+      this.LEGACY_FAILED_UPLOADS_KEY,
+    ];
+    try {
+      const stored = await AsyncStorage.multiGet(keys);
+      const values: Record<string, any> = {};
+      stored.forEach(([key, raw]) => {
+        values[key] = raw ? JSON.parse(raw) : null;
+      });
+      if (keys.every(key => values[key] === null)) return;
+
+      const repo = this.getOutboxRepo();
+      const toUploadEntry = (item: any) => (typeof item === 'string' ? {transactionId: item} : item);
+      const uploads: any[] = (values[this.LEGACY_PENDING_UPLOADS_KEY] || []).map(toUploadEntry);
+      const failed: any[] = (values[this.LEGACY_FAILED_UPLOADS_KEY] || []).map(toUploadEntry);
+
+      for (const item of uploads) {
+        if (!item?.transactionId) continue;
+        await repo.enqueue({
+          operation: 'UPLOAD',
+          entityType: item.entityType || 'TRANSACTION',
+          entityId: item.transactionId,
+          attempts: item.errorCount || item.retryCount || 0,
+          nextAttemptAt: item.nextAttempt ? new Date(item.nextAttempt).toISOString() : undefined,
+          lastError: item.lastError,
+        });
+      }
+      for (const item of failed) {
+        if (!item?.transactionId) continue;
+        await repo.enqueue({
+          operation: 'UPLOAD',
+          entityType: item.entityType || 'TRANSACTION',
+          entityId: item.transactionId,
+          attempts: item.errorCount || this.MAX_OUTBOX_ATTEMPTS,
+          lastError: item.lastError,
+          status: 'FAILED',
+        });
+      }
+      for (const item of values[this.LEGACY_PENDING_DELETES_KEY] || []) {
+        if (!item?.transactionId) continue;
+        const collectionName: SyncedCollection = item.collection || 'transactions';
+        await repo.enqueue({
+          operation: 'DELETE',
+          entityType: COLLECTION_ENTITY_TYPES[collectionName] || 'TRANSACTION',
+          entityId: item.transactionId,
+          collection: collectionName,
+          userId: item.userId,
+          attempts: item.retryCount || 0,
+          nextAttemptAt: item.nextAttempt ? new Date(item.nextAttempt).toISOString() : undefined,
+        });
+      }
+      const meta = values[this.LEGACY_PENDING_META_KEY];
+      if (meta && typeof meta === 'object') {
+        await this.enqueuePendingMeta(meta);
+      }
+
+      await AsyncStorage.multiRemove(keys);
+      console.log('Moved AsyncStorage sync queues into sync_outbox');
+    } catch (error) {
+      // Keys are left in place and the import is retried next launch
+      console.error('Failed to import legacy sync queues:', error);
+    }
+  }
+
+  /**
+   * Hash of a record as queued, so queuing an unchanged record again is a no-op
+   */
+  private hashPayload(payload: any): string {
+    return bytesToBase64(sha256(utf8ToBytes(JSON.stringify(payload))));
+  }
+
+  /**
+   * Enqueue a record for pending upload. The record's current data is read when the item is sent.
+   */
+  private async enqueuePendingUpload(entityId: string, entityType: PendingEntityType = 'TRANSACTION', record?: any): Promise<void> {
+    try {
+      await this.openOutbox();
+      await this.getOutboxRepo().enqueue({
+        operation: 'UPLOAD',
+        entityType,
+        entityId,
+        payloadHash: record ? this.hashPayload(record) : undefined,
+      });
+    } catch (error) {
+      console.error('Failed to enqueue pending upload:', error);
+    }
+  }
+
+  /**
+   * Enqueue a pending delete to be retried later. Queued uploads of the same record are dropped.
+   */
+  private async enqueuePendingDelete(remoteId: string, userId: string, collectionName: SyncedCollection = 'transactions'): Promise<void> {
+    try {
+      await this.openOutbox();
+      const entityType = COLLECTION_ENTITY_TYPES[collectionName];
+      const repo = this.getOutboxRepo();
+      await repo.removeEntity(['UPLOAD'], entityType, remoteId);
+      await repo.enqueue({operation: 'DELETE', entityType, entityId: remoteId, collection: collectionName, userId});
+    } catch (error) {
+      console.error('Failed to enqueue pending delete:', error);
+    }
+  }
+
+  /**
+   * Queue the latest user meta; it replaces any meta still waiting
+   */
+  private async enqueuePendingMeta(payload: any): Promise<void> {
+    await DatabaseService.initDatabase();
+    await this.getOutboxRepo().enqueue({
+      operation: 'META',
+      entityType: 'META',
+      entityId: this.META_ENTITY_ID,
+      payload,
+      payloadHash: this.hashPayload(payload),
+    });
+  }
+
+  /**
+   * Remove a record from the pending upload queue
+   */
+  private async dequeuePendingUpload(entityId: string, entityType: PendingEntityType): Promise<void> {
+    try {
+      await this.openOutbox();
+      await this.getOutboxRepo().removeEntity(['UPLOAD'], entityType, entityId);
     } catch (error) {
       console.error('Failed to dequeue pending upload:', error);
     }
   }
 
   /**
-   * Process pending uploads when network is available
+   * Process pending uploads (and queued user meta) when network is available
    */
   public async processPendingUploads(): Promise<void> {
+    await this.processOutbox(['UPLOAD', 'META']);
+  }
+
+  /**
+   * Process pending deletes when network is available
+   */
+  public async processPendingDeletes(): Promise<void> {
+    await this.processOutbox(['DELETE']);
+  }
+
+  /**
+   * Send due outbox items of the given operations, oldest first.
+   *
+   * An item that fails is retried with exponential backoff and marked FAILED after
+   * MAX_OUTBOX_ATTEMPTS; later items for the same record wait for the next pass so
+   * they are never sent out of order. An item re-queued with new data while it was
+   * being sent stays in the outbox for the next pass. A call made while a pass is
+   * running is not dropped: its operations get another pass once this one ends.
+   */
+  private async processOutbox(operations: OutboxOperation[]): Promise<void> {
+    if (this.outboxInProgress) {
+      operations.forEach(operation => this.outboxRerun.add(operation));
+      return;
+    }
+
     const netState = await NetInfo.fetch();
     if (!netState.isConnected) return;
 
     const user = await AuthService.getCurrentUser();
     if (!user) return;
 
+    this.outboxInProgress = true;
     try {
-      const raw = await AsyncStorage.getItem(this.PENDING_UPLOADS_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      // Normalize to entries
-      const entries: Array<{transactionId: string; retryCount: number; nextAttempt?: number; errorCount?: number; lastError?: string}> = [];
-      for (const item of list) {
-        if (typeof item === 'string') entries.push({transactionId: item, retryCount: 0});
-        else if (item && item.transactionId) entries.push(item);
-      }
+      await this.openOutbox();
+      const repo = this.getOutboxRepo();
+      const items = await repo.findDue(operations, new Date().toISOString());
+      const blocked = new Set<string>();
 
-      for (const entry of entries) {
-        try {
-          const now = Date.now();
-          if (entry.nextAttempt && entry.nextAttempt > now) {
-            // skip until nextAttempt
-            continue;
-          }
+      for (const item of items) {
+        const key = `${item.entityType}:${item.entityId}`;
+        if (blocked.has(key)) continue;
 
-          // Try to find the transaction locally
-          const tx = await this.getLocalTransactionById(entry.transactionId);
-          if (!tx) {
-            // Nothing to upload - remove mapping/queue
-            await this.dequeuePendingUpload(entry.transactionId);
-            continue;
+        try {
+          await this.sendOutboxItem(item, user.uid);
+          await repo.complete(item.id, item.payloadHash);
+          if (item.attempts > 0) {
+            const {default: SyncLogger} = await import('./SyncLogger');
+            await SyncLogger.logInfo(`Pending ${item.operation.toLowerCase()} sent after ${item.attempts + 1} attempts`, {
+              id: item.entityId,
+              entityType: item.entityType,
+            });
           }
-
-          // Check if remote mapping already exists - if yes, skip uploading
+        } catch (e) {
+          blocked.add(key);
+          console.error(`Error processing outbox ${item.operation} for`, item.entityId, e);
           try {
-            await DatabaseService.initDatabase();
-            if (!this.mappingRepo) {
-              this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
-            }
-            const map = await this.mappingRepo.findByLocalId(entry.transactionId);
-            if (map && map.remoteId) {
-              // Already mapped to remote - dequeue
-              await this.dequeuePendingUpload(entry.transactionId);
-              continue;
-            }
-          } catch (e) {
-            // ignore mapping failures and attempt upload
-            console.warn('Mapping check failed (will attempt upload):', e);
+            const {default: SyncLogger} = await import('./SyncLogger');
+            await SyncLogger.logError(`Pending ${item.operation.toLowerCase()} failed`, {
+              id: item.entityId,
+              entityType: item.entityType,
+              error: String(e),
+            });
+          } catch (le) {
+            console.warn('Failed to write sync log', le);
           }
 
-          // Attempt upload
-          await this.uploadSingleTransaction(tx, user.uid);
-          } catch (e) {
-            console.error('Error processing pending upload for', entry.transactionId, e);
-            // Log error to sync logs
-            try {
-              const {default: SyncLogger} = await import('./SyncLogger');
-              await SyncLogger.logError('Pending upload failed', {id: entry.transactionId, error: String(e)});
-            } catch (le) {
-              console.warn('Failed to write sync log', le);
-            }
-            // Increment retry and error counters and reschedule with exponential backoff
-            try {
-              const retries = (entry.retryCount || 0) + 1;
-              const errorCnt = (entry.errorCount || 0) + 1;
-              const backoff = Math.min(this.BASE_BACKOFF_MS * Math.pow(2, retries - 1), this.MAX_BACKOFF_MS);
-              entry.retryCount = retries;
-              entry.errorCount = errorCnt;
-              entry.lastError = String(e);
-              entry.nextAttempt = Date.now() + backoff;
-
-              // If too many errors, move to failed uploads list and remove from pending
-              if (errorCnt >= 5) {
-                // Add to failed uploads
-                const rawFailed = await AsyncStorage.getItem(this.FAILED_UPLOADS_KEY);
-                const failed = rawFailed ? JSON.parse(rawFailed) : [];
-                if (!failed.find((f: any) => f.transactionId === entry.transactionId)) {
-                  failed.push({...entry, failedAt: Date.now()});
-                  await AsyncStorage.setItem(this.FAILED_UPLOADS_KEY, JSON.stringify(failed));
-                }
-                await this.dequeuePendingUpload(entry.transactionId);
-              } else {
-                // Persist updated pending entry
-                const rawAll = await AsyncStorage.getItem(this.PENDING_UPLOADS_KEY);
-                const all = rawAll ? JSON.parse(rawAll) : [];
-                // replace or append
-                let replaced = false;
-                for (let i = 0; i < all.length; i++) {
-                  const it = all[i];
-                  if ((typeof it === 'string' && it === entry.transactionId) || (it && it.transactionId === entry.transactionId)) {
-                    all[i] = entry;
-                    replaced = true;
-                    break;
-                  }
-                }
-                if (!replaced) all.push(entry);
-                await AsyncStorage.setItem(this.PENDING_UPLOADS_KEY, JSON.stringify(all));
-              }
-            } catch (ee) {
-              console.error('Failed to reschedule or mark failed upload', ee);
-            }
-            // continue with next id
+          const attempts = item.attempts + 1;
+          if (attempts >= this.MAX_OUTBOX_ATTEMPTS) {
+            await repo.recordFailure(item.id, attempts, 'FAILED', String(e));
+          } else {
+            const backoff = Math.min(this.BASE_BACKOFF_MS * Math.pow(2, attempts - 1), this.MAX_BACKOFF_MS);
+            await repo.recordFailure(item.id, attempts, 'PENDING', String(e), new Date(Date.now() + backoff).toISOString());
+          }
         }
       }
-      // Process pending meta if any
+    } catch (error) {
+      console.error('Failed to process sync outbox:', error);
+    } finally {
+      this.outboxInProgress = false;
+    }
+
+    if (this.outboxRerun.size > 0) {
+      const rerun = Array.from(this.outboxRerun);
+      this.outboxRerun.clear();
+      await this.processOutbox(rerun);
+    }
+  }
+
+  /**
+   * Perform one outbox operation. Uploads send the record as it is now; a record
+   * deleted locally since it was queued has nothing left to send.
+   */
+  private async sendOutboxItem(item: SyncOutboxItem, userId: string): Promise<void> {
+    if (item.operation === 'META') {
+      await this.putUserMeta(userId, item.payload);
+      return;
+    }
+
+    if (item.operation === 'DELETE') {
+      const collectionName = (item.collection || 'transactions') as SyncedCollection;
+      const db = firestore();
+      await deleteDoc(doc(collection(db, 'users', item.userId || userId, collectionName), item.entityId));
+      console.log(`Processed pending delete for ${item.entityId}`);
+      // entityId might be a remoteId or a localId; clean up the mapping either way
       try {
-        const rawMeta = await AsyncStorage.getItem(this.PENDING_META_KEY);
-        if (rawMeta) {
-          const meta = JSON.parse(rawMeta);
-          if (meta && typeof meta === 'object') {
-            const currentUser = await AuthService.getCurrentUser();
-            if (currentUser) {
-              await this.pushUserMeta(currentUser.uid, meta).catch(e => {
-                console.error('Failed to push pending meta', e);
-              });
-              await AsyncStorage.removeItem(this.PENDING_META_KEY);
-            }
-          }
+        const mappingRepo = this.getMappingRepo();
+        await mappingRepo.deleteByRemoteId(item.entityId);
+        const map = await mappingRepo.findByLocalId(item.entityId);
+        if (map && map.remoteId) {
+          await mappingRepo.deleteByRemoteId(map.remoteId);
         }
       } catch (e) {
-        console.error('Failed processing pending meta', e);
+        console.warn('Failed to cleanup mapping after processed pending delete:', e);
       }
-      // Optionally rotate old failed uploads into logs (cleanup retained separately)
-    } catch (error) {
-      console.error('Failed to process pending uploads:', error);
+      return;
     }
+
+    if (item.entityType in PARTY_COLLECTIONS) {
+      const partyType = item.entityType as PartyType;
+      const party = await TransactionService.getPartyByPhone(partyType, item.entityId);
+      if (party) await this.putParty(partyType, party, userId);
+      return;
+    }
+
+    if (item.entityType in STOCK_RECORD_COLLECTIONS) {
+      const recordType = item.entityType as StockRecordType;
+      const record = await TransactionService.getStockRecord(recordType, item.entityId);
+      if (record) await this.putStockRecord(recordType, record, userId);
+      return;
+    }
+
+    if (item.entityType === 'PAYMENT') {
+      const payment = await TransactionService.getPayment(item.entityId);
+      if (payment) await this.putPayment(payment, userId);
+      return;
+    }
+
+    const transaction = await this.getLocalTransactionById(item.entityId);
+    if (transaction) await this.putTransaction(transaction, userId);
   }
 
   /**
-   * Get failed uploads list
+   * Uploads that gave up after repeated errors, with their last error
    */
-  public async getFailedUploads(): Promise<any[]> {
+  public async getFailedUploads(): Promise<SyncOutboxItem[]> {
     try {
-      const raw = await AsyncStorage.getItem(this.FAILED_UPLOADS_KEY);
-      return raw ? JSON.parse(raw) : [];
+      await this.openOutbox();
+      return await this.getOutboxRepo().findAll('FAILED');
     } catch (e) {
       console.error('Failed to read failed uploads', e);
       return [];
     }
   }
 
+  /**
+   * Everything in the outbox, pending and failed, oldest first
+   */
+  public async getOutboxItems(): Promise<SyncOutboxItem[]> {
+    await this.openOutbox();
+    return this.getOutboxRepo().findAll();
+  }
+
+  /**
+   * Send an outbox item again now, with its attempt count reset
+   */
+  public async retryOutboxItem(item: SyncOutboxItem): Promise<void> {
+    await this.openOutbox();
+    await this.getOutboxRepo().resetForRetry(item.id);
+    if (item.operation === 'DELETE') {
+      await this.processPendingDeletes();
+    } else {
+      await this.processPendingUploads();
+    }
+  }
+
+  /**
+   * Drop an outbox item without sending it. A discarded upload is sent again
+   * only when the record is next edited or a full sync runs.
+   */
+  public async discardOutboxItem(item: SyncOutboxItem): Promise<void> {
+    await this.openOutbox();
+    await this.getOutboxRepo().remove(item.id);
+    const {default: SyncLogger} = await import('./SyncLogger');
+    await SyncLogger.logInfo(`Discarded queued ${item.operation.toLowerCase()}`, {id: item.entityId, entityType: item.entityType});
+  }
+
   /**
    * Clears a failed upload (remove from failed list)
    */
-  public async clearFailedUpload(transactionId: string): Promise<void> {
+  public async clearFailedUpload(entityId: string): Promise<void> {
     try {
-      const raw = await AsyncStorage.getItem(this.FAILED_UPLOADS_KEY);
-      const list = raw ? JSON.parse(raw) : [];
-      const filtered = list.filter((it: any) => it.transactionId !== transactionId);
-      await AsyncStorage.setItem(this.FAILED_UPLOADS_KEY, JSON.stringify(filtered));
+      await this.openOutbox();
+      await this.getOutboxRepo().removeFailedByEntityId(entityId);
     } catch (e) {
       console.error('Failed to clear failed upload', e);
     }
@@ -1080,17 +2108,15 @@ class CloudBackupService {
 
       if (!netState.isConnected) {
         // Store pending meta (overwrite latest)
-        await AsyncStorage.setItem(this.PENDING_META_KEY, JSON.stringify(payload));
+        await this.enqueuePendingMeta(payload);
         console.log('No network - queued user meta for later push');
         return;
       }
 
-      const db = firestore();
-      const cloudMetaRef = doc(collection(db, 'users', user.uid, 'meta'), 'state');
-      await setDoc(cloudMetaRef, payload, {merge: true} as any);
-      console.log('Pushed user meta to cloud');
+      await this.putUserMeta(user.uid, payload);
       // Remove pending meta if any
-      await AsyncStorage.removeItem(this.PENDING_META_KEY);
+      await this.openOutbox();
+      await this.getOutboxRepo().removeEntity(['META'], 'META', this.META_ENTITY_ID);
     } catch (error) {
       console.error('Failed to push user meta:', error);
       // Save pending meta for later
@@ -1100,13 +2126,23 @@ class CloudBackupService {
           lastBalanceUpdate: await CashBalanceService.getLastUpdateTime(),
           updatedAt: new Date().toISOString(),
         };
-        await AsyncStorage.setItem(this.PENDING_META_KEY, JSON.stringify(payload));
+        await this.enqueuePendingMeta(payload);
       } catch (e) {
         console.error('Failed to enqueue pending meta after push failure', e);
       }
     }
   }
 
+  /**
+   * Write the user meta document
+   */
+  private async putUserMeta(userId: string, payload: any): Promise<void> {
+    const db = firestore();
+    const cloudMetaRef = doc(collection(db, 'users', userId, 'meta'), 'state');
+    await setDoc(cloudMetaRef, payload, {merge: true} as any);
+    console.log('Pushed user meta to cloud');
+  }
+
   /**
    * Helper to find a local transaction by id across repositories
    */
@@ -1151,7 +2187,7 @@ class CloudBackupService {
       // Upload new/modified local transactions
       let uploaded = 0;
       for (const transaction of newLocalTransactions) {
-        // Before uploading, check cloud version's updatedAt to avoid overwriting newer cloud data
+        // Before uploading, check the cloud version to avoid overwriting edits from other devices
         const db = firestore();
         const docRef = doc(collection(db, 'users', user.uid, 'transactions'), transaction.id);
         const cloudDoc = await getDoc(docRef);
@@ -1159,15 +2195,9 @@ class CloudBackupService {
           await this.uploadTransaction(user.uid, transaction);
           uploaded++;
         } else {
-          const cloudData = cloudDoc.data() as CloudTransaction;
-          const cloudUpdatedAt = cloudData?.updatedAt;
-          if (!cloudUpdatedAt || new Date(transaction.updatedAt) > new Date(cloudUpdatedAt)) {
-            await this.uploadTransaction(user.uid, transaction);
-            uploaded++;
-          } else {
-            // Cloud has newer or equal version, skip upload
-            console.log(`Skipping upload for ${transaction.id}, cloud is newer or equal`);
-          }
+          // Merge rather than overwrite: the cloud may hold edits made on another device
+          const result = await this.mergeCloudTransaction(transaction, cloudDoc.data() as CloudTransaction, user.uid);
+          if (result.uploaded) uploaded++;
         }
       }
 
@@ -1181,45 +2211,44 @@ class CloudBackupService {
         const cloudTransaction = doc.data() as any;
         const transaction = cloudTransaction.data as Transaction;
 
-        // Determine cloud timestamp: prefer serverUpdatedAt (Firestore Timestamp), fallback to updatedAt (ISO string)
-        let cloudTime: Date | null = null;
-        if ((cloudTransaction as any).serverUpdatedAt && (cloudTransaction as any).serverUpdatedAt.toDate) {
-          cloudTime = (cloudTransaction as any).serverUpdatedAt.toDate();
-        } else if (cloudTransaction.updatedAt) {
-          cloudTime = new Date(cloudTransaction.updatedAt);
-        }
-
         const existing = await this.getLocalTransaction(transaction);
         if (!existing) {
-          // If cloudTime exists and is older than lastSyncTime, we may have already synced; still create local
           const created = await this.createLocalTransaction(cloudTransaction);
           if (created) downloaded++;
         } else {
-          // Compare timestamps; fallback to comparing updatedAt strings if server timestamp missing
-          const existingTime = existing.updatedAt ? new Date(existing.updatedAt) : null;
-
-          if (cloudTime && existingTime) {
-            if (cloudTime > existingTime) {
-              await this.updateLocalTransaction(transaction);
-              downloaded++;
-            } else if (existingTime > cloudTime) {
-              // Local newer -> upload local
-              await this.uploadTransaction(user.uid, existing);
-              uploaded++;
-            }
-          } else {
-            // Fallback comparison using ISO strings
-            if (new Date(transaction.updatedAt) > new Date(existing.updatedAt)) {
-              await this.updateLocalTransaction(transaction);
-              downloaded++;
-            } else if (new Date(existing.updatedAt) > new Date(transaction.updatedAt)) {
-              await this.uploadTransaction(user.uid, existing);
-              uploaded++;
-            }
-          }
+          const result = await this.mergeCloudTransaction(existing, cloudTransaction, user.uid);
+          if (result.downloaded) downloaded++;
+          if (result.uploaded) uploaded++;
         }
       }
 
+      // Two-way sync of payment history
+      try {
+        const paymentResult = await this.syncPayments(user.uid, lastSyncTime);
+        uploaded += paymentResult.uploaded;
+        downloaded += paymentResult.downloaded;
+      } catch (paymentErr) {
+        console.error('Failed to sync payments:', paymentErr);
+      }
+
+      // Two-way sync of party master data
+      try {
+        const partyResult = await this.syncParties(user.uid);
+        uploaded += partyResult.uploaded;
+        downloaded += partyResult.downloaded;
+      } catch (partyErr) {
+        console.error('Failed to sync parties:', partyErr);
+      }
+
+      // Two-way sync of storage locations, stock transfers, adjustments and grains
+      try {
+        const stockResult = await this.syncStockRecords(user.uid);
+        uploaded += stockResult.uploaded;
+        downloaded += stockResult.downloaded;
+      } catch (stockErr) {
+        console.error('Failed to sync stock records:', stockErr);
+      }
+
       // Sync user meta (cash balance, daily reset)
       try {
         const db = firestore();
@@ -1245,7 +2274,7 @@ class CloudBackupService {
           // If cloud has newer balance, restore to local
           if (cloudBalanceUpdated && new Date(cloudBalanceUpdated) > new Date(localBalanceUpdated || 0)) {
             if (cloudMeta.cashBalance !== undefined) {
-              await CashBalanceService.setBalance(cloudMeta.cashBalance);
+              await CashBalanceService.setBalance(cloudMeta.cashBalance, 'Synced from cloud');
             }
           } else {
             // Local is newer or equal - push to cloud
@@ -1283,11 +2312,13 @@ class CloudBackupService {
    * Upload single transaction to cloud
    */
   private async uploadTransaction(userId: string, transaction: Transaction): Promise<void> {
+    await DatabaseService.initDatabase();
+    const data = await this.withConflictValues(transaction);
     const cloudTransaction: CloudTransaction = {
       localId: transaction.id,
       userId,
       transactionType: transaction.transactionType,
-      data: transaction,
+      data,
       syncStatus: SyncStatus.SYNCED,
       createdAt: transaction.createdAt,
       updatedAt: transaction.updatedAt,
@@ -1297,11 +2328,12 @@ class CloudBackupService {
     const db = firestore();
     const docRef = doc(collection(db, 'users', userId, 'transactions'), transaction.id);
     await setDoc(docRef, cloudTransaction, {merge: true} as any);
+    await this.saveSyncShadow(data);
     // Create mapping record if possible
     try {
       await DatabaseService.initDatabase();
       if (!this.mappingRepo) {
-        this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
+        this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
       }
       await this.mappingRepo.createMapping(docRef.id, transaction.id, transaction.transactionType);
     } catch (e) {
@@ -1344,7 +2376,7 @@ class CloudBackupService {
     // Initialize mapping repo
     try {
       await DatabaseService.initDatabase();
-      if (!this.mappingRepo) this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getDatabase());
+      if (!this.mappingRepo) this.mappingRepo = new RemoteLocalMappingRepository(DatabaseService.getQueuedDatabase());
     } catch (e) {
       // mapping not critical for creation
       console.warn('Mapping repo init failed', e);
@@ -1392,6 +2424,7 @@ class CloudBackupService {
 
       const created = await TransactionService.createBuyTransactionFromCloud(transaction as any);
       if (remoteId && this.mappingRepo) await this.mappingRepo.createMapping(remoteId, created.id, 'BUY');
+      await this.saveSyncShadow(created);
       return true;
     }
 
@@ -1410,6 +2443,7 @@ class CloudBackupService {
 
       const created = await TransactionService.createSellTransactionFromCloud(transaction as any);
       if (remoteId && this.mappingRepo) await this.mappingRepo.createMapping(remoteId, created.id, 'SELL');
+      await this.saveSyncShadow(created);
       return true;
     }
 
@@ -1437,6 +2471,7 @@ class CloudBackupService {
 
       const created = await TransactionService.createLendTransactionFromCloud(transaction as any);
       if (remoteId && this.mappingRepo) await this.mappingRepo.createMapping(remoteId, created.id, 'LEND');
+      await this.saveSyncShadow(created);
       return true;
     }
 
@@ -1464,6 +2499,7 @@ class CloudBackupService {
 
       const created = await TransactionService.createExpenseTransactionFromCloud(transaction as any);
       if (remoteId && this.mappingRepo) await this.mappingRepo.createMapping(remoteId, created.id, 'EXPENSE');
+      await this.saveSyncShadow(created);
       return true;
     }
 
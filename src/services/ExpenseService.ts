@@ -26,23 +26,27 @@ class ExpenseService {
    */
   async createExpense(data: CreateExpenseDTO): Promise<Expense> {
     try {
-      const repo = await this.getRepository();
-      const expense = await repo.create({
-        date: data.date,
-        amount: data.amount,
-        notes: data.notes,
-        userId: '',
-      });
+      // The expense and its cash movement commit together
+      return await DatabaseService.runInTransaction(async () => {
+        const repo = await this.getRepository();
+        const expense = await repo.create({
+          date: data.date,
+          amount: data.amount,
+          notes: data.notes,
+          userId: '',
+        });
 
-      // Deduct expense from cash balance
-      console.log(`ExpenseService: Creating expense with amount=${data.amount}, type=${typeof data.amount}`);
-      const newBalance = await CashBalanceService.onExpensePayment(
-        data.notes.substring(0, 50), // Use first 50 chars of notes as expense name
-        data.amount
-      );
-      console.log(`ExpenseService: New cash balance after expense: ₹${newBalance}`);
+        // Deduct expense from cash balance
+        console.log(`ExpenseService: Creating expense with amount=${data.amount}, type=${typeof data.amount}`);
+        const newBalance = await CashBalanceService.onExpensePayment(
+          data.notes.substring(0, 50), // Use first 50 chars of notes as expense name
+          data.amount,
+          {sourceId: expense.id, entryDate: expense.date}
+        );
+        console.log(`ExpenseService: New cash balance after expense: ₹${newBalance}`);
 
-      return expense;
+        return expense;
+      });
     } catch (error) {
       console.error('Error creating expense:', error);
       throw error;
@@ -80,30 +84,35 @@ class ExpenseService {
    */
   async updateExpense(id: string, data: UpdateExpenseDTO): Promise<Expense> {
     try {
-      const repo = await this.getRepository();
+      // The cash adjustment and the new amount commit together
+      return await DatabaseService.runInTransaction(async () => {
+        const repo = await this.getRepository();
       
-      // If amount is being updated, adjust cash balance
-      if (data.amount !== undefined) {
-        const oldExpense = await repo.getById(id);
-        if (oldExpense) {
-          const difference = data.amount - oldExpense.amount;
-          if (difference > 0) {
-            // New amount is higher, subtract the difference
-            await CashBalanceService.subtractFromBalance(
-              difference,
-              `Expense updated: ${data.notes || oldExpense.notes}`
-            );
-          } else if (difference < 0) {
-            // New amount is lower, add back the difference
-            await CashBalanceService.addToBalance(
-              Math.abs(difference),
-              `Expense updated: ${data.notes || oldExpense.notes}`
-            );
+        // If amount is being updated, adjust cash balance
+        if (data.amount !== undefined) {
+          const oldExpense = await repo.getById(id);
+          if (oldExpense) {
+            const difference = data.amount - oldExpense.amount;
+            if (difference > 0) {
+              // New amount is higher, subtract the difference
+              await CashBalanceService.subtractFromBalance(
+                difference,
+                `Expense updated: ${data.notes || oldExpense.notes}`,
+                {sourceType: 'EXPENSE', sourceId: id}
+              );
+            } else if (difference < 0) {
+              // New amount is lower, add back the difference
+              await CashBalanceService.addToBalance(
+                Math.abs(difference),
+                `Expense updated: ${data.notes || oldExpense.notes}`,
+                {sourceType: 'EXPENSE', sourceId: id}
+              );
+            }
           }
         }
-      }
       
-      return await repo.update(id, data);
+        return await repo.update(id, data);
+      });
     } catch (error) {
       console.error('Error updating expense:', error);
       throw error;
@@ -115,19 +124,23 @@ class ExpenseService {
    */
   async deleteExpense(id: string): Promise<boolean> {
     try {
-      const repo = await this.getRepository();
+      // The cash reversal and the delete commit together
+      return await DatabaseService.runInTransaction(async () => {
+        const repo = await this.getRepository();
       
-      // Get expense details before deleting to add back to balance
-      const expense = await repo.getById(id);
-      if (expense) {
-        // Add back the expense amount to cash balance
-        await CashBalanceService.addToBalance(
-          expense.amount,
-          `Expense deleted: ${expense.notes.substring(0, 50)}`
-        );
-      }
+        // Get expense details before deleting to add back to balance
+        const expense = await repo.getById(id);
+        if (expense) {
+          // Add back the expense amount to cash balance
+          await CashBalanceService.addToBalance(
+            expense.amount,
+            `Expense deleted: ${expense.notes.substring(0, 50)}`,
+            {sourceType: 'EXPENSE', sourceId: id}
+          );
+        }
       
-      return await repo.delete(id);
+        return await repo.delete(id);
+      });
     } catch (error) {
       console.error('Error deleting expense:', error);
       throw error;
@@ -0,0 +1,49 @@
+import Share from 'react-native-share';
+import {SpreadsheetFormat, SpreadsheetSheet} from '../models/Spreadsheet';
+import {bytesToBase64, utf8ToBytes} from '../utils/base64';
+import {CSV_MIME_TYPE, XLSX_MIME_TYPE, buildXlsx, toCsv} from '../utils/spreadsheet';
+
+/**
+ * Export Service
+ * Hands generated files (returns, reports) to the system share sheet
+ */
+class ExportService {
+  /**
+   * Share text content as a file attachment; the share sheet writes it out under `fileName`
+   */
+  async shareTextFile(content: string, fileName: string, mimeType: string, title?: string): Promise<void> {
+    await this.shareFile(utf8ToBytes(content), fileName, mimeType, title);
+  }
+
+  /**
+   * Share binary content (e.g. an Excel workbook) as a file attachment
+   */
+  async shareFile(data: Uint8Array, fileName: string, mimeType: string, title?: string): Promise<void> {
+    try {
+      await Share.open({
+        url: `data:${mimeType};base64,${bytesToBase64(data)}`,
+        type: mimeType,
+        filename: fileName.replace(/\.[^.]+$/, ''),
+        title: title || fileName,
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Error sharing export file:', error);
+      throw new Error(`Failed to share ${fileName}`);
+    }
+  }
+
+  /**
+   * Share sheets as `<baseName>.csv` or `<baseName>.xlsx`. CSV holds a single sheet,
+   * so only the first sheet is written in that format.
+   */
+  async shareSpreadsheet(sheets: SpreadsheetSheet[], baseName: string, format: SpreadsheetFormat): Promise<void> {
+    if (format === 'CSV') {
+      await this.shareTextFile(toCsv(sheets[0]), `${baseName}.csv`, CSV_MIME_TYPE, baseName);
+    } else {
+      await this.shareFile(buildXlsx(sheets), `${baseName}.xlsx`, XLSX_MIME_TYPE, baseName);
+    }
+  }
+}
+
+export default new ExportService();
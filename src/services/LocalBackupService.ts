@@ -0,0 +1,111 @@
+import {SQLiteDatabase} from 'react-native-sqlite-storage';
+import DatabaseService from '../database/DatabaseService';
+import {LATEST_SCHEMA_VERSION} from '../database/migrations';
+import {listBackupTables, readBackupTables, restoreBackupTables} from '../database/backupRestore';
+import {BackupPayload, BackupSummary} from '../models/Backup';
+import {openBackup, sealBackup} from '../utils/backupArchive';
+import CashBalanceService from './CashBalanceService';
+
+/**
+ * Local Backup Service
+ * Passphrase-encrypted backup of every SQLite table to a single file, and restore from it,
+ * without sign-in or network
+ */
+class LocalBackupService {
+  /**
+   * Encrypt the whole dataset. Returns the file text, a suggested file name and what it holds.
+   */
+  async createBackup(passphrase: string): Promise<{content: string; fileName: string; summary: BackupSummary}> {
+    const db = await DatabaseService.initDatabase();
+    // Reading the balance first moves a legacy AsyncStorage balance into cash_ledger
+    const cashBalance = await CashBalanceService.getCurrentBalance();
+    const now = new Date();
+
+    const payload: BackupPayload = {
+      schemaVersion: await DatabaseService.getSchemaVersion(),
+      createdAt: now.toISOString(),
+      cashBalance,
+      tables: await readBackupTables(db),
+    };
+    const stamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+
+    return {
+      content: sealBackup(payload, passphrase),
+      fileName: `MandiBackup_${stamp}.json`,
+      summary: await this.summarize(db, payload),
+    };
+  }
+
+  /**
+   * Dry run: decrypt and validate a backup and compare its record counts with this device.
+   * Nothing is changed.
+   */
+  async previewRestore(content: string, passphrase: string): Promise<BackupSummary> {
+    const db = await DatabaseService.initDatabase();
+    const payload = this.openAndValidate(content, passphrase);
+    return this.summarize(db, payload);
+  }
+
+  /**
+   * Replace every table on this device with the backup's rows, in one transaction.
+   * A backup from an older version is upgraded the way that version's install would be,
+   * and pending or conflicting sync changes of the replaced data are dropped.
+   */
+  async restoreBackup(content: string, passphrase: string): Promise<BackupSummary> {
+    const payload = this.openAndValidate(content, passphrase);
+
+    await DatabaseService.runInTransaction(db => restoreBackupTables(db, payload));
+
+    console.log(`LocalBackupService: restored backup from ${payload.createdAt}`);
+    return this.summarize(await DatabaseService.initDatabase(), payload);
+  }
+
+  private openAndValidate(content: string, passphrase: string): BackupPayload {
+    const payload = openBackup(content, passphrase);
+    if (payload.schemaVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `This backup is from a newer version of the app (schema ${payload.schemaVersion}, this app supports ${LATEST_SCHEMA_VERSION}). Please update the app to restore it.`,
+      );
+    }
+    return payload;
+  }
+
+  private async summarize(db: SQLiteDatabase, payload: BackupPayload): Promise<BackupSummary> {
+    const localTables = await listBackupTables(db);
+    const names = Array.from(new Set([...Object.keys(payload.tables), ...localTables])).sort();
+    const warnings: string[] = [];
+
+    if (payload.schemaVersion < LATEST_SCHEMA_VERSION) {
+      warnings.push(
+        `Backup was made by an older version of the app (schema ${payload.schemaVersion}). It is upgraded to this version as it is restored.`,
+      );
+    }
+
+    const tables = [];
+    for (const table of names) {
+      const isLocal = localTables.includes(table);
+      const records = payload.tables[table]?.rows.length || 0;
+      if (!isLocal && records > 0) {
+        warnings.push(`${table}: ${records} record(s) will be skipped (not used by this version of the app)`);
+      }
+      tables.push({table, records, currentRecords: isLocal ? await this.countRows(db, table) : 0});
+    }
+
+    return {
+      createdAt: payload.createdAt,
+      schemaVersion: payload.schemaVersion,
+      appSchemaVersion: LATEST_SCHEMA_VERSION,
+      cashBalance: payload.cashBalance,
+      currentCashBalance: await CashBalanceService.getCurrentBalance(),
+      tables,
+      warnings,
+    };
+  }
+
+  private async countRows(db: SQLiteDatabase, table: string): Promise<number> {
+    const [result] = await db.executeSql(`SELECT COUNT(*) as count FROM ${table}`);
+    return result.rows.item(0).count || 0;
+  }
+}
+
+export default new LocalBackupService();
@@ -0,0 +1,64 @@
+import {generatePDF} from 'react-native-html-to-pdf';
+import Share from 'react-native-share';
+import AuthService from './AuthService';
+import {ReceiptDocument, ReceiptFirm} from '../models/Receipt';
+import {renderReceiptHtml} from '../utils/receiptHtml';
+import {decodeGstin} from '../utils/gstin';
+
+/**
+ * Receipt Service
+ * Renders receipts to PDF and hands the file to the system share sheet
+ */
+class ReceiptService {
+  /**
+   * Firm name, GSTIN (with its state) and phone of the signed-in trader for the receipt header
+   */
+  async getFirmDetails(): Promise<ReceiptFirm> {
+    const user = await AuthService.getCurrentUser();
+    const gstin = decodeGstin(user?.gstin);
+    return {
+      firmName: user?.firmName || user?.displayName || 'Mandi Receipt',
+      gstin: gstin?.gstin || user?.gstin,
+      state: gstin ? `${gstin.stateName} (${gstin.stateCode})` : undefined,
+      phoneNumber: user?.phoneNumber,
+    };
+  }
+
+  /**
+   * Render the receipt to a PDF in the app's cache and return its path
+   */
+  async createReceiptPdf(doc: ReceiptDocument): Promise<string> {
+    const fileName = `${doc.kind}_${doc.invoiceNumber}`.replace(/[^A-Za-z0-9_-]/g, '_');
+    const result = await generatePDF({
+      html: renderReceiptHtml(doc),
+      fileName,
+      width: 595, // A4 in points
+      height: 842,
+      shouldPrintBackgrounds: true,
+    });
+    return result.filePath;
+  }
+
+  /**
+   * Render the receipt to PDF and open the share sheet with the file attached
+   */
+  async shareReceiptPdf(doc: ReceiptDocument): Promise<void> {
+    const filePath = await this.createReceiptPdf(doc);
+    const url = filePath.startsWith('file://') ? filePath : `file://${filePath}`;
+
+    try {
+      await Share.open({
+        url,
+        type: 'application/pdf',
+        filename: `${doc.invoiceNumber}.pdf`,
+        title: `${doc.title} ${doc.invoiceNumber}`,
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.error('Error sharing receipt PDF:', error);
+      throw new Error('Failed to share receipt PDF');
+    }
+  }
+}
+
+export default new ReceiptService();
@@ -1,5 +1,15 @@
 import DatabaseService from '../database/DatabaseService';
 
+export type SyncLogLevel = 'INFO' | 'ERROR';
+
+export interface SyncLogEntry {
+  id: number;
+  level: SyncLogLevel;
+  message: string;
+  meta: string | null; // JSON text as logged
+  createdAt: string; // ISO timestamp
+}
+
 export default class SyncLogger {
   static async logInfo(message: string, meta?: any) {
     await this.log('INFO', message, meta);
@@ -9,10 +19,10 @@ export default class SyncLogger {
     await this.log('ERROR', message, meta);
   }
 
-  private static async log(level: string, message: string, meta?: any) {
+  private static async log(level: SyncLogLevel, message: string, meta?: any) {
     try {
       await DatabaseService.initDatabase();
-      const db = DatabaseService.getDatabase();
+      const db = DatabaseService.getQueuedDatabase();
       const metaStr = meta ? JSON.stringify(meta) : null;
       await db.executeSql(`INSERT INTO sync_logs (level, message, meta) VALUES (?, ?, ?)`, [level, message, metaStr]);
     } catch (e) {
@@ -21,14 +31,24 @@ export default class SyncLogger {
     }
   }
 
-  static async getRecentLogs(limit = 100) {
+  /**
+   * Newest entries first, optionally only one level
+   */
+  static async getRecentLogs(limit = 100, level?: SyncLogLevel): Promise<SyncLogEntry[]> {
     try {
       await DatabaseService.initDatabase();
       const db = DatabaseService.getDatabase();
-      const res = await db.executeSql(`SELECT id, level, message, meta, created_at FROM sync_logs ORDER BY id DESC LIMIT ?`, [limit]);
+      const res = level
+        ? await db.executeSql(`SELECT id, level, message, meta, created_at FROM sync_logs WHERE level = ? ORDER BY id DESC LIMIT ?`, [level, limit])
+        : await db.executeSql(`SELECT id, level, message, meta, created_at FROM sync_logs ORDER BY id DESC LIMIT ?`, [limit]);
       const rows = res[0].rows;
-      const out: Array<any> = [];
-      for (let i = 0; i < rows.length; i++) out.push(rows.item(i));
+      const out: SyncLogEntry[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows.item(i);
+        // created_at comes from SQLite datetime('now'): UTC without a zone marker
+        const createdAt = row.created_at && !row.created_at.includes('T') ? `${row.created_at.replace(' ', 'T')}Z` : row.created_at;
+        out.push({id: row.id, level: row.level, message: row.message, meta: row.meta, createdAt});
+      }
       return out;
     } catch (e) {
       console.error('Failed to read sync logs', e);
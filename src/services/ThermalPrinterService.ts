@@ -0,0 +1,110 @@
+import {PaperWidth, ReceiptDocument} from '../models/Receipt';
+import {renderReceiptEscPos} from '../utils/escpos';
+
+/**
+ * Connection to a receipt printer. The Bluetooth/USB/network implementation is
+ * supplied by the app; the service only hands it ESC/POS bytes.
+ */
+export interface PrinterTransport {
+  readonly name: string;
+  // Largest write the link accepts at once (BLE characteristics are often limited to ~512 bytes)
+  readonly maxChunkSize?: number;
+  connect(): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Transport that keeps everything written to it instead of printing.
+ * Used as a byte-level fake printer and for previewing output.
+ */
+export class MemoryPrinterTransport implements PrinterTransport {
+  readonly name = 'Memory';
+  readonly writes: Uint8Array[] = [];
+  connected = false;
+
+  constructor(readonly maxChunkSize?: number) {}
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Printer is not connected');
+    }
+    this.writes.push(data);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  /**
+   * All bytes received so far, in order
+   */
+  getBytes(): Uint8Array {
+    const total = this.writes.reduce((sum, chunk) => sum + chunk.length, 0);
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of this.writes) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Thermal Printer Service
+ * Prints receipts on 58mm/80mm ESC/POS printers through a pluggable transport
+ */
+class ThermalPrinterService {
+  private transport: PrinterTransport | null = null;
+  private paperWidth: PaperWidth = '58mm';
+
+  setTransport(transport: PrinterTransport | null): void {
+    this.transport = transport;
+  }
+
+  getTransport(): PrinterTransport | null {
+    return this.transport;
+  }
+
+  setPaperWidth(paperWidth: PaperWidth): void {
+    this.paperWidth = paperWidth;
+  }
+
+  getPaperWidth(): PaperWidth {
+    return this.paperWidth;
+  }
+
+  /**
+   * Render the receipt for the configured (or given) paper width and print it
+   */
+  async printReceipt(doc: ReceiptDocument, paperWidth: PaperWidth = this.paperWidth): Promise<void> {
+    await this.printBytes(renderReceiptEscPos(doc, paperWidth));
+  }
+
+  /**
+   * Send raw ESC/POS bytes, split into chunks the transport can take
+   */
+  async printBytes(data: Uint8Array): Promise<void> {
+    const transport = this.transport;
+    if (!transport) {
+      throw new Error('No printer connected');
+    }
+
+    const chunkSize = transport.maxChunkSize && transport.maxChunkSize > 0 ? transport.maxChunkSize : data.length;
+    await transport.connect();
+    try {
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        await transport.write(data.subarray(offset, offset + chunkSize));
+      }
+    } finally {
+      await transport.disconnect();
+    }
+  }
+}
+
+export default new ThermalPrinterService();
@@ -11,10 +11,57 @@ import {BuyTransactionRepository} from '../repositories/BuyTransactionRepository
 import {SellTransactionRepository} from '../repositories/SellTransactionRepository';
 import {LendTransactionRepository} from '../repositories/LendTransactionRepository';
 import {ExpenseTransactionRepository} from '../repositories/ExpenseTransactionRepository';
+import {ExpenseRepository} from '../repositories/ExpenseRepository';
 import {FarmerRepository} from '../repositories/FarmerRepository';
 import {PaymentRepository} from '../repositories/PaymentRepository';
+import {MerchantRepository} from '../repositories/MerchantRepository';
+import {CustomerRepository} from '../repositories/CustomerRepository';
+import {TransactionItemRepository} from '../repositories/TransactionItemRepository';
+import {StorageLocationRepository} from '../repositories/StorageLocationRepository';
+import {StockTransferRepository} from '../repositories/StockTransferRepository';
+import {StockAdjustmentRepository} from '../repositories/StockAdjustmentRepository';
+import {GrainRepository} from '../repositories/GrainRepository';
 import {Farmer} from '../models/Farmer';
+import {Merchant} from '../models/Merchant';
+import {Customer} from '../models/Customer';
+import {Party, PartyType} from '../models/Party';
 import {Payment} from '../models/Payment';
+import {PartyLedgerEntry} from '../models/PartyLedger';
+import {Gstr1Export} from '../models/Gstr1';
+import {TallyExport} from '../models/Tally';
+import {SpreadsheetSheet} from '../models/Spreadsheet';
+import {TransactionItem, TransactionItemInput} from '../models/TransactionItem';
+import {LotAllocation, LotAllocationResult, StockLot} from '../models/StockLot';
+import {CostingMethod, TradingMarginReport} from '../models/TradingMargin';
+import {LocationStock, StockTransfer, StorageLocation} from '../models/StorageLocation';
+import {PhysicalCount, StockAdjustment, StockReconciliation} from '../models/StockAdjustment';
+import {StockRecord, StockRecordType} from '../models/StockRecord';
+import {Grain} from '../models/Grain';
+import {Expense} from '../models/Expense';
+import {deriveLegacyItems, itemFromBillHeader} from '../utils/transactionItems';
+import {allocateLots, grainKey} from '../utils/stockLots';
+import {averageCostByGrain, buildTradingMargin} from '../utils/tradingMargin';
+import {buildStockReconciliation, countsByGrain} from '../utils/stockReconciliation';
+import {
+  buildGrainLookup,
+  findGrain,
+  regroupByGrain,
+  resolveGrainList,
+  resolveGrainName,
+  withMasterGrainNames,
+} from '../utils/grainMaster';
+import {calculateLoanPosition, getInterestTerms, parseLegacyInterestRate, splitRepayment} from '../utils/interest';
+import {buildGstr1Export} from '../utils/gstr1';
+import {TallySource, buildTallyExport} from '../utils/tally';
+import {
+  buildBuySheet,
+  buildExpenseSheet,
+  buildExpenseTransactionSheet,
+  buildLendSheet,
+  buildPaymentSheet,
+  buildSellSheet,
+} from '../utils/transactionSheets';
+import {normalizeGstin, validateGstin} from '../utils/gstin';
 import DatabaseService from '../database/DatabaseService';
 import CashBalanceService from './CashBalanceService';
 import AuthService from './AuthService';
@@ -35,7 +82,9 @@ export interface ITransactionService {
   getDashboardSummary(): Promise<DashboardSummary>;
   getDashboardSummaryByDateRange(startDate: Date, endDate: Date): Promise<DashboardSummary>;
   getStockSummary(): Promise<number>;
-  getStockByGrainType(): Promise<StockByGrainType[]>;
+  getStockByGrainType(locationId?: string): Promise<StockByGrainType[]>;
+  getStockByLocation(): Promise<LocationStock[]>;
+  getStockLots(grainType?: string, locationId?: string | null): Promise<StockLot[]>;
 }
 
 /**
@@ -68,8 +117,16 @@ export class TransactionService implements ITransactionService {
   private sellRepository!: SellTransactionRepository;
   private lendRepository!: LendTransactionRepository;
   private expenseRepository!: ExpenseTransactionRepository;
+  private cashExpenseRepository!: ExpenseRepository; // Expenses paid from cash, as kept by ExpenseService
   private farmerRepository!: FarmerRepository;
   private paymentRepository!: PaymentRepository;
+  private merchantRepository!: MerchantRepository;
+  private customerRepository!: CustomerRepository;
+  private itemRepository!: TransactionItemRepository;
+  private locationRepository!: StorageLocationRepository;
+  private transferRepository!: StockTransferRepository;
+  private adjustmentRepository!: StockAdjustmentRepository;
+  private grainRepository!: GrainRepository;
   private dbService: typeof DatabaseService;
 
   constructor() {
@@ -119,7 +176,15 @@ export class TransactionService implements ITransactionService {
     this.lendRepository = new LendTransactionRepository(db);
     this.farmerRepository = new FarmerRepository(db);
     this.expenseRepository = new ExpenseTransactionRepository(db);
+    this.cashExpenseRepository = new ExpenseRepository(db);
     this.paymentRepository = new PaymentRepository(db);
+    this.merchantRepository = new MerchantRepository(db);
+    this.customerRepository = new CustomerRepository(db);
+    this.itemRepository = new TransactionItemRepository(db);
+    this.locationRepository = new StorageLocationRepository(db);
+    this.transferRepository = new StockTransferRepository(db);
+    this.adjustmentRepository = new StockAdjustmentRepository(db);
+    this.grainRepository = new GrainRepository(db);
     
     // Check and perform daily reset if needed
     await DailyResetService.checkAndResetIfNewDay();
@@ -177,18 +242,222 @@ export class TransactionService implements ITransactionService {
     }
   }
 
+  /**
+   * Auto-sync payment to Firebase (non-blocking)
+   */
+  private async autoSyncPaymentToCloud(payment: Payment): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser();
+      if (!user) {
+        console.log('Payment auto-sync skipped: User not authenticated');
+        return;
+      }
+
+      // Lazy import to avoid circular dependency
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      await CloudBackupService.uploadSinglePayment(payment, user.uid);
+      console.log(`Auto-synced payment ${payment.id} to cloud`);
+    } catch (error) {
+      // Silently fail - payment is already saved locally
+      console.error('Payment auto-sync failed (payment safe in local DB):', error);
+    }
+  }
+
+  /**
+   * Auto-delete payment from Firebase (non-blocking)
+   */
+  private async autoDeletePaymentFromCloud(paymentId: string): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser();
+      if (!user) {
+        console.log('Payment auto-delete skipped: User not authenticated');
+        return;
+      }
+
+      // Lazy import to avoid circular dependency
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      const deleted = await CloudBackupService.deleteSinglePayment(paymentId, user.uid);
+      if (deleted) {
+        console.log(`Auto-deleted payment ${paymentId} from cloud`);
+      } else {
+        console.log(`Payment auto-delete queued for retry: ${paymentId}`);
+      }
+    } catch (error) {
+      // Silently fail - payment is already deleted locally
+      console.error('Payment auto-delete failed (payment removed from local DB):', error);
+    }
+  }
+
+  /**
+   * Auto-sync party master data to Firebase (non-blocking)
+   */
+  private async autoSyncPartyToCloud(partyType: PartyType, party: Party): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser();
+      if (!user) {
+        console.log('Party auto-sync skipped: User not authenticated');
+        return;
+      }
+
+      // Lazy import to avoid circular dependency
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      await CloudBackupService.uploadSingleParty(partyType, party, user.uid);
+      console.log(`Auto-synced ${partyType.toLowerCase()} ${party.phoneNumber} to cloud`);
+    } catch (error) {
+      // Silently fail - party is already saved locally
+      console.error('Party auto-sync failed (party safe in local DB):', error);
+    }
+  }
+
+  /**
+   * Auto-sync a storage location or stock transfer to Firebase (non-blocking)
+   */
+  private async autoSyncStockRecordToCloud(recordType: StockRecordType, record: StockRecord): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser();
+      if (!user) {
+        console.log('Stock record auto-sync skipped: User not authenticated');
+        return;
+      }
+
+      // Lazy import to avoid circular dependency
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      await CloudBackupService.uploadSingleStockRecord(recordType, record, user.uid);
+      console.log(`Auto-synced ${recordType.toLowerCase()} ${record.id} to cloud`);
+    } catch (error) {
+      // Silently fail - record is already saved locally
+      console.error('Stock record auto-sync failed (record safe in local DB):', error);
+    }
+  }
+
+  /**
+   * Auto-delete a storage location or stock transfer from Firebase (non-blocking)
+   */
+  private async autoDeleteStockRecordFromCloud(recordType: StockRecordType, id: string): Promise<void> {
+    try {
+      const user = await AuthService.getCurrentUser();
+      if (!user) {
+        console.log('Stock record auto-delete skipped: User not authenticated');
+        return;
+      }
+
+      // Lazy import to avoid circular dependency
+      const {default: CloudBackupService} = await import('./CloudBackupService');
+      await CloudBackupService.deleteSingleStockRecord(recordType, id, user.uid);
+    } catch (error) {
+      // Silently fail - record is already deleted locally
+      console.error('Stock record auto-delete failed (record removed from local DB):', error);
+    }
+  }
+
+  /**
+   * Remove the payment history of a deleted transaction locally and from cloud
+   */
+  private async deletePaymentsForTransaction(transactionId: string, propagateToCloud: boolean = true): Promise<void> {
+    const payments = await this.paymentRepository.findByTransactionId(transactionId);
+    await this.paymentRepository.deleteByTransactionId(transactionId);
+    if (propagateToCloud) {
+      for (const p of payments) {
+        // Only once the delete is committed
+        this.dbService.runAfterCommit(() => this.autoDeletePaymentFromCloud(p.id));
+      }
+    }
+  }
+
+  /**
+   * Attach the bill's line items to a buy/sell transaction
+   */
+  private async withItems<T extends BuyTransaction | SellTransaction>(transaction: T | null): Promise<T | null> {
+    if (!transaction) return null;
+    transaction.items = await this.itemRepository.findByTransactionId(transaction.id);
+    return transaction;
+  }
+
+  /**
+   * Attach line items to a list of buy/sell transactions with a single query
+   */
+  private async withItemsForAll<T extends BuyTransaction | SellTransaction>(
+    transactions: T[],
+    transactionType: 'BUY' | 'SELL',
+  ): Promise<T[]> {
+    const itemsByTransaction = await this.itemRepository.findGroupedByTransaction(transactionType);
+    return transactions.map(t => {
+      t.items = itemsByTransaction[t.id] || [];
+      return t;
+    });
+  }
+
+  /**
+   * Split the line items off a bill received from cloud. Documents written before
+   * items were synced carry them in the description instead; those are parsed and
+   * the description cleared, as the schema migration does for local rows.
+   * Returns null items when the document says nothing about its lines.
+   */
+  private takeCloudItems<T extends BuyTransaction | SellTransaction>(
+    transaction: Partial<T>,
+  ): {data: Partial<T>; items: TransactionItem[] | TransactionItemInput[] | null} {
+    const {items, ...rest} = transaction;
+    const data = rest as Partial<T>;
+    if (items && items.length > 0) {
+      return {data, items};
+    }
+    if (!data.description || data.quantity === undefined) {
+      return {data, items: null};
+    }
+
+    const derived = deriveLegacyItems(
+      {
+        grainType: data.grainType,
+        quantity: data.quantity,
+        ratePerQuintal: data.ratePerQuintal || 0,
+        totalAmount: data.totalAmount || 0,
+      },
+      data.description,
+    );
+    if (!derived.fromDescription) {
+      return {data, items: null};
+    }
+    if (!data.grainType || data.grainType.trim() === '') {
+      data.grainType = derived.items[0].grainType;
+    }
+    data.description = '';
+    return {data, items: derived.items};
+  }
+
+  /**
+   * Store line items received from cloud, keeping their ids when they have them
+   */
+  private async saveCloudItems(
+    transactionId: string,
+    transactionType: 'BUY' | 'SELL',
+    items: TransactionItem[] | TransactionItemInput[],
+  ): Promise<TransactionItem[]> {
+    if (items.length > 0 && 'id' in items[0]) {
+      return this.itemRepository.replaceWithIds(transactionId, items as TransactionItem[]);
+    }
+    return this.itemRepository.replaceForTransaction(transactionId, transactionType, items as TransactionItemInput[]);
+  }
+
   /**
    * Buy Transaction Operations
    */
   public async createBuyTransaction(
-    data: Omit<BuyTransaction, 'id' | 'createdAt' | 'updatedAt' | 'transactionType'>,
+    data: Omit<BuyTransaction, 'id' | 'createdAt' | 'updatedAt' | 'transactionType' | 'items'>,
+    items: TransactionItemInput[] = [],
   ): Promise<BuyTransaction> {
     await this.initializeDatabase();
+    await this.assertLocationSelected(data.locationId);
     // Auto-generate invoice number if not provided
     if (!data.invoiceNumber) {
       data.invoiceNumber = await this.generateInvoiceNumber('BUY');
     }
-    const transaction = await this.buyRepository.create(data);
+    const lines = await this.withMasterGrainLines(data, items);
+    // The bill and its lines commit together
+    const transaction = await this.dbService.runInTransaction(async () => {
+      const created = await this.buyRepository.create(data);
+      created.items = await this.itemRepository.replaceForTransaction(created.id, 'BUY', lines);
+      return created;
+    });
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -199,19 +468,33 @@ export class TransactionService implements ITransactionService {
    */
   public async createBuyTransactionFromCloud(transaction: BuyTransaction): Promise<BuyTransaction> {
     await this.initializeDatabase();
-    return await this.buyRepository.createWithId(transaction);
+    const {data, items} = this.takeCloudItems(transaction);
+    const row = data as BuyTransaction;
+    return await this.dbService.runInTransaction(async () => {
+      const created = await this.buyRepository.createWithId(row);
+      created.items = await this.saveCloudItems(created.id, 'BUY', items || [itemFromBillHeader(row)]);
+      return created;
+    });
   }
 
   public async getBuyTransaction(id: string): Promise<BuyTransaction | null> {
-    return await this.buyRepository.findById(id);
+    return await this.withItems(await this.buyRepository.findById(id));
   }
 
   public async getBuyTransactionById(id: string): Promise<BuyTransaction | null> {
-    return await this.buyRepository.findById(id);
+    return await this.withItems(await this.buyRepository.findById(id));
   }
 
   public async getAllBuyTransactions(): Promise<BuyTransaction[]> {
-    return await this.buyRepository.findAll();
+    return await this.withItemsForAll(await this.buyRepository.findAll(), 'BUY');
+  }
+
+  /**
+   * Get the grain lines of a buy or sell bill
+   */
+  public async getTransactionItems(transactionId: string): Promise<TransactionItem[]> {
+    await this.initializeDatabase();
+    return await this.itemRepository.findByTransactionId(transactionId);
   }
 
   public async searchBuyTransactionsByPhone(phone: string): Promise<BuyTransaction[]> {
@@ -225,10 +508,12 @@ export class TransactionService implements ITransactionService {
     id: string,
     data: Partial<BuyTransaction>,
   ): Promise<BuyTransaction> {
-    const transaction = await this.buyRepository.update(id, data);
+    const transaction = await this.dbService.runInTransaction(async () =>
+      this.withItems(await this.buyRepository.update(id, data)),
+    );
     // Auto-sync to cloud (non-blocking)
-    this.autoSyncToCloud(transaction).catch(console.error);
-    return transaction;
+    this.autoSyncToCloud(transaction!).catch(console.error);
+    return transaction!;
   }
 
   /**
@@ -240,27 +525,40 @@ export class TransactionService implements ITransactionService {
     updatedAt: string,
   ): Promise<BuyTransaction> {
     await this.initializeDatabase();
-    return await this.buyRepository.updateWithTimestamp(id, data, updatedAt);
+    const {data: row, items} = this.takeCloudItems(data);
+    return await this.dbService.runInTransaction(async () => {
+      const updated = await this.buyRepository.updateWithTimestamp(id, row, updatedAt);
+      updated.items = items
+        ? await this.saveCloudItems(id, 'BUY', items)
+        : await this.itemRepository.findByTransactionId(id);
+      return updated;
+    });
   }
 
   public async deleteBuyTransaction(id: string): Promise<boolean> {
-    // Get transaction details before deleting to reverse cash balance effects
-    const transaction = await this.buyRepository.findById(id);
-    if (transaction) {
-      try {
+    // The cash reversal, the bill and its payments go together
+    const result = await this.dbService.runInTransaction(async () => {
+      // Get transaction details before deleting to reverse cash balance effects
+      const transaction = await this.buyRepository.findById(id);
+      if (transaction) {
         // Reverse any payments made (add back to cash balance)
         const payments = await this.paymentRepository.findByTransactionId(id);
         const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
         if (totalPaid > 0) {
-          const currentBalance = await CashBalanceService.getCurrentBalance();
-          await CashBalanceService.setBalance(currentBalance + totalPaid);
+          await CashBalanceService.addToBalance(totalPaid, `Buy transaction deleted: ${transaction.supplierName}`, {
+            sourceType: 'BUY',
+            sourceId: id,
+          });
         }
-      } catch (err) {
-        console.error('Error reversing cash balance on buy transaction deletion:', err);
       }
-    }
 
-    const result = await this.buyRepository.delete(id);
+      const deleted = await this.buyRepository.delete(id);
+      if (deleted) {
+        await this.itemRepository.deleteByTransactionId(id);
+        await this.deletePaymentsForTransaction(id);
+      }
+      return deleted;
+    });
     if (result) {
       // Delete from cloud (non-blocking)
       this.autoDeleteFromCloud(id).catch(console.error);
@@ -292,14 +590,23 @@ export class TransactionService implements ITransactionService {
    * Sell Transaction Operations
    */
   public async createSellTransaction(
-    data: Omit<SellTransaction, 'id' | 'createdAt' | 'updatedAt' | 'transactionType'>,
+    data: Omit<SellTransaction, 'id' | 'createdAt' | 'updatedAt' | 'transactionType' | 'items'>,
+    items: TransactionItemInput[] = [],
   ): Promise<SellTransaction> {
     await this.initializeDatabase();
+    await this.assertLocationSelected(data.locationId);
     // Auto-generate invoice number if not provided
     if (!data.invoiceNumber) {
       data.invoiceNumber = await this.generateInvoiceNumber('SELL');
     }
-    const transaction = await this.sellRepository.create(data);
+    const lines = await this.withMasterGrainLines(data, items);
+    await this.assertLotPicksAvailable(lines, data.locationId);
+    // The bill and its lines commit together
+    const transaction = await this.dbService.runInTransaction(async () => {
+      const created = await this.sellRepository.create(data);
+      created.items = await this.itemRepository.replaceForTransaction(created.id, 'SELL', lines);
+      return created;
+    });
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -310,27 +617,34 @@ export class TransactionService implements ITransactionService {
    */
   public async createSellTransactionFromCloud(transaction: SellTransaction): Promise<SellTransaction> {
     await this.initializeDatabase();
-    return await this.sellRepository.createWithId(transaction);
+    const {data, items} = this.takeCloudItems(transaction);
+    const row = data as SellTransaction;
+    return await this.dbService.runInTransaction(async () => {
+      const created = await this.sellRepository.createWithId(row);
+      created.items = await this.saveCloudItems(created.id, 'SELL', items || [itemFromBillHeader(row)]);
+      return created;
+    });
   }
 
   public async getSellTransaction(id: string): Promise<SellTransaction | null> {
-    return await this.sellRepository.findById(id);
+    return await this.withItems(await this.sellRepository.findById(id));
   }
 
   public async getAllSellTransactions(): Promise<SellTransaction[]> {
     await this.initializeDatabase();
-    const list = await this.sellRepository.findAll();
-    return list.map(txn => this.fillGrainTypeFromDescription(txn));
+    return await this.withItemsForAll(await this.sellRepository.findAll(), 'SELL');
   }
 
   public async updateSellTransaction(
     id: string,
     data: Partial<SellTransaction>,
   ): Promise<SellTransaction> {
-    const transaction = await this.sellRepository.update(id, data);
+    const transaction = await this.dbService.runInTransaction(async () =>
+      this.withItems(await this.sellRepository.update(id, data)),
+    );
     // Auto-sync to cloud (non-blocking)
-    this.autoSyncToCloud(transaction).catch(console.error);
-    return transaction;
+    this.autoSyncToCloud(transaction!).catch(console.error);
+    return transaction!;
   }
 
   /**
@@ -342,27 +656,40 @@ export class TransactionService implements ITransactionService {
     updatedAt: string,
   ): Promise<SellTransaction> {
     await this.initializeDatabase();
-    return await this.sellRepository.updateWithTimestamp(id, data, updatedAt);
+    const {data: row, items} = this.takeCloudItems(data);
+    return await this.dbService.runInTransaction(async () => {
+      const updated = await this.sellRepository.updateWithTimestamp(id, row, updatedAt);
+      updated.items = items
+        ? await this.saveCloudItems(id, 'SELL', items)
+        : await this.itemRepository.findByTransactionId(id);
+      return updated;
+    });
   }
 
   public async deleteSellTransaction(id: string): Promise<boolean> {
-    // Get transaction details before deleting to reverse cash balance effects
-    const transaction = await this.sellRepository.findById(id);
-    if (transaction) {
-      try {
+    // The cash reversal, the bill and its payments go together
+    const result = await this.dbService.runInTransaction(async () => {
+      // Get transaction details before deleting to reverse cash balance effects
+      const transaction = await this.sellRepository.findById(id);
+      if (transaction) {
         // Reverse any payments received (deduct from cash balance)
         const payments = await this.paymentRepository.findByTransactionId(id);
         const totalReceived = payments.reduce((sum, p) => sum + p.amount, 0);
         if (totalReceived > 0) {
-          const currentBalance = await CashBalanceService.getCurrentBalance();
-          await CashBalanceService.setBalance(currentBalance - totalReceived);
+          await CashBalanceService.subtractFromBalance(totalReceived, `Sell transaction deleted: ${transaction.buyerName}`, {
+            sourceType: 'SELL',
+            sourceId: id,
+          });
         }
-      } catch (err) {
-        console.error('Error reversing cash balance on sell transaction deletion:', err);
       }
-    }
 
-    const result = await this.sellRepository.delete(id);
+      const deleted = await this.sellRepository.delete(id);
+      if (deleted) {
+        await this.itemRepository.deleteByTransactionId(id);
+        await this.deletePaymentsForTransaction(id);
+      }
+      return deleted;
+    });
     if (result) {
       // Delete from cloud (non-blocking)
       this.autoDeleteFromCloud(id).catch(console.error);
@@ -388,30 +715,7 @@ export class TransactionService implements ITransactionService {
 
   public async getSellTransactionById(id: string): Promise<SellTransaction | null> {
     await this.initializeDatabase();
-    const txn = await this.sellRepository.findById(id);
-    if (!txn) return null;
-    return this.fillGrainTypeFromDescription(txn);
-  }
-
-  /**
-   * If a sell transaction has an encoded `BillOfSupplyItems::` description and its
-   * `grainType` is missing, fill it from the first item in the payload.
-   */
-  private fillGrainTypeFromDescription(txn: SellTransaction): SellTransaction {
-    try {
-      if ((!txn.grainType || txn.grainType.trim() === '') && txn.description && txn.description.startsWith('BillOfSupplyItems::')) {
-        const payloadStr = decodeURIComponent(txn.description.replace('BillOfSupplyItems::', ''));
-        const parsed = JSON.parse(payloadStr) as any;
-        const items: any[] = Array.isArray(parsed) ? parsed : (parsed.items || []);
-        if (items && items.length > 0 && items[0].grainType) {
-          txn.grainType = items[0].grainType;
-        }
-      }
-    } catch (e) {
-      // ignore parse errors — leave grainType as-is
-      console.warn('fillGrainTypeFromDescription: failed to parse description for txn', txn.id, e);
-    }
-    return txn;
+    return await this.withItems(await this.sellRepository.findById(id));
   }
 
   public async getMerchantByPhone(phone: string): Promise<any | null> {
@@ -428,6 +732,401 @@ export class TransactionService implements ITransactionService {
     return await customerRepo.findByPhoneNumber(phone);
   }
 
+  /**
+   * Party Master Data Operations
+   * Parties are synced to cloud keyed by phone number
+   */
+  public async createFarmer(data: Omit<Farmer, 'id' | 'createdAt' | 'updatedAt'>): Promise<Farmer> {
+    await this.initializeDatabase();
+    const farmer = await this.dbService.runInTransaction(() => this.farmerRepository.create(data));
+    this.autoSyncPartyToCloud('FARMER', farmer).catch(console.error);
+    return farmer;
+  }
+
+  public async createMerchant(data: Omit<Merchant, 'id' | 'createdAt' | 'updatedAt'>): Promise<Merchant> {
+    const {error} = validateGstin(data.gstin);
+    if (error) {
+      throw new Error(`Invalid GSTIN: ${error}`);
+    }
+    await this.initializeDatabase();
+    const merchant = await this.dbService.runInTransaction(() =>
+      this.merchantRepository.create({...data, gstin: normalizeGstin(data.gstin)}),
+    );
+    this.autoSyncPartyToCloud('MERCHANT', merchant).catch(console.error);
+    return merchant;
+  }
+
+  public async createCustomer(data: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<Customer> {
+    await this.initializeDatabase();
+    const customer = await this.dbService.runInTransaction(() => this.customerRepository.create(data));
+    this.autoSyncPartyToCloud('CUSTOMER', customer).catch(console.error);
+    return customer;
+  }
+
+  public async getPartyByPhone(partyType: PartyType, phone: string): Promise<Party | null> {
+    await this.initializeDatabase();
+    switch (partyType) {
+      case 'FARMER':
+        return await this.farmerRepository.findByPhoneNumber(phone);
+      case 'MERCHANT':
+        return await this.merchantRepository.findByPhoneNumber(phone);
+      case 'CUSTOMER':
+        return await this.customerRepository.findByPhoneNumber(phone);
+    }
+  }
+
+  public async getAllParties(partyType: PartyType): Promise<Party[]> {
+    await this.initializeDatabase();
+    switch (partyType) {
+      case 'FARMER':
+        return await this.farmerRepository.findAll();
+      case 'MERCHANT':
+        return await this.merchantRepository.findAll();
+      case 'CUSTOMER':
+        return await this.customerRepository.findAll();
+    }
+  }
+
+  /**
+   * Insert or update a party from cloud data without triggering auto-sync
+   */
+  public async upsertPartyFromCloud(partyType: PartyType, party: Party): Promise<Party> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(async () => {
+      switch (partyType) {
+        case 'FARMER':
+          return await this.farmerRepository.upsertFromCloud(party as Farmer);
+        case 'MERCHANT':
+          return await this.merchantRepository.upsertFromCloud(party as Merchant);
+        case 'CUSTOMER':
+          return await this.customerRepository.upsertFromCloud(party as Customer);
+      }
+    });
+  }
+
+  /**
+   * Remove a party deleted on another device without re-propagating
+   */
+  public async deletePartyFromCloud(partyType: PartyType, phone: string): Promise<boolean> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(async () => {
+      switch (partyType) {
+        case 'FARMER':
+          return await this.farmerRepository.deleteByPhoneNumber(phone);
+        case 'MERCHANT':
+          return await this.merchantRepository.deleteByPhoneNumber(phone);
+        case 'CUSTOMER':
+          return await this.customerRepository.deleteByPhoneNumber(phone);
+      }
+    });
+  }
+
+  /**
+   * Get every stock record of one type, for cloud backup and sync
+   */
+  public async getAllStockRecords(recordType: StockRecordType): Promise<StockRecord[]> {
+    await this.initializeDatabase();
+    switch (recordType) {
+      case 'LOCATION':
+        return await this.locationRepository.findAll();
+      case 'TRANSFER':
+        return await this.transferRepository.findAll();
+      case 'ADJUSTMENT':
+        return await this.adjustmentRepository.findAll();
+      case 'GRAIN':
+        return await this.grainRepository.findAll();
+    }
+  }
+
+  public async getStockRecord(recordType: StockRecordType, id: string): Promise<StockRecord | null> {
+    await this.initializeDatabase();
+    switch (recordType) {
+      case 'LOCATION':
+        return await this.locationRepository.findById(id);
+      case 'TRANSFER':
+        return await this.transferRepository.findById(id);
+      case 'ADJUSTMENT':
+        return await this.adjustmentRepository.findById(id);
+      case 'GRAIN':
+        return await this.grainRepository.findById(id);
+    }
+  }
+
+  /**
+   * Insert or update a stock record from cloud data without triggering auto-sync
+   */
+  public async upsertStockRecordFromCloud(recordType: StockRecordType, record: StockRecord): Promise<StockRecord> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(async () => {
+      switch (recordType) {
+        case 'LOCATION':
+          return await this.locationRepository.upsertFromCloud(record as StorageLocation);
+        case 'TRANSFER': {
+          // The transport expense only exists on the device that entered the transfer
+          const existing = await this.transferRepository.findById(record.id);
+          return await this.transferRepository.insert({...(record as StockTransfer), expenseId: existing?.expenseId});
+        }
+        case 'ADJUSTMENT':
+          return await this.adjustmentRepository.insert(record as StockAdjustment);
+        case 'GRAIN':
+          return await this.grainRepository.upsertFromCloud(record as Grain);
+      }
+    });
+  }
+
+  /**
+   * Remove a stock record deleted on another device without re-propagating
+   */
+  public async deleteStockRecordFromCloud(recordType: StockRecordType, id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    switch (recordType) {
+      case 'LOCATION':
+        return await this.dbService.runInTransaction(() => this.locationRepository.delete(id));
+      case 'TRANSFER':
+        return await this.dbService.runInTransaction(async () => {
+          const transfer = await this.transferRepository.findById(id);
+          if (transfer?.expenseId) {
+            await this.removeTransportExpense(transfer.expenseId);
+          }
+          return await this.transferRepository.delete(id);
+        });
+      case 'ADJUSTMENT':
+        return await this.dbService.runInTransaction(() => this.adjustmentRepository.delete(id));
+      case 'GRAIN':
+        return await this.dbService.runInTransaction(() => this.grainRepository.delete(id));
+    }
+  }
+
+  /**
+   * GSTR-1 return for a month (1-12) built from the sell bills, with buyer GSTINs
+   * taken from the bill or the merchant master and the firm GSTIN from the profile.
+   * Lines without an HSN code take the grain master's.
+   */
+  public async getGstr1Export(year: number, month: number): Promise<Gstr1Export> {
+    await this.initializeDatabase();
+    const user = await AuthService.getCurrentUser();
+    const grains = await this.grainRepository.findAll();
+    const sells = (await this.getAllSellTransactions()).map(sell => ({
+      ...sell,
+      items: sell.items?.map(item => ({
+        ...item,
+        hsnCode: item.hsnCode || findGrain(grains, item.grainType || sell.grainType)?.hsnCode,
+      })),
+    }));
+    const merchants = await this.merchantRepository.findAll();
+    return buildGstr1Export(user?.gstin, year, month, sells, merchants);
+  }
+
+  /**
+   * Tally import XML for everything dated within [from, to]: bills, loans, payments and expenses
+   * as vouchers, with party ledgers named from the farmer, merchant and customer masters
+   */
+  public async getTallyExport(from: Date, to: Date): Promise<TallyExport> {
+    await this.initializeDatabase();
+    const user = await AuthService.getCurrentUser();
+    const source: TallySource = {
+      buys: await this.buyRepository.findAll(),
+      sells: await this.getAllSellTransactions(),
+      lends: await this.lendRepository.findAll(),
+      payments: await this.paymentRepository.findAll(),
+      expenseTransactions: await this.expenseRepository.findAll(),
+      expenses: await ExpenseService.getAllExpenses(),
+      farmers: await this.farmerRepository.findAll(),
+      merchants: await this.merchantRepository.findAll(),
+      customers: await this.customerRepository.findAll(),
+    };
+    return buildTallyExport(source, user?.firmName || user?.displayName || 'Company', from, to);
+  }
+
+  /**
+   * Workbook sheets (buy, sell, lend, expense transactions, expenses, payments) for
+   * everything dated within [from, to], oldest first
+   */
+  public async getTransactionWorkbook(from: Date, to: Date): Promise<SpreadsheetSheet[]> {
+    await this.initializeDatabase();
+    const inRange = <T>(records: T[], dateOf: (record: T) => string): T[] =>
+      records
+        .filter(record => {
+          const time = new Date(dateOf(record)).getTime();
+          return time >= from.getTime() && time <= to.getTime();
+        })
+        .sort((a, b) => new Date(dateOf(a)).getTime() - new Date(dateOf(b)).getTime());
+
+    return [
+      buildBuySheet(inRange(await this.getAllBuyTransactions(), t => t.date)),
+      buildSellSheet(inRange(await this.getAllSellTransactions(), t => t.date)),
+      buildLendSheet(inRange(await this.lendRepository.findAll(), t => t.date)),
+      buildExpenseTransactionSheet(inRange(await this.expenseRepository.findAll(), t => t.date)),
+      buildExpenseSheet(inRange(await ExpenseService.getAllExpenses(), e => e.date)),
+      buildPaymentSheet(inRange(await this.paymentRepository.findAll(), p => p.paymentDate)),
+    ];
+  }
+
+  /**
+   * Statement of account for one party: every buy, sell and money loan recorded
+   * against the phone number (exact match) with their payments, plus interest still
+   * unpaid on open loans as of `asOf`. The name comes from the party master when
+   * the phone is registered, otherwise from the latest transaction.
+   */
+  public async getPartyLedger(
+    phone: string,
+    asOf: Date = new Date(),
+  ): Promise<{name: string; entries: PartyLedgerEntry[]}> {
+    await this.initializeDatabase();
+    const buys = (await this.buyRepository.findAll()).filter(t => t.supplierPhone === phone);
+    const sells = (await this.sellRepository.findAll()).filter(t => t.buyerPhone === phone);
+    const lends = (await this.lendRepository.findAll()).filter(t => t.personPhone === phone && t.lendType === 'MONEY');
+
+    const paymentsByTransaction: Record<string, Payment[]> = {};
+    for (const payment of await this.paymentRepository.findAll()) {
+      (paymentsByTransaction[payment.transactionId] = paymentsByTransaction[payment.transactionId] || []).push(payment);
+    }
+    const paymentsOf = (id: string) => paymentsByTransaction[id] || [];
+    const sum = (list: Payment[]) => list.reduce((total, p) => total + (p.amount || 0), 0);
+    const billLabel = (invoiceNumber?: string) => (invoiceNumber ? ` #${invoiceNumber}` : '');
+
+    const entries: PartyLedgerEntry[] = [];
+    const entry = (data: Omit<PartyLedgerEntry, 'debit' | 'credit'> & Partial<PartyLedgerEntry>) =>
+      entries.push({debit: 0, credit: 0, ...data});
+
+    for (const buy of buys) {
+      const payments = paymentsOf(buy.id);
+      // Payments move money from balance to paid, so paid + balance is the bill's net payable
+      entry({
+        id: buy.id,
+        date: buy.date,
+        source: 'BUY',
+        kind: 'BILL',
+        transactionId: buy.id,
+        description: `Purchase${billLabel(buy.invoiceNumber)}: ${buy.grainType} ${buy.quantity} Qtl`,
+        credit: (buy.paidAmount || 0) + (buy.balanceAmount || 0),
+      });
+      const advance = (buy.paidAmount || 0) - sum(payments);
+      if (advance > 0.005) {
+        entry({
+          id: `${buy.id}-advance`,
+          date: buy.date,
+          source: 'BUY',
+          kind: 'PAYMENT',
+          transactionId: buy.id,
+          description: 'Advance paid',
+          debit: advance,
+        });
+      }
+      for (const payment of payments) {
+        entry({
+          id: payment.id,
+          date: payment.paymentDate,
+          source: 'BUY',
+          kind: 'PAYMENT',
+          transactionId: buy.id,
+          description: `Payment made${billLabel(buy.invoiceNumber)}`,
+          debit: payment.amount,
+          mode: payment.paymentMode,
+        });
+      }
+    }
+
+    for (const sell of sells) {
+      const payments = paymentsOf(sell.id);
+      entry({
+        id: sell.id,
+        date: sell.date,
+        source: 'SELL',
+        kind: 'BILL',
+        transactionId: sell.id,
+        description: `Sale${billLabel(sell.invoiceNumber)}: ${sell.grainType} ${sell.quantity} Qtl`,
+        debit: (sell.receivedAmount || 0) + (sell.balanceAmount || 0),
+      });
+      const received = (sell.receivedAmount || 0) - sum(payments);
+      if (received > 0.005) {
+        entry({
+          id: `${sell.id}-received`,
+          date: sell.date,
+          source: 'SELL',
+          kind: 'PAYMENT',
+          transactionId: sell.id,
+          description: 'Received with bill',
+          credit: received,
+        });
+      }
+      for (const payment of payments) {
+        entry({
+          id: payment.id,
+          date: payment.paymentDate,
+          source: 'SELL',
+          kind: 'PAYMENT',
+          transactionId: sell.id,
+          description: `Payment received${billLabel(sell.invoiceNumber)}`,
+          credit: payment.amount,
+          mode: payment.paymentMode,
+        });
+      }
+    }
+
+    for (const lend of lends) {
+      const payments = paymentsOf(lend.id);
+      entry({
+        id: lend.id,
+        date: lend.date,
+        source: 'LEND',
+        kind: 'LOAN',
+        transactionId: lend.id,
+        description: `Loan given${billLabel(lend.invoiceNumber)}`,
+        debit: lend.amount || 0,
+      });
+      for (const payment of payments) {
+        // Interest is charged to the party when it is settled, then the whole repayment is credited
+        if ((payment.interestAmount || 0) > 0) {
+          entry({
+            id: `${payment.id}-interest`,
+            date: payment.paymentDate,
+            source: 'LEND',
+            kind: 'INTEREST',
+            transactionId: lend.id,
+            description: 'Interest charged',
+            debit: payment.interestAmount,
+          });
+        }
+        entry({
+          id: payment.id,
+          date: payment.paymentDate,
+          source: 'LEND',
+          kind: 'REPAYMENT',
+          transactionId: lend.id,
+          description: 'Loan repayment',
+          credit: payment.amount,
+          mode: payment.paymentMode,
+        });
+      }
+      if (lend.paymentStatus !== PaymentStatus.COMPLETED && new Date(lend.date) <= asOf) {
+        const {interestDue} = calculateLoanPosition(lend.amount || 0, getInterestTerms(lend), new Date(lend.date), payments, asOf);
+        if (interestDue > 0) {
+          entry({
+            id: `${lend.id}-accrued`,
+            date: asOf.toISOString(),
+            source: 'LEND',
+            kind: 'INTEREST',
+            transactionId: lend.id,
+            description: `Interest accrued (unpaid)${billLabel(lend.invoiceNumber)}`,
+            debit: interestDue,
+          });
+        }
+      }
+    }
+
+    const farmer = await this.farmerRepository.findByPhoneNumber(phone);
+    const merchant = farmer ? null : await this.merchantRepository.findByPhoneNumber(phone);
+    const customer = farmer || merchant ? null : await this.customerRepository.findByPhoneNumber(phone);
+    const latest = [
+      ...buys.map(t => ({date: t.date, name: t.supplierName})),
+      ...sells.map(t => ({date: t.date, name: t.buyerName})),
+      ...lends.map(t => ({date: t.date, name: t.personName})),
+    ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+
+    return {name: farmer?.name || merchant?.firmName || customer?.name || latest?.name || phone, entries};
+  }
+
   /**
    * Lend Transaction Operations
    */
@@ -439,21 +1138,28 @@ export class TransactionService implements ITransactionService {
     if (!data.invoiceNumber) {
       data.invoiceNumber = await this.generateInvoiceNumber('LEND');
     }
-    const transaction = await this.lendRepository.create(data);
-    // If this is a money lend to a customer (personPhone present), deduct cash immediately
-    try {
+    // The loan and the cash it moves commit together
+    const transaction = await this.dbService.runInTransaction(async () => {
+      const created = await this.lendRepository.create(data);
+      // If this is a money lend to a customer (personPhone present), deduct cash immediately
       if (data.lendType === 'MONEY') {
         if (data.personPhone) {
           // Customer loan: money goes out from cash
-          await CashBalanceService.onLendMoney(data.personName, data.amount || 0);
+          await CashBalanceService.onLendMoney(data.personName, data.amount || 0, {
+            sourceId: created.id,
+            entryDate: created.date,
+          });
         } else {
           // Self loan: treat as cash added to current balance
-          await CashBalanceService.addToBalance(data.amount || 0, `Self loan created: ${data.personName || 'Self'}`);
+          await CashBalanceService.addToBalance(data.amount || 0, `Self loan created: ${data.personName || 'Self'}`, {
+            sourceType: 'LEND',
+            sourceId: created.id,
+            entryDate: created.date,
+          });
         }
       }
-    } catch (err) {
-      console.error('Error updating cash balance on lend creation:', err);
-    }
+      return created;
+    });
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -471,92 +1177,102 @@ export class TransactionService implements ITransactionService {
     paymentDate?: string,
     paymentType: 'PARTIAL' | 'FINAL' = 'PARTIAL',
   ) {
+    // Validate payment amount
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Payment amount must be greater than 0');
+    }
+
     await this.initializeDatabase();
 
-    const transaction = await this.lendRepository.findById(transactionId);
-    if (!transaction) throw new Error('Transaction not found');
-
-    // Payment date
-    const payDate = paymentDate ? new Date(paymentDate) : new Date();
-
-    // Load payment history for interest calculation
-    const paymentHistory = await this.paymentRepository.findByTransactionId(transactionId);
-    const sortedPayments = [...paymentHistory].sort((a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime());
-
-    // Determine current principal for interest calculation
-    let currentPrincipal = transaction.balanceAmount || 0;
-    if (sortedPayments.length === 0) {
-      currentPrincipal = transaction.amount || 0;
-    }
-
-    // Determine start date for interest calculation
-    let currentDate = new Date(transaction.date);
-    if (sortedPayments.length > 0) {
-      const lastPayment = sortedPayments[sortedPayments.length - 1];
-      currentDate = new Date(lastPayment.paymentDate);
-      currentPrincipal = transaction.balanceAmount || 0;
-    }
-
-    // Interest calculation: (principal * rate * days) / (100 * 30)
-    const match = transaction.description ? transaction.description.match(/Interest Rate:\s*(\d+\.?\d*)/) : null;
-    const rate = match ? parseFloat(match[1]) : 0;
-    const days = Math.ceil((payDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-    const totalInterest = rate > 0 && days > 0 ? Math.round((currentPrincipal * rate * days) / (100 * 30)) : 0;
-    const totalAmountWithInterest = currentPrincipal + totalInterest;
-
-    let interestPayment = 0;
-    let principalPayment = 0;
-    let actualAmount = amount;
-
-    if (paymentType === 'FINAL') {
-      actualAmount = totalAmountWithInterest;
-      interestPayment = totalInterest;
-      principalPayment = currentPrincipal;
-    } else {
-      // Partial: interest paid first
-      interestPayment = Math.min(actualAmount, totalInterest);
-      principalPayment = actualAmount - interestPayment;
-    }
-
-    // Create payment record with interest/principal split
-    const payment = await this.paymentRepository.create({
-      transactionId,
-      transactionType: 'LEND',
-      amount: actualAmount,
-      paymentDate: payDate.toISOString(),
-      paymentMode,
-      notes: `Repayment: ₹${actualAmount.toFixed(2)} (Interest: ₹${interestPayment}, Principal: ₹${principalPayment.toFixed(2)})`,
-      principalAmount: principalPayment,
-      interestAmount: interestPayment,
-    } as any);
-
-    // Update transaction returned/balance amounts (principal reduces balance)
-    const newReturnedAmount = (transaction.returnedAmount || 0) + principalPayment;
-    const newBalanceAmount = Math.max(0, (transaction.amount || 0) - newReturnedAmount);
-    const newPaymentStatus = newBalanceAmount <= 0 ? PaymentStatus.COMPLETED : PaymentStatus.PARTIAL;
-
-    await this.lendRepository.update(transactionId, {
-      returnedAmount: newReturnedAmount,
-      balanceAmount: newBalanceAmount,
-      paymentStatus: newPaymentStatus,
-    });
+    // Interest split, payment insert, balance update and cash movement commit or roll back together
+    const payment = await this.dbService.runInTransaction(async () => {
+      const transaction = await this.lendRepository.findById(transactionId);
+      if (!transaction) throw new Error('Transaction not found');
+
+      // Payment date
+      const payDate = paymentDate ? new Date(paymentDate) : new Date();
+
+      // Replay the payment history to get principal and unpaid interest as of the payment date
+      const paymentHistory = await this.paymentRepository.findByTransactionId(transactionId);
+      const position = calculateLoanPosition(
+        transaction.amount || 0,
+        getInterestTerms(transaction),
+        new Date(transaction.date),
+        paymentHistory,
+        payDate,
+      );
 
-    // Update cash balance
-    try {
-      // If this was a customer loan (personPhone present) then repayments add to cash
-      if (transaction.personPhone) {
-        await CashBalanceService.onLendRepayment(transaction.personName || 'Customer', actualAmount);
+      let interestPayment = 0;
+      let principalPayment = 0;
+      let actualAmount = amount;
+
+      if (paymentType === 'FINAL') {
+        actualAmount = position.totalDue;
+        interestPayment = position.interestDue;
+        principalPayment = position.principal;
+      } else {
+        if (amount > position.totalDue + 0.005) {
+          throw new Error(
+            `Payment is more than the ₹${position.totalDue.toFixed(2)} due ` +
+              `(principal ₹${position.principal.toFixed(2)} + interest ₹${position.interestDue})`,
+          );
+        }
+        // Partial: unpaid interest (including interest carried from earlier partial payments) is paid first
+        const split = splitRepayment(actualAmount, position);
+        interestPayment = split.interest;
+        principalPayment = split.principal;
+      }
+
+      // Create payment record with interest/principal split
+      const created = await this.paymentRepository.create({
+        transactionId,
+        transactionType: 'LEND',
+        amount: actualAmount,
+        paymentDate: payDate.toISOString(),
+        paymentMode,
+        notes: `Repayment: ₹${actualAmount.toFixed(2)} (Interest: ₹${interestPayment}, Principal: ₹${principalPayment.toFixed(2)})`,
+        principalAmount: principalPayment,
+        interestAmount: interestPayment,
+      } as any);
+
+      // Update transaction returned/balance amounts (principal reduces balance)
+      const newReturnedAmount = (transaction.returnedAmount || 0) + principalPayment;
+      const newBalanceAmount = Math.max(0, (transaction.amount || 0) - newReturnedAmount);
+      // Settled only once both principal and the interest owed are cleared
+      const interestLeft = position.interestDue - interestPayment;
+      const newPaymentStatus = newBalanceAmount <= 0 && interestLeft <= 0 ? PaymentStatus.COMPLETED : PaymentStatus.PARTIAL;
+
+      await this.lendRepository.update(transactionId, {
+        returnedAmount: newReturnedAmount,
+        balanceAmount: newBalanceAmount,
+        paymentStatus: newPaymentStatus,
+      });
+
+      // Update cash balance
+      // If this was a customer loan (personPhone present) then repayments add to cash
+      if (transaction.personPhone) {
+        await CashBalanceService.onLendRepayment(transaction.personName || 'Customer', actualAmount, {
+          sourceId: created.id,
+          mode: paymentMode,
+          entryDate: created.paymentDate,
+        });
       } else {
         // Self loan: settling a self loan means cash goes out (deduct principal + interest)
-        await CashBalanceService.subtractFromBalance(actualAmount, `Settled self loan: ${transaction.personName || 'Self'}`);
+        await CashBalanceService.subtractFromBalance(actualAmount, `Settled self loan: ${transaction.personName || 'Self'}`, {
+          sourceType: 'PAYMENT',
+          sourceId: created.id,
+          mode: paymentMode,
+          entryDate: created.paymentDate,
+        });
       }
-    } catch (err) {
-      console.error('Error updating cash balance on lend repayment:', err);
-    }
 
-    // Sync updated transaction
+      return created;
+    });
+
+    // Sync updated transaction and the new payment record
     const updated = await this.lendRepository.findById(transactionId);
     if (updated) this.autoSyncToCloud(updated as any).catch(console.error);
+    this.autoSyncPaymentToCloud(payment).catch(console.error);
 
     return payment;
   }
@@ -566,7 +1282,19 @@ export class TransactionService implements ITransactionService {
    */
   public async createLendTransactionFromCloud(transaction: LendTransaction): Promise<LendTransaction> {
     await this.initializeDatabase();
-    return await this.lendRepository.createWithId(transaction);
+    return await this.dbService.runInTransaction(() =>
+      this.lendRepository.createWithId(this.withLegacyInterestRate(transaction)),
+    );
+  }
+
+  /**
+   * Cloud documents written before interest terms had their own fields only carry
+   * the rate in the description; lift it into interestRate.
+   */
+  private withLegacyInterestRate<T extends Partial<LendTransaction>>(data: T): T {
+    if (data.interestRate !== undefined) return data;
+    const rate = parseLegacyInterestRate(data.description);
+    return rate !== null ? {...data, interestRate: rate} : data;
   }
 
   public async getLendTransaction(id: string): Promise<LendTransaction | null> {
@@ -581,7 +1309,7 @@ export class TransactionService implements ITransactionService {
     id: string,
     data: Partial<LendTransaction>,
   ): Promise<LendTransaction> {
-    const transaction = await this.lendRepository.update(id, data);
+    const transaction = await this.dbService.runInTransaction(() => this.lendRepository.update(id, data));
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -596,22 +1324,31 @@ export class TransactionService implements ITransactionService {
     updatedAt: string,
   ): Promise<LendTransaction> {
     await this.initializeDatabase();
-    return await this.lendRepository.updateWithTimestamp(id, data, updatedAt);
+    return await this.dbService.runInTransaction(() =>
+      this.lendRepository.updateWithTimestamp(id, this.withLegacyInterestRate(data), updatedAt),
+    );
   }
 
   public async deleteLendTransaction(id: string): Promise<boolean> {
-    // Get transaction details before deleting to reverse cash balance effects
-    const transaction = await this.lendRepository.findById(id);
-    if (transaction) {
-      try {
+    // The cash reversals, the loan and its payments go together
+    const result = await this.dbService.runInTransaction(async () => {
+      // Get transaction details before deleting to reverse cash balance effects
+      const transaction = await this.lendRepository.findById(id);
+      if (transaction) {
         // Reverse initial loan amount
         if (transaction.lendType === 'MONEY') {
           if (transaction.personPhone) {
             // Customer loan: money was deducted, so add back
-            await CashBalanceService.addToBalance(transaction.amount || 0, `Customer loan deleted: ${transaction.personName}`);
+            await CashBalanceService.addToBalance(transaction.amount || 0, `Customer loan deleted: ${transaction.personName}`, {
+              sourceType: 'LEND',
+              sourceId: id,
+            });
           } else {
             // Self loan: money was added, so deduct
-            await CashBalanceService.subtractFromBalance(transaction.amount || 0, `Self loan deleted: ${transaction.personName}`);
+            await CashBalanceService.subtractFromBalance(transaction.amount || 0, `Self loan deleted: ${transaction.personName}`, {
+              sourceType: 'LEND',
+              sourceId: id,
+            });
           }
         }
 
@@ -621,20 +1358,26 @@ export class TransactionService implements ITransactionService {
         if (totalRepaid > 0) {
           if (transaction.personPhone) {
             // Customer repayments added to cash, so deduct
-            const currentBalance = await CashBalanceService.getCurrentBalance();
-            await CashBalanceService.setBalance(currentBalance - totalRepaid);
+            await CashBalanceService.subtractFromBalance(totalRepaid, `Repayments reversed: ${transaction.personName}`, {
+              sourceType: 'LEND',
+              sourceId: id,
+            });
           } else {
             // Self loan repayments deducted from cash, so add back
-            const currentBalance = await CashBalanceService.getCurrentBalance();
-            await CashBalanceService.setBalance(currentBalance + totalRepaid);
+            await CashBalanceService.addToBalance(totalRepaid, `Self loan settlements reversed: ${transaction.personName}`, {
+              sourceType: 'LEND',
+              sourceId: id,
+            });
           }
         }
-      } catch (err) {
-        console.error('Error reversing cash balance on lend transaction deletion:', err);
       }
-    }
 
-    const result = await this.lendRepository.delete(id);
+      const deleted = await this.lendRepository.delete(id);
+      if (deleted) {
+        await this.deletePaymentsForTransaction(id);
+      }
+      return deleted;
+    });
     if (result) {
       // Delete from cloud (non-blocking)
       this.autoDeleteFromCloud(id).catch(console.error);
@@ -656,7 +1399,7 @@ export class TransactionService implements ITransactionService {
   public async createExpenseTransaction(
     data: Omit<ExpenseTransaction, 'id' | 'createdAt' | 'updatedAt' | 'transactionType'>,
   ): Promise<ExpenseTransaction> {
-    const transaction = await this.expenseRepository.create(data);
+    const transaction = await this.dbService.runInTransaction(() => this.expenseRepository.create(data));
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -667,7 +1410,7 @@ export class TransactionService implements ITransactionService {
    */
   public async createExpenseTransactionFromCloud(transaction: ExpenseTransaction): Promise<ExpenseTransaction> {
     await this.initializeDatabase();
-    return await this.expenseRepository.createWithId(transaction);
+    return await this.dbService.runInTransaction(() => this.expenseRepository.createWithId(transaction));
   }
 
   public async getExpenseTransaction(id: string): Promise<ExpenseTransaction | null> {
@@ -682,7 +1425,7 @@ export class TransactionService implements ITransactionService {
     id: string,
     data: Partial<ExpenseTransaction>,
   ): Promise<ExpenseTransaction> {
-    const transaction = await this.expenseRepository.update(id, data);
+    const transaction = await this.dbService.runInTransaction(() => this.expenseRepository.update(id, data));
     // Auto-sync to cloud (non-blocking)
     this.autoSyncToCloud(transaction).catch(console.error);
     return transaction;
@@ -697,25 +1440,24 @@ export class TransactionService implements ITransactionService {
     updatedAt: string,
   ): Promise<ExpenseTransaction> {
     await this.initializeDatabase();
-    return await this.expenseRepository.updateWithTimestamp(id, data, updatedAt);
+    return await this.dbService.runInTransaction(() => this.expenseRepository.updateWithTimestamp(id, data, updatedAt));
   }
 
   public async deleteExpenseTransaction(id: string, propagateToCloud: boolean = true): Promise<boolean> {
-    // Ensure cash balance is adjusted when an expense is deleted (covers cloud-initiated deletes)
-    try {
+    const result = await this.dbService.runInTransaction(async () => {
+      // Ensure cash balance is adjusted when an expense is deleted (covers cloud-initiated deletes)
       const existing = await this.expenseRepository.findById(id);
       if (existing) {
         const note = (existing as any).expenseName || (existing as any).description || '';
         await CashBalanceService.addToBalance(
           existing.amount,
           `Expense deleted: ${note?.toString().substring(0, 50)}`,
+          {sourceType: 'EXPENSE', sourceId: id},
         );
       }
-    } catch (e) {
-      console.warn('Failed to adjust cash balance before deleting expense:', e);
-    }
 
-    const result = await this.expenseRepository.delete(id);
+      return await this.expenseRepository.delete(id);
+    });
     if (result && propagateToCloud) {
       // Delete from cloud (non-blocking)
       this.autoDeleteFromCloud(id).catch(console.error);
@@ -792,10 +1534,18 @@ export class TransactionService implements ITransactionService {
       0,
     );
 
+    // Gross trading margin: grain value of sales less what the grain cost us
+    let totalTradingMargin = 0;
+    try {
+      totalTradingMargin = (await this.getTradingMargin(new Date(0), new Date())).margin;
+    } catch (err) {
+      console.warn('Unable to calculate trading margin for dashboard summary', err);
+    }
+
     // Calculate profit using the formula:
-    // Net Profit/Loss = Total Commission(Buy) + Total Commission(Sell) + Labour Charge(Sell) - Expense
+    // Net Profit/Loss = Total Commission(Buy) + Total Commission(Sell) + Labour Charge(Sell) + Interest + Trading Margin - Expense
     // Note: Sell Commission includes Bill of Supply charges (Arat + Tulak + Mandi Shulk) for applicable transactions
-    const profit = totalBuyCommission + totalSellCommission + totalSellLabourCharges + totalInterestEarned - totalExpenseAmount;
+    const profit = totalBuyCommission + totalSellCommission + totalSellLabourCharges + totalInterestEarned + totalTradingMargin - totalExpenseAmount;
 
     // Get recent transactions (last 10)
     // Note: Expenses are excluded from recent transactions list as they use different structure
@@ -822,6 +1572,7 @@ export class TransactionService implements ITransactionService {
       totalSellCommission,
       totalSellLabourCharges,
       totalInterestEarned,
+      totalTradingMargin,
       profit,
       recentTransactions,
     };
@@ -993,7 +1744,15 @@ export class TransactionService implements ITransactionService {
 
     const netInterest = interestReceived - interestPaid;
 
-    const profit = totalBuyCommission + totalSellCommission + totalSellLabourCharges - totalExpenseAmount + netInterest;
+    // Gross trading margin on the range's sales (lot cost of the grain sold)
+    let totalTradingMargin = 0;
+    try {
+      totalTradingMargin = (await this.getTradingMargin(startDate, endDate)).margin;
+    } catch (err) {
+      console.warn('Unable to calculate trading margin for dashboard summary', err);
+    }
+
+    const profit = totalBuyCommission + totalSellCommission + totalSellLabourCharges - totalExpenseAmount + netInterest + totalTradingMargin;
 
     // Get recent transactions from the date range (last 10)
     // Note: Expenses are excluded from recent transactions list as they use different structure
@@ -1021,6 +1780,7 @@ export class TransactionService implements ITransactionService {
       totalSellLabourCharges,
       // Net interest (received - paid) included in profit calculation
       totalInterestEarned: netInterest,
+      totalTradingMargin,
       profit,
       recentTransactions,
     };
@@ -1062,43 +1822,56 @@ export class TransactionService implements ITransactionService {
     paymentMode: 'CASH' | 'ONLINE' | 'CHEQUE',
     notes?: string,
   ): Promise<Payment> {
-    // Get the transaction
-    const transaction = await this.buyRepository.findById(transactionId);
-    if (!transaction) {
-      throw new Error('Transaction not found');
-    }
-
     // Validate payment amount
-    if (amount <= 0) {
+    if (!Number.isFinite(amount) || amount <= 0) {
       throw new Error('Payment amount must be greater than 0');
     }
 
-    if (amount > transaction.balanceAmount) {
-      throw new Error('Payment amount cannot exceed balance amount');
-    }
+    // Payment insert, balance update and cash movement commit or roll back together
+    const payment = await this.dbService.runInTransaction(async () => {
+      // Get the transaction
+      const transaction = await this.buyRepository.findById(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
 
-    // Create payment record
-    const payment = await this.paymentRepository.create({
-      transactionId,
-      transactionType: 'BUY',
-      amount,
-      paymentDate: new Date().toISOString(),
-      paymentMode,
-      notes,
-    });
+      if (amount > transaction.balanceAmount) {
+        throw new Error('Payment amount cannot exceed balance amount');
+      }
+
+      // Create payment record
+      const created = await this.paymentRepository.create({
+        transactionId,
+        transactionType: 'BUY',
+        amount,
+        paymentDate: new Date().toISOString(),
+        paymentMode,
+        notes,
+      });
+
+      // Update transaction balances
+      const newPaidAmount = transaction.paidAmount + amount;
+      const newBalanceAmount = transaction.balanceAmount - amount;
+      const newPaymentStatus: PaymentStatus = 
+        newBalanceAmount === 0 ? PaymentStatus.COMPLETED :
+        newPaidAmount > 0 ? PaymentStatus.PARTIAL :
+        PaymentStatus.PENDING;
+
+      await this.buyRepository.update(transactionId, {
+        paidAmount: newPaidAmount,
+        balanceAmount: newBalanceAmount,
+        paymentStatus: newPaymentStatus,
+      });
 
-    // Update transaction balances
-    const newPaidAmount = transaction.paidAmount + amount;
-    const newBalanceAmount = transaction.balanceAmount - amount;
-    const newPaymentStatus: PaymentStatus = 
-      newBalanceAmount === 0 ? PaymentStatus.COMPLETED :
-      newPaidAmount > 0 ? PaymentStatus.PARTIAL :
-      PaymentStatus.PENDING;
-
-    await this.buyRepository.update(transactionId, {
-      paidAmount: newPaidAmount,
-      balanceAmount: newBalanceAmount,
-      paymentStatus: newPaymentStatus,
+      // Deduct from cash balance
+      await CashBalanceService.onBuyPaymentMade(transaction.supplierName, amount, {
+        sourceType: 'PAYMENT',
+        sourceId: created.id,
+        mode: paymentMode,
+        entryDate: created.paymentDate,
+      });
+
+      return created;
     });
 
     // Sync updated transaction to cloud
@@ -1107,9 +1880,8 @@ export class TransactionService implements ITransactionService {
       this.autoSyncToCloud(updatedTransaction as any).catch(console.error);
     }
 
-    // Deduct from cash balance
-    const currentBalance = await CashBalanceService.getCurrentBalance();
-    await CashBalanceService.setBalance(currentBalance - amount);
+    // Sync the new payment record
+    this.autoSyncPaymentToCloud(payment).catch(console.error);
 
     return payment;
   }
@@ -1121,6 +1893,45 @@ export class TransactionService implements ITransactionService {
     return await this.paymentRepository.findByTransactionId(transactionId);
   }
 
+  public async getPayment(id: string): Promise<Payment | null> {
+    await this.initializeDatabase();
+    return await this.paymentRepository.findById(id);
+  }
+
+  public async getAllPayments(): Promise<Payment[]> {
+    await this.initializeDatabase();
+    return await this.paymentRepository.findAll();
+  }
+
+  /**
+   * Create payment from cloud data without triggering auto-sync.
+   * Balances and cash are not touched: the parent transaction and meta sync carry those.
+   */
+  public async createPaymentFromCloud(payment: Payment): Promise<Payment> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(() => this.paymentRepository.createWithId(payment));
+  }
+
+  /**
+   * Update payment with cloud-provided updatedAt without triggering auto-sync
+   */
+  public async updatePaymentFromCloud(
+    id: string,
+    data: Partial<Payment>,
+    updatedAt: string,
+  ): Promise<Payment> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(() => this.paymentRepository.updateWithTimestamp(id, data, updatedAt));
+  }
+
+  /**
+   * Remove a payment deleted on another device without reversing balances or re-propagating
+   */
+  public async deletePaymentFromCloud(id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    return await this.dbService.runInTransaction(() => this.paymentRepository.delete(id));
+  }
+
   /**
    * Get interest payments within a date range along with their lend transaction
    */
@@ -1170,43 +1981,56 @@ export class TransactionService implements ITransactionService {
     paymentMode: 'CASH' | 'ONLINE' | 'CHEQUE',
     notes?: string,
   ): Promise<Payment> {
-    // Get the transaction
-    const transaction = await this.sellRepository.findById(transactionId);
-    if (!transaction) {
-      throw new Error('Transaction not found');
-    }
-
     // Validate payment amount
-    if (amount <= 0) {
+    if (!Number.isFinite(amount) || amount <= 0) {
       throw new Error('Payment amount must be greater than 0');
     }
 
-    if (amount > transaction.balanceAmount) {
-      throw new Error('Payment amount cannot exceed balance amount');
-    }
+    // Payment insert, balance update and cash movement commit or roll back together
+    const payment = await this.dbService.runInTransaction(async () => {
+      // Get the transaction
+      const transaction = await this.sellRepository.findById(transactionId);
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
 
-    // Create payment record
-    const payment = await this.paymentRepository.create({
-      transactionId,
-      transactionType: 'SELL',
-      amount,
-      paymentDate: new Date().toISOString(),
-      paymentMode,
-      notes,
-    });
+      if (amount > transaction.balanceAmount) {
+        throw new Error('Payment amount cannot exceed balance amount');
+      }
+
+      // Create payment record
+      const created = await this.paymentRepository.create({
+        transactionId,
+        transactionType: 'SELL',
+        amount,
+        paymentDate: new Date().toISOString(),
+        paymentMode,
+        notes,
+      });
+
+      // Update transaction balances
+      const newReceivedAmount = transaction.receivedAmount + amount;
+      const newBalanceAmount = transaction.balanceAmount - amount;
+      const newPaymentStatus: PaymentStatus = 
+        newBalanceAmount === 0 ? PaymentStatus.COMPLETED :
+        newReceivedAmount > 0 ? PaymentStatus.PARTIAL :
+        PaymentStatus.PENDING;
+
+      await this.sellRepository.update(transactionId, {
+        receivedAmount: newReceivedAmount,
+        balanceAmount: newBalanceAmount,
+        paymentStatus: newPaymentStatus,
+      });
 
-    // Update transaction balances
-    const newReceivedAmount = transaction.receivedAmount + amount;
-    const newBalanceAmount = transaction.balanceAmount - amount;
-    const newPaymentStatus: PaymentStatus = 
-      newBalanceAmount === 0 ? PaymentStatus.COMPLETED :
-      newReceivedAmount > 0 ? PaymentStatus.PARTIAL :
-      PaymentStatus.PENDING;
-
-    await this.sellRepository.update(transactionId, {
-      receivedAmount: newReceivedAmount,
-      balanceAmount: newBalanceAmount,
-      paymentStatus: newPaymentStatus,
+      // Add to cash balance (receiving payment)
+      await CashBalanceService.onSellPaymentReceived(transaction.buyerName, amount, {
+        sourceType: 'PAYMENT',
+        sourceId: created.id,
+        mode: paymentMode,
+        entryDate: created.paymentDate,
+      });
+
+      return created;
     });
 
     // Sync updated transaction to cloud
@@ -1215,9 +2039,8 @@ export class TransactionService implements ITransactionService {
       this.autoSyncToCloud(updatedSell as any).catch(console.error);
     }
 
-    // Add to cash balance (receiving payment)
-    const currentBalance = await CashBalanceService.getCurrentBalance();
-    await CashBalanceService.setBalance(currentBalance + amount);
+    // Sync the new payment record
+    this.autoSyncPaymentToCloud(payment).catch(console.error);
 
     return payment;
   }
@@ -1226,114 +2049,148 @@ export class TransactionService implements ITransactionService {
    * Delete a payment and reverse the cash balance and transaction updates
    */
   public async deletePayment(paymentId: string): Promise<boolean> {
-    const payment = await this.paymentRepository.findById(paymentId);
-    if (!payment) {
-      throw new Error('Payment not found');
-    }
-
-    if (payment.transactionType === 'BUY') {
-      // Get the buy transaction
-      const transaction = await this.buyRepository.findById(payment.transactionId);
-      if (!transaction) {
-        throw new Error('Transaction not found');
-      }
-
-      // Reverse the payment
-      const newPaidAmount = transaction.paidAmount - payment.amount;
-      const newBalanceAmount = transaction.balanceAmount + payment.amount;
-      const newPaymentStatus: PaymentStatus = 
-        newBalanceAmount === transaction.totalAmount ? PaymentStatus.PENDING :
-        newPaidAmount > 0 ? PaymentStatus.PARTIAL :
-        PaymentStatus.PENDING;
-
-      await this.buyRepository.update(payment.transactionId, {
-        paidAmount: newPaidAmount,
-        balanceAmount: newBalanceAmount,
-        paymentStatus: newPaymentStatus,
-      });
-
-      // Add back to cash balance
-      const currentBalance = await CashBalanceService.getCurrentBalance();
-      await CashBalanceService.setBalance(currentBalance + payment.amount);
-      // Sync updated transaction to cloud
-      const updatedBuy = await this.buyRepository.findById(payment.transactionId);
-      if (updatedBuy) {
-        this.autoSyncToCloud(updatedBuy as any).catch(console.error);
-      }
-    } else if (payment.transactionType === 'SELL') {
-      // Get the sell transaction
-      const transaction = await this.sellRepository.findById(payment.transactionId);
-      if (!transaction) {
-        throw new Error('Transaction not found');
+    // Balance reversal, cash reversal and payment delete commit or roll back together
+    const {payment, result} = await this.dbService.runInTransaction(async () => {
+      const existing = await this.paymentRepository.findById(paymentId);
+      if (!existing) {
+        throw new Error('Payment not found');
       }
 
-      // Reverse the payment
-      const newReceivedAmount = transaction.receivedAmount - payment.amount;
-      const newBalanceAmount = transaction.balanceAmount + payment.amount;
-      const newPaymentStatus: PaymentStatus = 
-        newBalanceAmount === transaction.totalAmount ? PaymentStatus.PENDING :
-        newReceivedAmount > 0 ? PaymentStatus.PARTIAL :
-        PaymentStatus.PENDING;
-
-      await this.sellRepository.update(payment.transactionId, {
-        receivedAmount: newReceivedAmount,
-        balanceAmount: newBalanceAmount,
-        paymentStatus: newPaymentStatus,
-      });
-
-      // Deduct from cash balance (reversing received payment)
-      const currentBalance = await CashBalanceService.getCurrentBalance();
-      await CashBalanceService.setBalance(currentBalance - payment.amount);
-      // Sync updated transaction to cloud
-      const updatedSellTx = await this.sellRepository.findById(payment.transactionId);
-      if (updatedSellTx) {
-        this.autoSyncToCloud(updatedSellTx as any).catch(console.error);
-      }
-    }
+      if (existing.transactionType === 'BUY') {
+        // Get the buy transaction
+        const transaction = await this.buyRepository.findById(existing.transactionId);
+        if (!transaction) {
+          throw new Error('Transaction not found');
+        }
 
-    else if (payment.transactionType === 'LEND') {
-      // Get the lend transaction
-      const lendTx = await this.lendRepository.findById(payment.transactionId);
-      if (!lendTx) {
-        throw new Error('Lend transaction not found');
-      }
+        // Reverse the payment
+        const newPaidAmount = transaction.paidAmount - existing.amount;
+        const newBalanceAmount = transaction.balanceAmount + existing.amount;
+        const newPaymentStatus: PaymentStatus = 
+          newBalanceAmount === transaction.totalAmount ? PaymentStatus.PENDING :
+          newPaidAmount > 0 ? PaymentStatus.PARTIAL :
+          PaymentStatus.PENDING;
+
+        await this.buyRepository.update(existing.transactionId, {
+          paidAmount: newPaidAmount,
+          balanceAmount: newBalanceAmount,
+          paymentStatus: newPaymentStatus,
+        });
+
+        // Add back to cash balance
+        await CashBalanceService.addToBalance(existing.amount, `Payment to ${transaction.supplierName} deleted`, {
+          sourceType: 'PAYMENT',
+          sourceId: existing.id,
+          mode: existing.paymentMode,
+        });
+      } else if (existing.transactionType === 'SELL') {
+        // Get the sell transaction
+        const transaction = await this.sellRepository.findById(existing.transactionId);
+        if (!transaction) {
+          throw new Error('Transaction not found');
+        }
 
-      // Reverse principal/interest amounts on the lend transaction
-      const principal = payment.principalAmount || 0;
-      const interest = payment.interestAmount || 0;
+        // Reverse the payment
+        const newReceivedAmount = transaction.receivedAmount - existing.amount;
+        const newBalanceAmount = transaction.balanceAmount + existing.amount;
+        const newPaymentStatus: PaymentStatus = 
+          newBalanceAmount === transaction.totalAmount ? PaymentStatus.PENDING :
+          newReceivedAmount > 0 ? PaymentStatus.PARTIAL :
+          PaymentStatus.PENDING;
+
+        await this.sellRepository.update(existing.transactionId, {
+          receivedAmount: newReceivedAmount,
+          balanceAmount: newBalanceAmount,
+          paymentStatus: newPaymentStatus,
+        });
+
+        // Deduct from cash balance (reversing received payment)
+        await CashBalanceService.subtractFromBalance(existing.amount, `Payment from ${transaction.buyerName} deleted`, {
+          sourceType: 'PAYMENT',
+          sourceId: existing.id,
+          mode: existing.paymentMode,
+        });
+      } else if (existing.transactionType === 'LEND') {
+        // Get the lend transaction
+        const lendTx = await this.lendRepository.findById(existing.transactionId);
+        if (!lendTx) {
+          throw new Error('Lend transaction not found');
+        }
 
-      const newReturnedAmount = (lendTx.returnedAmount || 0) - principal;
-      const newBalanceAmount = Math.max(0, (lendTx.amount || 0) - Math.max(0, newReturnedAmount));
-      const newPaymentStatus: PaymentStatus = newBalanceAmount <= 0 ? PaymentStatus.COMPLETED : (newReturnedAmount > 0 ? PaymentStatus.PARTIAL : PaymentStatus.PENDING);
+        // Reverse principal amount on the lend transaction (interest never reduced the balance)
+        const principal = existing.principalAmount || 0;
 
-      await this.lendRepository.update(payment.transactionId, {
-        returnedAmount: newReturnedAmount,
-        balanceAmount: newBalanceAmount,
-        paymentStatus: newPaymentStatus,
-      });
+        const newReturnedAmount = (lendTx.returnedAmount || 0) - principal;
+        const newBalanceAmount = Math.max(0, (lendTx.amount || 0) - Math.max(0, newReturnedAmount));
 
-      // Reverse cash balance effect of the repayment
-      try {
+        // Replay the other repayments: settled only if they cleared both principal and interest
+        const remaining = (await this.paymentRepository.findByTransactionId(existing.transactionId)).filter(
+          p => p.id !== existing.id,
+        );
+        const asOf = new Date(
+          Math.max(Date.now(), ...remaining.map(p => new Date(p.paymentDate).getTime()).filter(t => !isNaN(t))),
+        );
+        const position = calculateLoanPosition(
+          lendTx.amount || 0,
+          getInterestTerms(lendTx),
+          new Date(lendTx.date),
+          remaining,
+          asOf,
+        );
+        const newPaymentStatus: PaymentStatus =
+          position.principal <= 0 && position.interestDue <= 0
+            ? PaymentStatus.COMPLETED
+            : remaining.length > 0
+            ? PaymentStatus.PARTIAL
+            : PaymentStatus.PENDING;
+
+        await this.lendRepository.update(existing.transactionId, {
+          returnedAmount: newReturnedAmount,
+          balanceAmount: newBalanceAmount,
+          paymentStatus: newPaymentStatus,
+        });
+
+        // Reverse cash balance effect of the repayment
         if (lendTx.personPhone) {
           // Customer repayment originally added cash; deleting should deduct
-          const currentBalance = await CashBalanceService.getCurrentBalance();
-          await CashBalanceService.setBalance(currentBalance - (payment.amount || 0));
+          await CashBalanceService.subtractFromBalance(existing.amount || 0, `Repayment from ${lendTx.personName} deleted`, {
+            sourceType: 'PAYMENT',
+            sourceId: existing.id,
+            mode: existing.paymentMode,
+          });
         } else {
           // Self loan repayment originally deducted cash; deleting should add back
-          const currentBalance = await CashBalanceService.getCurrentBalance();
-          await CashBalanceService.setBalance(currentBalance + (payment.amount || 0));
+          await CashBalanceService.addToBalance(existing.amount || 0, `Self loan settlement deleted: ${lendTx.personName}`, {
+            sourceType: 'PAYMENT',
+            sourceId: existing.id,
+            mode: existing.paymentMode,
+          });
         }
-      } catch (err) {
-        console.error('Error updating cash balance on lend payment deletion:', err);
       }
 
-      // Sync updated lend transaction to cloud
-      const updatedLend = await this.lendRepository.findById(payment.transactionId);
-      if (updatedLend) this.autoSyncToCloud(updatedLend as any).catch(console.error);
+      // Delete the payment record
+      const deleted = await this.paymentRepository.delete(paymentId);
+      return {payment: existing, result: deleted};
+    });
+
+    // Sync updated parent transaction to cloud
+    let updatedParent: any = null;
+    if (payment.transactionType === 'BUY') {
+      updatedParent = await this.buyRepository.findById(payment.transactionId);
+    } else if (payment.transactionType === 'SELL') {
+      updatedParent = await this.sellRepository.findById(payment.transactionId);
+    } else if (payment.transactionType === 'LEND') {
+      updatedParent = await this.lendRepository.findById(payment.transactionId);
+    }
+    if (updatedParent) {
+      this.autoSyncToCloud(updatedParent).catch(console.error);
     }
 
-    // Delete the payment record
-    return await this.paymentRepository.delete(paymentId);
+    if (result) {
+      // Delete from cloud (non-blocking)
+      this.autoDeletePaymentFromCloud(paymentId).catch(console.error);
+    }
+    return result;
   }
 
   /**
@@ -1343,44 +2200,683 @@ export class TransactionService implements ITransactionService {
   public async getStockSummary(): Promise<number> {
     const buyTransactions = await this.buyRepository.findAll();
     const sellTransactions = await this.sellRepository.findAll();
+    const adjustments = await this.adjustmentRepository.findAll();
 
     const totalBuyQuantity = buyTransactions.reduce((sum, tx) => sum + tx.quantity, 0);
     const totalSellQuantity = sellTransactions.reduce((sum, tx) => sum + tx.quantity, 0);
+    const totalAdjustedQuantity = adjustments.reduce((sum, a) => sum + a.quantity, 0);
 
-    return totalBuyQuantity - totalSellQuantity;
+    return totalBuyQuantity - totalSellQuantity + totalAdjustedQuantity;
   }
 
   /**
-   * Get stock breakdown by grain type
+   * Get stock breakdown by grain type, in total or at one storage location
    * Groups stock by grain type and calculates running total for each
    */
-  public async getStockByGrainType(): Promise<StockByGrainType[]> {
-    const buyTransactions = await this.buyRepository.findAll();
-    const sellTransactions = await this.sellRepository.findAll();
+  public async getStockByGrainType(locationId?: string): Promise<StockByGrainType[]> {
+    if (locationId !== undefined) {
+      const locationStock = (await this.getStockByLocation()).find(l => l.locationId === locationId);
+      return locationStock ? locationStock.grains.map(g => ({grainType: g.grainType, stock: g.stock})) : [];
+    }
+
+    // Bill lines carry the grain of each item, so multi-grain bills count towards every grain
+    const lookup = await this.getGrainLookup();
+    const stockByGrain = regroupByGrain(await this.itemRepository.getQuantityByGrainType('BUY'), lookup);
+    const soldByGrain = regroupByGrain(await this.itemRepository.getQuantityByGrainType('SELL'), lookup);
+
+    // Subtract sold quantities
+    Object.entries(soldByGrain).forEach(([grain, quantity]) => {
+      stockByGrain[grain] = (stockByGrain[grain] || 0) - quantity;
+    });
 
-    // Group buy transactions by grain type
-    const buyByGrain = buyTransactions.reduce((acc, tx) => {
-      const grain = tx.grainType.trim().toLowerCase();
-      acc[grain] = (acc[grain] || 0) + tx.quantity;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Subtract sell transactions
-    const stockByGrain = sellTransactions.reduce((acc, tx) => {
-      const grain = tx.grainType.trim().toLowerCase();
-      acc[grain] = (acc[grain] || 0) - tx.quantity;
-      return acc;
-    }, buyByGrain);
-
-    // Convert to array and capitalize grain type names
+    // Apply shrinkage, damage and count corrections
+    for (const row of await this.adjustmentRepository.getQuantityByLocationAndGrain()) {
+      const grain = grainKey(resolveGrainName(lookup, row.grain));
+      stockByGrain[grain] = (stockByGrain[grain] || 0) + row.total;
+    }
+
+    // Convert to array, named by the grain master
+    return this.toStockByGrainType(stockByGrain, lookup);
+  }
+
+  private toStockByGrainType(stockByGrain: Record<string, number>, lookup: Record<string, string>): StockByGrainType[] {
     return Object.entries(stockByGrain)
       .map(([grainType, stock]) => ({
-        grainType: grainType.charAt(0).toUpperCase() + grainType.slice(1),
+        grainType: lookup[grainType] || grainType.charAt(0).toUpperCase() + grainType.slice(1),
         stock,
       }))
-      .filter(item => item.stock !== 0) // Filter out zero stock items
+      .filter(item => Math.abs(item.stock) > 0.005) // Filter out zero stock items
       .sort((a, b) => b.stock - a.stock); // Sort by stock descending
   }
+
+  /**
+   * Stock per location and master grain (keyed by grainKey) as the bills and transfers
+   * leave it, before adjustments. Bills entered without a location are under null.
+   */
+  private async getBillStockByLocation(
+    lookup: Record<string, string>,
+  ): Promise<Map<string | null, Record<string, number>>> {
+    const stock = new Map<string | null, Record<string, number>>();
+    const add = (locationId: string | null, grainType: string, quantity: number) => {
+      const grains = stock.get(locationId) || {};
+      const grain = grainKey(resolveGrainName(lookup, grainType));
+      grains[grain] = (grains[grain] || 0) + quantity;
+      stock.set(locationId, grains);
+    };
+
+    for (const row of await this.itemRepository.getQuantityByLocationAndGrainType('BUY')) {
+      add(row.locationId, row.grain, row.total);
+    }
+    for (const row of await this.itemRepository.getQuantityByLocationAndGrainType('SELL')) {
+      add(row.locationId, row.grain, -row.total);
+    }
+    for (const row of await this.transferRepository.getQuantityByLocationAndGrain()) {
+      add(row.locationId, row.grain, row.total);
+    }
+    return stock;
+  }
+
+  /**
+   * Get stock of each grain at every storage location
+   * Buys add to and sells take from the bill's location; transfers move stock between
+   * locations, so the locations add up to the total. Adjustments apply at their location.
+   * Bills entered without a location are listed as "Unassigned".
+   */
+  public async getStockByLocation(): Promise<LocationStock[]> {
+    await this.initializeDatabase();
+    const lookup = await this.getGrainLookup();
+    const stock = await this.getBillStockByLocation(lookup);
+    for (const row of await this.adjustmentRepository.getQuantityByLocationAndGrain()) {
+      const grains = stock.get(row.locationId) || {};
+      const grain = grainKey(resolveGrainName(lookup, row.grain));
+      grains[grain] = (grains[grain] || 0) + row.total;
+      stock.set(row.locationId, grains);
+    }
+
+    const locations = await this.locationRepository.findAll();
+    const result: LocationStock[] = locations.map(location => {
+      const grains = this.toStockByGrainType(stock.get(location.id) || {}, lookup);
+      stock.delete(location.id);
+      return {
+        locationId: location.id,
+        locationName: location.name,
+        totalStock: grains.reduce((sum, g) => sum + g.stock, 0),
+        grains,
+      };
+    });
+
+    // Bills without a location, or naming a location not synced to this device yet
+    stock.forEach((grainStock, locationId) => {
+      const grains = this.toStockByGrainType(grainStock, lookup);
+      if (grains.length === 0) return;
+      result.push({
+        locationId,
+        locationName: locationId === null ? 'Unassigned' : 'Unknown location',
+        totalStock: grains.reduce((sum, g) => sum + g.stock, 0),
+        grains,
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Grain Master Operations
+   * Bills, transfers and adjustments are saved under the master name of the grain
+   * entered, and stock is grouped by master grain, so aliases count as one grain
+   */
+  public async getGrains(): Promise<Grain[]> {
+    await this.initializeDatabase();
+    return await this.grainRepository.findAll();
+  }
+
+  public async createGrain(data: Omit<Grain, 'id' | 'createdAt' | 'updatedAt'>): Promise<Grain> {
+    await this.initializeDatabase();
+    // Checked and saved in one unit, so two grains cannot take the same name
+    const grain = await this.dbService.runInTransaction(async () =>
+      this.grainRepository.create(await this.validateGrain(data)),
+    );
+    this.autoSyncStockRecordToCloud('GRAIN', grain).catch(console.error);
+    return grain;
+  }
+
+  /**
+   * Update a grain. A renamed grain keeps its old name as an alias, so earlier
+   * bills still count towards it.
+   */
+  public async updateGrain(id: string, data: Partial<Grain>): Promise<Grain> {
+    await this.initializeDatabase();
+    const grain = await this.dbService.runInTransaction(async () => {
+      const existing = await this.grainRepository.findById(id);
+      if (!existing) {
+        throw new Error('Grain not found');
+      }
+      const merged = {...existing, ...data};
+      if (grainKey(merged.name) !== grainKey(existing.name)) {
+        merged.aliases = [...(merged.aliases || []), existing.name];
+      }
+      return await this.grainRepository.update(id, await this.validateGrain(merged, id));
+    });
+    this.autoSyncStockRecordToCloud('GRAIN', grain).catch(console.error);
+    return grain;
+  }
+
+  /**
+   * Delete a grain no bill, transfer or adjustment names; used ones can only be deactivated
+   */
+  public async deleteGrain(id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    const result = await this.dbService.runInTransaction(async () => {
+      const grain = await this.grainRepository.findById(id);
+      if (grain && (await this.grainRepository.isInUse([grain.name, ...grain.aliases]))) {
+        throw new Error(`${grain.name} is used on bills or stock entries. Mark it inactive instead.`);
+      }
+      return await this.grainRepository.delete(id);
+    });
+    if (result) {
+      this.autoDeleteStockRecordFromCloud('GRAIN', id).catch(console.error);
+    }
+    return result;
+  }
+
+  /**
+   * Trim a grain's fields and check that its name and aliases belong to no other grain
+   */
+  private async validateGrain<T extends Omit<Grain, 'id' | 'createdAt' | 'updatedAt'>>(data: T, id?: string): Promise<T> {
+    const name = data.name.trim();
+    if (!name) {
+      throw new Error('Grain name is required');
+    }
+    if (data.defaultBagWeight !== undefined && data.defaultBagWeight < 0) {
+      throw new Error('Bag weight cannot be negative');
+    }
+    const aliases = Array.from(
+      new Map(
+        (data.aliases || [])
+          .map(alias => alias.trim())
+          .filter(alias => alias && grainKey(alias) !== grainKey(name))
+          .map(alias => [grainKey(alias), alias] as [string, string]),
+      ).values(),
+    );
+
+    const others = buildGrainLookup((await this.grainRepository.findAll()).filter(g => g.id !== id));
+    for (const entry of [name, ...aliases]) {
+      const taken = others[grainKey(entry)];
+      if (taken) {
+        throw new Error(`"${entry}" is already a name or alias of ${taken}`);
+      }
+    }
+    // Blank rather than undefined, so clearing a field on edit is saved
+    return {...data, name, aliases, variety: data.variety?.trim() || '', hsnCode: data.hsnCode?.trim() || ''};
+  }
+
+  /**
+   * Master name of every grain name and alias, keyed by grainKey
+   */
+  private async getGrainLookup(): Promise<Record<string, string>> {
+    await this.initializeDatabase();
+    return buildGrainLookup(await this.grainRepository.findAll());
+  }
+
+  /**
+   * Lines of a new bill named by their master grain. The bill's own grain (a
+   * comma-separated list on multi-grain bills) is renamed with them.
+   */
+  private async withMasterGrainLines(
+    data: {grainType: string; quantity: number; ratePerQuintal: number; totalAmount: number},
+    items: TransactionItemInput[],
+  ): Promise<TransactionItemInput[]> {
+    const lookup = await this.getGrainLookup();
+    data.grainType = resolveGrainList(lookup, data.grainType);
+    const lines = items.length > 0 ? items : [itemFromBillHeader(data)];
+    return lines.map(item => ({...item, grainType: resolveGrainName(lookup, item.grainType)}));
+  }
+
+  /**
+   * All buy or sell bills with their lines named by master grain, for lot and cost matching
+   */
+  private async getMasterNamedBills(transactionType: 'BUY'): Promise<BuyTransaction[]>;
+  private async getMasterNamedBills(transactionType: 'SELL'): Promise<SellTransaction[]>;
+  private async getMasterNamedBills(transactionType: 'BUY' | 'SELL'): Promise<Array<BuyTransaction | SellTransaction>> {
+    const lookup = await this.getGrainLookup();
+    return transactionType === 'BUY'
+      ? withMasterGrainNames(await this.getAllBuyTransactions(), lookup)
+      : withMasterGrainNames(await this.getAllSellTransactions(), lookup);
+  }
+
+  /**
+   * Storage Location Operations
+   */
+  public async getStorageLocations(): Promise<StorageLocation[]> {
+    await this.initializeDatabase();
+    return await this.locationRepository.findAll();
+  }
+
+  public async createStorageLocation(
+    data: Omit<StorageLocation, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<StorageLocation> {
+    await this.initializeDatabase();
+    if (!data.name.trim()) {
+      throw new Error('Location name is required');
+    }
+    const location = await this.dbService.runInTransaction(() =>
+      this.locationRepository.create({...data, name: data.name.trim()}),
+    );
+    this.autoSyncStockRecordToCloud('LOCATION', location).catch(console.error);
+    return location;
+  }
+
+  public async updateStorageLocation(id: string, data: Partial<StorageLocation>): Promise<StorageLocation> {
+    await this.initializeDatabase();
+    if (data.name !== undefined && !data.name.trim()) {
+      throw new Error('Location name is required');
+    }
+    const location = await this.dbService.runInTransaction(() =>
+      this.locationRepository.update(id, data.name !== undefined ? {...data, name: data.name.trim()} : data),
+    );
+    this.autoSyncStockRecordToCloud('LOCATION', location).catch(console.error);
+    return location;
+  }
+
+  /**
+   * Delete a location no bill or transfer refers to; used ones can only be deactivated
+   */
+  public async deleteStorageLocation(id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    const result = await this.dbService.runInTransaction(async () => {
+      if (await this.locationRepository.isInUse(id)) {
+        throw new Error('This location has bills or transfers. Mark it inactive instead.');
+      }
+      return await this.locationRepository.delete(id);
+    });
+    if (result) {
+      this.autoDeleteStockRecordFromCloud('LOCATION', id).catch(console.error);
+    }
+    return result;
+  }
+
+  /**
+   * Buy and sell entries must say which location the grain went into or left from
+   */
+  private async assertLocationSelected(locationId?: string): Promise<void> {
+    if (!locationId) {
+      throw new Error('Please select a storage location');
+    }
+    const location = await this.locationRepository.findById(locationId);
+    if (!location) {
+      throw new Error('Selected storage location no longer exists');
+    }
+  }
+
+  /**
+   * Stock Transfer Operations
+   */
+  public async getStockTransfers(): Promise<StockTransfer[]> {
+    await this.initializeDatabase();
+    return await this.transferRepository.findAll();
+  }
+
+  /**
+   * Move grain between two locations. A transport cost is booked as an expense
+   * (and taken out of cash) along with the transfer.
+   */
+  public async createStockTransfer(
+    data: Omit<StockTransfer, 'id' | 'createdAt' | 'updatedAt' | 'expenseId'>,
+  ): Promise<StockTransfer> {
+    await this.initializeDatabase();
+    if (!(data.quantity > 0)) {
+      throw new Error('Transfer quantity must be greater than zero');
+    }
+    if (data.transportCost < 0) {
+      throw new Error('Transport cost cannot be negative');
+    }
+    if (data.fromLocationId === data.toLocationId) {
+      throw new Error('Choose two different locations');
+    }
+    // The stock check, the transport expense and the transfer commit together
+    const transfer = await this.dbService.runInTransaction(async () => {
+      const from = await this.locationRepository.findById(data.fromLocationId);
+      const to = await this.locationRepository.findById(data.toLocationId);
+      if (!from || !to) {
+        throw new Error('Selected storage location no longer exists');
+      }
+      const grainType = resolveGrainName(await this.getGrainLookup(), data.grainType);
+
+      const available = (await this.getStockByGrainType(from.id)).find(
+        g => grainKey(g.grainType) === grainKey(grainType),
+      );
+      const availableQuantity = available ? available.stock : 0;
+      if (data.quantity > availableQuantity + 0.005) {
+        throw new Error(`${from.name} has only ${Math.max(0, availableQuantity).toFixed(2)} Qtl of ${grainType}`);
+      }
+
+      let expenseId: string | undefined;
+      if (data.transportCost > 0) {
+        const expense = await this.bookTransportExpense(
+          data.date,
+          data.transportCost,
+          `Transport: ${data.quantity} Qtl ${grainType} from ${from.name} to ${to.name}` +
+            (data.vehicleNumber ? ` (${data.vehicleNumber})` : ''),
+        );
+        expenseId = expense.id;
+      }
+
+      const now = new Date().toISOString();
+      const created: StockTransfer = {
+        ...data,
+        grainType,
+        id: `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        expenseId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.transferRepository.insert(created);
+      return created;
+    });
+
+    this.autoSyncStockRecordToCloud('TRANSFER', transfer).catch(console.error);
+    return transfer;
+  }
+
+  /**
+   * Delete a transfer and the transport expense booked with it
+   */
+  public async deleteStockTransfer(id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    const result = await this.dbService.runInTransaction(async () => {
+      const transfer = await this.transferRepository.findById(id);
+      if (!transfer) return false;
+
+      if (transfer.expenseId) {
+        // The expense only exists on the device that entered the transfer
+        await this.removeTransportExpense(transfer.expenseId);
+      }
+      return await this.transferRepository.delete(id);
+    });
+    if (result) {
+      this.autoDeleteStockRecordFromCloud('TRANSFER', id).catch(console.error);
+    }
+    return result;
+  }
+
+  /**
+   * Book a transfer's transport cost as an expense paid from cash, as ExpenseService
+   * does, on this unit of work
+   */
+  private async bookTransportExpense(date: string, amount: number, notes: string): Promise<Expense> {
+    const expense = await this.cashExpenseRepository.create({date, amount, notes, userId: ''});
+    await CashBalanceService.onExpensePayment(notes.substring(0, 50), amount, {
+      sourceId: expense.id,
+      entryDate: expense.date,
+    });
+    return expense;
+  }
+
+  /**
+   * Remove a transfer's transport expense and put its amount back in cash, on this unit of work
+   */
+  private async removeTransportExpense(expenseId: string): Promise<void> {
+    const expense = await this.cashExpenseRepository.getById(expenseId);
+    if (!expense) return;
+    await CashBalanceService.addToBalance(expense.amount, `Expense deleted: ${expense.notes.substring(0, 50)}`, {
+      sourceType: 'EXPENSE',
+      sourceId: expenseId,
+    });
+    await this.cashExpenseRepository.delete(expenseId);
+  }
+
+  /**
+   * Stock Adjustment Operations
+   * Adjustments change stock only; party balances, cash and bills are untouched
+   */
+  public async getStockAdjustments(): Promise<StockAdjustment[]> {
+    await this.initializeDatabase();
+    return await this.adjustmentRepository.findAll();
+  }
+
+  /**
+   * Record a stock loss (negative quantity) or gain at a location. Without a rate the
+   * adjustment is valued at the grain's weighted-average purchase rate.
+   */
+  public async createStockAdjustment(
+    data: Omit<StockAdjustment, 'id' | 'createdAt' | 'updatedAt' | 'valuation' | 'ratePerQuintal'> & {
+      ratePerQuintal?: number;
+    },
+  ): Promise<StockAdjustment> {
+    await this.initializeDatabase();
+    if (!data.grainType.trim()) {
+      throw new Error('Grain type is required');
+    }
+    if (!data.quantity || Math.abs(data.quantity) <= 0.005) {
+      throw new Error('Adjustment quantity cannot be zero');
+    }
+    if (data.ratePerQuintal !== undefined && data.ratePerQuintal < 0) {
+      throw new Error('Valuation rate cannot be negative');
+    }
+    // The stock check and the adjustment commit together
+    const adjustment = await this.dbService.runInTransaction(async () => {
+      const location = await this.locationRepository.findById(data.locationId);
+      if (!location) {
+        throw new Error('Please select a storage location');
+      }
+      data = {...data, grainType: resolveGrainName(await this.getGrainLookup(), data.grainType)};
+
+      if (data.quantity < 0) {
+        const available = (await this.getStockByGrainType(location.id)).find(
+          g => grainKey(g.grainType) === grainKey(data.grainType),
+        );
+        const availableQuantity = available ? available.stock : 0;
+        if (-data.quantity > availableQuantity + 0.005) {
+          throw new Error(`${location.name} has only ${Math.max(0, availableQuantity).toFixed(2)} Qtl of ${data.grainType}`);
+        }
+      }
+
+      const rate =
+        data.ratePerQuintal ??
+        averageCostByGrain(await this.getMasterNamedBills('BUY'))[grainKey(data.grainType)] ??
+        0;
+      const now = new Date().toISOString();
+      const created: StockAdjustment = {
+        ...data,
+        id: `adjustment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        grainType: data.grainType.trim(),
+        quantity: parseFloat(data.quantity.toFixed(2)),
+        ratePerQuintal: parseFloat(rate.toFixed(2)),
+        valuation: parseFloat((data.quantity * rate).toFixed(2)),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.adjustmentRepository.insert(created);
+      return created;
+    });
+
+    this.autoSyncStockRecordToCloud('ADJUSTMENT', adjustment).catch(console.error);
+    return adjustment;
+  }
+
+  public async deleteStockAdjustment(id: string): Promise<boolean> {
+    await this.initializeDatabase();
+    const result = await this.dbService.runInTransaction(() => this.adjustmentRepository.delete(id));
+    if (result) {
+      this.autoDeleteStockRecordFromCloud('ADJUSTMENT', id).catch(console.error);
+    }
+    return result;
+  }
+
+  /**
+   * Book stock of each grain, in total or at one location, against the physical
+   * counts given. Differences are valued at the grain's average purchase rate.
+   */
+  public async getStockReconciliation(
+    physicalCounts: PhysicalCount[] = [],
+    locationId?: string,
+  ): Promise<StockReconciliation> {
+    await this.initializeDatabase();
+    const lookup = await this.getGrainLookup();
+    const billStock: Record<string, number> = {};
+    (await this.getBillStockByLocation(lookup)).forEach((grains, stockLocationId) => {
+      if (locationId !== undefined && stockLocationId !== locationId) return;
+      Object.entries(grains).forEach(([grain, quantity]) => {
+        billStock[grain] = (billStock[grain] || 0) + quantity;
+      });
+    });
+
+    const adjustments: Record<string, {quantity: number; valuation: number}> = {};
+    for (const row of await this.adjustmentRepository.getQuantityByLocationAndGrain()) {
+      if (locationId !== undefined && row.locationId !== locationId) continue;
+      const grain = grainKey(resolveGrainName(lookup, row.grain));
+      const adjusted = (adjustments[grain] = adjustments[grain] || {quantity: 0, valuation: 0});
+      adjusted.quantity += row.total;
+      adjusted.valuation += row.valuation;
+    }
+
+    const counts = countsByGrain(
+      physicalCounts
+        .filter(c => locationId === undefined || c.locationId === undefined || c.locationId === locationId)
+        .map(c => ({...c, grainType: resolveGrainName(lookup, c.grainType)})),
+    );
+    const rates = averageCostByGrain(await this.getMasterNamedBills('BUY'));
+    const reconciliation = buildStockReconciliation(billStock, adjustments, counts, rates, locationId);
+    reconciliation.lines.forEach(line => {
+      line.grainType = resolveGrainName(lookup, line.grainType);
+    });
+    return reconciliation;
+  }
+
+  /**
+   * Post the differences between book stock and the physical counts of one location
+   * as PHYSICAL_COUNT adjustments, so book stock matches what was counted
+   */
+  public async postPhysicalCounts(
+    locationId: string,
+    physicalCounts: PhysicalCount[],
+    date: string = new Date().toISOString(),
+  ): Promise<StockAdjustment[]> {
+    const reconciliation = await this.getStockReconciliation(
+      physicalCounts.map(c => ({...c, locationId})),
+      locationId,
+    );
+    const posted: StockAdjustment[] = [];
+    for (const line of reconciliation.lines) {
+      if (line.difference === undefined || Math.abs(line.difference) <= 0.005) continue;
+      posted.push(
+        await this.createStockAdjustment({
+          date,
+          grainType: line.grainType,
+          locationId,
+          quantity: line.difference,
+          reason: 'PHYSICAL_COUNT',
+          physicalCount: line.physicalCount,
+          notes: `Counted ${line.physicalCount} Qtl, book ${line.bookStock} Qtl`,
+        }),
+      );
+    }
+    return posted;
+  }
+
+  /**
+   * Allocate all sell lines to the buy lines (lots) they were sold from, moving
+   * lots between locations as transferred and taking losses off them as adjusted.
+   * Pass the bills when already loaded with master grain names.
+   */
+  private async allocateStockLots(
+    buys?: BuyTransaction[],
+    sells?: SellTransaction[],
+  ): Promise<LotAllocationResult> {
+    const lookup = await this.getGrainLookup();
+    const adjustments = (await this.adjustmentRepository.findAll()).map(a => ({
+      ...a,
+      grainType: resolveGrainName(lookup, a.grainType),
+    }));
+    const transfers = (await this.transferRepository.findAll()).map(t => ({
+      ...t,
+      grainType: resolveGrainName(lookup, t.grainType),
+    }));
+    return allocateLots(
+      buys || (await this.getMasterNamedBills('BUY')),
+      sells || (await this.getMasterNamedBills('SELL')),
+      adjustments,
+      transfers,
+    );
+  }
+
+  /**
+   * Get stock lots that still hold grain, oldest first, optionally for one grain.
+   * Each buy line is a lot; sales draw from hand-picked lots, then the oldest ones.
+   * For one location, only the lots with stock there are returned and their
+   * remainingQuantity is the quantity at that location.
+   */
+  public async getStockLots(grainType?: string, locationId?: string | null): Promise<StockLot[]> {
+    await this.initializeDatabase();
+    const {lots} = await this.allocateStockLots();
+    const grain = grainType === undefined ? undefined : grainKey(resolveGrainName(await this.getGrainLookup(), grainType));
+    return lots
+      .filter(lot => grain === undefined || grainKey(lot.grainType) === grain)
+      .map(lot => {
+        if (locationId === undefined) return lot;
+        const held = lot.locations.find(location => location.locationId === locationId);
+        return {...lot, remainingQuantity: held ? held.quantity : 0};
+      })
+      .filter(lot => lot.remainingQuantity > 0);
+  }
+
+  /**
+   * Get the lots a sell transaction's quantity was taken from
+   */
+  public async getSellLotAllocations(sellTransactionId: string): Promise<LotAllocation[]> {
+    await this.initializeDatabase();
+    const {allocations} = await this.allocateStockLots();
+    return allocations.filter(a => a.sellTransactionId === sellTransactionId);
+  }
+
+  /**
+   * Get cost of goods sold and gross trading margin of the sales in a date range,
+   * per sale and per grain. LOT costing uses the purchase rate of the lots each
+   * sale was allocated to; AVERAGE the grain's weighted-average purchase rate.
+   */
+  public async getTradingMargin(
+    startDate: Date,
+    endDate: Date,
+    method: CostingMethod = 'LOT',
+  ): Promise<TradingMarginReport> {
+    await this.initializeDatabase();
+    const buys = await this.getMasterNamedBills('BUY');
+    const sells = await this.getMasterNamedBills('SELL');
+    const allocation = await this.allocateStockLots(buys, sells);
+    const sellsInRange = this.filterTransactionsByDateRange(sells, startDate, endDate);
+    return buildTradingMargin(sellsInRange, buys, allocation, method, startDate, endDate);
+  }
+
+  /**
+   * Reject hand-picked lots that do not exist, hold another grain or have too little
+   * left at the sell's location
+   */
+  private async assertLotPicksAvailable(items: TransactionItemInput[], locationId?: string): Promise<void> {
+    const picked = new Map<string, number>();
+    for (const item of items) {
+      for (const pick of item.lotPicks || []) {
+        picked.set(pick.lotId, (picked.get(pick.lotId) || 0) + pick.quantity);
+      }
+    }
+    if (picked.size === 0) return;
+
+    const {lots} = await this.allocateStockLots();
+    const lotsById = new Map(lots.map(lot => [lot.id, lot]));
+    for (const [lotId, quantity] of picked) {
+      const lot = lotsById.get(lotId);
+      if (!lot) {
+        throw new Error('Selected stock lot no longer exists');
+      }
+      const item = items.find(i => (i.lotPicks || []).some(p => p.lotId === lotId));
+      if (item && grainKey(item.grainType) !== grainKey(lot.grainType)) {
+        throw new Error(`Lot from ${lot.supplierName} holds ${lot.grainType}, not ${item.grainType}`);
+      }
+      const held = lot.locations.find(location => location.locationId === (locationId || null));
+      const left = held ? held.quantity : 0;
+      if (quantity > left + 0.005) {
+        throw new Error(`Lot from ${lot.supplierName} has only ${left.toFixed(2)} Qtl left at this location`);
+      }
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,86 @@
+import ThermalPrinterService, {MemoryPrinterTransport, PrinterTransport} from '../ThermalPrinterService';
+import {ReceiptDocument} from '../../models/Receipt';
+import {renderReceiptEscPos} from '../../utils/escpos';
+
+const receipt: ReceiptDocument = {
+  kind: 'SELL',
+  title: 'SALE RECEIPT',
+  firm: {firmName: 'Shree Ganesh Traders'},
+  invoiceNumber: '20251209S0001',
+  date: '2025-12-09T10:00:00.000Z',
+  party: {label: 'Buyer', name: 'Anand Flour Mills'},
+  details: [],
+  items: [{description: 'Wheat', quantity: 10, rate: 2400, amount: 24000}],
+  totals: [{label: 'Total', amount: 24000, total: true}],
+  payments: [],
+  balanceLabel: 'Balance Due',
+  balanceAmount: 24000,
+  status: 'PENDING',
+};
+
+describe('ThermalPrinterService', () => {
+  afterEach(() => {
+    ThermalPrinterService.setTransport(null);
+    ThermalPrinterService.setPaperWidth('58mm');
+  });
+
+  it('fails when no printer is connected', async () => {
+    await expect(ThermalPrinterService.printReceipt(receipt)).rejects.toThrow('No printer connected');
+  });
+
+  it('sends the receipt rendered for the configured paper width', async () => {
+    const transport = new MemoryPrinterTransport();
+    ThermalPrinterService.setTransport(transport);
+    ThermalPrinterService.setPaperWidth('80mm');
+
+    await ThermalPrinterService.printReceipt(receipt);
+
+    expect(transport.getBytes()).toEqual(renderReceiptEscPos(receipt, '80mm'));
+    expect(transport.writes).toHaveLength(1);
+    expect(transport.connected).toBe(false);
+  });
+
+  it('prints on the paper width given for one receipt', async () => {
+    const transport = new MemoryPrinterTransport();
+    ThermalPrinterService.setTransport(transport);
+
+    await ThermalPrinterService.printReceipt(receipt, '80mm');
+
+    expect(transport.getBytes()).toEqual(renderReceiptEscPos(receipt, '80mm'));
+    expect(ThermalPrinterService.getPaperWidth()).toBe('58mm');
+  });
+
+  it('splits the stream into chunks the transport accepts', async () => {
+    const transport = new MemoryPrinterTransport(100);
+    ThermalPrinterService.setTransport(transport);
+    const bytes = renderReceiptEscPos(receipt, '58mm');
+
+    await ThermalPrinterService.printBytes(bytes);
+
+    expect(transport.writes).toHaveLength(Math.ceil(bytes.length / 100));
+    expect(transport.writes.every(chunk => chunk.length <= 100)).toBe(true);
+    expect(transport.getBytes()).toEqual(bytes);
+  });
+
+  it('disconnects when a write fails', async () => {
+    const transport: PrinterTransport = {
+      name: 'Broken',
+      connect: jest.fn(async () => {}),
+      write: jest.fn(async () => {
+        throw new Error('Paper out');
+      }),
+      disconnect: jest.fn(async () => {}),
+    };
+    ThermalPrinterService.setTransport(transport);
+
+    await expect(ThermalPrinterService.printReceipt(receipt)).rejects.toThrow('Paper out');
+    expect(transport.disconnect).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryPrinterTransport', () => {
+  it('rejects writes while disconnected', async () => {
+    const transport = new MemoryPrinterTransport();
+    await expect(transport.write(Uint8Array.of(0x0a))).rejects.toThrow('Printer is not connected');
+  });
+});
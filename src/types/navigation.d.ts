@@ -12,6 +12,7 @@ declare global {
       LendTransactions: undefined;
       ExpenseTransactions: undefined;
       Settings: undefined;
+      CashLedger: undefined;
       AddBuyTransaction: undefined;
       AddSellTransaction: undefined;
       AddLendTransaction: undefined;
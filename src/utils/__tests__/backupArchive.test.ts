@@ -0,0 +1,43 @@
+import {BackupPayload} from '../../models/Backup';
+import {openBackup, readBackupArchive, sealBackup} from '../backupArchive';
+
+const PASSPHRASE = 'correct horse battery';
+
+const payload: BackupPayload = {
+  schemaVersion: 3,
+  createdAt: '2025-12-09T10:00:00.000Z',
+  cashBalance: 1500,
+  tables: {grains: {columns: ['id', 'name'], rows: [['grain-wheat', 'Wheat']]}},
+};
+
+// A sealed file with its envelope edited
+const withKdf = (kdf: Record<string, unknown>): string => {
+  const archive = JSON.parse(sealBackup(payload, PASSPHRASE));
+  return JSON.stringify({...archive, kdf: {...archive.kdf, ...kdf}});
+};
+
+describe('backup archive', () => {
+  it('opens a sealed backup with its passphrase', () => {
+    expect(openBackup(sealBackup(payload, PASSPHRASE), PASSPHRASE)).toEqual(payload);
+  });
+
+  it('rejects a wrong passphrase', () => {
+    expect(() => openBackup(sealBackup(payload, PASSPHRASE), 'wrong passphrase')).toThrow('Wrong passphrase');
+  });
+
+  it.each([
+    ['too many', 1e9],
+    ['too few', 1],
+    ['fractional', 20000.5],
+    ['non-numeric', '20000'],
+    ['missing', undefined],
+  ])('rejects %s PBKDF2 iterations before deriving keys', (_label, iterations) => {
+    const content = withKdf({iterations});
+    expect(() => readBackupArchive(content)).toThrow('Backup file is damaged or incomplete');
+    expect(() => openBackup(content, PASSPHRASE)).toThrow('Backup file is damaged or incomplete');
+  });
+
+  it('rejects an unknown key derivation function', () => {
+    expect(() => openBackup(withKdf({name: 'SCRYPT'}), PASSPHRASE)).toThrow('Backup file is damaged or incomplete');
+  });
+});
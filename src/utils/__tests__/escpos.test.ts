@@ -0,0 +1,158 @@
+import {ReceiptDocument} from '../../models/Receipt';
+import {ESC_POS_COLUMNS, renderReceiptEscPos, wrapText} from '../escpos';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Bytes taken by each command the renderer emits, keyed by command prefix
+const COMMAND_LENGTHS: Record<string, number> = {
+  [`${ESC},@`]: 2, // ESC @ reset
+  [`${ESC},a`]: 3, // ESC a n align
+  [`${ESC},E`]: 3, // ESC E n bold
+  [`${ESC},d`]: 3, // ESC d n feed
+  [`${GS},!`]: 3, // GS ! n size
+  [`${GS},V`]: 4, // GS V m n cut
+};
+
+interface Decoded {
+  lines: string[]; // Text of each printed line
+  commands: number[][];
+}
+
+/**
+ * Split an ESC/POS stream into its commands and printed lines; fails on any byte it does not know
+ */
+const decode = (bytes: Uint8Array): Decoded => {
+  const lines: string[] = [];
+  const commands: number[][] = [];
+  let current = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte === ESC || byte === GS) {
+      const length = COMMAND_LENGTHS[`${byte},${String.fromCharCode(bytes[i + 1])}`];
+      if (!length) {
+        throw new Error(`Unknown command ${byte} ${bytes[i + 1]} at ${i}`);
+      }
+      commands.push(Array.from(bytes.subarray(i, i + length)));
+      i += length;
+    } else if (byte === LF) {
+      lines.push(current);
+      current = '';
+      i++;
+    } else {
+      if (byte < 0x20 || byte > 0x7e) {
+        throw new Error(`Non-printable byte ${byte} at ${i}`);
+      }
+      current += String.fromCharCode(byte);
+      i++;
+    }
+  }
+  expect(current).toBe(''); // Every line is terminated
+  return {lines, commands};
+};
+
+const receipt: ReceiptDocument = {
+  kind: 'BUY',
+  title: 'PURCHASE RECEIPT',
+  firm: {firmName: 'Shree Ganesh Traders', gstin: '27AAPFU0939F1ZV', state: 'Maharashtra (27)', phoneNumber: '9876543210'},
+  invoiceNumber: '20251209B0001',
+  date: '2025-12-09T10:00:00.000Z',
+  party: {label: 'Farmer', name: 'Ramesh Patil', phone: '9123456789', address: 'N/A'},
+  details: [{label: 'Vehicle', value: 'MH12AB1234'}],
+  items: [
+    {
+      description: 'Wheat Sharbati premium lot from the north field',
+      bags: '25 × 50kg + 0kg',
+      quantity: 12.5,
+      rate: 2150,
+      amount: 26875,
+      arat: 537.5,
+    },
+    {description: 'Gram', quantity: 4, rate: 5200, amount: 20800},
+  ],
+  totals: [
+    {label: 'Subtotal', amount: 47675},
+    {label: 'Arat', amount: 537.5},
+    {label: 'Total', amount: 48212.5, total: true},
+  ],
+  payments: [{date: '2025-12-09T12:00:00.000Z', amount: 10000, mode: 'CASH', notes: 'Advance'}],
+  balanceLabel: 'Balance Due',
+  balanceAmount: 38212.5,
+  status: 'PARTIAL',
+};
+
+describe('renderReceiptEscPos', () => {
+  it.each(['58mm', '80mm'] as const)('resets the printer first and ends with a feed and partial cut (%s)', paperWidth => {
+    const bytes = Array.from(renderReceiptEscPos(receipt, paperWidth));
+    expect(bytes.slice(0, 2)).toEqual([ESC, 0x40]);
+    expect(bytes.slice(-7)).toEqual([ESC, 0x64, 4, GS, 0x56, 0x42, 0x00]);
+    expect(bytes.filter((byte, i) => byte === GS && bytes[i + 1] === 0x56)).toHaveLength(1);
+  });
+
+  it.each(['58mm', '80mm'] as const)('keeps every line within the roll width (%s)', paperWidth => {
+    const {lines} = decode(renderReceiptEscPos(receipt, paperWidth));
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(ESC_POS_COLUMNS[paperWidth]);
+    }
+  });
+
+  it('stacks each item over several lines on 58mm paper', () => {
+    const {lines, commands} = decode(renderReceiptEscPos(receipt, '58mm'));
+    expect(ESC_POS_COLUMNS['58mm']).toBe(32);
+
+    const first = lines.indexOf('1. Wheat Sharbati premium lot');
+    expect(lines.slice(first, first + 6)).toEqual([
+      '1. Wheat Sharbati premium lot',
+      'from the north field',
+      '   25 x 50kg + 0kg',
+      // Quantity x rate wraps, keeping its indent, when the amount does not fit beside it
+      '   12.50 Qtl x',
+      '   2,150.00            26,875.00',
+      '   + Arat                 537.50',
+    ]);
+    expect(lines).toContain('   4.00 Qtl x 5,200.00 20,800.00');
+    expect(lines.some(line => line.startsWith('Item'))).toBe(false);
+
+    // Separators span the full width
+    expect(lines).toContain('-'.repeat(32));
+    expect(lines).toContain('='.repeat(32));
+    expect(commands).toContainEqual([ESC, 0x45, 1]);
+  });
+
+  it('prints a table with fixed columns on 80mm paper', () => {
+    const {lines} = decode(renderReceiptEscPos(receipt, '80mm'));
+    expect(ESC_POS_COLUMNS['80mm']).toBe(48);
+
+    // Item 18 | Qtl 8 | Rate 10 | Amount 12
+    const header = lines.find(line => line.startsWith('Item'))!;
+    expect(header).toBe(`${'Item'.padEnd(18)}${'Qtl'.padStart(8)}${'Rate'.padStart(10)}${'Amount'.padStart(12)}`);
+    expect(header).toHaveLength(48);
+
+    const first = lines.indexOf(header) + 2;
+    expect(lines.slice(first, first + 5)).toEqual([
+      `${'1. Wheat Sharbati'.padEnd(18)}${'12.50'.padStart(8)}${'2,150.00'.padStart(10)}${'26,875.00'.padStart(12)}`,
+      '   premium lot from',
+      '   the north field',
+      '   25 x 50kg + 0kg',
+      `   + Arat${'537.50'.padStart(48 - '   + Arat'.length)}`,
+    ]);
+    expect(lines[first]).toHaveLength(48);
+    expect(lines).toContain(`${'2. Gram'.padEnd(18)}${'4.00'.padStart(8)}${'5,200.00'.padStart(10)}${'20,800.00'.padStart(12)}`);
+    expect(lines).toContain('-'.repeat(48));
+  });
+
+  it('folds the rupee sign and other symbols into ASCII', () => {
+    const {lines} = decode(renderReceiptEscPos({...receipt, balanceLabel: 'Baaki – ₹'}, '58mm'));
+    expect(lines.find(line => line.startsWith('Baaki'))).toBe(`Baaki - Rs.${'Rs.38,212.50'.padStart(32 - 11)}`);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks on spaces and splits words longer than the width', () => {
+    expect(wrapText('Wheat Sharbati premium', 10)).toEqual(['Wheat', 'Sharbati', 'premium']);
+    expect(wrapText('MH12AB1234XYZ', 5)).toEqual(['MH12A', 'B1234', 'XYZ']);
+    expect(wrapText('', 5)).toEqual(['']);
+  });
+});
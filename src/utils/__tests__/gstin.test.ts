@@ -0,0 +1,45 @@
+import {computeGstinCheckChar, hasValidGstinChecksum, validateGstin} from '../gstin';
+
+describe('validateGstin', () => {
+  it('accepts a firm GSTIN', () => {
+    const result = validateGstin('27AAPFU0939F1ZV');
+    expect(result.valid).toBe(true);
+    expect(result.details).toEqual({
+      gstin: '27AAPFU0939F1ZV',
+      stateCode: '27',
+      stateName: 'Maharashtra',
+      pan: 'AAPFU0939F',
+      entityNumber: '1',
+    });
+  });
+
+  it('accepts an LLP GSTIN (PAN holder type E)', () => {
+    const result = validateGstin('29aaqea1234m1z7');
+    expect(result.valid).toBe(true);
+    expect(result.details?.pan).toBe('AAQEA1234M');
+    expect(result.details?.stateName).toBe('Karnataka');
+  });
+
+  it('accepts every PAN holder type', () => {
+    for (const holderType of 'ABCEFGHJKLPT') {
+      const first14 = `27AAP${holderType}U0939F1Z`;
+      expect(validateGstin(first14 + computeGstinCheckChar(first14)).valid).toBe(true);
+    }
+  });
+
+  it('rejects an unknown PAN holder type', () => {
+    const first14 = '27AAPDU0939F1Z';
+    expect(validateGstin(first14 + computeGstinCheckChar(first14)).error).toBe(
+      'Characters 3-12 (AAPDU0939F) are not a valid PAN',
+    );
+  });
+
+  it('rejects a wrong check character', () => {
+    expect(hasValidGstinChecksum('29AAQEA1234M1Z8')).toBe(false);
+    expect(validateGstin('29AAQEA1234M1Z8').valid).toBe(false);
+  });
+
+  it('rejects an unknown state code', () => {
+    expect(validateGstin('40AAPFU0939F1ZV').error).toBe('40 is not a valid GST state code');
+  });
+});
@@ -0,0 +1,203 @@
+import {Merchant} from '../../models/Merchant';
+import {PaymentStatus, SellBillType, SellTransaction, TransactionType} from '../../models/Transaction';
+import {TransactionItem} from '../../models/TransactionItem';
+import {buildGstr1Export} from '../gstr1';
+
+const FIRM_GSTIN = '27AAPFU0939F1ZV'; // Maharashtra
+const BUYER_GSTIN = '29AAQEA1234M1Z7'; // Karnataka
+
+const line = (overrides: Partial<TransactionItem> = {}): TransactionItem => ({
+  id: 'item-1',
+  transactionId: 'sell-1',
+  transactionType: 'SELL',
+  lineNumber: 1,
+  grainType: 'Wheat',
+  numberOfBags: 20,
+  weightPerBag: 50,
+  extraWeight: 0,
+  quantity: 10,
+  ratePerQuintal: 1000,
+  amount: 10000,
+  createdAt: '2025-04-05T10:00:00',
+  updatedAt: '2025-04-05T10:00:00',
+  ...overrides,
+});
+
+const sell = (id: string, billType: SellBillType, overrides: Partial<SellTransaction> = {}): SellTransaction => ({
+  id,
+  transactionType: TransactionType.SELL,
+  date: '2025-04-05T10:00:00',
+  buyerName: 'Sharma Traders',
+  grainType: 'Wheat',
+  quantity: 10,
+  ratePerQuintal: 1000,
+  totalAmount: 10000,
+  receivedAmount: 0,
+  balanceAmount: 10000,
+  paymentStatus: PaymentStatus.PENDING,
+  invoiceNumber: id.toUpperCase(),
+  billType,
+  items: [line({transactionId: id})],
+  createdAt: '2025-04-05T10:00:00',
+  updatedAt: '2025-04-05T10:00:00',
+  ...overrides,
+});
+
+const merchant = (phoneNumber: string, gstin: string): Merchant => ({
+  id: `merchant-${phoneNumber}`,
+  phoneNumber,
+  firmName: 'Gupta Agro',
+  gstin,
+  address: 'Pune',
+  createdAt: '2025-01-01T00:00:00',
+  updatedAt: '2025-01-01T00:00:00',
+});
+
+// Inter-state tax invoice to a registered buyer: 5% IGST
+const b2bInvoice = sell('inv-1', 'TAX_INVOICE', {
+  buyerGstin: BUYER_GSTIN,
+  placeOfSupply: '29',
+  taxAmount: 500,
+  items: [line({transactionId: 'inv-1', hsnCode: '1001', gstRate: 5, taxableValue: 10000, igstAmount: 500})],
+});
+
+// Intra-state tax invoice to an unregistered buyer: 2.5% CGST + 2.5% SGST
+const b2csInvoice = sell('inv-2', 'TAX_INVOICE', {
+  date: '2025-04-12T10:00:00',
+  placeOfSupply: '27',
+  totalAmount: 2000,
+  taxAmount: 100,
+  items: [
+    line({
+      transactionId: 'inv-2',
+      quantity: 2,
+      amount: 2000,
+      hsnCode: '1001',
+      gstRate: 5,
+      taxableValue: 2000,
+      cgstAmount: 50,
+      sgstAmount: 50,
+    }),
+  ],
+});
+
+// Exempt grain sale to an unregistered buyer
+const billOfSupply = sell('bos-1', 'BILL_OF_SUPPLY', {
+  date: '2025-04-20T10:00:00',
+  totalAmount: 5000,
+  items: [line({transactionId: 'bos-1', quantity: 5, amount: 5000})],
+});
+
+describe('buildGstr1Export', () => {
+  it('files a tax invoice to a registered buyer under B2B', () => {
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [b2bInvoice], []);
+
+    expect(result.errors).toEqual([]);
+    expect(result.period).toBe('042025');
+    expect(result.data.b2b).toEqual([
+      {
+        ctin: BUYER_GSTIN,
+        inv: [
+          {
+            inum: 'INV-1',
+            idt: '05-04-2025',
+            val: 10500,
+            pos: '29',
+            rchrg: 'N',
+            inv_typ: 'R',
+            itms: [{num: 1, itm_det: {txval: 10000, rt: 5, iamt: 500, camt: 0, samt: 0, csamt: 0}}],
+          },
+        ],
+      },
+    ]);
+    expect(result.data.b2cs).toEqual([]);
+    expect(result.summary.b2bInvoices).toBe(1);
+  });
+
+  it('treats a buyer whose merchant record has a GSTIN as registered', () => {
+    const bill = {...b2bInvoice, buyerGstin: undefined, buyerPhone: '9876543210'};
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [bill], [merchant('9876543210', BUYER_GSTIN)]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.data.b2b.map(party => party.ctin)).toEqual([BUYER_GSTIN]);
+  });
+
+  it('summarises tax invoices to unregistered buyers in B2CS by place of supply and rate', () => {
+    const second = {...b2csInvoice, id: 'inv-3', invoiceNumber: 'INV-3'};
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [b2csInvoice, second], []);
+
+    expect(result.errors).toEqual([]);
+    expect(result.data.b2b).toEqual([]);
+    expect(result.data.b2cs).toEqual([
+      {sply_ty: 'INTRA', pos: '27', typ: 'OE', txval: 4000, rt: 5, iamt: 0, camt: 100, samt: 100, csamt: 0},
+    ]);
+    expect(result.summary.b2cInvoices).toBe(2);
+  });
+
+  it('reports a Bill of Supply as an exempt supply', () => {
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [billOfSupply], []);
+
+    expect(result.errors).toEqual([]);
+    expect(result.data.nil.inv).toEqual([{sply_ty: 'INTRAB2C', nil_amt: 0, expt_amt: 5000, ngsup_amt: 0}]);
+    expect(result.data.b2b).toEqual([]);
+    expect(result.data.b2cs).toEqual([]);
+    expect(result.summary.exemptInvoices).toBe(1);
+  });
+
+  it('buckets every line in the HSN summary by code and rate', () => {
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [b2bInvoice, b2csInvoice, billOfSupply], []);
+
+    expect(result.data.hsn.data).toEqual([
+      {num: 1, hsn_sc: '1001', desc: 'Wheat', uqc: 'QTL', qty: 12, rt: 5, txval: 12000, iamt: 500, camt: 50, samt: 50, csamt: 0},
+      {num: 2, hsn_sc: '1001', desc: 'Wheat', uqc: 'QTL', qty: 5, rt: 0, txval: 5000, iamt: 0, camt: 0, samt: 0, csamt: 0},
+    ]);
+    expect(result.summary).toEqual({
+      b2bInvoices: 1,
+      b2cInvoices: 1,
+      exemptInvoices: 1,
+      taxableValue: 17000,
+      totalTax: 600,
+    });
+  });
+
+  it('leaves out bills dated outside the month', () => {
+    const march = {...b2bInvoice, date: '2025-03-31T10:00:00'};
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [march], []);
+
+    expect(result.data.b2b).toEqual([]);
+    expect(result.data.hsn.data).toEqual([]);
+  });
+
+  it('lists a bill with an invalid buyer GSTIN as an error and leaves it out', () => {
+    const bill = {...b2bInvoice, buyerGstin: '29AAQEA1234M1Z8'};
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [bill, billOfSupply], []);
+
+    expect(result.errors).toEqual([
+      {
+        transactionId: 'inv-1',
+        invoiceNumber: 'INV-1',
+        buyerName: 'Sharma Traders',
+        message: 'Buyer GSTIN 29AAQEA1234M1Z8: GSTIN check digit does not match. Please check for typing mistakes',
+      },
+    ]);
+    expect(result.data.b2b).toEqual([]);
+    expect(result.data.hsn.data.map(entry => entry.txval)).toEqual([5000]);
+  });
+
+  it('lists a bill to a merchant without a GSTIN as an error', () => {
+    const bill = {...b2bInvoice, buyerGstin: undefined, buyerPhone: '9876543210'};
+    const result = buildGstr1Export(FIRM_GSTIN, 2025, 4, [bill], [merchant('9876543210', '')]);
+
+    expect(result.errors.map(error => error.message)).toEqual(['Buyer GSTIN is missing']);
+    expect(result.data.b2b).toEqual([]);
+  });
+
+  it('flags a missing or invalid firm GSTIN', () => {
+    expect(buildGstr1Export(undefined, 2025, 4, [], []).errors).toEqual([
+      {message: 'Firm GSTIN is not set in your profile'},
+    ]);
+    expect(buildGstr1Export('27AAPFU0939F1Z', 2025, 4, [], []).errors).toEqual([
+      {message: 'Firm GSTIN 27AAPFU0939F1Z: GSTIN must be 15 characters'},
+    ]);
+  });
+});
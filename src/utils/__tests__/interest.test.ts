@@ -0,0 +1,154 @@
+import {LendTransaction} from '../../models/Transaction';
+import {InterestTerms, calculateLoanPosition, getInterestTerms, parseLegacyInterestRate, splitRepayment} from '../interest';
+
+const LOAN_DATE = new Date('2025-01-01T00:00:00.000Z');
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Date the given number of days after the loan
+const day = (n: number): Date => new Date(LOAN_DATE.getTime() + n * DAY_MS);
+
+const terms = (overrides: Partial<InterestTerms> = {}): InterestTerms => ({
+  interestRate: 2,
+  interestPeriod: 'MONTHLY',
+  interestType: 'SIMPLE',
+  graceDays: 0,
+  penalRate: 0,
+  ...overrides,
+});
+
+describe('calculateLoanPosition', () => {
+  it('accrues simple monthly interest on 30-day months', () => {
+    const position = calculateLoanPosition(10000, terms(), LOAN_DATE, [], day(60));
+    expect(position.interestDue).toBe(400);
+    expect(position.principal).toBe(10000);
+    expect(position.totalDue).toBe(10400);
+  });
+
+  it('accrues a yearly rate over 365-day years', () => {
+    const position = calculateLoanPosition(10000, terms({interestRate: 12, interestPeriod: 'YEARLY'}), LOAN_DATE, [], day(365));
+    expect(position.interestDue).toBe(1200);
+  });
+
+  it('compounds monthly interest on each compounding date', () => {
+    const position = calculateLoanPosition(10000, terms({interestType: 'COMPOUND'}), LOAN_DATE, [], day(60));
+    // 200 for the first month, then 2% of 10200
+    expect(position.interestDue).toBe(404);
+  });
+
+  it('compounds every N months', () => {
+    const position = calculateLoanPosition(
+      10000,
+      terms({interestType: 'COMPOUND', compoundingMonths: 6}),
+      LOAN_DATE,
+      [],
+      day(360),
+    );
+    // 1200 for the first 6 months, then 12% of 11200
+    expect(position.interestDue).toBe(2544);
+    expect(position.segments.map(s => s.base)).toEqual([10000, 11200]);
+  });
+
+  it('charges nothing during the grace days', () => {
+    expect(calculateLoanPosition(10000, terms({graceDays: 30}), LOAN_DATE, [], day(20)).interestDue).toBe(0);
+    expect(calculateLoanPosition(10000, terms({graceDays: 30}), LOAN_DATE, [], day(60)).interestDue).toBe(200);
+  });
+
+  it('switches to the penal rate after the expected return date', () => {
+    const position = calculateLoanPosition(
+      10000,
+      terms({penalRate: 3, expectedReturnDate: day(30).toISOString()}),
+      LOAN_DATE,
+      [],
+      day(60),
+    );
+    expect(position.interestDue).toBe(500);
+    expect(position.segments.map(s => [s.rate, s.penal, s.interest])).toEqual([
+      [2, false, 200],
+      [3, true, 300],
+    ]);
+  });
+
+  it('keeps the normal rate after the expected return date when no penal rate is set', () => {
+    const position = calculateLoanPosition(10000, terms({expectedReturnDate: day(30).toISOString()}), LOAN_DATE, [], day(60));
+    expect(position.interestDue).toBe(400);
+  });
+
+  it('carries forward interest a partial repayment did not cover', () => {
+    const position = calculateLoanPosition(
+      10000,
+      terms(),
+      LOAN_DATE,
+      [{paymentDate: day(30).toISOString(), amount: 100, interestAmount: 100, principalAmount: 0}],
+      day(60),
+    );
+    expect(position.interestBroughtForward).toBe(100);
+    expect(position.interestSinceLastPayment).toBe(200);
+    expect(position.interestDue).toBe(300);
+    expect(position.principal).toBe(10000);
+    expect(position.lastPaymentDate).toBe(day(30).toISOString());
+  });
+
+  it('accrues on the reduced principal after a repayment', () => {
+    const position = calculateLoanPosition(
+      10000,
+      terms(),
+      LOAN_DATE,
+      [{paymentDate: day(30).toISOString(), amount: 5200, interestAmount: 200, principalAmount: 5000}],
+      day(60),
+    );
+    expect(position.interestBroughtForward).toBe(0);
+    expect(position.interestDue).toBe(100);
+    expect(position.principal).toBe(5000);
+  });
+
+  it('settles the loan after a full repayment', () => {
+    const position = calculateLoanPosition(
+      10000,
+      terms(),
+      LOAN_DATE,
+      [{paymentDate: day(60).toISOString(), amount: 10400, interestAmount: 400, principalAmount: 10000}],
+      day(90),
+    );
+    expect(position.principal).toBe(0);
+    expect(position.interestDue).toBe(0);
+    expect(position.totalDue).toBe(0);
+  });
+});
+
+describe('splitRepayment', () => {
+  const position = calculateLoanPosition(10000, terms(), LOAN_DATE, [], day(60));
+
+  it('settles interest before principal on a partial repayment', () => {
+    expect(splitRepayment(1000, position)).toEqual({interest: 400, principal: 600});
+  });
+
+  it('puts a repayment smaller than the interest due all towards interest', () => {
+    expect(splitRepayment(300, position)).toEqual({interest: 300, principal: 0});
+  });
+
+  it('clears interest and principal on a full repayment', () => {
+    expect(splitRepayment(10400, position)).toEqual({interest: 400, principal: 10000});
+  });
+});
+
+describe('legacy interest rates', () => {
+  it('reads the rate older builds wrote in the description', () => {
+    expect(parseLegacyInterestRate('Loan Amount: ₹50000.00 | Interest Rate: 2%')).toBe(2);
+    expect(parseLegacyInterestRate('Loan (Self - Lender: Manoj) Amount: ₹50000.00 | Interest Rate: 1.5%')).toBe(1.5);
+    expect(parseLegacyInterestRate('Loan Amount: ₹50000.00')).toBeNull();
+    expect(parseLegacyInterestRate(undefined)).toBeNull();
+  });
+
+  it('defaults the terms of a loan saved before they existed to simple monthly interest', () => {
+    const lend = {interestRate: 2} as LendTransaction;
+    expect(getInterestTerms(lend)).toEqual({
+      interestRate: 2,
+      interestPeriod: 'MONTHLY',
+      interestType: 'SIMPLE',
+      graceDays: 0,
+      penalRate: 0,
+      compoundingMonths: 0,
+      expectedReturnDate: undefined,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {BuyTransaction, SellTransaction} from '../../models/Transaction';
+import {StockTransfer} from '../../models/StorageLocation';
+import {LotPick} from '../../models/StockLot';
+import {StockAdjustment} from '../../models/StockAdjustment';
+import {allocateLots, makeLotId} from '../stockLots';
+
+const GODOWN = 'location-main';
+const YARD = 'location-yard';
+
+const line = (grainType: string, quantity: number, ratePerQuintal: number, lotPicks?: LotPick[]) => ({
+  lineNumber: 1,
+  grainType,
+  quantity,
+  ratePerQuintal,
+  lotPicks,
+});
+
+const buy = (id: string, date: string, locationId: string | undefined, quantity: number, rate = 2000) =>
+  ({
+    id,
+    date,
+    createdAt: `${date}T08:00:00.000Z`,
+    supplierName: `Farmer ${id}`,
+    locationId,
+    items: [line('Wheat', quantity, rate)],
+  }) as unknown as BuyTransaction;
+
+const sell = (id: string, date: string, locationId: string | undefined, quantity: number, lotPicks?: LotPick[]) =>
+  ({
+    id,
+    date,
+    createdAt: `${date}T12:00:00.000Z`,
+    locationId,
+    items: [line('Wheat', quantity, 2400, lotPicks)],
+  }) as unknown as SellTransaction;
+
+const transfer = (id: string, date: string, fromLocationId: string, toLocationId: string, quantity: number) =>
+  ({id, date, createdAt: `${date}T10:00:00.000Z`, fromLocationId, toLocationId, grainType: 'Wheat', quantity}) as StockTransfer;
+
+const loss = (id: string, date: string, locationId: string, quantity: number): StockAdjustment => ({
+  id,
+  date,
+  grainType: 'Wheat',
+  locationId,
+  quantity: -quantity,
+  ratePerQuintal: 2000,
+  valuation: -quantity * 2000,
+  reason: 'SHRINKAGE',
+  createdAt: `${date}T09:00:00.000Z`,
+  updatedAt: `${date}T09:00:00.000Z`,
+});
+
+const remaining = (result: ReturnType<typeof allocateLots>) =>
+  Object.fromEntries(result.lots.map(lot => [lot.buyTransactionId, lot.locations]));
+
+describe('allocateLots', () => {
+  it('allocates sells oldest lot first', () => {
+    const result = allocateLots(
+      [buy('b2', '2025-01-05', GODOWN, 10), buy('b1', '2025-01-01', GODOWN, 10)],
+      [sell('s1', '2025-01-10', GODOWN, 15)],
+    );
+    expect(result.allocations.map(a => [a.lotId, a.quantity])).toEqual([
+      [makeLotId('b1', 1), 10],
+      [makeLotId('b2', 1), 5],
+    ]);
+    expect(result.lots.map(lot => lot.remainingQuantity)).toEqual([0, 5]);
+    expect(result.shortfalls).toEqual([]);
+  });
+
+  it('only takes stock held at the sell location', () => {
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', YARD, 10)],
+      [sell('s1', '2025-01-10', YARD, 12)],
+    );
+    expect(result.allocations.map(a => [a.lotId, a.quantity])).toEqual([[makeLotId('b2', 1), 10]]);
+    expect(result.shortfalls).toEqual([{sellTransactionId: 's1', sellLineNumber: 1, grainType: 'Wheat', quantity: 2}]);
+    expect(remaining(result)).toEqual({b1: [{locationId: GODOWN, quantity: 10}], b2: []});
+  });
+
+  it('moves the oldest lots at the source location on a transfer', () => {
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', GODOWN, 10)],
+      [sell('s1', '2025-01-10', YARD, 8)],
+      [],
+      [transfer('t1', '2025-01-05', GODOWN, YARD, 12)],
+    );
+    expect(remaining(result)).toEqual({
+      b1: [{locationId: YARD, quantity: 2}],
+      b2: [
+        {locationId: GODOWN, quantity: 8},
+        {locationId: YARD, quantity: 2},
+      ],
+    });
+    expect(result.allocations.map(a => [a.lotId, a.quantity])).toEqual([[makeLotId('b1', 1), 8]]);
+  });
+
+  it('applies transfers and sells in date order', () => {
+    // Sold at the yard before the grain was moved there
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10)],
+      [sell('s1', '2025-01-03', YARD, 4)],
+      [],
+      [transfer('t1', '2025-01-05', GODOWN, YARD, 10)],
+    );
+    expect(result.shortfalls.map(s => s.quantity)).toEqual([4]);
+    expect(remaining(result)).toEqual({b1: [{locationId: YARD, quantity: 10}]});
+  });
+
+  it('keeps hand-picked lots for their sale and takes them at its location', () => {
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', GODOWN, 10)],
+      [
+        sell('s1', '2025-01-05', GODOWN, 10),
+        sell('s2', '2025-01-06', GODOWN, 6, [{lotId: makeLotId('b1', 1), quantity: 6}]),
+      ],
+    );
+    expect(result.allocations.map(a => [a.sellTransactionId, a.lotId, a.quantity, a.manual])).toEqual([
+      ['s1', makeLotId('b1', 1), 4, false],
+      ['s1', makeLotId('b2', 1), 6, false],
+      ['s2', makeLotId('b1', 1), 6, true],
+    ]);
+  });
+
+  it('takes losses from the lots holding the grain on the adjustment date', () => {
+    // The first lot dried out before the sale, so the sale takes the rest of it and then the second lot
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', GODOWN, 10)],
+      [sell('s1', '2025-01-10', GODOWN, 8)],
+      [loss('a1', '2025-01-05', GODOWN, 4)],
+    );
+    expect(result.allocations.map(a => [a.lotId, a.quantity])).toEqual([
+      [makeLotId('b1', 1), 6],
+      [makeLotId('b2', 1), 2],
+    ]);
+    expect(remaining(result)).toEqual({b1: [], b2: [{locationId: GODOWN, quantity: 8}]});
+
+    // Lost after the sale, it comes off what the sale left
+    const later = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', GODOWN, 10)],
+      [sell('s1', '2025-01-10', GODOWN, 8)],
+      [loss('a1', '2025-01-15', GODOWN, 4)],
+    );
+    expect(later.allocations.map(a => [a.lotId, a.quantity])).toEqual([[makeLotId('b1', 1), 8]]);
+    expect(remaining(later)).toEqual({b1: [], b2: [{locationId: GODOWN, quantity: 8}]});
+  });
+
+  it('takes losses from the oldest lots at the adjustment location', () => {
+    const result = allocateLots(
+      [buy('b1', '2025-01-01', GODOWN, 10), buy('b2', '2025-01-02', YARD, 10)],
+      [],
+      [loss('a1', '2025-01-03', YARD, 3)],
+    );
+    expect(remaining(result)).toEqual({
+      b1: [{locationId: GODOWN, quantity: 10}],
+      b2: [{locationId: YARD, quantity: 7}],
+    });
+  });
+
+  it('keeps bills without a location apart', () => {
+    const result = allocateLots([buy('b1', '2025-01-01', undefined, 10)], [sell('s1', '2025-01-02', GODOWN, 4)]);
+    expect(result.shortfalls.map(s => s.quantity)).toEqual([4]);
+    expect(result.lots[0].locations).toEqual([{locationId: null, quantity: 10}]);
+  });
+});
@@ -0,0 +1,119 @@
+import {BackupArchive, BackupPayload} from '../models/Backup';
+import {base64ToBytes, bytesToBase64, bytesToUtf8, utf8ToBytes} from './base64';
+import {aes256Ctr, constantTimeEqual, hmacSha256, pbkdf2Sha256, randomBytes} from './crypto';
+
+export const BACKUP_FORMAT = 'mandi-ledger-backup';
+export const BACKUP_ARCHIVE_VERSION = 1;
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 20000;
+// Iteration counts a backup file may ask for. The count comes from the file, so a
+// huge one would hang the app before the MAC check can reject it.
+const MIN_PBKDF2_ITERATIONS = 10000;
+const MAX_PBKDF2_ITERATIONS = 200000;
+
+// Encryption key and MAC key from one PBKDF2 run
+const deriveKeys = (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const keys = pbkdf2Sha256(utf8ToBytes(passphrase), salt, iterations, 64);
+  return {encKey: keys.subarray(0, 32), macKey: keys.subarray(32)};
+};
+
+const macInput = (archive: Omit<BackupArchive, 'mac' | 'data'>, ciphertext: Uint8Array): Uint8Array => {
+  const header = utf8ToBytes(
+    JSON.stringify({
+      format: archive.format,
+      version: archive.version,
+      createdAt: archive.createdAt,
+      kdf: archive.kdf,
+      cipher: archive.cipher,
+    }),
+  );
+  const input = new Uint8Array(header.length + ciphertext.length);
+  input.set(header);
+  input.set(ciphertext, header.length);
+  return input;
+};
+
+/**
+ * Encrypt a payload into the backup file text (AES-256-CTR, then HMAC-SHA256 over header and ciphertext)
+ */
+export const sealBackup = (payload: BackupPayload, passphrase: string): string => {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+  const salt = randomBytes(16);
+  const iv = randomBytes(16);
+  const {encKey, macKey} = deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = aes256Ctr(encKey, iv, utf8ToBytes(JSON.stringify(payload)));
+
+  const header: Omit<BackupArchive, 'mac' | 'data'> = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    createdAt: payload.createdAt,
+    kdf: {name: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt)},
+    cipher: {name: 'AES-256-CTR', iv: bytesToBase64(iv)},
+  };
+  const archive: BackupArchive = {
+    ...header,
+    mac: bytesToBase64(hmacSha256(macKey, macInput(header, ciphertext))),
+    data: bytesToBase64(ciphertext),
+  };
+  return JSON.stringify(archive);
+};
+
+/**
+ * Parse the unencrypted envelope and check it is a backup this version of the app can read
+ */
+export const readBackupArchive = (content: string): BackupArchive => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(content.trim());
+  } catch (e) {
+    throw new Error('This is not a backup file');
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT) {
+    throw new Error('This is not a backup file');
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_ARCHIVE_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app to restore it.');
+  }
+  if (
+    archive.kdf?.name !== 'PBKDF2-SHA256' ||
+    !Number.isInteger(archive.kdf.iterations) ||
+    archive.kdf.iterations < MIN_PBKDF2_ITERATIONS ||
+    archive.kdf.iterations > MAX_PBKDF2_ITERATIONS ||
+    archive.cipher?.name !== 'AES-256-CTR' ||
+    !archive.kdf.salt ||
+    !archive.cipher.iv ||
+    !archive.mac ||
+    !archive.data
+  ) {
+    throw new Error('Backup file is damaged or incomplete');
+  }
+  return archive;
+};
+
+/**
+ * Verify and decrypt a backup file. A wrong passphrase and a modified file both fail the MAC check.
+ */
+export const openBackup = (content: string, passphrase: string): BackupPayload => {
+  // Checks the key derivation settings before any key is derived from them
+  const archive = readBackupArchive(content);
+  const {encKey, macKey} = deriveKeys(passphrase, base64ToBytes(archive.kdf.salt), archive.kdf.iterations);
+  const ciphertext = base64ToBytes(archive.data);
+
+  if (!constantTimeEqual(hmacSha256(macKey, macInput(archive, ciphertext)), base64ToBytes(archive.mac))) {
+    throw new Error('Wrong passphrase, or the backup file has been changed');
+  }
+
+  let payload: BackupPayload;
+  try {
+    payload = JSON.parse(bytesToUtf8(aes256Ctr(encKey, base64ToBytes(archive.cipher.iv), ciphertext)));
+  } catch (e) {
+    throw new Error('Backup file is damaged or incomplete');
+  }
+  if (!payload || typeof payload.schemaVersion !== 'number' || !payload.tables) {
+    throw new Error('Backup file is damaged or incomplete');
+  }
+  return payload;
+};
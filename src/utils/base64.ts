@@ -0,0 +1,83 @@
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * UTF-8 bytes of a string (Hermes on RN 0.73 has no TextEncoder)
+ */
+export const utf8ToBytes = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    result += BASE64_ALPHABET[b0 >> 2];
+    result += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 0x3f] : '=';
+  }
+  return result;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let length = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const c0 = BASE64_ALPHABET.indexOf(clean[i]);
+    const c1 = BASE64_ALPHABET.indexOf(clean[i + 1]);
+    const c2 = i + 2 < clean.length ? BASE64_ALPHABET.indexOf(clean[i + 2]) : -1;
+    const c3 = i + 3 < clean.length ? BASE64_ALPHABET.indexOf(clean[i + 3]) : -1;
+    bytes[length++] = (c0 << 2) | (c1 >> 4);
+    if (c2 >= 0) bytes[length++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    if (c3 >= 0) bytes[length++] = ((c2 & 0x03) << 6) | c3;
+  }
+  return bytes.subarray(0, length);
+};
+
+/**
+ * Decode UTF-8 bytes back to a string (counterpart of utf8ToBytes)
+ */
+export const bytesToUtf8 = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  let codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const b0 = bytes[i++];
+    if (b0 < 0x80) {
+      codes.push(b0);
+    } else if (b0 < 0xe0) {
+      codes.push(((b0 & 0x1f) << 6) | (bytes[i++] & 0x3f));
+    } else if (b0 < 0xf0) {
+      codes.push(((b0 & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f));
+    } else {
+      codes.push(((b0 & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f));
+    }
+    // Convert in chunks to stay under the engine's argument limit
+    if (codes.length >= 4096) {
+      chunks.push(String.fromCodePoint(...codes));
+      codes = [];
+    }
+  }
+  chunks.push(String.fromCodePoint(...codes));
+  return chunks.join('');
+};
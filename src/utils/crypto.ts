@@ -0,0 +1,261 @@
+/**
+ * Pure TypeScript crypto primitives for encrypted backups (Hermes on RN 0.73 has no WebCrypto):
+ * SHA-256, HMAC-SHA256, PBKDF2-HMAC-SHA256 and AES-256 in CTR mode.
+ */
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_INIT = Uint32Array.from([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+
+const sha256Block = (state: Uint32Array, w: Uint32Array, block: Uint8Array, offset: number) => {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+    const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+  for (let i = 0; i < 64; i++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+  state[0] += a;
+  state[1] += b;
+  state[2] += c;
+  state[3] += d;
+  state[4] += e;
+  state[5] += f;
+  state[6] += g;
+  state[7] += h;
+};
+
+export const sha256 = (data: Uint8Array): Uint8Array => {
+  const bitLength = data.length * 8;
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const state = Uint32Array.from(SHA256_INIT);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    sha256Block(state, w, padded, offset);
+  }
+
+  const digest = new Uint8Array(32);
+  const out = new DataView(digest.buffer);
+  state.forEach((word, i) => out.setUint32(i * 4, word));
+  return digest;
+};
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const hmacSha256 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const inner = block.map(byte => byte ^ 0x36);
+  const outer = block.map(byte => byte ^ 0x5c);
+  return sha256(concatBytes(outer, sha256(concatBytes(inner, data))));
+};
+
+/**
+ * PBKDF2 with HMAC-SHA256 (RFC 8018)
+ */
+export const pbkdf2Sha256 = (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number,
+): Uint8Array => {
+  const result = new Uint8Array(length);
+  for (let blockIndex = 1, offset = 0; offset < length; blockIndex++, offset += 32) {
+    const counter = new Uint8Array([blockIndex >>> 24, (blockIndex >>> 16) & 0xff, (blockIndex >>> 8) & 0xff, blockIndex & 0xff]);
+    let u = hmacSha256(password, concatBytes(salt, counter));
+    const t = Uint8Array.from(u);
+    for (let i = 1; i < iterations; i++) {
+      u = hmacSha256(password, u);
+      for (let j = 0; j < 32; j++) {
+        t[j] ^= u[j];
+      }
+    }
+    result.set(t.subarray(0, Math.min(32, length - offset)), offset);
+  }
+  return result;
+};
+
+// AES S-box and round tables, generated once
+const SBOX = new Uint8Array(256);
+const TE0 = new Uint32Array(256);
+const TE1 = new Uint32Array(256);
+const TE2 = new Uint32Array(256);
+const TE3 = new Uint32Array(256);
+(() => {
+  const exp = new Uint8Array(256);
+  const log = new Uint8Array(256);
+  for (let i = 0, x = 1; i < 255; i++) {
+    exp[i] = x;
+    log[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+    x &= 0xff;
+  }
+  for (let i = 0; i < 256; i++) {
+    let s = i === 0 ? 0 : exp[(255 - log[i]) % 255];
+    s ^= ((s << 1) | (s >>> 7)) ^ ((s << 2) | (s >>> 6)) ^ ((s << 3) | (s >>> 5)) ^ ((s << 4) | (s >>> 4)) ^ 0x63;
+    SBOX[i] = s & 0xff;
+  }
+  for (let i = 0; i < 256; i++) {
+    const s = SBOX[i];
+    const s2 = ((s << 1) ^ (s & 0x80 ? 0x11b : 0)) & 0xff;
+    const s3 = s2 ^ s;
+    TE0[i] = ((s2 << 24) | (s << 16) | (s << 8) | s3) >>> 0;
+    TE1[i] = ((s3 << 24) | (s2 << 16) | (s << 8) | s) >>> 0;
+    TE2[i] = ((s << 24) | (s3 << 16) | (s2 << 8) | s) >>> 0;
+    TE3[i] = ((s << 24) | (s << 16) | (s3 << 8) | s2) >>> 0;
+  }
+})();
+
+const AES256_ROUNDS = 14;
+
+const expandAes256Key = (key: Uint8Array): Uint32Array => {
+  if (key.length !== 32) {
+    throw new Error('AES-256 needs a 32-byte key');
+  }
+  const words = new Uint32Array(4 * (AES256_ROUNDS + 1));
+  for (let i = 0; i < 8; i++) {
+    words[i] = ((key[i * 4] << 24) | (key[i * 4 + 1] << 16) | (key[i * 4 + 2] << 8) | key[i * 4 + 3]) >>> 0;
+  }
+  let rcon = 1;
+  for (let i = 8; i < words.length; i++) {
+    let t = words[i - 1];
+    if (i % 8 === 0) {
+      t = ((SBOX[(t >>> 16) & 0xff] << 24) | (SBOX[(t >>> 8) & 0xff] << 16) | (SBOX[t & 0xff] << 8) | SBOX[t >>> 24]) ^ (rcon << 24);
+      rcon = ((rcon << 1) ^ (rcon & 0x80 ? 0x11b : 0)) & 0xff;
+    } else if (i % 8 === 4) {
+      t = (SBOX[t >>> 24] << 24) | (SBOX[(t >>> 16) & 0xff] << 16) | (SBOX[(t >>> 8) & 0xff] << 8) | SBOX[t & 0xff];
+    }
+    words[i] = (words[i - 8] ^ t) >>> 0;
+  }
+  return words;
+};
+
+const aesEncryptBlock = (rk: Uint32Array, input: Uint32Array, output: Uint8Array) => {
+  let s0 = input[0] ^ rk[0];
+  let s1 = input[1] ^ rk[1];
+  let s2 = input[2] ^ rk[2];
+  let s3 = input[3] ^ rk[3];
+  let k = 4;
+  for (let round = 1; round < AES256_ROUNDS; round++, k += 4) {
+    const t0 = TE0[s0 >>> 24] ^ TE1[(s1 >>> 16) & 0xff] ^ TE2[(s2 >>> 8) & 0xff] ^ TE3[s3 & 0xff] ^ rk[k];
+    const t1 = TE0[s1 >>> 24] ^ TE1[(s2 >>> 16) & 0xff] ^ TE2[(s3 >>> 8) & 0xff] ^ TE3[s0 & 0xff] ^ rk[k + 1];
+    const t2 = TE0[s2 >>> 24] ^ TE1[(s3 >>> 16) & 0xff] ^ TE2[(s0 >>> 8) & 0xff] ^ TE3[s1 & 0xff] ^ rk[k + 2];
+    const t3 = TE0[s3 >>> 24] ^ TE1[(s0 >>> 16) & 0xff] ^ TE2[(s1 >>> 8) & 0xff] ^ TE3[s2 & 0xff] ^ rk[k + 3];
+    s0 = t0;
+    s1 = t1;
+    s2 = t2;
+    s3 = t3;
+  }
+  const state = [s0, s1, s2, s3];
+  for (let i = 0; i < 4; i++) {
+    const word =
+      ((SBOX[state[i] >>> 24] << 24) |
+        (SBOX[(state[(i + 1) % 4] >>> 16) & 0xff] << 16) |
+        (SBOX[(state[(i + 2) % 4] >>> 8) & 0xff] << 8) |
+        SBOX[state[(i + 3) % 4] & 0xff]) ^
+      rk[k + i];
+    output[i * 4] = word >>> 24;
+    output[i * 4 + 1] = (word >>> 16) & 0xff;
+    output[i * 4 + 2] = (word >>> 8) & 0xff;
+    output[i * 4 + 3] = word & 0xff;
+  }
+};
+
+/**
+ * AES-256-CTR with a 16-byte initial counter block. Encryption and decryption are the same operation.
+ */
+export const aes256Ctr = (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array => {
+  if (iv.length !== 16) {
+    throw new Error('AES-CTR needs a 16-byte IV');
+  }
+  const rk = expandAes256Key(key);
+  const counter = Uint8Array.from(iv);
+  const counterWords = new Uint32Array(4);
+  const keystream = new Uint8Array(16);
+  const result = new Uint8Array(data.length);
+
+  for (let offset = 0; offset < data.length; offset += 16) {
+    for (let i = 0; i < 4; i++) {
+      counterWords[i] = ((counter[i * 4] << 24) | (counter[i * 4 + 1] << 16) | (counter[i * 4 + 2] << 8) | counter[i * 4 + 3]) >>> 0;
+    }
+    aesEncryptBlock(rk, counterWords, keystream);
+    const end = Math.min(16, data.length - offset);
+    for (let i = 0; i < end; i++) {
+      result[offset + i] = data[offset + i] ^ keystream[i];
+    }
+    // Increment the 128-bit big-endian counter
+    for (let i = 15; i >= 0; i--) {
+      counter[i] = (counter[i] + 1) & 0xff;
+      if (counter[i] !== 0) break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Compare two MACs without leaking the position of the first difference
+ */
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+/**
+ * Salt and IV bytes. Math.random is not a secure source, which is acceptable here because
+ * the values only need to be unique per backup: the key itself comes from the passphrase.
+ */
+export const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+};
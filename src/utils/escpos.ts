@@ -0,0 +1,305 @@
+import {PaperWidth, ReceiptDocument, ReceiptItemRow} from '../models/Receipt';
+import {formatDate} from './helpers';
+
+/**
+ * Characters per line in the printer's default font (Font A, 12×24 dots)
+ */
+export const ESC_POS_COLUMNS: Record<PaperWidth, number> = {
+  '58mm': 32,
+  '80mm': 48,
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<EscPosAlign, number> = {left: 0, center: 1, right: 2};
+
+// Printers ship with single-byte code pages that have no rupee sign or Devanagari;
+// fold the symbols we use into ASCII and print anything else as '?'
+const ASCII_REPLACEMENTS: [RegExp, string][] = [
+  [/₹/g, 'Rs.'],
+  [/×/g, 'x'],
+  [/[–—]/g, '-'],
+  [/[‘’]/g, "'"],
+  [/[“”]/g, '"'],
+];
+
+export const toPrintableAscii = (text: string): string => {
+  let result = text;
+  for (const [pattern, replacement] of ASCII_REPLACEMENTS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result.replace(/[^\x20-\x7e\n]/g, '?');
+};
+
+/**
+ * Collects ESC/POS commands and text into a byte stream
+ */
+export class EscPosBuilder {
+  private bytes: number[] = [];
+
+  constructor(readonly columns: number) {
+    this.command(ESC, 0x40); // ESC @: reset to defaults
+  }
+
+  command(...codes: number[]): this {
+    this.bytes.push(...codes);
+    return this;
+  }
+
+  text(value: string): this {
+    const printable = toPrintableAscii(value);
+    for (let i = 0; i < printable.length; i++) {
+      this.bytes.push(printable.charCodeAt(i));
+    }
+    return this;
+  }
+
+  line(value: string = ''): this {
+    return this.text(value).command(LF);
+  }
+
+  align(align: EscPosAlign): this {
+    return this.command(ESC, 0x61, ALIGN_CODES[align]);
+  }
+
+  bold(on: boolean): this {
+    return this.command(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /**
+   * Character size multipliers (1–8); double width halves the characters per line
+   */
+  size(width: number, height: number): this {
+    return this.command(GS, 0x21, ((width - 1) << 4) | (height - 1));
+  }
+
+  feed(lines: number): this {
+    return this.command(ESC, 0x64, lines);
+  }
+
+  /**
+   * Feed past the cutter and partial cut; printers without a cutter ignore it
+   */
+  cut(): this {
+    return this.command(GS, 0x56, 0x42, 0x00);
+  }
+
+  separator(char: string = '-'): this {
+    return this.line(char.repeat(this.columns));
+  }
+
+  /**
+   * `left` and `right` on one line, wrapping `left` when both do not fit
+   */
+  leftRight(left: string, right: string): this {
+    const indent = left.length - left.trimStart().length;
+    const room = this.columns - right.length - 1 - indent;
+    const leftLines = wrapText(left, Math.max(room, 1)).map(part => `${' '.repeat(indent)}${part}`);
+    leftLines.slice(0, -1).forEach(part => this.line(part));
+    const last = leftLines[leftLines.length - 1];
+    return this.line(`${last}${' '.repeat(Math.max(this.columns - last.length - right.length, 1))}${right}`);
+  }
+
+  wrapped(value: string, indent: number = 0): this {
+    wrapText(value, this.columns - indent).forEach(part => this.line(`${' '.repeat(indent)}${part}`));
+    return this;
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Break text into lines of at most `width` characters, on spaces where possible
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const words = toPrintableAscii(text).split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (let word of words) {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!word) continue;
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current || lines.length === 0) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+const formatMoney = (amount: number): string =>
+  amount.toLocaleString('en-IN', {minimumFractionDigits: 2, maximumFractionDigits: 2});
+
+const padStart = (value: string, width: number): string => value.padStart(width).slice(-width);
+
+const padEnd = (value: string, width: number): string => value.padEnd(width).slice(0, width);
+
+const renderItemCharges = (builder: EscPosBuilder, item: ReceiptItemRow) => {
+  const charges: [string, number | undefined][] = [
+    ['Arat', item.arat],
+    ['Tulak', item.tulak],
+    ['Mandi Shulk', item.mandiShulk],
+  ];
+  for (const [label, amount] of charges) {
+    if (amount) {
+      builder.leftRight(`   + ${label}`, formatMoney(amount));
+    }
+  }
+
+  if (item.hsnCode) {
+    builder.line(`   HSN ${item.hsnCode} @ ${item.gstRate || 0}%`);
+    const taxes: [string, number | undefined][] = [
+      ['CGST', item.cgstAmount],
+      ['SGST', item.sgstAmount],
+      ['IGST', item.igstAmount],
+    ];
+    for (const [label, amount] of taxes) {
+      if (amount) {
+        builder.leftRight(`   + ${label}`, formatMoney(amount));
+      }
+    }
+  }
+};
+
+/**
+ * 80mm: one table row per item (Item | Qty | Rate | Amount)
+ */
+const renderItemTable = (builder: EscPosBuilder, items: ReceiptItemRow[]) => {
+  const qtyWidth = 8;
+  const rateWidth = 10;
+  const amountWidth = 12;
+  const descWidth = builder.columns - qtyWidth - rateWidth - amountWidth;
+
+  builder.bold(true);
+  builder.line(
+    `${padEnd('Item', descWidth)}${padStart('Qtl', qtyWidth)}${padStart('Rate', rateWidth)}${padStart('Amount', amountWidth)}`,
+  );
+  builder.bold(false);
+  builder.separator();
+
+  items.forEach((item, idx) => {
+    const description = wrapText(`${idx + 1}. ${item.description}`, descWidth - 1);
+    builder.line(
+      `${padEnd(description[0], descWidth)}` +
+        `${padStart(item.quantity !== undefined ? item.quantity.toFixed(2) : '-', qtyWidth)}` +
+        `${padStart(item.rate !== undefined ? formatMoney(item.rate) : '-', rateWidth)}` +
+        `${padStart(formatMoney(item.amount), amountWidth)}`,
+    );
+    description.slice(1).forEach(part => builder.line(`   ${part}`));
+    if (item.bags) {
+      builder.line(`   ${item.bags}`);
+    }
+    renderItemCharges(builder, item);
+  });
+};
+
+/**
+ * 58mm: each item stacked over two or three lines
+ */
+const renderItemList = (builder: EscPosBuilder, items: ReceiptItemRow[]) => {
+  items.forEach((item, idx) => {
+    builder.bold(true).wrapped(`${idx + 1}. ${item.description}`).bold(false);
+    if (item.bags) {
+      builder.line(`   ${item.bags}`);
+    }
+    const quantity =
+      item.quantity !== undefined && item.rate !== undefined
+        ? `   ${item.quantity.toFixed(2)} Qtl x ${formatMoney(item.rate)}`
+        : '';
+    builder.leftRight(quantity, formatMoney(item.amount));
+    renderItemCharges(builder, item);
+  });
+};
+
+/**
+ * Render a receipt as an ESC/POS byte stream for a 58mm or 80mm roll
+ */
+export const renderReceiptEscPos = (doc: ReceiptDocument, paperWidth: PaperWidth): Uint8Array => {
+  const builder = new EscPosBuilder(ESC_POS_COLUMNS[paperWidth]);
+
+  // Firm header
+  builder.align('center').bold(true).size(1, 2);
+  builder.wrapped(doc.firm.firmName);
+  builder.size(1, 1).bold(false);
+  if (doc.firm.gstin) {
+    builder.line(`GSTIN: ${doc.firm.gstin}`);
+  }
+  if (doc.firm.state) {
+    builder.line(`State: ${doc.firm.state}`);
+  }
+  if (doc.firm.phoneNumber) {
+    builder.line(`Ph: ${doc.firm.phoneNumber}`);
+  }
+  builder.feed(1).bold(true).line(doc.title).bold(false);
+  builder.align('left').separator();
+
+  // Bill and party details
+  builder.leftRight(`No: ${doc.invoiceNumber}`, formatDate(doc.date));
+  builder.wrapped(`${doc.party.label}: ${doc.party.name}`);
+  if (doc.party.phone) {
+    builder.line(`Phone: ${doc.party.phone}`);
+  }
+  if (doc.party.address && doc.party.address !== 'N/A') {
+    builder.wrapped(`Address: ${doc.party.address}`);
+  }
+  doc.details.forEach(detail => builder.wrapped(`${detail.label}: ${detail.value}`));
+  builder.separator();
+
+  // Items
+  if (doc.items.length > 0) {
+    if (builder.columns >= ESC_POS_COLUMNS['80mm']) {
+      renderItemTable(builder, doc.items);
+    } else {
+      renderItemList(builder, doc.items);
+    }
+    builder.separator();
+  }
+
+  // Totals
+  doc.totals.forEach(row => {
+    builder.bold(!!row.total).leftRight(row.label, formatMoney(row.amount)).bold(false);
+  });
+
+  // Payment history
+  if (doc.payments.length > 0) {
+    builder.separator().bold(true).line('PAYMENT HISTORY').bold(false);
+    doc.payments.forEach(payment => {
+      builder.leftRight(`${formatDate(payment.date)} ${payment.mode}`, formatMoney(payment.amount));
+      if (payment.notes) {
+        builder.wrapped(payment.notes, 2);
+      }
+    });
+  }
+
+  // Balance
+  builder.separator('=');
+  builder.bold(true).size(1, 2).leftRight(doc.balanceLabel, `Rs.${formatMoney(doc.balanceAmount)}`);
+  builder.size(1, 1).bold(false);
+  builder.separator('=');
+  builder.line(`Status: ${doc.status}`);
+
+  builder.feed(2).align('center').line(`For ${doc.firm.firmName}`);
+  builder.feed(4).cut();
+
+  return builder.build();
+};
@@ -0,0 +1,90 @@
+import {Grain} from '../models/Grain';
+import {BuyTransaction, SellTransaction} from '../models/Transaction';
+import {grainKey} from './stockLots';
+
+/**
+ * Master name of every grain name and alias, keyed by grainKey. A grain's own
+ * name wins over another grain's alias of the same spelling.
+ */
+export const buildGrainLookup = (grains: Array<Pick<Grain, 'name' | 'aliases'>>): Record<string, string> => {
+  const lookup: Record<string, string> = {};
+  for (const grain of grains) {
+    for (const alias of grain.aliases) {
+      const key = grainKey(alias);
+      if (key && !lookup[key]) lookup[key] = grain.name;
+    }
+  }
+  for (const grain of grains) {
+    lookup[grainKey(grain.name)] = grain.name;
+  }
+  return lookup;
+};
+
+/**
+ * Master name of a grain as entered, or the name trimmed when it is not in the master
+ */
+export const resolveGrainName = (lookup: Record<string, string>, grainType: string): string =>
+  lookup[grainKey(grainType)] || (grainType || '').trim();
+
+/**
+ * Master names of a bill's grain, which lists every grain of a multi-grain bill
+ * separated by commas
+ */
+export const resolveGrainList = (lookup: Record<string, string>, grainType: string): string =>
+  (grainType || '')
+    .split(',')
+    .map(name => resolveGrainName(lookup, name))
+    .join(', ');
+
+/**
+ * Id of the master entry created for a grain name. Devices that create the entry
+ * for the same name on their own end up with one record once synced.
+ */
+export const grainIdFor = (name: string): string => `grain-${grainKey(name).replace(/[\s/]+/g, '-')}`;
+
+/**
+ * Re-key totals (keyed by grainKey) by master grain, adding up the aliases of one grain
+ */
+export const regroupByGrain = (
+  totals: Record<string, number>,
+  lookup: Record<string, string>,
+): Record<string, number> => {
+  const regrouped: Record<string, number> = {};
+  Object.entries(totals).forEach(([grain, quantity]) => {
+    const key = grainKey(resolveGrainName(lookup, grain));
+    regrouped[key] = (regrouped[key] || 0) + quantity;
+  });
+  return regrouped;
+};
+
+/**
+ * Copies of the bills with every line named by its master grain, for lot and cost matching
+ */
+export const withMasterGrainNames = <T extends BuyTransaction | SellTransaction>(
+  transactions: T[],
+  lookup: Record<string, string>,
+): T[] =>
+  transactions.map(t => ({
+    ...t,
+    grainType: resolveGrainName(lookup, t.grainType),
+    items: t.items?.map(item => ({...item, grainType: resolveGrainName(lookup, item.grainType)})),
+  }));
+
+/**
+ * Master grain of a grain name or alias, if it is in the master
+ */
+export const findGrain = (grains: Grain[], grainType: string): Grain | undefined => {
+  const name = buildGrainLookup(grains)[grainKey(grainType)];
+  return name ? grains.find(grain => grain.name === name) : undefined;
+};
+
+/**
+ * Grains whose name or an alias matches the text typed, for suggestions
+ */
+export const matchGrains = (grains: Grain[], text: string): Grain[] => {
+  const typed = grainKey(text);
+  if (!typed) return grains;
+  return grains.filter(
+    grain => grainKey(grain.name).includes(typed) || grain.aliases.some(alias => grainKey(alias).includes(typed)),
+  );
+};
@@ -0,0 +1,87 @@
+import {GRAIN_HSN_CODES, GST_STATE_CODES} from '../constants/types';
+
+/**
+ * GST breakup of one tax invoice line
+ */
+export interface ItemTax {
+  taxableValue: number;
+  gstRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface TaxSummary {
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Two-digit state code a GSTIN was issued in, or undefined when it does not start with a known code
+ */
+export const getStateCodeFromGstin = (gstin?: string | null): string | undefined => {
+  const code = (gstin || '').trim().slice(0, 2);
+  return GST_STATE_CODES[code] ? code : undefined;
+};
+
+export const getStateName = (stateCode?: string | null): string =>
+  (stateCode && GST_STATE_CODES[stateCode]) || 'Unknown';
+
+/**
+ * "09 - Uttar Pradesh"
+ */
+export const describeStateCode = (stateCode?: string | null): string =>
+  stateCode ? `${stateCode} - ${getStateName(stateCode)}` : 'Unknown';
+
+/**
+ * A supply is inter-state (IGST) when the supplier's state differs from the place of supply;
+ * intra-state supplies are taxed as CGST + SGST
+ */
+export const isInterStateSupply = (supplierStateCode?: string, placeOfSupply?: string): boolean =>
+  !!supplierStateCode && !!placeOfSupply && supplierStateCode !== placeOfSupply;
+
+/**
+ * Default HSN code for a grain name, or '' when there is none
+ */
+export const suggestHsnCode = (grainType: string): string =>
+  GRAIN_HSN_CODES[grainType.trim().toLowerCase()] || '';
+
+/**
+ * Tax on one line: the full rate as IGST, or split evenly into CGST and SGST
+ */
+export const calculateItemTax = (taxableValue: number, gstRate: number, interState: boolean): ItemTax => {
+  const value = round2(taxableValue);
+  if (interState) {
+    return {taxableValue: value, gstRate, cgstAmount: 0, sgstAmount: 0, igstAmount: round2((value * gstRate) / 100)};
+  }
+  const half = round2((value * gstRate) / 200);
+  return {taxableValue: value, gstRate, cgstAmount: half, sgstAmount: half, igstAmount: 0};
+};
+
+/**
+ * Totals across tax invoice lines
+ */
+export const summarizeTax = (items: Partial<ItemTax>[]): TaxSummary => {
+  const summary = items.reduce<TaxSummary>(
+    (acc, item) => ({
+      taxableValue: acc.taxableValue + (item.taxableValue || 0),
+      cgstAmount: acc.cgstAmount + (item.cgstAmount || 0),
+      sgstAmount: acc.sgstAmount + (item.sgstAmount || 0),
+      igstAmount: acc.igstAmount + (item.igstAmount || 0),
+      totalTax: 0,
+    }),
+    {taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, totalTax: 0},
+  );
+  return {
+    taxableValue: round2(summary.taxableValue),
+    cgstAmount: round2(summary.cgstAmount),
+    sgstAmount: round2(summary.sgstAmount),
+    igstAmount: round2(summary.igstAmount),
+    totalTax: round2(summary.cgstAmount + summary.sgstAmount + summary.igstAmount),
+  };
+};
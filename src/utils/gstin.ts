@@ -0,0 +1,104 @@
+import {GST_STATE_CODES} from '../constants/types';
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * 2-digit state code, 10-character PAN, entity number, 'Z', check character
+ */
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// 5 letters, 4 digits, 1 letter. The 4th letter is the holder type: A association of
+// persons, B body of individuals, C company, E LLP, F firm, G government, H HUF,
+// J artificial juridical person, K krish, L local authority, P individual, T trust
+const PAN_PATTERN = /^[A-Z]{3}[ABCEFGHJKLPT][A-Z][0-9]{4}[A-Z]$/;
+
+/**
+ * Parts of a valid GSTIN
+ */
+export interface GstinDetails {
+  gstin: string;
+  stateCode: string;
+  stateName: string;
+  pan: string;
+  entityNumber: string; // Registration number of the PAN holder within the state (1-9, then A-Z)
+}
+
+export interface GstinValidation {
+  valid: boolean;
+  error?: string;
+  details?: GstinDetails;
+}
+
+export const normalizeGstin = (gstin?: string | null): string => (gstin || '').trim().toUpperCase();
+
+/**
+ * Check character for the first 14 characters of a GSTIN (Luhn mod 36)
+ */
+export const computeGstinCheckChar = (first14: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const value = GSTIN_CHARSET.indexOf(first14.charAt(i));
+    const product = value * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET.charAt((36 - (sum % 36)) % 36);
+};
+
+/**
+ * True when the GSTIN is well formed and its last character matches the checksum
+ */
+export const hasValidGstinChecksum = (gstin?: string | null): boolean => {
+  const value = normalizeGstin(gstin);
+  return GSTIN_PATTERN.test(value) && computeGstinCheckChar(value.slice(0, 14)) === value.charAt(14);
+};
+
+/**
+ * Full GSTIN check: length and format, state code, embedded PAN and checksum.
+ * `error` is a message fit to show under the input field.
+ */
+export const validateGstin = (gstin?: string | null): GstinValidation => {
+  const value = normalizeGstin(gstin);
+
+  if (!value) {
+    return {valid: false, error: 'GSTIN is required'};
+  }
+  if (value.length !== 15) {
+    return {valid: false, error: 'GSTIN must be 15 characters'};
+  }
+  const stateCode = value.slice(0, 2);
+  if (!GST_STATE_CODES[stateCode]) {
+    return {valid: false, error: `${stateCode} is not a valid GST state code`};
+  }
+  const pan = value.slice(2, 12);
+  if (!PAN_PATTERN.test(pan)) {
+    return {valid: false, error: `Characters 3-12 (${pan}) are not a valid PAN`};
+  }
+  if (!GSTIN_PATTERN.test(value)) {
+    return {valid: false, error: 'Invalid GSTIN format (e.g., 27AAPFU0939F1ZV)'};
+  }
+  if (computeGstinCheckChar(value.slice(0, 14)) !== value.charAt(14)) {
+    return {valid: false, error: 'GSTIN check digit does not match. Please check for typing mistakes'};
+  }
+
+  return {
+    valid: true,
+    details: {
+      gstin: value,
+      stateCode,
+      stateName: GST_STATE_CODES[stateCode],
+      pan,
+      entityNumber: value.charAt(12),
+    },
+  };
+};
+
+/**
+ * State, PAN and entity number of a GSTIN, or null when it does not validate
+ */
+export const decodeGstin = (gstin?: string | null): GstinDetails | null => validateGstin(gstin).details || null;
+
+/**
+ * "Maharashtra (27) · PAN AAPFU0939F" for showing under a GSTIN field
+ */
+export const describeGstinDetails = (details: GstinDetails): string =>
+  `${details.stateName} (${details.stateCode}) · PAN ${details.pan}`;
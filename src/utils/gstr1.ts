@@ -0,0 +1,244 @@
+import {SellTransaction} from '../models/Transaction';
+import {Merchant} from '../models/Merchant';
+import {
+  Gstr1B2bInvoice,
+  Gstr1B2csEntry,
+  Gstr1Export,
+  Gstr1HsnEntry,
+  Gstr1NilEntry,
+  Gstr1TaxDetail,
+  Gstr1ValidationError,
+} from '../models/Gstr1';
+import {getReceiptNumber} from './receipt';
+import {getStateCodeFromGstin, isInterStateSupply, suggestHsnCode} from './gst';
+import {normalizeGstin, validateGstin} from './gstin';
+
+// Portal limit: up to 16 letters, digits, '/' and '-'
+const INVOICE_NUMBER_PATTERN = /^[A-Za-z0-9/-]{1,16}$/;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * "MMYYYY" for a 1-based month
+ */
+export const getGstr1Period = (year: number, month: number): string => `${String(month).padStart(2, '0')}${year}`;
+
+const toPortalDate = (date: string): string => {
+  const d = new Date(date);
+  return `${String(d.getDate()).padStart(2, '0')}-${String(d.getMonth() + 1).padStart(2, '0')}-${d.getFullYear()}`;
+};
+
+const emptyTax = (rt: number): Gstr1TaxDetail => ({txval: 0, rt, iamt: 0, camt: 0, samt: 0, csamt: 0});
+
+const addTax = (target: Gstr1TaxDetail, line: Gstr1TaxDetail) => {
+  target.txval += line.txval;
+  target.iamt += line.iamt;
+  target.camt += line.camt;
+  target.samt += line.samt;
+};
+
+const roundTax = <T extends Gstr1TaxDetail>(row: T): T => ({
+  ...row,
+  txval: round2(row.txval),
+  iamt: round2(row.iamt),
+  camt: round2(row.camt),
+  samt: round2(row.samt),
+  csamt: round2(row.csamt),
+});
+
+const describeGstinProblem = (gstin: string): string | null => {
+  if (!gstin) return 'Buyer GSTIN is missing';
+  const {error} = validateGstin(gstin);
+  return error ? `Buyer GSTIN ${gstin}: ${error}` : null;
+};
+
+interface BillLine {
+  hsn: string;
+  description: string;
+  quantity: number;
+  tax: Gstr1TaxDetail;
+}
+
+/**
+ * Build the GSTR-1 return for one month from the firm's sell bills.
+ *
+ * - Tax invoices to a buyer with a GSTIN (on the bill or on the merchant record) go to B2B,
+ *   grouped by buyer GSTIN; tax invoices to unregistered buyers are summarised in B2CS.
+ * - Normal bills and Bills of Supply are exempt grain sales and are reported in the nil/exempt table.
+ * - Every line is counted in the HSN summary.
+ *
+ * Bills that fail validation are listed in `errors` and left out of the return.
+ */
+export const buildGstr1Export = (
+  supplierGstin: string | undefined,
+  year: number,
+  month: number,
+  sells: SellTransaction[],
+  merchants: Merchant[],
+): Gstr1Export => {
+  const gstin = normalizeGstin(supplierGstin);
+  const supplierState = getStateCodeFromGstin(gstin);
+  const errors: Gstr1ValidationError[] = [];
+
+  if (!gstin) {
+    errors.push({message: 'Firm GSTIN is not set in your profile'});
+  } else {
+    const {error} = validateGstin(gstin);
+    if (error) errors.push({message: `Firm GSTIN ${gstin}: ${error}`});
+  }
+
+  const merchantsByPhone = new Map(merchants.map(merchant => [merchant.phoneNumber, merchant]));
+  const b2bByGstin = new Map<string, Gstr1B2bInvoice[]>();
+  const b2csByKey = new Map<string, Gstr1B2csEntry>();
+  const nilByType = new Map<Gstr1NilEntry['sply_ty'], Gstr1NilEntry>();
+  const hsnByKey = new Map<string, Omit<Gstr1HsnEntry, 'num'>>();
+  const summary = {b2bInvoices: 0, b2cInvoices: 0, exemptInvoices: 0, taxableValue: 0, totalTax: 0};
+
+  const inPeriod = sells
+    .filter(txn => {
+      const d = new Date(txn.date);
+      return d.getFullYear() === year && d.getMonth() + 1 === month;
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  for (const txn of inPeriod) {
+    const invoiceNumber = getReceiptNumber('SELL', txn.id, txn.invoiceNumber);
+    const isTaxInvoice = txn.billType === 'TAX_INVOICE';
+    const merchant = txn.buyerPhone ? merchantsByPhone.get(txn.buyerPhone) : undefined;
+    const ctin = normalizeGstin(txn.buyerGstin || merchant?.gstin);
+    const isRegistered = !!merchant || !!ctin;
+    const problems: string[] = [];
+
+    if (isRegistered) {
+      const problem = describeGstinProblem(ctin);
+      if (problem) problems.push(problem);
+    }
+    if (!INVOICE_NUMBER_PATTERN.test(invoiceNumber)) {
+      problems.push(`Invoice number ${invoiceNumber} must be up to 16 letters, digits, '/' or '-'`);
+    }
+
+    const pos = (isTaxInvoice && txn.placeOfSupply) || getStateCodeFromGstin(ctin) || supplierState;
+    if (isTaxInvoice && !txn.placeOfSupply) {
+      problems.push('Place of supply is missing');
+    }
+
+    const items = txn.items && txn.items.length > 0 ? txn.items : [];
+    const lines: BillLine[] = items.map(item => {
+      const grain = item.grainType || txn.grainType;
+      const rate = isTaxInvoice ? item.gstRate || 0 : 0;
+      return {
+        hsn: item.hsnCode || suggestHsnCode(grain),
+        description: grain,
+        quantity: item.quantity || 0,
+        tax: {
+          txval: isTaxInvoice && item.taxableValue !== undefined ? item.taxableValue : item.amount,
+          rt: rate,
+          iamt: isTaxInvoice ? item.igstAmount || 0 : 0,
+          camt: isTaxInvoice ? item.cgstAmount || 0 : 0,
+          samt: isTaxInvoice ? item.sgstAmount || 0 : 0,
+          csamt: 0,
+        },
+      };
+    });
+    if (lines.length === 0) {
+      problems.push('Bill has no grain lines');
+    }
+    lines
+      .filter(line => !line.hsn)
+      .forEach(line => problems.push(`No HSN code for ${line.description}`));
+
+    if (problems.length > 0) {
+      problems.forEach(message => errors.push({transactionId: txn.id, invoiceNumber, buyerName: txn.buyerName, message}));
+      continue;
+    }
+
+    const interState = isInterStateSupply(supplierState, pos);
+
+    if (isTaxInvoice) {
+      const byRate = new Map<number, Gstr1TaxDetail>();
+      for (const line of lines) {
+        const slab = byRate.get(line.tax.rt) || emptyTax(line.tax.rt);
+        addTax(slab, line.tax);
+        byRate.set(line.tax.rt, slab);
+      }
+
+      if (isRegistered) {
+        const invoices = b2bByGstin.get(ctin) || [];
+        invoices.push({
+          inum: invoiceNumber,
+          idt: toPortalDate(txn.date),
+          val: round2(txn.totalAmount + (txn.commissionAmount || 0) + (txn.labourCharges || 0) + (txn.taxAmount || 0)),
+          pos: pos as string,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms: Array.from(byRate.values()).map((slab, idx) => ({num: idx + 1, itm_det: roundTax(slab)})),
+        });
+        b2bByGstin.set(ctin, invoices);
+        summary.b2bInvoices += 1;
+      } else {
+        for (const slab of byRate.values()) {
+          const key = `${pos}|${slab.rt}`;
+          const entry = b2csByKey.get(key) || {
+            sply_ty: interState ? 'INTER' : 'INTRA',
+            pos: pos as string,
+            typ: 'OE',
+            ...emptyTax(slab.rt),
+          };
+          addTax(entry, slab);
+          b2csByKey.set(key, entry);
+        }
+        summary.b2cInvoices += 1;
+      }
+    } else {
+      const supplyType: Gstr1NilEntry['sply_ty'] = `${interState ? 'INTR' : 'INTRA'}${isRegistered ? 'B2B' : 'B2C'}`;
+      const entry = nilByType.get(supplyType) || {sply_ty: supplyType, nil_amt: 0, expt_amt: 0, ngsup_amt: 0};
+      entry.expt_amt += lines.reduce((sum, line) => sum + line.tax.txval, 0);
+      nilByType.set(supplyType, entry);
+      summary.exemptInvoices += 1;
+    }
+
+    for (const line of lines) {
+      const key = `${line.hsn}|${line.tax.rt}`;
+      const entry = hsnByKey.get(key) || {
+        hsn_sc: line.hsn,
+        desc: line.description,
+        uqc: 'QTL',
+        qty: 0,
+        ...emptyTax(line.tax.rt),
+      };
+      entry.qty += line.quantity;
+      addTax(entry, line.tax);
+      hsnByKey.set(key, entry);
+
+      summary.taxableValue += line.tax.txval;
+      summary.totalTax += line.tax.iamt + line.tax.camt + line.tax.samt;
+    }
+  }
+
+  const period = getGstr1Period(year, month);
+  return {
+    period,
+    data: {
+      gstin,
+      fp: period,
+      b2b: Array.from(b2bByGstin.entries()).map(([buyerGstin, inv]) => ({ctin: buyerGstin, inv})),
+      b2cs: Array.from(b2csByKey.values()).map(roundTax),
+      nil: {
+        inv: Array.from(nilByType.values()).map(entry => ({...entry, expt_amt: round2(entry.expt_amt)})),
+      },
+      hsn: {
+        data: Array.from(hsnByKey.values()).map((entry, idx) => ({
+          num: idx + 1,
+          ...roundTax(entry),
+          qty: round2(entry.qty),
+        })),
+      },
+    },
+    errors,
+    summary: {
+      ...summary,
+      taxableValue: round2(summary.taxableValue),
+      totalTax: round2(summary.totalTax),
+    },
+  };
+};
@@ -0,0 +1,248 @@
+import {InterestPeriod, InterestType, LendTransaction} from '../models/Transaction';
+
+/**
+ * Interest terms of a money loan (see the interest_* columns of lend_transactions)
+ */
+export interface InterestTerms {
+  interestRate: number; // percent per interestPeriod
+  interestPeriod: InterestPeriod;
+  interestType: InterestType;
+  graceDays: number;
+  penalRate: number; // percent per interestPeriod after expectedReturnDate; 0 keeps interestRate
+  compoundingMonths?: number; // compound only; 0/undefined = every interest period
+  expectedReturnDate?: string;
+}
+
+/**
+ * A stretch of days over which interest accrued on the same base at the same rate
+ */
+export interface InterestSegment {
+  from: string;
+  to: string;
+  base: number; // principal plus any interest already capitalised
+  rate: number; // percent per interestPeriod
+  days: number;
+  interest: number;
+  penal: boolean;
+}
+
+/**
+ * A repayment as recorded on the loan, with its interest/principal split
+ */
+export interface LoanRepayment {
+  paymentDate: string;
+  amount: number;
+  principalAmount?: number;
+  interestAmount?: number;
+}
+
+/**
+ * What a loan owes on a given date after replaying its repayments
+ */
+export interface LoanPosition {
+  asOf: string;
+  principal: number; // outstanding principal
+  interestBroughtForward: number; // interest still unpaid at the last repayment
+  interestSinceLastPayment: number;
+  interestDue: number; // all unpaid interest (brought forward + since last repayment)
+  totalDue: number;
+  lastPaymentDate: string | null;
+  segments: InterestSegment[]; // accrual since the last repayment
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Village convention: a month of interest is 30 days
+const PERIOD_DAYS: Record<InterestPeriod, number> = {
+  MONTHLY: 30,
+  YEARLY: 365,
+};
+
+// "Loan Amount: ₹5000 | Interest Rate: 2%" as written by older builds
+const LEGACY_INTEREST_RATE_PATTERN = /Interest Rate:\s*(\d+\.?\d*)/;
+
+/**
+ * Whole days from one date to another (part days count as a full day), never negative
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.max(0, Math.ceil((to.getTime() - from.getTime()) / DAY_MS));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Read the monthly rate older builds embedded in a lend description.
+ * Returns null when the description carries no rate.
+ */
+export const parseLegacyInterestRate = (description?: string | null): number | null => {
+  const match = description ? description.match(LEGACY_INTEREST_RATE_PATTERN) : null;
+  return match ? parseFloat(match[1]) : null;
+};
+
+/**
+ * Interest terms of a lend transaction, with defaults for rows that predate them
+ */
+export const getInterestTerms = (transaction: LendTransaction): InterestTerms => ({
+  interestRate: transaction.interestRate || 0,
+  interestPeriod: transaction.interestPeriod || 'MONTHLY',
+  interestType: transaction.interestType || 'SIMPLE',
+  graceDays: transaction.graceDays || 0,
+  penalRate: transaction.penalRate || 0,
+  compoundingMonths: transaction.compoundingMonths || 0,
+  expectedReturnDate: transaction.expectedReturnDate,
+});
+
+/**
+ * Human readable rate, e.g. "2% per month" or "2% per month, compound every 6 months"
+ */
+export const describeInterestRate = (terms: InterestTerms): string => {
+  const unit = terms.interestPeriod === 'YEARLY' ? 'year' : 'month';
+  let compounding = '';
+  if (terms.interestType === 'COMPOUND') {
+    const months = terms.compoundingMonths || (terms.interestPeriod === 'YEARLY' ? 12 : 1);
+    compounding = months === 1 ? ', compound monthly' : months === 12 ? ', compound yearly' : `, compound every ${months} months`;
+  }
+  return `${terms.interestRate}% per ${unit}${compounding}`;
+};
+
+/**
+ * Days between compounding dates. Defaults to one interest period; a monthly rate
+ * can also be compounded every 6 or 12 months.
+ */
+export const getCompoundingDays = (terms: InterestTerms): number => {
+  if (terms.interestPeriod === 'YEARLY') {
+    return terms.compoundingMonths ? Math.round((PERIOD_DAYS.YEARLY * terms.compoundingMonths) / 12) : PERIOD_DAYS.YEARLY;
+  }
+  return PERIOD_DAYS.MONTHLY * (terms.compoundingMonths || 1);
+};
+
+/**
+ * Split a repayment against what is owed: unpaid interest is settled first and
+ * the rest reduces the principal.
+ */
+export const splitRepayment = (amount: number, position: LoanPosition): {interest: number; principal: number} => {
+  const interest = Math.min(amount, position.interestDue);
+  const principal = Math.min(amount - interest, position.principal);
+  return {interest, principal};
+};
+
+/**
+ * Replay a loan from its date to `asOf`: interest accrues day by day on the
+ * outstanding principal (plus capitalised interest when compounding), and each
+ * repayment settles interest and principal as it was recorded. Interest a partial
+ * repayment did not cover is carried forward rather than dropped.
+ *
+ * Days are whole days from the loan date (a part day counts as a day). No interest
+ * accrues during the first `graceDays`; after `expectedReturnDate` the penal rate
+ * (when set) replaces the normal rate. Compound interest is added to the base on
+ * every compounding date counted from the loan date.
+ */
+export const calculateLoanPosition = (
+  principal: number,
+  terms: InterestTerms,
+  loanDate: Date,
+  repayments: LoanRepayment[],
+  asOf: Date,
+): LoanPosition => {
+  const periodDays = PERIOD_DAYS[terms.interestPeriod] || PERIOD_DAYS.MONTHLY;
+  const compoundingDays = terms.interestType === 'COMPOUND' ? getCompoundingDays(terms) : 0;
+  const graceEnd = Math.max(0, terms.graceDays || 0);
+  const penalStart =
+    terms.penalRate > 0 && terms.expectedReturnDate ? daysBetween(loanDate, new Date(terms.expectedReturnDate)) : null;
+  const dayOf = (date: Date) => daysBetween(loanDate, date);
+
+  let outstanding = principal;
+  let capitalised = 0; // unpaid interest that now earns interest (compound only)
+  let pending = 0; // unpaid interest accrued since the last compounding date
+  let broughtForward = 0;
+  let lastPaymentDay = 0;
+  let lastPaymentDate: string | null = null;
+  let segments: InterestSegment[] = [];
+  let cursor = 0;
+
+  const accrueTo = (day: number) => {
+    while (cursor < day) {
+      let next = day;
+      if (compoundingDays > 0) next = Math.min(next, (Math.floor(cursor / compoundingDays) + 1) * compoundingDays);
+      if (cursor < graceEnd) next = Math.min(next, graceEnd);
+      if (penalStart !== null && cursor < penalStart) next = Math.min(next, penalStart);
+
+      const penal = penalStart !== null && cursor >= penalStart;
+      const rate = penal ? terms.penalRate : terms.interestRate;
+      const base = outstanding + capitalised;
+      if (cursor >= graceEnd && rate > 0 && base > 0) {
+        const interest = (base * rate * (next - cursor)) / (100 * periodDays);
+        pending += interest;
+
+        const last = segments[segments.length - 1];
+        if (last && last.rate === rate && last.base === base && last.penal === penal) {
+          last.to = addDays(loanDate, next).toISOString();
+          last.days += next - cursor;
+          last.interest += interest;
+        } else {
+          segments.push({
+            from: addDays(loanDate, cursor).toISOString(),
+            to: addDays(loanDate, next).toISOString(),
+            base,
+            rate,
+            days: next - cursor,
+            interest,
+            penal,
+          });
+        }
+      }
+
+      cursor = next;
+      if (compoundingDays > 0 && cursor % compoundingDays === 0) {
+        capitalised += pending;
+        pending = 0;
+      }
+    }
+  };
+
+  const sorted = [...repayments]
+    .filter(r => new Date(r.paymentDate) <= asOf)
+    .sort((a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime());
+
+  for (const repayment of sorted) {
+    const day = dayOf(new Date(repayment.paymentDate));
+    accrueTo(day);
+
+    // Payments recorded before the interest/principal split went interest first
+    let interestPaid = repayment.interestAmount || 0;
+    let principalPaid = repayment.principalAmount || 0;
+    if (interestPaid === 0 && principalPaid === 0) {
+      interestPaid = Math.min(repayment.amount, Math.round(capitalised + pending));
+      principalPaid = repayment.amount - interestPaid;
+    }
+
+    const fromCapitalised = Math.min(capitalised, interestPaid);
+    capitalised -= fromCapitalised;
+    pending = Math.max(0, pending - (interestPaid - fromCapitalised));
+    if (capitalised + pending < 0.5) {
+      capitalised = 0;
+      pending = 0;
+    }
+    outstanding = Math.max(0, outstanding - principalPaid);
+
+    broughtForward = capitalised + pending;
+    lastPaymentDay = day;
+    lastPaymentDate = repayment.paymentDate;
+    segments = [];
+  }
+
+  accrueTo(Math.max(dayOf(asOf), lastPaymentDay));
+
+  const interestBroughtForward = Math.round(broughtForward);
+  const interestDue = Math.round(capitalised + pending);
+  const outstandingRounded = Math.round(outstanding * 100) / 100;
+  return {
+    asOf: asOf.toISOString(),
+    principal: outstandingRounded,
+    interestBroughtForward,
+    interestSinceLastPayment: Math.max(0, interestDue - interestBroughtForward),
+    interestDue,
+    totalDue: outstandingRounded + interestDue,
+    lastPaymentDate,
+    segments: segments.map(segment => ({...segment, interest: Math.round(segment.interest)})),
+  };
+};
@@ -0,0 +1,111 @@
+import {PartyLedgerEntry, PartyLedgerSource, PartyStatement} from '../models/PartyLedger';
+import {formatCurrency, formatDate} from './helpers';
+
+export const PARTY_LEDGER_SOURCE_LABELS: Record<PartyLedgerSource, string> = {
+  BUY: 'Purchases',
+  SELL: 'Sales',
+  LEND: 'Loans',
+};
+
+/**
+ * "₹1,200 to receive" / "₹1,200 to pay" / "Settled" for a signed balance
+ */
+export const describeBalance = (balance: number): string => {
+  const rounded = Math.round(balance);
+  if (rounded === 0) return 'Settled';
+  return rounded > 0 ? `${formatCurrency(rounded)} to receive` : `${formatCurrency(-rounded)} to pay`;
+};
+
+/**
+ * Build the statement for [from, to] out of all of a party's ledger entries:
+ * entries before `from` roll into the opening balance, entries after `to` are ignored.
+ */
+export const buildPartyStatement = (
+  phone: string,
+  name: string,
+  entries: PartyLedgerEntry[],
+  from: Date | null,
+  to: Date,
+): PartyStatement => {
+  const sorted = [...entries]
+    .filter(entry => new Date(entry.date) <= to)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const netBySource: Record<PartyLedgerSource, number> = {BUY: 0, SELL: 0, LEND: 0};
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const rows: PartyStatement['rows'] = [];
+
+  for (const entry of sorted) {
+    const change = entry.debit - entry.credit;
+    netBySource[entry.source] += change;
+    balance += change;
+
+    if (from && new Date(entry.date) < from) {
+      openingBalance = balance;
+      continue;
+    }
+
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    rows.push({...entry, runningBalance: balance});
+  }
+
+  return {
+    phone,
+    name,
+    from: from ? from.toISOString() : null,
+    to: to.toISOString(),
+    openingBalance,
+    rows,
+    totalDebit,
+    totalCredit,
+    closingBalance: balance,
+    netBySource,
+  };
+};
+
+/**
+ * Plain-text statement for sharing over WhatsApp/SMS
+ */
+export const formatPartyStatementText = (statement: PartyStatement): string => {
+  const lines: string[] = [];
+  lines.push('STATEMENT OF ACCOUNT');
+  lines.push(`${statement.name} (${statement.phone})`);
+  lines.push(
+    statement.from
+      ? `Period: ${formatDate(statement.from)} to ${formatDate(statement.to)}`
+      : `Up to: ${formatDate(statement.to)}`,
+  );
+  lines.push('');
+  lines.push(`Opening Balance: ${describeBalance(statement.openingBalance)}`);
+  lines.push('');
+
+  for (const row of statement.rows) {
+    const amount = row.debit > 0 ? `Dr ${formatCurrency(row.debit)}` : `Cr ${formatCurrency(row.credit)}`;
+    lines.push(`${formatDate(row.date)}  ${row.description}`);
+    lines.push(`    ${amount}  |  Bal: ${describeBalance(row.runningBalance)}`);
+  }
+  if (statement.rows.length === 0) {
+    lines.push('No entries in this period');
+  }
+
+  lines.push('');
+  lines.push(`Total Debit: ${formatCurrency(statement.totalDebit)}`);
+  lines.push(`Total Credit: ${formatCurrency(statement.totalCredit)}`);
+  lines.push(`Closing Balance: ${describeBalance(statement.closingBalance)}`);
+
+  const sources = (Object.keys(PARTY_LEDGER_SOURCE_LABELS) as PartyLedgerSource[]).filter(
+    source => Math.round(statement.netBySource[source]) !== 0,
+  );
+  if (sources.length > 1) {
+    lines.push('');
+    for (const source of sources) {
+      lines.push(`${PARTY_LEDGER_SOURCE_LABELS[source]}: ${describeBalance(statement.netBySource[source])}`);
+    }
+  }
+
+  return lines.join('\n');
+};
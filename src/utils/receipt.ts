@@ -0,0 +1,241 @@
+import {BuyTransaction, LendTransaction, SellTransaction} from '../models/Transaction';
+import {TransactionItem} from '../models/TransactionItem';
+import {Payment} from '../models/Payment';
+import {
+  ReceiptAmountRow,
+  ReceiptDocument,
+  ReceiptFirm,
+  ReceiptItemRow,
+  ReceiptPaymentRow,
+} from '../models/Receipt';
+import {calculateLoanPosition, describeInterestRate, getInterestTerms} from './interest';
+import {formatDate} from './helpers';
+import {describeStateCode, summarizeTax} from './gst';
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pending',
+  PARTIAL: 'Partially Paid',
+  COMPLETED: 'Paid',
+};
+
+/**
+ * The bill's own invoice number, or a stable one derived from the transaction id
+ */
+export const getReceiptNumber = (prefix: string, id: string, invoiceNumber?: string): string =>
+  invoiceNumber && invoiceNumber.trim() ? invoiceNumber.trim() : `${prefix}-${id.slice(-6).toUpperCase()}`;
+
+const formatBags = (item: TransactionItem): string | undefined => {
+  if (!item.numberOfBags || !item.weightPerBag) return undefined;
+  return `${item.numberOfBags} × ${item.weightPerBag}kg${item.extraWeight ? ` + ${item.extraWeight}kg` : ''}`;
+};
+
+/**
+ * Item table rows for a buy/sell bill; bills without line detail print their header as one row
+ */
+const toItemRows = (
+  items: TransactionItem[] | undefined,
+  header: {grainType: string; quantity: number; ratePerQuintal: number; totalAmount: number},
+): ReceiptItemRow[] => {
+  if (!items || items.length === 0) {
+    return [
+      {
+        description: header.grainType,
+        quantity: header.quantity,
+        rate: header.ratePerQuintal,
+        amount: header.totalAmount,
+      },
+    ];
+  }
+
+  return items.map(item => ({
+    description: item.grainType || header.grainType,
+    bags: formatBags(item),
+    quantity: item.quantity,
+    rate: item.ratePerQuintal,
+    amount: item.amount,
+    arat: item.arat,
+    tulak: item.tulak,
+    mandiShulk: item.mandiShulk,
+    hsnCode: item.hsnCode,
+    gstRate: item.gstRate,
+    cgstAmount: item.cgstAmount,
+    sgstAmount: item.sgstAmount,
+    igstAmount: item.igstAmount,
+  }));
+};
+
+const toPaymentRows = (payments: Payment[]): ReceiptPaymentRow[] =>
+  [...payments]
+    .sort((a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime())
+    .map(payment => ({
+      date: payment.paymentDate,
+      amount: payment.amount,
+      mode: payment.paymentMode,
+      notes: payment.notes,
+    }));
+
+/**
+ * Purchase receipt: gross amount less labour and commission, advance and settlements
+ */
+export const buildBuyReceipt = (
+  txn: BuyTransaction,
+  payments: Payment[],
+  firm: ReceiptFirm,
+  address?: string,
+): ReceiptDocument => {
+  const labour = txn.labourCharges || 0;
+  const commission = txn.commissionAmount || 0;
+  const settled = payments.reduce((sum, p) => sum + p.amount, 0);
+  const advance = txn.paidAmount - settled;
+
+  const totals: ReceiptAmountRow[] = [
+    {label: 'Gross Amount', amount: txn.totalAmount},
+    {label: 'Less: Labour Charges', amount: labour},
+    {label: 'Less: Commission', amount: commission},
+    {label: 'Net Payable', amount: txn.totalAmount - labour - commission, total: true},
+  ];
+  if (advance > 0) {
+    totals.push({label: 'Advance Paid', amount: advance});
+  }
+
+  return {
+    kind: 'BUY',
+    title: 'PURCHASE RECEIPT',
+    firm,
+    invoiceNumber: getReceiptNumber('BUY', txn.id, txn.invoiceNumber),
+    date: txn.date,
+    party: {label: 'Farmer', name: txn.supplierName, phone: txn.supplierPhone, address},
+    details: txn.vehicleNumber ? [{label: 'Vehicle No.', value: txn.vehicleNumber}] : [],
+    items: toItemRows(txn.items, txn),
+    totals,
+    payments: toPaymentRows(payments),
+    balanceLabel: 'Balance Payable',
+    balanceAmount: txn.balanceAmount,
+    status: STATUS_LABELS[txn.paymentStatus] || txn.paymentStatus,
+  };
+};
+
+/**
+ * Sale bill: gross amount plus commission and labour (arat, tulak and mandi
+ * shulk on a Bill of Supply, GST on a tax invoice), amount received with the bill and settlements
+ */
+export const buildSellReceipt = (
+  txn: SellTransaction,
+  payments: Payment[],
+  firm: ReceiptFirm,
+  address?: string,
+): ReceiptDocument => {
+  const items = txn.items || [];
+  const arat = items.reduce((sum, it) => sum + (it.arat || 0), 0);
+  const tulak = items.reduce((sum, it) => sum + (it.tulak || 0), 0);
+  const mandiShulk = items.reduce((sum, it) => sum + (it.mandiShulk || 0), 0);
+  const isBillOfSupply = arat + tulak + mandiShulk > 0;
+  const isTaxInvoice = txn.billType === 'TAX_INVOICE';
+  const tax = summarizeTax(items);
+
+  const additions = (txn.commissionAmount || 0) + (txn.labourCharges || 0) + (txn.taxAmount || 0);
+  const settled = payments.reduce((sum, p) => sum + p.amount, 0);
+  const receivedWithBill = txn.receivedAmount - settled;
+
+  const totals: ReceiptAmountRow[] = [
+    {label: isTaxInvoice ? 'Taxable Value' : 'Gross Amount', amount: txn.totalAmount},
+  ];
+  if (isTaxInvoice) {
+    if (tax.igstAmount > 0) {
+      totals.push({label: 'Add: IGST', amount: tax.igstAmount});
+    } else {
+      totals.push({label: 'Add: CGST', amount: tax.cgstAmount});
+      totals.push({label: 'Add: SGST', amount: tax.sgstAmount});
+    }
+  } else if (isBillOfSupply) {
+    totals.push({label: 'Add: Arat', amount: arat});
+    totals.push({label: 'Add: Tulak', amount: tulak});
+    totals.push({label: 'Add: Mandi Shulk', amount: mandiShulk});
+  } else {
+    totals.push({label: 'Add: Commission', amount: txn.commissionAmount || 0});
+    totals.push({label: 'Add: Labour Charges', amount: txn.labourCharges || 0});
+  }
+  totals.push({label: isTaxInvoice ? 'Invoice Total' : 'Net Receivable', amount: txn.totalAmount + additions, total: true});
+  if (receivedWithBill > 0) {
+    totals.push({label: 'Received with Bill', amount: receivedWithBill});
+  }
+
+  const details: {label: string; value: string}[] = [];
+  if (isTaxInvoice) {
+    details.push({label: 'Buyer GSTIN', value: txn.buyerGstin || 'N/A'});
+    details.push({label: 'Place of Supply', value: describeStateCode(txn.placeOfSupply)});
+  }
+  if (txn.vehicleNumber) {
+    details.push({label: 'Vehicle No.', value: txn.vehicleNumber});
+  }
+  const firstItem = items[0];
+  if (firstItem && (firstItem.aratPercent || firstItem.mandiPercent)) {
+    details.push({label: 'Arat / Mandi', value: `${firstItem.aratPercent || 0}% / ${firstItem.mandiPercent || 0}%`});
+  }
+
+  return {
+    kind: 'SELL',
+    title: isTaxInvoice ? 'TAX INVOICE' : isBillOfSupply ? 'BILL OF SUPPLY' : 'SALE BILL',
+    firm,
+    invoiceNumber: getReceiptNumber('SELL', txn.id, txn.invoiceNumber),
+    date: txn.date,
+    party: {label: 'Buyer', name: txn.buyerName, phone: txn.buyerPhone, address},
+    details,
+    items: toItemRows(txn.items, txn),
+    totals,
+    payments: toPaymentRows(payments),
+    balanceLabel: 'Balance Due',
+    balanceAmount: txn.balanceAmount,
+    status: STATUS_LABELS[txn.paymentStatus] || txn.paymentStatus,
+  };
+};
+
+/**
+ * Loan statement: principal, interest terms and the amount due as of `asOf`
+ */
+export const buildLendReceipt = (
+  txn: LendTransaction,
+  payments: Payment[],
+  firm: ReceiptFirm,
+  asOf: Date = new Date(),
+): ReceiptDocument => {
+  const terms = getInterestTerms(txn);
+  const position = calculateLoanPosition(txn.amount || 0, terms, new Date(txn.date), payments, asOf);
+  const isSettled = txn.paymentStatus === 'COMPLETED';
+
+  const details: {label: string; value: string}[] = [{label: 'Interest', value: describeInterestRate(terms)}];
+  if (terms.graceDays > 0) {
+    details.push({label: 'Grace Period', value: `${terms.graceDays} days`});
+  }
+  if (terms.expectedReturnDate) {
+    details.push({label: 'Return By', value: formatDate(terms.expectedReturnDate)});
+  }
+  if (terms.penalRate > 0) {
+    details.push({label: 'Penal Rate', value: `${terms.penalRate}% after the return date`});
+  }
+
+  const totals: ReceiptAmountRow[] = [
+    {label: 'Loan Amount', amount: txn.amount || 0},
+    {label: 'Principal Returned', amount: txn.returnedAmount},
+    {label: 'Principal Outstanding', amount: txn.balanceAmount},
+  ];
+  if (!isSettled) {
+    totals.push({label: `Interest up to ${formatDate(asOf)}`, amount: position.interestDue});
+  }
+
+  return {
+    kind: 'LEND',
+    title: 'LOAN STATEMENT',
+    firm,
+    invoiceNumber: getReceiptNumber('LOAN', txn.id, txn.invoiceNumber),
+    date: txn.date,
+    party: {label: 'Borrower', name: txn.personName, phone: txn.personPhone},
+    details,
+    items: [],
+    totals,
+    payments: toPaymentRows(payments),
+    balanceLabel: isSettled ? 'Balance Due' : `Total Due on ${formatDate(asOf)}`,
+    balanceAmount: isSettled ? 0 : position.totalDue,
+    status: isSettled ? 'Settled' : STATUS_LABELS[txn.paymentStatus] || txn.paymentStatus,
+  };
+};
@@ -0,0 +1,179 @@
+import {ReceiptDocument, ReceiptItemRow} from '../models/Receipt';
+import {formatDate} from './helpers';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatAmount = (amount: number): string =>
+  `₹${amount.toLocaleString('en-IN', {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #212121; font-size: 12px; margin: 0; padding: 24px; }
+  .header { text-align: center; border-bottom: 2px solid #2E7D32; padding-bottom: 8px; }
+  .firm { font-size: 22px; font-weight: bold; color: #2E7D32; }
+  .firm-meta { color: #555; margin-top: 2px; }
+  .title { margin-top: 10px; font-size: 15px; font-weight: bold; letter-spacing: 1px; }
+  .meta { width: 100%; margin-top: 12px; border-collapse: collapse; }
+  .meta td { vertical-align: top; padding: 2px 0; }
+  .label { color: #757575; }
+  table.items { width: 100%; margin-top: 16px; border-collapse: collapse; }
+  table.items th { background: #E8F5E9; text-align: left; padding: 6px; border: 1px solid #C8E6C9; }
+  table.items td { padding: 6px; border: 1px solid #E0E0E0; }
+  .num { text-align: right; white-space: nowrap; }
+  .sub { color: #757575; font-size: 10px; }
+  table.totals { width: 55%; margin: 16px 0 0 auto; border-collapse: collapse; }
+  table.totals td { padding: 4px 6px; }
+  table.totals tr.total td { font-weight: bold; border-top: 1px solid #212121; }
+  .section { margin-top: 18px; font-weight: bold; font-size: 13px; }
+  .balance { margin-top: 16px; padding: 10px; background: #F5F5F5; border: 1px solid #E0E0E0; display: flex; justify-content: space-between; font-size: 14px; font-weight: bold; }
+  .footer { margin-top: 28px; display: flex; justify-content: space-between; color: #757575; }
+  .signature { border-top: 1px solid #757575; padding-top: 4px; min-width: 160px; text-align: center; }
+`;
+
+const renderCharges = (item: ReceiptItemRow): string => {
+  const lines: string[] = [];
+  if (item.arat || item.tulak || item.mandiShulk) {
+    lines.push(`Arat ${formatAmount(item.arat || 0)}, Tulak ${formatAmount(item.tulak || 0)}, Mandi ${formatAmount(item.mandiShulk || 0)}`);
+  }
+  if (item.hsnCode) {
+    const gst = item.igstAmount
+      ? `IGST ${formatAmount(item.igstAmount)}`
+      : `CGST ${formatAmount(item.cgstAmount || 0)}, SGST ${formatAmount(item.sgstAmount || 0)}`;
+    lines.push(`HSN ${escapeHtml(item.hsnCode)} @ ${item.gstRate || 0}%: ${gst}`);
+  }
+  return lines.map(line => `<div class="sub">${line}</div>`).join('');
+};
+
+const renderItems = (doc: ReceiptDocument): string => {
+  if (doc.items.length === 0) return '';
+
+  const rows = doc.items
+    .map(
+      (item, idx) => `
+      <tr>
+        <td>${idx + 1}</td>
+        <td>${escapeHtml(item.description)}${renderCharges(item)}</td>
+        <td>${item.bags ? escapeHtml(item.bags) : '-'}</td>
+        <td class="num">${item.quantity !== undefined ? item.quantity.toFixed(2) : '-'}</td>
+        <td class="num">${item.rate !== undefined ? formatAmount(item.rate) : '-'}</td>
+        <td class="num">${formatAmount(item.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `
+    <table class="items">
+      <tr>
+        <th>#</th><th>Grain</th><th>Bags</th>
+        <th class="num">Qty (Qtl)</th><th class="num">Rate/Qtl</th><th class="num">Amount</th>
+      </tr>
+      ${rows}
+    </table>`;
+};
+
+const renderPayments = (doc: ReceiptDocument): string => {
+  if (doc.payments.length === 0) return '';
+
+  const rows = doc.payments
+    .map(
+      (payment, idx) => `
+      <tr>
+        <td>${idx + 1}</td>
+        <td>${formatDate(payment.date)}</td>
+        <td>${escapeHtml(payment.mode)}</td>
+        <td>${payment.notes ? escapeHtml(payment.notes) : ''}</td>
+        <td class="num">${formatAmount(payment.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `
+    <div class="section">Payment History</div>
+    <table class="items">
+      <tr><th>#</th><th>Date</th><th>Mode</th><th>Notes</th><th class="num">Amount</th></tr>
+      ${rows}
+    </table>`;
+};
+
+/**
+ * Self-contained A4 HTML page for a receipt, ready for HTML-to-PDF conversion
+ */
+export const renderReceiptHtml = (doc: ReceiptDocument): string => {
+  const firmMeta = [
+    doc.firm.gstin ? `GSTIN: ${escapeHtml(doc.firm.gstin)}` : '',
+    doc.firm.state ? `State: ${escapeHtml(doc.firm.state)}` : '',
+    doc.firm.phoneNumber ? `Ph: ${escapeHtml(doc.firm.phoneNumber)}` : '',
+  ]
+    .filter(Boolean)
+    .join(' &nbsp;|&nbsp; ');
+
+  const partyLines = [
+    `<div><span class="label">${escapeHtml(doc.party.label)}:</span> <b>${escapeHtml(doc.party.name)}</b></div>`,
+    doc.party.phone ? `<div><span class="label">Phone:</span> ${escapeHtml(doc.party.phone)}</div>` : '',
+    doc.party.address && doc.party.address !== 'N/A'
+      ? `<div><span class="label">Address:</span> ${escapeHtml(doc.party.address)}</div>`
+      : '',
+  ].join('');
+
+  const detailLines = doc.details
+    .map(detail => `<div><span class="label">${escapeHtml(detail.label)}:</span> ${escapeHtml(detail.value)}</div>`)
+    .join('');
+
+  const totals = doc.totals
+    .map(
+      row => `
+      <tr${row.total ? ' class="total"' : ''}>
+        <td>${escapeHtml(row.label)}</td>
+        <td class="num">${formatAmount(row.amount)}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="header">
+    <div class="firm">${escapeHtml(doc.firm.firmName)}</div>
+    ${firmMeta ? `<div class="firm-meta">${firmMeta}</div>` : ''}
+    <div class="title">${escapeHtml(doc.title)}</div>
+  </div>
+
+  <table class="meta">
+    <tr>
+      <td>${partyLines}</td>
+      <td style="text-align: right;">
+        <div><span class="label">No.:</span> <b>${escapeHtml(doc.invoiceNumber)}</b></div>
+        <div><span class="label">Date:</span> ${formatDate(doc.date)}</div>
+        ${detailLines}
+      </td>
+    </tr>
+  </table>
+
+  ${renderItems(doc)}
+
+  <table class="totals">${totals}</table>
+
+  ${renderPayments(doc)}
+
+  <div class="balance">
+    <span>${escapeHtml(doc.balanceLabel)}</span>
+    <span>${formatAmount(doc.balanceAmount)}</span>
+  </div>
+
+  <div class="footer">
+    <div>Status: ${escapeHtml(doc.status)}</div>
+    <div class="signature">For ${escapeHtml(doc.firm.firmName)}</div>
+  </div>
+</body>
+</html>`;
+};
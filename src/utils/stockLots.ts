@@ -0,0 +1,227 @@
+import {BuyTransaction, SellTransaction} from '../models/Transaction';
+import {LotAllocation, LotAllocationResult, LotPick, LotShortfall, StockLot} from '../models/StockLot';
+import {StockAdjustment} from '../models/StockAdjustment';
+import {StockTransfer} from '../models/StorageLocation';
+
+// Quantities are entered to two decimals; anything below this is rounding noise
+const EPSILON = 0.005;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Grain names are matched the way stock is grouped: trimmed and case-insensitive
+ */
+export const grainKey = (grainType: string): string => (grainType || '').trim().toLowerCase();
+
+/**
+ * Lot id of a buy line. Bill ids are shared by all devices, so the lot id is too.
+ */
+export const makeLotId = (buyTransactionId: string, lineNumber: number): string => `${buyTransactionId}:${lineNumber}`;
+
+const byDate = (a: {date: string; createdAt: string}, b: {date: string; createdAt: string}): number =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Spread the lots picked for a sell entry over its lines in order, each line
+ * taking at most its own quantity. Picks beyond the entry's total are dropped.
+ */
+export const splitLotPicks = (picks: LotPick[], lineQuantities: number[]): LotPick[][] => {
+  const left = picks.map(p => ({...p}));
+  return lineQuantities.map(lineQuantity => {
+    let needed = lineQuantity;
+    const linePicks: LotPick[] = [];
+    for (const pick of left) {
+      if (needed <= EPSILON) break;
+      const take = Math.min(pick.quantity, needed);
+      if (take <= EPSILON) continue;
+      linePicks.push({lotId: pick.lotId, quantity: round2(take)});
+      pick.quantity -= take;
+      needed -= take;
+    }
+    return linePicks;
+  });
+};
+
+/**
+ * Allocate every sell line to the buy lines (lots) of the same grain at the sell's
+ * storage location.
+ *
+ * Each lot starts at its buy bill's location. Sells, transfers and adjustments are
+ * applied in date order. Transfers move grain from the oldest lots at the source
+ * location to the destination.
+ * Lots picked by hand on a sell bill are held for that sale, so an earlier sale or
+ * transfer does not use them first, and are taken as far as the lot still has stock
+ * at the sell's location; whatever is left of each sell line comes from the oldest
+ * lots there (FIFO). Quantity no lot can cover is reported as a shortfall.
+ * Stock lost to shrinkage or damage (negative adjustments) comes off the oldest
+ * lots holding the grain at the adjustment's location on its date; gains add no lot.
+ * Bills entered without a location hold and draw stock under null.
+ * Buy and sell transactions must have their items attached.
+ */
+export const allocateLots = (
+  buys: BuyTransaction[],
+  sells: SellTransaction[],
+  adjustments: StockAdjustment[] = [],
+  transfers: StockTransfer[] = [],
+  asOf: Date = new Date(),
+): LotAllocationResult => {
+  const lots: StockLot[] = [];
+  // Quantity of each lot left at each location
+  const holdings = new Map<string, Map<string | null, number>>();
+  for (const buy of [...buys].sort(byDate)) {
+    const boughtOn = new Date(buy.date).getTime();
+    const locationId = buy.locationId || null;
+    for (const item of buy.items || []) {
+      const lot: StockLot = {
+        id: makeLotId(buy.id, item.lineNumber),
+        buyTransactionId: buy.id,
+        lineNumber: item.lineNumber,
+        grainType: item.grainType,
+        supplierName: buy.supplierName,
+        supplierPhone: buy.supplierPhone,
+        invoiceNumber: buy.invoiceNumber,
+        date: buy.date,
+        locationId,
+        quantity: item.quantity,
+        ratePerQuintal: item.ratePerQuintal,
+        allocatedQuantity: 0,
+        remainingQuantity: item.quantity,
+        locations: [],
+        ageDays: isNaN(boughtOn) ? 0 : Math.max(0, Math.floor((asOf.getTime() - boughtOn) / DAY_MS)),
+      };
+      lots.push(lot);
+      holdings.set(lot.id, new Map([[locationId, item.quantity]]));
+    }
+  }
+
+  const lotsById = new Map(lots.map(lot => [lot.id, lot]));
+  const allocations: LotAllocation[] = [];
+  const shortfalls: LotShortfall[] = [];
+
+  const heldAt = (lot: StockLot, locationId: string | null): number => holdings.get(lot.id)?.get(locationId) || 0;
+  const move = (lot: StockLot, from: string | null, to: string | null | undefined, quantity: number) => {
+    const lotHoldings = holdings.get(lot.id)!;
+    lotHoldings.set(from, heldAt(lot, from) - quantity);
+    if (to !== undefined) {
+      lotHoldings.set(to, heldAt(lot, to) + quantity);
+    }
+  };
+
+  // Quantity picked by hand for sales not allocated yet, per lot and sell location
+  const reserved = new Map<string, number>();
+  const reservedKey = (lotId: string, locationId: string | null) => `${lotId}@${locationId}`;
+  const reservedAt = (lot: StockLot, locationId: string | null) => reserved.get(reservedKey(lot.id, locationId)) || 0;
+  for (const sell of sells) {
+    for (const item of sell.items || []) {
+      for (const pick of item.lotPicks || []) {
+        const key = reservedKey(pick.lotId, sell.locationId || null);
+        reserved.set(key, (reserved.get(key) || 0) + pick.quantity);
+      }
+    }
+  }
+
+  /**
+   * Take up to `quantity` of a grain from the oldest lots at a location, leaving
+   * quantity held for hand-picked sales unless `includeReserved`
+   */
+  const takeOldest = (
+    grainType: string,
+    locationId: string | null,
+    quantity: number,
+    includeReserved: boolean,
+    onTake: (lot: StockLot, quantity: number) => void,
+  ): number => {
+    let needed = quantity;
+    const key = grainKey(grainType);
+    for (const lot of lots) {
+      if (needed <= EPSILON) break;
+      if (grainKey(lot.grainType) !== key) continue;
+      const available = heldAt(lot, locationId) - (includeReserved ? 0 : reservedAt(lot, locationId));
+      if (available <= EPSILON) continue;
+      const taken = Math.min(needed, available);
+      onTake(lot, taken);
+      needed -= taken;
+    }
+    return needed;
+  };
+
+  const takeForSale = (lot: StockLot, quantity: number, sell: SellTransaction, lineNumber: number, manual: boolean) => {
+    move(lot, sell.locationId || null, undefined, quantity);
+    lot.allocatedQuantity += quantity;
+    allocations.push({
+      lotId: lot.id,
+      sellTransactionId: sell.id,
+      sellLineNumber: lineNumber,
+      grainType: lot.grainType,
+      quantity: round2(quantity),
+      manual,
+    });
+  };
+
+  const allocateSell = (sell: SellTransaction) => {
+    const locationId = sell.locationId || null;
+    for (const item of sell.items || []) {
+      let needed = item.quantity;
+      for (const pick of item.lotPicks || []) {
+        const key = reservedKey(pick.lotId, locationId);
+        reserved.set(key, Math.max(0, (reserved.get(key) || 0) - pick.quantity));
+        const lot = lotsById.get(pick.lotId);
+        if (!lot || grainKey(lot.grainType) !== grainKey(item.grainType)) continue;
+        const quantity = Math.min(pick.quantity, needed, heldAt(lot, locationId));
+        if (quantity <= EPSILON) continue;
+        takeForSale(lot, quantity, sell, item.lineNumber, true);
+        needed -= quantity;
+      }
+
+      needed = takeOldest(item.grainType, locationId, needed, false, (lot, quantity) =>
+        takeForSale(lot, quantity, sell, item.lineNumber, false),
+      );
+      if (needed > EPSILON) {
+        shortfalls.push({
+          sellTransactionId: sell.id,
+          sellLineNumber: item.lineNumber,
+          grainType: item.grainType,
+          quantity: round2(needed),
+        });
+      }
+    }
+  };
+
+  // Grain moved out of a location goes first from stock no sale picked, then from the rest
+  const applyTransfer = (transfer: StockTransfer) => {
+    const moveLot = (lot: StockLot, quantity: number) => move(lot, transfer.fromLocationId, transfer.toLocationId, quantity);
+    const left = takeOldest(transfer.grainType, transfer.fromLocationId, transfer.quantity, false, moveLot);
+    takeOldest(transfer.grainType, transfer.fromLocationId, left, true, moveLot);
+  };
+
+  const applyAdjustment = (adjustment: StockAdjustment) => {
+    if (adjustment.quantity >= 0) return;
+    const locationId = adjustment.locationId || null;
+    takeOldest(adjustment.grainType, locationId, -adjustment.quantity, true, (lot, quantity) =>
+      move(lot, locationId, undefined, quantity),
+    );
+  };
+
+  const events: Array<{date: string; createdAt: string; apply: () => void}> = [
+    ...transfers.map(transfer => ({date: transfer.date, createdAt: transfer.createdAt, apply: () => applyTransfer(transfer)})),
+    ...adjustments.map(adjustment => ({
+      date: adjustment.date,
+      createdAt: adjustment.createdAt,
+      apply: () => applyAdjustment(adjustment),
+    })),
+    ...sells.map(sell => ({date: sell.date, createdAt: sell.createdAt, apply: () => allocateSell(sell)})),
+  ];
+  events.sort(byDate).forEach(event => event.apply());
+
+  lots.forEach(lot => {
+    lot.locations = Array.from(holdings.get(lot.id)!)
+      .filter(([, quantity]) => quantity > EPSILON)
+      .map(([locationId, quantity]) => ({locationId, quantity: round2(quantity)}));
+    lot.allocatedQuantity = round2(lot.allocatedQuantity);
+    lot.remainingQuantity = round2(lot.locations.reduce((sum, location) => sum + location.quantity, 0));
+  });
+
+  return {lots, allocations, shortfalls};
+};
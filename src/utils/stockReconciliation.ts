@@ -0,0 +1,71 @@
+import {StockReconciliation, StockReconciliationLine} from '../models/StockAdjustment';
+import {grainKey} from './stockLots';
+
+const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+// Quantities are entered to two decimals; anything below this is rounding noise
+const EPSILON = 0.005;
+
+/**
+ * Book stock of each grain against the quantity counted.
+ *
+ * All maps are keyed by grainKey. `billStock` is what the bills and transfers
+ * leave in stock, `adjustments` the quantity and valuation adjusted since, and
+ * `counts` the physical count where one was entered. Differences are valued at
+ * `rates` (the grain's average purchase rate).
+ */
+export const buildStockReconciliation = (
+  billStock: Record<string, number>,
+  adjustments: Record<string, {quantity: number; valuation: number}>,
+  counts: Record<string, number>,
+  rates: Record<string, number>,
+  locationId?: string,
+): StockReconciliation => {
+  const keys = new Set([...Object.keys(billStock), ...Object.keys(adjustments), ...Object.keys(counts)]);
+  const lines: StockReconciliationLine[] = [];
+
+  keys.forEach(key => {
+    const bill = billStock[key] || 0;
+    const adjusted = adjustments[key]?.quantity || 0;
+    const book = bill + adjusted;
+    const counted = counts[key];
+    if (Math.abs(book) <= EPSILON && Math.abs(adjusted) <= EPSILON && counted === undefined) return;
+
+    const rate = rates[key] || 0;
+    const difference = counted === undefined ? undefined : round2(counted - book);
+    lines.push({
+      grainType: key.charAt(0).toUpperCase() + key.slice(1),
+      billStock: round2(bill),
+      adjustments: round2(adjusted),
+      bookStock: round2(book),
+      physicalCount: counted,
+      difference,
+      ratePerQuintal: round2(rate),
+      adjustmentValue: round2(adjustments[key]?.valuation || 0),
+      differenceValue: difference === undefined ? undefined : round2(difference * rate),
+    });
+  });
+
+  lines.sort((a, b) => b.bookStock - a.bookStock);
+
+  return {
+    locationId,
+    lines,
+    totalBookStock: round2(lines.reduce((sum, l) => sum + l.bookStock, 0)),
+    totalAdjustmentValue: round2(lines.reduce((sum, l) => sum + l.adjustmentValue, 0)),
+    totalDifferenceValue: round2(lines.reduce((sum, l) => sum + (l.differenceValue || 0), 0)),
+  };
+};
+
+/**
+ * Key physical counts by grain, adding up repeated entries of one grain
+ */
+export const countsByGrain = (counts: Array<{grainType: string; quantity: number}>): Record<string, number> => {
+  const byGrain: Record<string, number> = {};
+  for (const count of counts) {
+    const key = grainKey(count.grainType);
+    if (!key) continue;
+    byGrain[key] = (byGrain[key] || 0) + count.quantity;
+  }
+  return byGrain;
+};
@@ -0,0 +1,111 @@
+/**
+ * Amount and status fields that carry money owed. When both devices change one
+ * of these, neither side is taken silently; the user decides on the conflicts screen.
+ */
+export const FINANCIAL_FIELDS = [
+  'paidAmount',
+  'receivedAmount',
+  'balanceAmount',
+  'returnedAmount',
+  'returnedQuantity',
+  'balanceQuantity',
+  'paymentStatus',
+];
+
+// Identity and bookkeeping fields are never merged
+const IGNORED_FIELDS = ['id', 'transactionType', 'createdAt', 'updatedAt'];
+
+// Line item keys that differ between devices for the same line
+const ITEM_IDENTITY_KEYS = ['id', 'transactionId', 'createdAt', 'updatedAt'];
+
+export interface FieldConflict {
+  field: string;
+  base: any;
+  local: any;
+  remote: any;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: FieldConflict[];
+}
+
+const normalize = (value: any): any => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) {
+    return value.map(entry => {
+      if (!entry || typeof entry !== 'object') return entry;
+      const copy: Record<string, any> = {};
+      Object.keys(entry)
+        .filter(key => !ITEM_IDENTITY_KEYS.includes(key))
+        .sort()
+        .forEach(key => {
+          copy[key] = normalize(entry[key]);
+        });
+      return copy;
+    });
+  }
+  return value;
+};
+
+/**
+ * Field value equality for merging: missing, null and empty string are the same,
+ * and line items compare by content only
+ */
+export const sameFieldValue = (a: any, b: any): boolean => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const mergedFields = (...records: Array<Record<string, any> | null>): string[] => {
+  const fields = new Set<string>();
+  records.forEach(record => {
+    if (record) Object.keys(record).forEach(key => fields.add(key));
+  });
+  return Array.from(fields).filter(field => !IGNORED_FIELDS.includes(field));
+};
+
+/**
+ * True when the two records hold the same values in every mergeable field
+ */
+export const sameRecordContent = (a: Record<string, any>, b: Record<string, any>): boolean =>
+  mergedFields(a, b).every(field => sameFieldValue(a[field], b[field]));
+
+/**
+ * Three-way merge of a record edited on this device (`local`) and on another
+ * device (`remote`), against the last version both agreed on (`base`).
+ *
+ * - A field changed on one side only takes that side's value.
+ * - A field changed on both sides to the same value is kept.
+ * - A financial field changed on both sides keeps the local value and is
+ *   reported in `conflicts`; any other field takes the newer side.
+ *
+ * `items` is merged as one field.
+ */
+export const mergeRecords = <T extends Record<string, any>>(
+  base: Record<string, any>,
+  local: T,
+  remote: Record<string, any>,
+  remoteIsNewer: boolean,
+): MergeResult<T> => {
+  const merged: Record<string, any> = {...local};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of mergedFields(base, local, remote)) {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    if (sameFieldValue(localValue, remoteValue)) continue;
+
+    const localChanged = !sameFieldValue(localValue, base[field]);
+    const remoteChanged = !sameFieldValue(remoteValue, base[field]);
+
+    if (!localChanged) {
+      merged[field] = remoteValue;
+    } else if (!remoteChanged) {
+      continue;
+    } else if (FINANCIAL_FIELDS.includes(field)) {
+      conflicts.push({field, base: base[field], local: localValue, remote: remoteValue});
+    } else if (remoteIsNewer) {
+      merged[field] = remoteValue;
+    }
+  }
+
+  return {merged: merged as T, conflicts};
+};
@@ -0,0 +1,34 @@
+import {SyncOutboxItem} from '../models/SyncOutbox';
+import {SyncLogEntry} from '../services/SyncLogger';
+
+/**
+ * "UPLOAD TRANSACTION 1712345678-abc" style label for an outbox item
+ */
+export const describeOutboxItem = (item: SyncOutboxItem): string =>
+  `${item.operation} ${item.entityType} ${item.entityId}`;
+
+/**
+ * Plain-text sync report for support: outbox state followed by the log, newest entry first.
+ * Timestamps stay in ISO format so reports from different time zones compare directly.
+ */
+export const buildSyncReport = (items: SyncOutboxItem[], logs: SyncLogEntry[], generatedAt: Date = new Date()): string => {
+  const lines: string[] = [`Sync diagnostics generated ${generatedAt.toISOString()}`, ''];
+
+  const pending = items.filter(item => item.status === 'PENDING');
+  const failed = items.filter(item => item.status === 'FAILED');
+
+  lines.push(`Outbox: ${pending.length} pending, ${failed.length} failed`);
+  for (const item of items) {
+    const parts = [`#${item.id}`, item.status, describeOutboxItem(item), `attempts=${item.attempts}`, `queued=${item.createdAt}`];
+    if (item.nextAttemptAt) parts.push(`next=${item.nextAttemptAt}`);
+    lines.push(`  ${parts.join(' ')}`);
+    if (item.lastError) lines.push(`    last error: ${item.lastError}`);
+  }
+
+  lines.push('', `Log (${logs.length} entries)`);
+  for (const entry of logs) {
+    lines.push(`  ${entry.createdAt} ${entry.level} ${entry.message}${entry.meta ? ` ${entry.meta}` : ''}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+};
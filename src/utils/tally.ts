@@ -0,0 +1,406 @@
+import {BuyTransaction, ExpenseTransaction, LendTransaction, SellTransaction} from '../models/Transaction';
+import {Payment} from '../models/Payment';
+import {Expense} from '../models/Expense';
+import {Farmer} from '../models/Farmer';
+import {Merchant} from '../models/Merchant';
+import {Customer} from '../models/Customer';
+import {TallyExport, TallyLedger, TallyLedgerEntry, TallyVoucher, TallyVoucherType} from '../models/Tally';
+import {getReceiptNumber} from './receipt';
+import {summarizeTax} from './gst';
+
+/**
+ * Accounting ledgers the vouchers post to, with the Tally group each is created under.
+ * "Cash" is Tally's default cash ledger and is not created.
+ */
+export const TALLY_LEDGERS = {
+  CASH: {name: 'Cash', parent: 'Cash-in-Hand'},
+  BANK: {name: 'Bank Account', parent: 'Bank Accounts'},
+  PURCHASES: {name: 'Grain Purchases', parent: 'Purchase Accounts'},
+  SALES: {name: 'Grain Sales', parent: 'Sales Accounts'},
+  COMMISSION: {name: 'Commission Received', parent: 'Indirect Incomes'},
+  LABOUR: {name: 'Labour Charges', parent: 'Indirect Expenses'},
+  INTEREST: {name: 'Interest Received', parent: 'Indirect Incomes'},
+  CGST: {name: 'Output CGST', parent: 'Duties & Taxes'},
+  SGST: {name: 'Output SGST', parent: 'Duties & Taxes'},
+  IGST: {name: 'Output IGST', parent: 'Duties & Taxes'},
+  GENERAL_EXPENSES: {name: 'General Expenses', parent: 'Indirect Expenses'},
+};
+
+const PARTY_GROUPS = {
+  CREDITOR: 'Sundry Creditors',
+  DEBTOR: 'Sundry Debtors',
+  LOAN: 'Loans & Advances (Asset)',
+};
+
+export interface TallySource {
+  buys: BuyTransaction[];
+  sells: SellTransaction[];
+  lends: LendTransaction[];
+  payments: Payment[];
+  expenseTransactions: ExpenseTransaction[];
+  expenses: Expense[];
+  farmers: Farmer[];
+  merchants: Merchant[];
+  customers: Customer[];
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toTallyDate = (date: string): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const modeLedger = (mode?: string): string =>
+  mode === 'ONLINE' || mode === 'CHEQUE' ? TALLY_LEDGERS.BANK.name : TALLY_LEDGERS.CASH.name;
+
+/**
+ * Party ledgers are named "Name (phone)" from the farmer, merchant or customer master so that
+ * two parties with the same name stay apart; records without a master use the name on the bill.
+ */
+class PartyLedgers {
+  private masters = new Map<string, string>();
+  readonly used = new Map<string, TallyLedger>();
+
+  constructor(source: TallySource) {
+    source.farmers.forEach(f => this.masters.set(f.phoneNumber, f.name));
+    source.merchants.forEach(m => this.masters.set(m.phoneNumber, m.firmName));
+    source.customers.forEach(c => this.masters.set(c.phoneNumber, c.name));
+  }
+
+  ledgerFor(name: string, phone: string | undefined, parent: string): string {
+    if (phone && !this.masters.has(phone)) {
+      // Without a master the first name seen for the phone is kept
+      this.masters.set(phone, name);
+    }
+    const ledgerName = phone ? `${(this.masters.get(phone) as string).trim()} (${phone})` : name.trim();
+    if (!this.used.has(ledgerName)) {
+      this.used.set(ledgerName, {name: ledgerName, parent});
+    }
+    return ledgerName;
+  }
+}
+
+/**
+ * Convert the records dated within [from, to] into Tally vouchers:
+ *
+ * - Purchase bill: Purchase voucher (Dr Grain Purchases, Cr farmer), plus a Journal for commission
+ *   and labour deducted from the farmer and a Payment for any advance paid with the bill
+ * - Sale bill: Sales voucher (Dr buyer, Cr Grain Sales, commission, labour and output GST), plus a
+ *   Receipt for any amount received with the bill
+ * - Money loan: Payment voucher (Dr borrower, Cr Cash); grain loans have no value and are skipped
+ * - Settlements: Payment (buy) or Receipt (sell, loan; loan interest to Interest Received) through Cash or Bank
+ * - Expenses: Payment voucher to the expense category ledger (or General Expenses)
+ */
+export const buildTallyVouchers = (
+  source: TallySource,
+  from: Date,
+  to: Date,
+): {ledgers: TallyLedger[]; vouchers: TallyVoucher[]; skipped: string[]} => {
+  const inRange = (date: string) => {
+    const d = new Date(date);
+    return d >= from && d <= to;
+  };
+  const parties = new PartyLedgers(source);
+  const accounts = new Map<string, TallyLedger>();
+  const vouchers: TallyVoucher[] = [];
+  const skipped: string[] = [];
+
+  const account = (ledger: TallyLedger): string => {
+    if (ledger.name !== TALLY_LEDGERS.CASH.name) accounts.set(ledger.name, ledger);
+    return ledger.name;
+  };
+  const cashOrBank = (mode?: string): string =>
+    account(modeLedger(mode) === TALLY_LEDGERS.BANK.name ? TALLY_LEDGERS.BANK : TALLY_LEDGERS.CASH);
+
+  const voucher = (
+    type: TallyVoucherType,
+    date: string,
+    narration: string,
+    entries: TallyLedgerEntry[],
+    extra: {number?: string; partyLedger?: string} = {},
+  ) => {
+    const lines = entries.filter(entry => round2(entry.amount) !== 0).map(entry => ({...entry, amount: round2(entry.amount)}));
+    if (lines.length > 0) vouchers.push({type, date, narration, entries: lines, ...extra});
+  };
+
+  const paymentsByTransaction = new Map<string, Payment[]>();
+  source.payments.forEach(p => paymentsByTransaction.set(p.transactionId, [...(paymentsByTransaction.get(p.transactionId) || []), p]));
+  const settledOn = (id: string) => (paymentsByTransaction.get(id) || []).reduce((sum, p) => sum + p.amount, 0);
+
+  const buyParty = (buy: BuyTransaction) => parties.ledgerFor(buy.supplierName, buy.supplierPhone, PARTY_GROUPS.CREDITOR);
+  const sellParty = (sell: SellTransaction) => parties.ledgerFor(sell.buyerName, sell.buyerPhone, PARTY_GROUPS.DEBTOR);
+  const lendParty = (lend: LendTransaction) => parties.ledgerFor(lend.personName, lend.personPhone, PARTY_GROUPS.LOAN);
+
+  for (const buy of source.buys.filter(t => inRange(t.date))) {
+    const number = getReceiptNumber('BUY', buy.id, buy.invoiceNumber);
+    const party = buyParty(buy);
+    const commission = buy.commissionAmount || 0;
+    const labour = buy.labourCharges || 0;
+
+    voucher(
+      'Purchase',
+      buy.date,
+      `${buy.grainType} ${buy.quantity} Qtl @ ${buy.ratePerQuintal}/Qtl${buy.vehicleNumber ? `, vehicle ${buy.vehicleNumber}` : ''}`,
+      [
+        {ledgerName: account(TALLY_LEDGERS.PURCHASES), amount: buy.totalAmount},
+        {ledgerName: party, amount: -buy.totalAmount, isParty: true},
+      ],
+      {number, partyLedger: party},
+    );
+    voucher(
+      'Journal',
+      buy.date,
+      `Commission and labour deducted from purchase ${number}`,
+      [
+        {ledgerName: party, amount: commission + labour, isParty: true},
+        {ledgerName: account(TALLY_LEDGERS.COMMISSION), amount: -commission},
+        {ledgerName: account(TALLY_LEDGERS.LABOUR), amount: -labour},
+      ],
+      {partyLedger: party},
+    );
+    const advance = buy.paidAmount - settledOn(buy.id);
+    if (advance > 0.005) {
+      voucher(
+        'Payment',
+        buy.date,
+        `Advance paid with purchase ${number}`,
+        [
+          {ledgerName: party, amount: advance, isParty: true},
+          {ledgerName: cashOrBank('CASH'), amount: -advance},
+        ],
+        {partyLedger: party},
+      );
+    }
+  }
+
+  for (const sell of source.sells.filter(t => inRange(t.date))) {
+    const number = getReceiptNumber('SELL', sell.id, sell.invoiceNumber);
+    const party = sellParty(sell);
+    const tax = summarizeTax(sell.items || []);
+    const credits: TallyLedgerEntry[] = [
+      {ledgerName: account(TALLY_LEDGERS.SALES), amount: -sell.totalAmount},
+      {ledgerName: account(TALLY_LEDGERS.COMMISSION), amount: -(sell.commissionAmount || 0)},
+      {ledgerName: account(TALLY_LEDGERS.LABOUR), amount: -(sell.labourCharges || 0)},
+    ];
+    if (tax.cgstAmount) credits.push({ledgerName: account(TALLY_LEDGERS.CGST), amount: -tax.cgstAmount});
+    if (tax.sgstAmount) credits.push({ledgerName: account(TALLY_LEDGERS.SGST), amount: -tax.sgstAmount});
+    if (tax.igstAmount) credits.push({ledgerName: account(TALLY_LEDGERS.IGST), amount: -tax.igstAmount});
+    const billTotal = -credits.reduce((sum, entry) => sum + entry.amount, 0);
+
+    voucher(
+      'Sales',
+      sell.date,
+      `${sell.grainType} ${sell.quantity} Qtl @ ${sell.ratePerQuintal}/Qtl${sell.buyerGstin ? `, GSTIN ${sell.buyerGstin}` : ''}`,
+      [{ledgerName: party, amount: billTotal, isParty: true}, ...credits],
+      {number, partyLedger: party},
+    );
+    const receivedWithBill = sell.receivedAmount - settledOn(sell.id);
+    if (receivedWithBill > 0.005) {
+      voucher(
+        'Receipt',
+        sell.date,
+        `Received with sale ${number}`,
+        [
+          {ledgerName: cashOrBank('CASH'), amount: receivedWithBill},
+          {ledgerName: party, amount: -receivedWithBill, isParty: true},
+        ],
+        {partyLedger: party},
+      );
+    }
+  }
+
+  for (const lend of source.lends.filter(t => inRange(t.date))) {
+    const number = getReceiptNumber('LOAN', lend.id, lend.invoiceNumber);
+    if (lend.lendType !== 'MONEY') {
+      skipped.push(`Grain loan ${number} to ${lend.personName} (no money value)`);
+      continue;
+    }
+    const party = lendParty(lend);
+    voucher(
+      'Payment',
+      lend.date,
+      `Loan ${number}${lend.interestRate ? ` at ${lend.interestRate}%` : ''}`,
+      [
+        {ledgerName: party, amount: lend.amount || 0, isParty: true},
+        {ledgerName: cashOrBank('CASH'), amount: -(lend.amount || 0)},
+      ],
+      {partyLedger: party},
+    );
+  }
+
+  const buysById = new Map(source.buys.map(t => [t.id, t]));
+  const sellsById = new Map(source.sells.map(t => [t.id, t]));
+  const lendsById = new Map(source.lends.map(t => [t.id, t]));
+
+  for (const payment of source.payments.filter(p => inRange(p.paymentDate))) {
+    const bank = cashOrBank(payment.paymentMode);
+    const notes = payment.notes ? ` - ${payment.notes}` : '';
+
+    if (payment.transactionType === 'BUY') {
+      const buy = buysById.get(payment.transactionId);
+      if (!buy) {
+        skipped.push(`Payment of ${payment.amount} on ${payment.paymentDate.slice(0, 10)} (purchase not found)`);
+        continue;
+      }
+      const party = buyParty(buy);
+      voucher(
+        'Payment',
+        payment.paymentDate,
+        `Against purchase ${getReceiptNumber('BUY', buy.id, buy.invoiceNumber)}${notes}`,
+        [
+          {ledgerName: party, amount: payment.amount, isParty: true},
+          {ledgerName: bank, amount: -payment.amount},
+        ],
+        {partyLedger: party},
+      );
+    } else if (payment.transactionType === 'SELL') {
+      const sell = sellsById.get(payment.transactionId);
+      if (!sell) {
+        skipped.push(`Receipt of ${payment.amount} on ${payment.paymentDate.slice(0, 10)} (sale not found)`);
+        continue;
+      }
+      const party = sellParty(sell);
+      voucher(
+        'Receipt',
+        payment.paymentDate,
+        `Against sale ${getReceiptNumber('SELL', sell.id, sell.invoiceNumber)}${notes}`,
+        [
+          {ledgerName: bank, amount: payment.amount},
+          {ledgerName: party, amount: -payment.amount, isParty: true},
+        ],
+        {partyLedger: party},
+      );
+    } else {
+      const lend = lendsById.get(payment.transactionId);
+      if (!lend) {
+        skipped.push(`Loan repayment of ${payment.amount} on ${payment.paymentDate.slice(0, 10)} (loan not found)`);
+        continue;
+      }
+      const party = lendParty(lend);
+      const interest = payment.interestAmount || 0;
+      voucher(
+        'Receipt',
+        payment.paymentDate,
+        `Repayment of loan ${getReceiptNumber('LOAN', lend.id, lend.invoiceNumber)}${notes}`,
+        [
+          {ledgerName: bank, amount: payment.amount},
+          {ledgerName: party, amount: -(payment.amount - interest), isParty: true},
+          {ledgerName: account(TALLY_LEDGERS.INTEREST), amount: -interest},
+        ],
+        {partyLedger: party},
+      );
+    }
+  }
+
+  for (const expense of source.expenseTransactions.filter(t => inRange(t.date))) {
+    const category = expense.expenseCategory?.trim();
+    const ledger = category
+      ? account({name: category, parent: TALLY_LEDGERS.GENERAL_EXPENSES.parent})
+      : account(TALLY_LEDGERS.GENERAL_EXPENSES);
+    const details = [expense.paidTo ? `paid to ${expense.paidTo}` : '', expense.receiptNumber ? `receipt ${expense.receiptNumber}` : '']
+      .filter(Boolean)
+      .join(', ');
+    voucher(
+      'Payment',
+      expense.date,
+      `${expense.expenseName}${details ? ` (${details})` : ''}`,
+      [
+        {ledgerName: ledger, amount: expense.amount},
+        {ledgerName: cashOrBank(expense.paymentMode), amount: -expense.amount},
+      ],
+    );
+  }
+
+  for (const expense of source.expenses.filter(t => inRange(t.date))) {
+    voucher('Payment', expense.date, expense.notes || 'Expense', [
+      {ledgerName: account(TALLY_LEDGERS.GENERAL_EXPENSES), amount: expense.amount},
+      {ledgerName: cashOrBank('CASH'), amount: -expense.amount},
+    ]);
+  }
+
+  vouchers.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return {
+    ledgers: [...Array.from(accounts.values()), ...Array.from(parties.used.values())],
+    vouchers,
+    skipped,
+  };
+};
+
+const renderLedger = (ledger: TallyLedger): string => `
+   <TALLYMESSAGE xmlns:UDF="TallyUDF">
+    <LEDGER NAME="${escapeXml(ledger.name)}" ACTION="Create">
+     <NAME.LIST><NAME>${escapeXml(ledger.name)}</NAME></NAME.LIST>
+     <PARENT>${escapeXml(ledger.parent)}</PARENT>
+     <ISBILLWISEON>${ledger.parent === PARTY_GROUPS.CREDITOR || ledger.parent === PARTY_GROUPS.DEBTOR ? 'Yes' : 'No'}</ISBILLWISEON>
+    </LEDGER>
+   </TALLYMESSAGE>`;
+
+// Tally stores debits as negative amounts flagged ISDEEMEDPOSITIVE
+const renderEntry = (entry: TallyLedgerEntry): string => `
+     <ALLLEDGERENTRIES.LIST>
+      <LEDGERNAME>${escapeXml(entry.ledgerName)}</LEDGERNAME>
+      <ISDEEMEDPOSITIVE>${entry.amount > 0 ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>
+      <ISPARTYLEDGER>${entry.isParty ? 'Yes' : 'No'}</ISPARTYLEDGER>
+      <AMOUNT>${(-entry.amount).toFixed(2)}</AMOUNT>
+     </ALLLEDGERENTRIES.LIST>`;
+
+const renderVoucher = (voucher: TallyVoucher): string => `
+   <TALLYMESSAGE xmlns:UDF="TallyUDF">
+    <VOUCHER VCHTYPE="${voucher.type}" ACTION="Create">
+     <DATE>${toTallyDate(voucher.date)}</DATE>
+     <VOUCHERTYPENAME>${voucher.type}</VOUCHERTYPENAME>${
+       voucher.number
+         ? `
+     <VOUCHERNUMBER>${escapeXml(voucher.number)}</VOUCHERNUMBER>
+     <REFERENCE>${escapeXml(voucher.number)}</REFERENCE>`
+         : ''
+     }${voucher.partyLedger ? `
+     <PARTYLEDGERNAME>${escapeXml(voucher.partyLedger)}</PARTYLEDGERNAME>` : ''}
+     <NARRATION>${escapeXml(voucher.narration)}</NARRATION>${voucher.entries.map(renderEntry).join('')}
+    </VOUCHER>
+   </TALLYMESSAGE>`;
+
+/**
+ * Tally "Import Data" envelope: ledger masters first, then the vouchers, for the company `companyName`
+ */
+export const renderTallyXml = (companyName: string, ledgers: TallyLedger[], vouchers: TallyVoucher[]): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+ <HEADER>
+  <TALLYREQUEST>Import Data</TALLYREQUEST>
+ </HEADER>
+ <BODY>
+  <IMPORTDATA>
+   <REQUESTDESC>
+    <REPORTNAME>Vouchers</REPORTNAME>
+    <STATICVARIABLES>
+     <SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>
+    </STATICVARIABLES>
+   </REQUESTDESC>
+   <REQUESTDATA>${ledgers.map(renderLedger).join('')}${vouchers.map(renderVoucher).join('')}
+   </REQUESTDATA>
+  </IMPORTDATA>
+ </BODY>
+</ENVELOPE>
+`;
+
+export const buildTallyExport = (source: TallySource, companyName: string, from: Date, to: Date): TallyExport => {
+  const {ledgers, vouchers, skipped} = buildTallyVouchers(source, from, to);
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    xml: renderTallyXml(companyName, ledgers, vouchers),
+    ledgers,
+    vouchers,
+    skipped,
+  };
+};
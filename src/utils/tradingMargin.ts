@@ -0,0 +1,153 @@
+import {BuyTransaction, SellTransaction} from '../models/Transaction';
+import {LotAllocationResult} from '../models/StockLot';
+import {CostingMethod, GrainMargin, SellMargin, TradingMarginReport} from '../models/TradingMargin';
+import {grainKey} from './stockLots';
+
+const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+// Stock is listed as "Wheat" whatever case the bills used
+const displayGrain = (grainType: string): string => {
+  const key = grainKey(grainType);
+  return key.charAt(0).toUpperCase() + key.slice(1);
+};
+
+/**
+ * Weighted-average purchase rate per quintal of each grain (keyed by grainKey)
+ */
+export const averageCostByGrain = (buys: BuyTransaction[]): Record<string, number> => {
+  const totals: Record<string, {quantity: number; amount: number}> = {};
+  for (const buy of buys) {
+    for (const item of buy.items || []) {
+      if (!(item.quantity > 0)) continue;
+      const key = grainKey(item.grainType);
+      const total = (totals[key] = totals[key] || {quantity: 0, amount: 0});
+      total.quantity += item.quantity;
+      total.amount += item.amount;
+    }
+  }
+
+  const averages: Record<string, number> = {};
+  Object.entries(totals).forEach(([key, total]) => {
+    averages[key] = total.amount / total.quantity;
+  });
+  return averages;
+};
+
+/**
+ * Cost of goods sold and gross margin of the given sales.
+ *
+ * `sells` are the sales of the period; `buys` and `allocation` cover all bills,
+ * because a sale can draw on lots bought before the period. With LOT costing,
+ * quantity no lot covered is costed at the grain's average rate. Quantity of a
+ * grain never bought has no cost, so it is left out of revenue and margin and
+ * only reported as uncosted.
+ */
+export const buildTradingMargin = (
+  sells: SellTransaction[],
+  buys: BuyTransaction[],
+  allocation: LotAllocationResult,
+  method: CostingMethod,
+  startDate: Date,
+  endDate: Date,
+): TradingMarginReport => {
+  const averages = averageCostByGrain(buys);
+  const lotRates = new Map(allocation.lots.map(lot => [lot.id, lot.ratePerQuintal]));
+
+  const lotCost: Record<string, number> = {};
+  const lotQuantity: Record<string, number> = {};
+  for (const a of allocation.allocations) {
+    const key = `${a.sellTransactionId}:${a.sellLineNumber}`;
+    lotCost[key] = (lotCost[key] || 0) + a.quantity * (lotRates.get(a.lotId) || 0);
+    lotQuantity[key] = (lotQuantity[key] || 0) + a.quantity;
+  }
+
+  const grains: Record<string, GrainMargin> = {};
+  const sales: SellMargin[] = [];
+
+  for (const sell of sells) {
+    let revenue = 0;
+    let costOfGoods = 0;
+    let quantity = 0;
+    let uncostedQuantity = 0;
+
+    for (const item of sell.items || []) {
+      const key = grainKey(item.grainType);
+      const average = averages[key];
+      let cost = 0;
+      let uncosted = 0;
+
+      if (method === 'LOT') {
+        const lineKey = `${sell.id}:${item.lineNumber}`;
+        const rest = Math.max(0, item.quantity - (lotQuantity[lineKey] || 0));
+        cost = lotCost[lineKey] || 0;
+        if (rest > 0.005) {
+          if (average !== undefined) cost += rest * average;
+          else uncosted = rest;
+        }
+      } else if (average !== undefined) {
+        cost = item.quantity * average;
+      } else {
+        uncosted = item.quantity;
+      }
+
+      const grain = (grains[key] = grains[key] || {
+        grainType: displayGrain(item.grainType),
+        quantity: 0,
+        revenue: 0,
+        costOfGoods: 0,
+        margin: 0,
+        averageCost: round2(average || 0),
+      });
+      // Only the costed part of the line counts towards the margin
+      const lineRevenue = item.quantity > 0 ? (item.amount * (item.quantity - uncosted)) / item.quantity : 0;
+      grain.quantity += item.quantity;
+      grain.revenue += lineRevenue;
+      grain.costOfGoods += cost;
+
+      revenue += lineRevenue;
+      costOfGoods += cost;
+      quantity += item.quantity;
+      uncostedQuantity += uncosted;
+    }
+
+    sales.push({
+      sellTransactionId: sell.id,
+      buyerName: sell.buyerName,
+      invoiceNumber: sell.invoiceNumber,
+      date: sell.date,
+      grainType: sell.grainType,
+      quantity: round2(quantity),
+      revenue: round2(revenue),
+      costOfGoods: round2(costOfGoods),
+      margin: round2(revenue - costOfGoods),
+      uncostedQuantity: round2(uncostedQuantity),
+    });
+  }
+
+  const byGrain = Object.values(grains)
+    .map(g => ({
+      ...g,
+      quantity: round2(g.quantity),
+      revenue: round2(g.revenue),
+      costOfGoods: round2(g.costOfGoods),
+      margin: round2(g.revenue - g.costOfGoods),
+    }))
+    .sort((a, b) => b.margin - a.margin);
+
+  const revenue = round2(sales.reduce((sum, s) => sum + s.revenue, 0));
+  const costOfGoods = round2(sales.reduce((sum, s) => sum + s.costOfGoods, 0));
+  const margin = round2(revenue - costOfGoods);
+
+  return {
+    method,
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    revenue,
+    costOfGoods,
+    margin,
+    marginPercent: revenue > 0 ? round2((margin / revenue) * 100) : 0,
+    uncostedQuantity: round2(sales.reduce((sum, s) => sum + s.uncostedQuantity, 0)),
+    byGrain,
+    sales: sales.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+  };
+};
@@ -0,0 +1,157 @@
+import {TransactionItemInput} from '../models/TransactionItem';
+
+/**
+ * Header fields of a buy/sell bill, used when a bill has no line-level detail
+ */
+export interface BillHeader {
+  grainType?: string;
+  quantity: number;
+  ratePerQuintal: number;
+  totalAmount: number;
+}
+
+const BILL_OF_SUPPLY_ITEMS_PREFIX = 'BillOfSupplyItems::';
+
+// "[1] Wheat: 9 bags × 50kg + 14kg @ ₹1910/qt" (grain and extra weight are optional)
+const BAGS_LINE_PATTERN = /(?:([^:;]+):)?\s*(\d+)\s*bags\s*(?:x|×)\s*([\d.]+)kg(?:\s*\+\s*([\d.]+)kg)?\s*@\s*₹([\d.]+)\/qt/i;
+
+// "Bill of Supply: Wheat - 9 bags × 50kg @ ₹1910/qt | Arat: ₹1.00, Tulak: ₹2.00, Mandi Shulk: ₹3.00"
+const LEGACY_BILL_OF_SUPPLY_PATTERN = /^Bill of Supply:\s*(.*?)\s*-\s*(\d+)\s*bags\s*(?:x|×)\s*([\d.]+)kg\s*@\s*₹([\d.]+)\/qt/i;
+
+const toNumber = (value: any): number => {
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(n) ? 0 : n;
+};
+
+const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+const matchAmount = (text: string, label: string): number => {
+  const match = text.match(new RegExp(`${label}: ₹([\\d.]+)`));
+  return match ? toNumber(match[1]) : 0;
+};
+
+/**
+ * Parse the `BillOfSupplyItems::<urlencoded JSON>` payload older sell bills stored in description
+ */
+const parseEncodedItems = (description: string): TransactionItemInput[] => {
+  const parsed = JSON.parse(decodeURIComponent(description.slice(BILL_OF_SUPPLY_ITEMS_PREFIX.length)));
+  const rawItems: any[] = Array.isArray(parsed) ? parsed : parsed.items || [];
+  const meta = Array.isArray(parsed) ? {} : parsed.meta || {};
+
+  return rawItems.map(it => {
+    const numberOfBags = toNumber(it.numberOfBags);
+    const weightPerBag = toNumber(it.weightPerBag);
+    const ratePerQuintal = toNumber(it.pricePerQuintal);
+    const quantity = it.quantityQuintal !== undefined ? toNumber(it.quantityQuintal) : (numberOfBags * weightPerBag) / 100;
+    return {
+      grainType: (it.grainType || '').trim(),
+      numberOfBags,
+      weightPerBag,
+      extraWeight: 0,
+      quantity: round2(quantity),
+      ratePerQuintal,
+      amount: it.amount !== undefined ? toNumber(it.amount) : round2(quantity * ratePerQuintal),
+      arat: toNumber(it.arat),
+      tulak: toNumber(it.tulak),
+      mandiShulk: toNumber(it.mandi),
+      aratPercent: meta.aratPercent !== undefined ? toNumber(meta.aratPercent) : undefined,
+      mandiPercent: meta.mandiPercent !== undefined ? toNumber(meta.mandiPercent) : undefined,
+    };
+  });
+};
+
+/**
+ * Build a line from the parts of a "N bags × Wkg + Ekg @ ₹P/qt" description
+ */
+const lineFromBags = (grainType: string, bags: string, weight: string, extra: string | undefined, rate: string): TransactionItemInput => {
+  const numberOfBags = toNumber(bags);
+  const weightPerBag = toNumber(weight);
+  const extraWeight = toNumber(extra);
+  const ratePerQuintal = toNumber(rate);
+  const quantity = (numberOfBags * weightPerBag + extraWeight) / 100;
+  return {
+    grainType: grainType.replace(/^\[\d+\]\s*/, '').trim(),
+    numberOfBags,
+    weightPerBag,
+    extraWeight,
+    quantity: round2(quantity),
+    ratePerQuintal,
+    amount: Math.round(quantity * ratePerQuintal),
+  };
+};
+
+/**
+ * Parse the line items older builds wrote into a bill's description.
+ * Returns null when the description does not describe any lines.
+ */
+export const parseLegacyItemsFromDescription = (description?: string | null): TransactionItemInput[] | null => {
+  if (!description) return null;
+
+  try {
+    if (description.startsWith(BILL_OF_SUPPLY_ITEMS_PREFIX)) {
+      const items = parseEncodedItems(description);
+      return items.length > 0 ? items : null;
+    }
+
+    const legacyBillOfSupply = description.match(LEGACY_BILL_OF_SUPPLY_PATTERN);
+    if (legacyBillOfSupply) {
+      const [, grainType, bags, weight, rate] = legacyBillOfSupply;
+      return [
+        {
+          ...lineFromBags(grainType, bags, weight, undefined, rate),
+          arat: matchAmount(description, 'Arat'),
+          tulak: matchAmount(description, 'Tulak'),
+          mandiShulk: matchAmount(description, 'Mandi Shulk'),
+        },
+      ];
+    }
+
+    const items: TransactionItemInput[] = [];
+    for (const segment of description.split(';')) {
+      const match = segment.match(BAGS_LINE_PATTERN);
+      if (match) {
+        const [, grainType, bags, weight, extra, rate] = match;
+        items.push(lineFromBags(grainType || '', bags, weight, extra, rate));
+      }
+    }
+    return items.length > 0 ? items : null;
+  } catch (error) {
+    console.warn('Failed to parse line items from description:', error);
+    return null;
+  }
+};
+
+/**
+ * A single line mirroring the bill header, for bills recorded without line detail
+ */
+export const itemFromBillHeader = (header: BillHeader): TransactionItemInput => ({
+  grainType: (header.grainType || '').trim(),
+  numberOfBags: 0,
+  weightPerBag: 0,
+  extraWeight: 0,
+  quantity: header.quantity,
+  ratePerQuintal: header.ratePerQuintal,
+  amount: header.totalAmount,
+});
+
+/**
+ * Line items for a bill that predates the transaction_items table: parsed from its
+ * description when possible, otherwise one line mirroring the header.
+ * `fromDescription` tells the caller the description only carried item data.
+ */
+export const deriveLegacyItems = (
+  header: BillHeader,
+  description?: string | null,
+): {items: TransactionItemInput[]; fromDescription: boolean} => {
+  const parsed = parseLegacyItemsFromDescription(description);
+  if (!parsed) {
+    return {items: [itemFromBillHeader(header)], fromDescription: false};
+  }
+
+  const items = parsed.map(item => ({...item, grainType: item.grainType || (header.grainType || '').trim()}));
+  // A single free-text line can drift from the header through rounding; the header total is authoritative
+  if (items.length === 1 && !description?.startsWith(BILL_OF_SUPPLY_ITEMS_PREFIX)) {
+    items[0].amount = header.totalAmount;
+  }
+  return {items, fromDescription: true};
+};
@@ -0,0 +1,202 @@
+import {
+  BuyTransaction,
+  ExpenseTransaction,
+  LendTransaction,
+  PaymentStatus,
+  SellTransaction,
+} from '../models/Transaction';
+import {Expense} from '../models/Expense';
+import {Payment} from '../models/Payment';
+import {TransactionItem} from '../models/TransactionItem';
+import {SpreadsheetCell, SpreadsheetSheet} from '../models/Spreadsheet';
+import {formatDateTime} from './helpers';
+
+const STATUS_LABELS: Record<PaymentStatus, string> = {
+  [PaymentStatus.PENDING]: 'Pending',
+  [PaymentStatus.PARTIAL]: 'Partial',
+  [PaymentStatus.COMPLETED]: 'Settled',
+};
+
+const SELL_BILL_LABELS: Record<string, string> = {
+  NORMAL: 'Normal',
+  BILL_OF_SUPPLY: 'Bill of Supply',
+  TAX_INVOICE: 'Tax Invoice',
+};
+
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+const stamp = (value?: string): string => (value ? formatDateTime(value) : '');
+
+// "Wheat 10 Qtl @ 2200; Bajra 4 Qtl @ 1900" for bills with more than one grain line
+const describeItems = (items?: TransactionItem[]): string =>
+  items && items.length > 1
+    ? items.map(item => `${item.grainType} ${item.quantity} Qtl @ ${item.ratePerQuintal}`).join('; ')
+    : '';
+
+const sheet = <T>(name: string, columns: [string, (row: T) => SpreadsheetCell][], records: T[]): SpreadsheetSheet => ({
+  name,
+  columns: columns.map(([header]) => header),
+  rows: records.map(record => columns.map(([, value]) => value(record))),
+});
+
+/**
+ * Purchases with the deductions and the farmer's net payable
+ */
+export const buildBuySheet = (transactions: BuyTransaction[], name = 'Buy'): SpreadsheetSheet =>
+  sheet<BuyTransaction>(
+    name,
+    [
+      ['Date', t => toDate(t.date)],
+      ['Bill No', t => t.invoiceNumber],
+      ['Farmer', t => t.supplierName],
+      ['Phone', t => t.supplierPhone],
+      ['Grain', t => t.grainType],
+      ['Items', t => describeItems(t.items)],
+      ['Quantity (Qtl)', t => t.quantity],
+      ['Rate/Qtl', t => t.ratePerQuintal],
+      ['Total Amount', t => t.totalAmount],
+      ['Commission', t => t.commissionAmount || 0],
+      ['Labour Charges', t => t.labourCharges || 0],
+      ['Labour Settled', t => !!t.labourChargesSettled],
+      ['Net Payable', t => t.totalAmount - (t.commissionAmount || 0) - (t.labourCharges || 0)],
+      ['Paid', t => t.paidAmount],
+      ['Balance', t => t.balanceAmount],
+      ['Payment Status', t => STATUS_LABELS[t.paymentStatus] || t.paymentStatus],
+      ['Vehicle No', t => t.vehicleNumber],
+      ['Description', t => t.description],
+      ['ID', t => t.id],
+      ['Created', t => stamp(t.createdAt)],
+      ['Updated', t => stamp(t.updatedAt)],
+    ],
+    transactions,
+  );
+
+/**
+ * Sales with the additions, GST and the buyer's net receivable
+ */
+export const buildSellSheet = (transactions: SellTransaction[], name = 'Sell'): SpreadsheetSheet =>
+  sheet<SellTransaction>(
+    name,
+    [
+      ['Date', t => toDate(t.date)],
+      ['Bill No', t => t.invoiceNumber],
+      ['Bill Type', t => SELL_BILL_LABELS[t.billType || 'NORMAL']],
+      ['Buyer', t => t.buyerName],
+      ['Phone', t => t.buyerPhone],
+      ['Buyer GSTIN', t => t.buyerGstin],
+      ['Place of Supply', t => t.placeOfSupply],
+      ['Grain', t => t.grainType],
+      ['Items', t => describeItems(t.items)],
+      ['Quantity (Qtl)', t => t.quantity],
+      ['Rate/Qtl', t => t.ratePerQuintal],
+      ['Total Amount', t => t.totalAmount],
+      ['Commission', t => t.commissionAmount || 0],
+      ['Labour Charges', t => t.labourCharges || 0],
+      ['GST', t => t.taxAmount || 0],
+      ['Net Receivable', t => t.totalAmount + (t.commissionAmount || 0) + (t.labourCharges || 0) + (t.taxAmount || 0)],
+      ['Received', t => t.receivedAmount],
+      ['Balance', t => t.balanceAmount],
+      ['Payment Status', t => STATUS_LABELS[t.paymentStatus] || t.paymentStatus],
+      ['Vehicle No', t => t.vehicleNumber],
+      ['Description', t => t.description],
+      ['ID', t => t.id],
+      ['Created', t => stamp(t.createdAt)],
+      ['Updated', t => stamp(t.updatedAt)],
+    ],
+    transactions,
+  );
+
+/**
+ * Money and grain loans with their interest terms and outstanding balance
+ */
+export const buildLendSheet = (transactions: LendTransaction[], name = 'Lend'): SpreadsheetSheet =>
+  sheet<LendTransaction>(
+    name,
+    [
+      ['Date', t => toDate(t.date)],
+      ['Bill No', t => t.invoiceNumber],
+      ['Person', t => t.personName],
+      ['Phone', t => t.personPhone],
+      ['Type', t => (t.lendType === 'MONEY' ? 'Money' : 'Grain')],
+      ['Amount', t => t.amount],
+      ['Grain', t => t.grainType],
+      ['Quantity (Qtl)', t => t.quantity],
+      ['Expected Return', t => toDate(t.expectedReturnDate)],
+      ['Returned Amount', t => t.returnedAmount],
+      ['Returned Qty', t => t.returnedQuantity],
+      ['Balance Amount', t => t.balanceAmount],
+      ['Balance Qty', t => t.balanceQuantity],
+      ['Payment Status', t => STATUS_LABELS[t.paymentStatus] || t.paymentStatus],
+      ['Interest Rate %', t => t.interestRate || 0],
+      ['Interest Period', t => t.interestPeriod],
+      ['Interest Type', t => t.interestType],
+      ['Grace Days', t => t.graceDays || 0],
+      ['Penal Rate %', t => t.penalRate || 0],
+      ['Compounding Months', t => t.compoundingMonths || 0],
+      ['Description', t => t.description],
+      ['ID', t => t.id],
+      ['Created', t => stamp(t.createdAt)],
+      ['Updated', t => stamp(t.updatedAt)],
+    ],
+    transactions,
+  );
+
+export const buildExpenseTransactionSheet = (
+  transactions: ExpenseTransaction[],
+  name = 'Expense Transactions',
+): SpreadsheetSheet =>
+  sheet<ExpenseTransaction>(
+    name,
+    [
+      ['Date', t => toDate(t.date)],
+      ['Category', t => t.expenseCategory],
+      ['Expense', t => t.expenseName],
+      ['Amount', t => t.amount],
+      ['Paid To', t => t.paidTo],
+      ['Payment Mode', t => t.paymentMode],
+      ['Receipt No', t => t.receiptNumber],
+      ['Description', t => t.description],
+      ['ID', t => t.id],
+      ['Created', t => stamp(t.createdAt)],
+      ['Updated', t => stamp(t.updatedAt)],
+    ],
+    transactions,
+  );
+
+/**
+ * Daily expenses (the Expenses list)
+ */
+export const buildExpenseSheet = (expenses: Expense[], name = 'Expenses'): SpreadsheetSheet =>
+  sheet<Expense>(
+    name,
+    [
+      ['Date', e => toDate(e.date)],
+      ['Amount', e => e.amount],
+      ['Notes', e => e.notes],
+      ['ID', e => e.id],
+      ['Created', e => stamp(e.createdAt)],
+      ['Updated', e => stamp(e.updatedAt)],
+    ],
+    expenses,
+  );
+
+/**
+ * Settlements against buy, sell and lend transactions
+ */
+export const buildPaymentSheet = (payments: Payment[], name = 'Payments'): SpreadsheetSheet =>
+  sheet<Payment>(
+    name,
+    [
+      ['Date', p => toDate(p.paymentDate)],
+      ['For', p => p.transactionType],
+      ['Transaction ID', p => p.transactionId],
+      ['Amount', p => p.amount],
+      ['Principal', p => (p.transactionType === 'LEND' ? p.principalAmount || 0 : undefined)],
+      ['Interest', p => (p.transactionType === 'LEND' ? p.interestAmount || 0 : undefined)],
+      ['Payment Mode', p => p.paymentMode],
+      ['Notes', p => p.notes],
+      ['ID', p => p.id],
+      ['Created', p => stamp(p.createdAt)],
+    ],
+    payments,
+  );